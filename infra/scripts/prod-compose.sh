@@ -35,6 +35,8 @@ POSTGRES_DB="$(get_env_value POSTGRES_DB)"
 POSTGRES_PASSWORD="$(get_env_value POSTGRES_PASSWORD)"
 RESERVE_ADMIN_EMAIL="$(get_env_value RESERVE_ADMIN_EMAIL)"
 RESERVE_ADMIN_PASSWORD="$(get_env_value RESERVE_ADMIN_PASSWORD)"
+REALTIME_DB_ENC_KEY="$(get_env_value REALTIME_DB_ENC_KEY)"
+REALTIME_SECRET_KEY_BASE="$(get_env_value REALTIME_SECRET_KEY_BASE)"
 
 POSTGRES_USER="${POSTGRES_USER:-postgres}"
 POSTGRES_DB="${POSTGRES_DB:-postgres}"
@@ -45,6 +47,11 @@ if [[ -z "$RESERVE_ADMIN_EMAIL" || -z "$RESERVE_ADMIN_PASSWORD" ]]; then
   exit 1
 fi
 
+if [[ ${#REALTIME_DB_ENC_KEY} -ne 16 || ${#REALTIME_SECRET_KEY_BASE} -lt 64 ]]; then
+  echo "REALTIME_DB_ENC_KEY (16 characters) and REALTIME_SECRET_KEY_BASE (64+ characters) are required in production." >&2
+  exit 1
+fi
+
 export COMPOSE_MENU=0
 
 docker compose -f "$compose_file" --env-file "$env_file" up -d db
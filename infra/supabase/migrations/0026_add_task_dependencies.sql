@@ -0,0 +1,73 @@
+create table if not exists public.task_dependencies (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  predecessor_id uuid not null references public.tasks(id) on delete cascade,
+  successor_id uuid not null references public.tasks(id) on delete cascade,
+  type text not null default 'finish_to_start',
+  created_at timestamptz not null default now(),
+  constraint task_dependencies_type_check check (type in ('finish_to_start', 'start_to_start')),
+  constraint task_dependencies_not_self check (predecessor_id <> successor_id)
+);
+
+create unique index if not exists task_dependencies_pair_key
+  on public.task_dependencies (predecessor_id, successor_id);
+
+create index if not exists task_dependencies_workspace_id_idx
+  on public.task_dependencies (workspace_id);
+
+create index if not exists task_dependencies_successor_id_idx
+  on public.task_dependencies (successor_id);
+
+alter table public.task_dependencies enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_dependencies'
+      and policyname = 'workspace members can read task dependencies'
+  ) then
+    create policy "workspace members can read task dependencies" on public.task_dependencies
+      for select using (public.is_workspace_member(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_dependencies'
+      and policyname = 'workspace editors can write task dependencies'
+  ) then
+    create policy "workspace editors can write task dependencies" on public.task_dependencies
+      for insert with check (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_dependencies'
+      and policyname = 'workspace editors can update task dependencies'
+  ) then
+    create policy "workspace editors can update task dependencies" on public.task_dependencies
+      for update using (public.is_workspace_editor(workspace_id)) with check (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_dependencies'
+      and policyname = 'workspace editors can delete task dependencies'
+  ) then
+    create policy "workspace editors can delete task dependencies" on public.task_dependencies
+      for delete using (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
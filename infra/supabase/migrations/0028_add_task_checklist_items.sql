@@ -0,0 +1,84 @@
+create table if not exists public.task_checklist_items (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  title text not null,
+  is_done boolean not null default false,
+  assignee_id uuid references public.assignees(id) on delete set null,
+  due_date date,
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_checklist_items_task_id_idx
+  on public.task_checklist_items (task_id, position);
+
+create index if not exists task_checklist_items_workspace_id_idx
+  on public.task_checklist_items (workspace_id);
+
+alter table public.task_checklist_items enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_checklist_items'
+      and policyname = 'workspace members can read task checklist items'
+  ) then
+    create policy "workspace members can read task checklist items" on public.task_checklist_items
+      for select using (public.is_workspace_member(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_checklist_items'
+      and policyname = 'workspace editors can write task checklist items'
+  ) then
+    create policy "workspace editors can write task checklist items" on public.task_checklist_items
+      for insert with check (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_checklist_items'
+      and policyname = 'workspace editors can update task checklist items'
+  ) then
+    create policy "workspace editors can update task checklist items" on public.task_checklist_items
+      for update using (public.is_workspace_editor(workspace_id)) with check (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_checklist_items'
+      and policyname = 'workspace editors can delete task checklist items'
+  ) then
+    create policy "workspace editors can delete task checklist items" on public.task_checklist_items
+      for delete using (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = 'task_checklist_items'
+    ) then
+    alter publication supabase_realtime add table public.task_checklist_items;
+  end if;
+end $$;
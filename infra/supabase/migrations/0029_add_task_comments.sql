@@ -0,0 +1,89 @@
+create table if not exists public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  author_id uuid not null default auth.uid() references public.profiles(id) on delete cascade,
+  body text not null,
+  mention_ids uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists task_comments_task_id_idx
+  on public.task_comments (task_id, created_at);
+
+create index if not exists task_comments_workspace_id_idx
+  on public.task_comments (workspace_id);
+
+drop trigger if exists task_comments_set_updated_at on public.task_comments;
+create trigger task_comments_set_updated_at
+  before update on public.task_comments
+  for each row execute function public.set_updated_at();
+
+alter table public.task_comments enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_comments'
+      and policyname = 'workspace members can read task comments'
+  ) then
+    create policy "workspace members can read task comments" on public.task_comments
+      for select using (public.is_workspace_member(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_comments'
+      and policyname = 'workspace members can add task comments'
+  ) then
+    create policy "workspace members can add task comments" on public.task_comments
+      for insert with check (public.is_workspace_member(workspace_id) and author_id = auth.uid());
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_comments'
+      and policyname = 'comment authors can update their comments'
+  ) then
+    create policy "comment authors can update their comments" on public.task_comments
+      for update using (public.is_workspace_member(workspace_id) and author_id = auth.uid())
+      with check (public.is_workspace_member(workspace_id) and author_id = auth.uid());
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_comments'
+      and policyname = 'comment authors can delete their comments'
+  ) then
+    create policy "comment authors can delete their comments" on public.task_comments
+      for delete using (public.is_workspace_member(workspace_id) and author_id = auth.uid());
+  end if;
+end $$;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = 'task_comments'
+    ) then
+    alter publication supabase_realtime add table public.task_comments;
+  end if;
+end $$;
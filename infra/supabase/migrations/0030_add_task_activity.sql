@@ -0,0 +1,112 @@
+create table if not exists public.task_activity (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  actor_id uuid references public.profiles(id) on delete set null,
+  field text not null,
+  old_value jsonb,
+  new_value jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_activity_task_id_idx
+  on public.task_activity (task_id, created_at desc);
+
+create index if not exists task_activity_workspace_id_idx
+  on public.task_activity (workspace_id);
+
+alter table public.task_activity enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_activity'
+      and policyname = 'workspace members can read task activity'
+  ) then
+    create policy "workspace members can read task activity" on public.task_activity
+      for select using (public.is_workspace_member(workspace_id));
+  end if;
+end $$;
+
+-- Rows are written only by the trigger below; clients get no write policies.
+create or replace function public.log_task_activity()
+returns trigger as $$
+declare
+  actor uuid := auth.uid();
+begin
+  if tg_op = 'INSERT' then
+    insert into public.task_activity (workspace_id, task_id, actor_id, field, new_value)
+    values (new.workspace_id, new.id, actor, 'created', to_jsonb(new.title));
+    return new;
+  end if;
+
+  if new.status_id is distinct from old.status_id then
+    insert into public.task_activity (workspace_id, task_id, actor_id, field, old_value, new_value)
+    values (new.workspace_id, new.id, actor, 'status', to_jsonb(old.status_id), to_jsonb(new.status_id));
+  end if;
+
+  if new.start_date is distinct from old.start_date or new.end_date is distinct from old.end_date then
+    insert into public.task_activity (workspace_id, task_id, actor_id, field, old_value, new_value)
+    values (
+      new.workspace_id,
+      new.id,
+      actor,
+      'dates',
+      jsonb_build_object('start', old.start_date, 'end', old.end_date),
+      jsonb_build_object('start', new.start_date, 'end', new.end_date)
+    );
+  end if;
+
+  if new.assignee_ids is distinct from old.assignee_ids then
+    insert into public.task_activity (workspace_id, task_id, actor_id, field, old_value, new_value)
+    values (new.workspace_id, new.id, actor, 'assignees', to_jsonb(old.assignee_ids), to_jsonb(new.assignee_ids));
+  end if;
+
+  if new.project_id is distinct from old.project_id then
+    insert into public.task_activity (workspace_id, task_id, actor_id, field, old_value, new_value)
+    values (new.workspace_id, new.id, actor, 'project', to_jsonb(old.project_id), to_jsonb(new.project_id));
+  end if;
+
+  if new.priority is distinct from old.priority then
+    insert into public.task_activity (workspace_id, task_id, actor_id, field, old_value, new_value)
+    values (new.workspace_id, new.id, actor, 'priority', to_jsonb(old.priority), to_jsonb(new.priority));
+  end if;
+
+  if new.tag_ids is distinct from old.tag_ids then
+    insert into public.task_activity (workspace_id, task_id, actor_id, field, old_value, new_value)
+    values (new.workspace_id, new.id, actor, 'tags', to_jsonb(old.tag_ids), to_jsonb(new.tag_ids));
+  end if;
+
+  if new.title is distinct from old.title then
+    insert into public.task_activity (workspace_id, task_id, actor_id, field, old_value, new_value)
+    values (new.workspace_id, new.id, actor, 'title', to_jsonb(old.title), to_jsonb(new.title));
+  end if;
+
+  if new.description is distinct from old.description then
+    insert into public.task_activity (workspace_id, task_id, actor_id, field, old_value, new_value)
+    values (new.workspace_id, new.id, actor, 'description', to_jsonb(old.description), to_jsonb(new.description));
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public set row_security = off;
+
+drop trigger if exists tasks_log_activity on public.tasks;
+create trigger tasks_log_activity
+  after insert or update on public.tasks
+  for each row execute function public.log_task_activity();
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = 'task_activity'
+    ) then
+    alter publication supabase_realtime add table public.task_activity;
+  end if;
+end $$;
@@ -0,0 +1,206 @@
+alter table public.tasks
+  add column if not exists estimate_hours numeric(7, 2)
+  check (estimate_hours is null or estimate_hours >= 0);
+
+create table if not exists public.time_entries (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  assignee_id uuid not null references public.assignees(id) on delete cascade,
+  entry_date date not null,
+  hours numeric(5, 2) not null check (hours > 0 and hours <= 24),
+  note text,
+  created_by uuid default auth.uid() references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists time_entries_task_id_idx
+  on public.time_entries (task_id, entry_date);
+
+create index if not exists time_entries_assignee_date_idx
+  on public.time_entries (workspace_id, assignee_id, entry_date);
+
+alter table public.time_entries enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'time_entries'
+      and policyname = 'workspace members can read time entries'
+  ) then
+    create policy "workspace members can read time entries" on public.time_entries
+      for select using (public.is_workspace_member(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'time_entries'
+      and policyname = 'workspace editors can write time entries'
+  ) then
+    create policy "workspace editors can write time entries" on public.time_entries
+      for insert with check (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'time_entries'
+      and policyname = 'workspace editors can update time entries'
+  ) then
+    create policy "workspace editors can update time entries" on public.time_entries
+      for update using (public.is_workspace_editor(workspace_id)) with check (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'time_entries'
+      and policyname = 'workspace editors can delete time entries'
+  ) then
+    create policy "workspace editors can delete time entries" on public.time_entries
+      for delete using (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+-- Dashboard counts also report hours: the estimate is split evenly between assignees,
+-- logged hours are the entries inside the period (per assignee on assignee rows).
+drop function if exists public.dashboard_task_counts(uuid, date, date);
+create or replace function public.dashboard_task_counts(
+  p_workspace_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+returns table (
+  assignee_id uuid,
+  assignee_name text,
+  project_id uuid,
+  project_name text,
+  status_id uuid,
+  status_name text,
+  status_is_final boolean,
+  total bigint,
+  estimated_hours numeric,
+  logged_hours numeric
+)
+language plpgsql
+security definer
+set search_path = public
+set row_security = off
+as $$
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'not allowed';
+  end if;
+
+  return query
+  select
+    assignee_link.assignee_id as assignee_id,
+    a.name as assignee_name,
+    p.id as project_id,
+    p.name as project_name,
+    s.id as status_id,
+    s.name as status_name,
+    s.is_final as status_is_final,
+    count(t.id)::bigint as total,
+    coalesce(sum(
+      coalesce(t.estimate_hours, 0) / greatest(coalesce(array_length(t.assignee_ids, 1), 0), 1)
+    ), 0)::numeric as estimated_hours,
+    coalesce(sum(logged.hours), 0)::numeric as logged_hours
+  from public.tasks t
+  join public.statuses s on s.id = t.status_id
+  left join public.projects p on p.id = t.project_id
+  left join lateral (
+    select unnest(
+      case
+        when t.assignee_ids is not null and array_length(t.assignee_ids, 1) > 0 then t.assignee_ids
+        when t.assignee_id is not null then array[t.assignee_id]
+        else array[null::uuid]
+      end
+    ) as assignee_id
+  ) assignee_link on true
+  left join public.assignees a on a.id = assignee_link.assignee_id
+  left join lateral (
+    select sum(te.hours) as hours
+    from public.time_entries te
+    where te.task_id = t.id
+      and te.entry_date between p_start_date and p_end_date
+      and (assignee_link.assignee_id is null or te.assignee_id = assignee_link.assignee_id)
+  ) logged on true
+  where t.workspace_id = p_workspace_id
+    and t.start_date <= p_end_date
+    and t.end_date >= p_start_date
+  group by assignee_link.assignee_id, a.name, p.id, p.name, s.id, s.name, s.is_final;
+end;
+$$;
+
+grant execute on function public.dashboard_task_counts(uuid, date, date) to authenticated;
+
+drop function if exists public.dashboard_task_counts_base(uuid, date, date);
+create or replace function public.dashboard_task_counts_base(
+  p_workspace_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+returns table (
+  assignee_id uuid,
+  assignee_name text,
+  project_id uuid,
+  project_name text,
+  status_id uuid,
+  status_name text,
+  status_is_final boolean,
+  total bigint,
+  estimated_hours numeric,
+  logged_hours numeric
+)
+language plpgsql
+security definer
+set search_path = public
+set row_security = off
+as $$
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'not allowed';
+  end if;
+
+  return query
+  select
+    null::uuid as assignee_id,
+    null::text as assignee_name,
+    p.id as project_id,
+    p.name as project_name,
+    s.id as status_id,
+    s.name as status_name,
+    s.is_final as status_is_final,
+    count(distinct t.id)::bigint as total,
+    coalesce(sum(coalesce(t.estimate_hours, 0)), 0)::numeric as estimated_hours,
+    coalesce(sum(logged.hours), 0)::numeric as logged_hours
+  from public.tasks t
+  join public.statuses s on s.id = t.status_id
+  left join public.projects p on p.id = t.project_id
+  left join lateral (
+    select sum(te.hours) as hours
+    from public.time_entries te
+    where te.task_id = t.id
+      and te.entry_date between p_start_date and p_end_date
+  ) logged on true
+  where t.workspace_id = p_workspace_id
+    and t.start_date <= p_end_date
+    and t.end_date >= p_start_date
+  group by p.id, p.name, s.id, s.name, s.is_final;
+end;
+$$;
+
+grant execute on function public.dashboard_task_counts_base(uuid, date, date) to authenticated;
@@ -0,0 +1,3 @@
+alter table public.assignees
+  add column if not exists capacity_hours numeric(4, 2) not null default 8
+  check (capacity_hours >= 0 and capacity_hours <= 24);
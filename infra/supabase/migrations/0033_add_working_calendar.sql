@@ -0,0 +1,77 @@
+create table if not exists public.workspace_calendars (
+  workspace_id uuid primary key references public.workspaces(id) on delete cascade,
+  country_code text,
+  weekend_days smallint[] not null default '{0,6}',
+  updated_at timestamptz not null default now(),
+  constraint workspace_calendars_weekend_days_check check (weekend_days <@ '{0,1,2,3,4,5,6}'::smallint[])
+);
+
+drop trigger if exists workspace_calendars_set_updated_at on public.workspace_calendars;
+create trigger workspace_calendars_set_updated_at
+  before update on public.workspace_calendars
+  for each row execute function public.set_updated_at();
+
+create table if not exists public.workspace_calendar_days (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  date date not null,
+  kind text not null check (kind in ('holiday', 'workday')),
+  name text,
+  created_at timestamptz not null default now(),
+  unique (workspace_id, date)
+);
+
+alter table public.workspace_calendars enable row level security;
+alter table public.workspace_calendar_days enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'workspace_calendars'
+      and policyname = 'workspace members can read calendar'
+  ) then
+    create policy "workspace members can read calendar" on public.workspace_calendars
+      for select using (public.is_workspace_member(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'workspace_calendars'
+      and policyname = 'workspace admins can manage calendar'
+  ) then
+    create policy "workspace admins can manage calendar" on public.workspace_calendars
+      for all using (public.is_workspace_admin(workspace_id)) with check (public.is_workspace_admin(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'workspace_calendar_days'
+      and policyname = 'workspace members can read calendar days'
+  ) then
+    create policy "workspace members can read calendar days" on public.workspace_calendar_days
+      for select using (public.is_workspace_member(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'workspace_calendar_days'
+      and policyname = 'workspace admins can manage calendar days'
+  ) then
+    create policy "workspace admins can manage calendar days" on public.workspace_calendar_days
+      for all using (public.is_workspace_admin(workspace_id)) with check (public.is_workspace_admin(workspace_id));
+  end if;
+end $$;
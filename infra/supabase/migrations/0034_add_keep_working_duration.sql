@@ -0,0 +1,2 @@
+alter table public.workspace_calendars
+  add column if not exists keep_working_duration boolean not null default false;
@@ -0,0 +1,131 @@
+-- Full-text search over tasks and projects. The 'simple' configuration keeps
+-- Russian and English words as typed (no stemming), search terms match as prefixes.
+create or replace function public.strip_html(value text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(
+    replace(regexp_replace(coalesce(value, ''), '<[^>]*>', ' ', 'g'), '&nbsp;', ' '),
+    '\s+', ' ', 'g'
+  );
+$$;
+
+-- Expression indexes instead of stored columns, so `select *` payloads stay the same.
+create or replace function public.task_search_vector(title text, description text)
+returns tsvector
+language sql
+immutable
+as $$
+  select setweight(to_tsvector('simple', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('simple', public.strip_html(description)), 'B');
+$$;
+
+create or replace function public.project_search_vector(name text, code text)
+returns tsvector
+language sql
+immutable
+as $$
+  select setweight(to_tsvector('simple', coalesce(name, '') || ' ' || coalesce(code, '')), 'A');
+$$;
+
+create index if not exists tasks_search_idx
+  on public.tasks using gin (public.task_search_vector(title, description));
+
+create index if not exists projects_search_idx
+  on public.projects using gin (public.project_search_vector(name, code));
+
+-- Runs as the caller, so table RLS applies on top of the membership check.
+create or replace function public.search_workspace(
+  p_workspace_id uuid,
+  p_query text,
+  p_limit integer default 20
+)
+returns table (
+  kind text,
+  id uuid,
+  title text,
+  subtitle text,
+  project_id uuid,
+  start_date date,
+  end_date date,
+  rank real
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_query tsquery;
+  v_text text := lower(trim(coalesce(p_query, '')));
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'not allowed';
+  end if;
+
+  select to_tsquery('simple', string_agg(term || ':*', ' & '))
+    into v_query
+  from regexp_split_to_table(v_text, '[^[:alnum:]]+') as term
+  where term <> '';
+
+  if v_query is null then
+    return;
+  end if;
+
+  return query
+  (
+    select
+      'task'::text,
+      t.id,
+      t.title,
+      p.name,
+      t.project_id,
+      t.start_date,
+      t.end_date,
+      ts_rank(public.task_search_vector(t.title, t.description), v_query)
+    from public.tasks t
+    left join public.projects p on p.id = t.project_id
+    where t.workspace_id = p_workspace_id
+      and public.task_search_vector(t.title, t.description) @@ v_query
+    order by 8 desc, t.start_date desc
+    limit p_limit
+  )
+  union all
+  (
+    select
+      'project'::text,
+      p.id,
+      p.name,
+      p.code,
+      p.id,
+      null::date,
+      null::date,
+      ts_rank(public.project_search_vector(p.name, p.code), v_query)
+    from public.projects p
+    where p.workspace_id = p_workspace_id
+      and public.project_search_vector(p.name, p.code) @@ v_query
+    order by 8 desc, p.name
+    limit p_limit
+  )
+  union all
+  (
+    select
+      'member'::text,
+      a.id,
+      a.name,
+      null::text,
+      null::uuid,
+      null::date,
+      null::date,
+      0::real
+    from public.assignees a
+    where a.workspace_id = p_workspace_id
+      and strpos(lower(a.name), v_text) > 0
+    order by a.name
+    limit p_limit
+  );
+end;
+$$;
+
+grant execute on function public.search_workspace(uuid, text, integer) to authenticated;
@@ -0,0 +1,89 @@
+create table if not exists public.planner_views (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  owner_id uuid not null default auth.uid() references public.profiles(id) on delete cascade,
+  name text not null check (char_length(trim(name)) > 0),
+  filters jsonb not null default '{}'::jsonb,
+  view_mode text not null default 'week' check (view_mode in ('day', 'week', 'calendar')),
+  group_mode text not null default 'assignee' check (group_mode in ('assignee', 'project')),
+  anchor_date date,
+  is_shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists planner_views_workspace_id_idx
+  on public.planner_views (workspace_id);
+
+drop trigger if exists planner_views_set_updated_at on public.planner_views;
+create trigger planner_views_set_updated_at
+  before update on public.planner_views
+  for each row execute function public.set_updated_at();
+
+alter table public.planner_views enable row level security;
+
+-- Personal views are visible to their owner only, shared ones to the whole workspace.
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'planner_views'
+      and policyname = 'members can read own and shared views'
+  ) then
+    create policy "members can read own and shared views" on public.planner_views
+      for select using (
+        public.is_workspace_member(workspace_id)
+        and (is_shared or owner_id = auth.uid())
+      );
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'planner_views'
+      and policyname = 'members can create own views'
+  ) then
+    create policy "members can create own views" on public.planner_views
+      for insert with check (public.is_workspace_member(workspace_id) and owner_id = auth.uid());
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'planner_views'
+      and policyname = 'owners and admins can update views'
+  ) then
+    create policy "owners and admins can update views" on public.planner_views
+      for update using (
+        public.is_workspace_member(workspace_id)
+        and (owner_id = auth.uid() or (is_shared and public.is_workspace_admin(workspace_id)))
+      )
+      with check (
+        public.is_workspace_member(workspace_id)
+        and (owner_id = auth.uid() or (is_shared and public.is_workspace_admin(workspace_id)))
+      );
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'planner_views'
+      and policyname = 'owners and admins can delete views'
+  ) then
+    create policy "owners and admins can delete views" on public.planner_views
+      for delete using (
+        public.is_workspace_member(workspace_id)
+        and (owner_id = auth.uid() or (is_shared and public.is_workspace_admin(workspace_id)))
+      );
+  end if;
+end $$;
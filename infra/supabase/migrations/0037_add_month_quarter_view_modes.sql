@@ -0,0 +1,7 @@
+-- Saved planner views can store the month and quarter zoom levels.
+alter table public.planner_views
+  drop constraint if exists planner_views_view_mode_check;
+
+alter table public.planner_views
+  add constraint planner_views_view_mode_check
+  check (view_mode in ('day', 'week', 'month', 'quarter', 'calendar'));
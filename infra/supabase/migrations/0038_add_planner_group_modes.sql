@@ -0,0 +1,17 @@
+-- Saved planner views can store the new grouping modes.
+alter table public.planner_views
+  drop constraint if exists planner_views_group_mode_check;
+
+alter table public.planner_views
+  add constraint planner_views_group_mode_check
+  check (group_mode in (
+    'assignee',
+    'project',
+    'status',
+    'type',
+    'tag',
+    'customer',
+    'group',
+    'customer_project',
+    'group_assignee'
+  ));
@@ -0,0 +1,73 @@
+-- Manual order and pinned rows of the planner sidebar, per user and workspace.
+create table if not exists public.planner_row_orders (
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  group_mode text not null check (group_mode in ('assignee', 'project')),
+  row_ids uuid[] not null default '{}',
+  pinned_ids uuid[] not null default '{}',
+  updated_at timestamptz not null default now(),
+  primary key (workspace_id, user_id, group_mode)
+);
+
+create index if not exists planner_row_orders_workspace_user_idx
+  on public.planner_row_orders (workspace_id, user_id);
+
+drop trigger if exists planner_row_orders_set_updated_at on public.planner_row_orders;
+create trigger planner_row_orders_set_updated_at
+  before update on public.planner_row_orders
+  for each row execute function public.set_updated_at();
+
+alter table public.planner_row_orders enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'planner_row_orders'
+      and policyname = 'users can read own row orders'
+  ) then
+    create policy "users can read own row orders" on public.planner_row_orders
+      for select using (public.is_workspace_member(workspace_id) and user_id = auth.uid());
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'planner_row_orders'
+      and policyname = 'users can insert own row orders'
+  ) then
+    create policy "users can insert own row orders" on public.planner_row_orders
+      for insert with check (public.is_workspace_member(workspace_id) and user_id = auth.uid());
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'planner_row_orders'
+      and policyname = 'users can update own row orders'
+  ) then
+    create policy "users can update own row orders" on public.planner_row_orders
+      for update using (public.is_workspace_member(workspace_id) and user_id = auth.uid())
+      with check (public.is_workspace_member(workspace_id) and user_id = auth.uid());
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'planner_row_orders'
+      and policyname = 'users can delete own row orders'
+  ) then
+    create policy "users can delete own row orders" on public.planner_row_orders
+      for delete using (public.is_workspace_member(workspace_id) and user_id = auth.uid());
+  end if;
+end $$;
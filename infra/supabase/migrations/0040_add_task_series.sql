@@ -0,0 +1,85 @@
+-- Recurring tasks are stored as a series with an iCalendar RRULE instead of materialised copies.
+-- Occurrences are expanded on read; an edited occurrence becomes a regular task with repeat_id = series id
+-- and its date is added to exdates. Older copies created before the series table keep their repeat_id.
+create table if not exists public.task_series (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  rrule text not null,
+  start_date date not null,
+  duration_days integer not null default 0 check (duration_days >= 0),
+  exdates date[] not null default '{}',
+  title text not null,
+  project_id uuid references public.projects(id) on delete set null,
+  assignee_ids uuid[] not null default '{}',
+  status_id uuid not null references public.statuses(id),
+  type_id uuid not null references public.task_types(id),
+  priority text,
+  tag_ids uuid[] not null default '{}',
+  description text,
+  estimate_hours numeric(7, 2),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists task_series_workspace_id_idx
+  on public.task_series (workspace_id);
+
+drop trigger if exists task_series_set_updated_at on public.task_series;
+create trigger task_series_set_updated_at
+  before update on public.task_series
+  for each row execute function public.set_updated_at();
+
+alter table public.task_series enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_series'
+      and policyname = 'workspace members can read task series'
+  ) then
+    create policy "workspace members can read task series" on public.task_series
+      for select using (public.is_workspace_member(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_series'
+      and policyname = 'workspace editors can write task series'
+  ) then
+    create policy "workspace editors can write task series" on public.task_series
+      for insert with check (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_series'
+      and policyname = 'workspace editors can update task series'
+  ) then
+    create policy "workspace editors can update task series" on public.task_series
+      for update using (public.is_workspace_editor(workspace_id))
+      with check (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_series'
+      and policyname = 'workspace editors can delete task series'
+  ) then
+    create policy "workspace editors can delete task series" on public.task_series
+      for delete using (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
@@ -0,0 +1,98 @@
+-- Named presets for the Add Task dialog. Dates are stored relative: duration_days from the chosen start date,
+-- and repeat rules without UNTIL (the end is kept as COUNT).
+create table if not exists public.task_templates (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  owner_id uuid not null default auth.uid() references public.profiles(id) on delete cascade,
+  name text not null check (char_length(trim(name)) > 0),
+  title text not null default '',
+  project_id uuid references public.projects(id) on delete set null,
+  assignee_ids uuid[] not null default '{}',
+  status_id uuid references public.statuses(id) on delete set null,
+  type_id uuid references public.task_types(id) on delete set null,
+  priority text,
+  tag_ids uuid[] not null default '{}',
+  description text,
+  estimate_hours numeric(7, 2),
+  duration_days integer not null default 0 check (duration_days >= 0),
+  rrule text,
+  is_shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists task_templates_workspace_id_idx
+  on public.task_templates (workspace_id);
+
+drop trigger if exists task_templates_set_updated_at on public.task_templates;
+create trigger task_templates_set_updated_at
+  before update on public.task_templates
+  for each row execute function public.set_updated_at();
+
+alter table public.task_templates enable row level security;
+
+-- Same visibility as saved views: personal templates for their owner, shared ones for the whole workspace.
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_templates'
+      and policyname = 'members can read own and shared task templates'
+  ) then
+    create policy "members can read own and shared task templates" on public.task_templates
+      for select using (
+        public.is_workspace_member(workspace_id)
+        and (is_shared or owner_id = auth.uid())
+      );
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_templates'
+      and policyname = 'members can create own task templates'
+  ) then
+    create policy "members can create own task templates" on public.task_templates
+      for insert with check (public.is_workspace_member(workspace_id) and owner_id = auth.uid());
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_templates'
+      and policyname = 'owners and admins can update task templates'
+  ) then
+    create policy "owners and admins can update task templates" on public.task_templates
+      for update using (
+        public.is_workspace_member(workspace_id)
+        and (owner_id = auth.uid() or (is_shared and public.is_workspace_admin(workspace_id)))
+      )
+      with check (
+        public.is_workspace_member(workspace_id)
+        and (owner_id = auth.uid() or (is_shared and public.is_workspace_admin(workspace_id)))
+      );
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'task_templates'
+      and policyname = 'owners and admins can delete task templates'
+  ) then
+    create policy "owners and admins can delete task templates" on public.task_templates
+      for delete using (
+        public.is_workspace_member(workspace_id)
+        and (owner_id = auth.uid() or (is_shared and public.is_workspace_admin(workspace_id)))
+      );
+  end if;
+end $$;
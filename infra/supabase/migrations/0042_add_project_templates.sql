@@ -0,0 +1,144 @@
+-- Project templates keep a task plan as JSON: tasks with day offsets from the project start, durations,
+-- types and role placeholders, plus milestones with offsets. Dates and assignees are resolved by the client.
+create table if not exists public.project_templates (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  name text not null check (char_length(trim(name)) > 0),
+  color text not null default '#3b82f6',
+  tasks jsonb not null default '[]'::jsonb,
+  milestones jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists project_templates_workspace_id_idx
+  on public.project_templates (workspace_id);
+
+drop trigger if exists project_templates_set_updated_at on public.project_templates;
+create trigger project_templates_set_updated_at
+  before update on public.project_templates
+  for each row execute function public.set_updated_at();
+
+alter table public.project_templates enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'project_templates'
+      and policyname = 'workspace members can read project templates'
+  ) then
+    create policy "workspace members can read project templates" on public.project_templates
+      for select using (public.is_workspace_member(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'project_templates'
+      and policyname = 'workspace editors can write project templates'
+  ) then
+    create policy "workspace editors can write project templates" on public.project_templates
+      for insert with check (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'project_templates'
+      and policyname = 'workspace editors can update project templates'
+  ) then
+    create policy "workspace editors can update project templates" on public.project_templates
+      for update using (public.is_workspace_editor(workspace_id))
+      with check (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'project_templates'
+      and policyname = 'workspace editors can delete project templates'
+  ) then
+    create policy "workspace editors can delete project templates" on public.project_templates
+      for delete using (public.is_workspace_editor(workspace_id));
+  end if;
+end $$;
+
+-- Creates a project with its tasks and milestones in one transaction: a failed insert leaves nothing behind.
+-- Runs as the caller, so the usual row level security of projects, tasks and milestones applies.
+create or replace function public.create_project_with_plan(
+  target_workspace_id uuid,
+  project jsonb,
+  tasks jsonb,
+  milestones jsonb
+)
+returns uuid as $$
+declare
+  new_project_id uuid;
+begin
+  if not public.is_workspace_editor(target_workspace_id) then
+    raise exception 'only editors can create projects';
+  end if;
+
+  insert into public.projects (workspace_id, name, code, color, customer_id)
+  values (
+    target_workspace_id,
+    project->>'name',
+    nullif(project->>'code', ''),
+    project->>'color',
+    nullif(project->>'customer_id', '')::uuid
+  )
+  returning id into new_project_id;
+
+  insert into public.tasks (
+    workspace_id,
+    project_id,
+    title,
+    start_date,
+    end_date,
+    status_id,
+    type_id,
+    priority,
+    tag_ids,
+    description,
+    estimate_hours,
+    assignee_ids
+  )
+  select
+    target_workspace_id,
+    new_project_id,
+    item->>'title',
+    (item->>'start_date')::date,
+    (item->>'end_date')::date,
+    (item->>'status_id')::uuid,
+    (item->>'type_id')::uuid,
+    item->>'priority',
+    array(select jsonb_array_elements_text(coalesce(item->'tag_ids', '[]'::jsonb)))::uuid[],
+    item->>'description',
+    (item->>'estimate_hours')::numeric,
+    array(select jsonb_array_elements_text(coalesce(item->'assignee_ids', '[]'::jsonb)))::uuid[]
+  from jsonb_array_elements(coalesce(tasks, '[]'::jsonb)) as item;
+
+  insert into public.milestones (workspace_id, project_id, date, title)
+  select
+    target_workspace_id,
+    new_project_id,
+    (item->>'date')::date,
+    item->>'title'
+  from jsonb_array_elements(coalesce(milestones, '[]'::jsonb)) as item;
+
+  return new_project_id;
+end;
+$$ language plpgsql security invoker set search_path = public;
+
+grant execute on function public.create_project_with_plan(uuid, jsonb, jsonb, jsonb) to authenticated;
@@ -0,0 +1,5 @@
+alter table public.tasks
+  add column if not exists milestone_id uuid references public.milestones(id) on delete set null;
+
+create index if not exists tasks_milestone_id_idx
+  on public.tasks (milestone_id);
@@ -0,0 +1,100 @@
+-- Undo of a task delete re-inserts the task row with the same id, but the FK cascade has
+-- already removed its checklist, comments, time entries and activity. Those rows are kept
+-- here when a task is deleted and put back when a task with the same id comes back.
+-- No foreign keys: the rows outlive the task, and a cascading workspace delete must not fail.
+create table if not exists public.task_trash (
+  task_id uuid primary key,
+  workspace_id uuid not null,
+  checklist_items jsonb not null default '[]'::jsonb,
+  comments jsonb not null default '[]'::jsonb,
+  time_entries jsonb not null default '[]'::jsonb,
+  activity jsonb not null default '[]'::jsonb,
+  deleted_at timestamptz not null default now()
+);
+
+create index if not exists task_trash_deleted_at_idx
+  on public.task_trash (deleted_at);
+
+-- Only the triggers below touch the table; clients get no policies.
+alter table public.task_trash enable row level security;
+
+create or replace function public.archive_task_children()
+returns trigger as $$
+begin
+  -- Undo lives in the browser session; older snapshots are of no use.
+  delete from public.task_trash where deleted_at < now() - interval '1 day';
+
+  -- The whole workspace is going away: nothing to restore into.
+  if not exists (select 1 from public.workspaces where id = old.workspace_id) then
+    return old;
+  end if;
+
+  insert into public.task_trash (task_id, workspace_id, checklist_items, comments, time_entries, activity)
+  values (
+    old.id,
+    old.workspace_id,
+    coalesce((select jsonb_agg(to_jsonb(c)) from public.task_checklist_items c where c.task_id = old.id), '[]'::jsonb),
+    coalesce((select jsonb_agg(to_jsonb(c)) from public.task_comments c where c.task_id = old.id), '[]'::jsonb),
+    coalesce((select jsonb_agg(to_jsonb(e)) from public.time_entries e where e.task_id = old.id), '[]'::jsonb),
+    coalesce((select jsonb_agg(to_jsonb(a)) from public.task_activity a where a.task_id = old.id), '[]'::jsonb)
+  )
+  on conflict (task_id) do update set
+    workspace_id = excluded.workspace_id,
+    checklist_items = excluded.checklist_items,
+    comments = excluded.comments,
+    time_entries = excluded.time_entries,
+    activity = excluded.activity,
+    deleted_at = excluded.deleted_at;
+
+  return old;
+end;
+$$ language plpgsql security definer set search_path = public set row_security = off;
+
+drop trigger if exists tasks_archive_children on public.tasks;
+create trigger tasks_archive_children
+  before delete on public.tasks
+  for each row execute function public.archive_task_children();
+
+create or replace function public.restore_task_children()
+returns trigger as $$
+declare
+  trash public.task_trash%rowtype;
+begin
+  delete from public.task_trash
+  where task_id = new.id and workspace_id = new.workspace_id
+  returning * into trash;
+  if not found then
+    return new;
+  end if;
+
+  -- The restored task keeps its old history instead of a fresh "created" entry.
+  delete from public.task_activity where task_id = new.id;
+  insert into public.task_activity
+  select * from jsonb_populate_recordset(null::public.task_activity, trash.activity);
+
+  insert into public.task_checklist_items
+    (id, workspace_id, task_id, title, is_done, assignee_id, due_date, position, created_at)
+  select item.id, item.workspace_id, item.task_id, item.title, item.is_done,
+    case when exists (select 1 from public.assignees a where a.id = item.assignee_id) then item.assignee_id end,
+    item.due_date, item.position, item.created_at
+  from jsonb_populate_recordset(null::public.task_checklist_items, trash.checklist_items) item;
+
+  insert into public.task_comments
+  select comment.*
+  from jsonb_populate_recordset(null::public.task_comments, trash.comments) comment
+  where exists (select 1 from public.profiles p where p.id = comment.author_id);
+
+  insert into public.time_entries
+  select entry.*
+  from jsonb_populate_recordset(null::public.time_entries, trash.time_entries) entry
+  where exists (select 1 from public.assignees a where a.id = entry.assignee_id);
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public set row_security = off;
+
+-- Runs after tasks_log_activity (triggers fire in name order), so it can drop the "created" entry.
+drop trigger if exists tasks_restore_children on public.tasks;
+create trigger tasks_restore_children
+  after insert on public.tasks
+  for each row execute function public.restore_task_children();
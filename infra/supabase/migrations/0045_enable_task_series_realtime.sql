@@ -0,0 +1,12 @@
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = 'task_series'
+    ) then
+    alter publication supabase_realtime add table public.task_series;
+  end if;
+end $$;
@@ -0,0 +1,37 @@
+-- The write policies only check the role in workspace_id, so a dependency could point at
+-- tasks of another workspace. Both tasks must belong to the dependency's workspace.
+-- Self-links are already rejected by task_dependencies_not_self; the trigger repeats it
+-- so both cases fail with a readable message.
+delete from public.task_dependencies d
+where not exists (
+    select 1 from public.tasks t
+    where t.id = d.predecessor_id and t.workspace_id = d.workspace_id
+  )
+  or not exists (
+    select 1 from public.tasks t
+    where t.id = d.successor_id and t.workspace_id = d.workspace_id
+  );
+
+create or replace function public.check_task_dependency_workspace()
+returns trigger as $$
+begin
+  if new.predecessor_id = new.successor_id then
+    raise exception 'A task cannot depend on itself.' using errcode = 'check_violation';
+  end if;
+
+  if (
+    select count(*) from public.tasks
+    where id in (new.predecessor_id, new.successor_id)
+      and workspace_id = new.workspace_id
+  ) <> 2 then
+    raise exception 'Both tasks of a dependency must belong to its workspace.' using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public set row_security = off;
+
+drop trigger if exists task_dependencies_check_workspace on public.task_dependencies;
+create trigger task_dependencies_check_workspace
+  before insert or update on public.task_dependencies
+  for each row execute function public.check_task_dependency_workspace();
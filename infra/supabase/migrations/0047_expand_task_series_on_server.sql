@@ -0,0 +1,656 @@
+-- Recurring tasks have no rows in tasks until an occurrence is edited (see 0040). Pages, dashboards
+-- and search that read tasks directly go through workspace_tasks(), which adds the unedited occurrences
+-- of every series, expanded here the same way the planner expands them (src/features/planner/lib/recurrence.ts).
+
+-- Occurrence dates of an RRULE between p_from and p_to (inclusive). Supports the planner subset:
+-- FREQ, INTERVAL, BYDAY (nth weekday for monthly rules), COUNT and UNTIL; anything else yields nothing.
+create or replace function public.task_series_dates(
+  p_rrule text,
+  p_start_date date,
+  p_from date,
+  p_to date
+)
+returns setof date
+language plpgsql
+immutable
+as $$
+declare
+  v_weekdays constant text[] := array['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+  v_part text;
+  v_key text;
+  v_value text;
+  v_freq text;
+  v_interval integer := 1;
+  v_byday text[] := '{}';
+  v_count integer;
+  v_until date;
+  v_month_position integer;
+  v_month_weekday integer;
+  v_range_end date;
+  v_index integer := 0;
+  v_produced integer := 0;
+  v_period_start date;
+  v_dates date[];
+  v_date date;
+  v_offset integer;
+begin
+  foreach v_part in array string_to_array(upper(regexp_replace(trim(p_rrule), '^RRULE:', '', 'i')), ';') loop
+    v_key := split_part(v_part, '=', 1);
+    v_value := split_part(v_part, '=', 2);
+    case v_key
+      when 'FREQ' then v_freq := v_value;
+      when 'INTERVAL' then v_interval := v_value::integer;
+      when 'COUNT' then v_count := v_value::integer;
+      when 'UNTIL' then v_until := to_date(left(v_value, 8), 'YYYYMMDD');
+      when 'BYDAY' then v_byday := string_to_array(v_value, ',');
+      else return;
+    end case;
+  end loop;
+
+  if v_freq is null or v_freq not in ('DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY') or v_interval < 1 then
+    return;
+  end if;
+
+  if v_freq = 'MONTHLY' and cardinality(v_byday) = 1 then
+    v_month_position := substring(v_byday[1] from '^(-?[0-9])')::integer;
+    v_month_weekday := array_position(v_weekdays, right(v_byday[1], 2));
+  end if;
+
+  v_range_end := case when v_until is not null and v_until < p_to then v_until else p_to end;
+  if v_range_end < p_start_date or v_range_end < p_from then
+    return;
+  end if;
+
+  -- Without COUNT nothing before the window needs counting, so jump close to it.
+  if v_count is null and p_from > p_start_date then
+    v_index := greatest(0, floor((case v_freq
+      when 'DAILY' then p_from - p_start_date
+      when 'WEEKLY' then (date_trunc('week', p_from::timestamp)::date - date_trunc('week', p_start_date::timestamp)::date) / 7
+      when 'MONTHLY' then (extract(year from p_from)::integer - extract(year from p_start_date)::integer) * 12
+        + extract(month from p_from)::integer - extract(month from p_start_date)::integer
+      else extract(year from p_from)::integer - extract(year from p_start_date)::integer
+    end)::numeric / v_interval)::integer - 1);
+  end if;
+
+  loop
+    v_dates := '{}';
+    case v_freq
+      when 'DAILY' then
+        v_period_start := p_start_date + v_index * v_interval;
+        if cardinality(v_byday) = 0 or v_weekdays[extract(isodow from v_period_start)::integer] = any(v_byday) then
+          v_dates := array[v_period_start];
+        end if;
+      when 'WEEKLY' then
+        v_period_start := date_trunc('week', p_start_date::timestamp)::date + v_index * v_interval * 7;
+        select coalesce(array_agg(v_period_start + day_index - 1 order by day_index), '{}')
+          into v_dates
+        from generate_series(1, 7) as day_index
+        where v_weekdays[day_index] = any(
+          case
+            when cardinality(v_byday) > 0 then v_byday
+            else array[v_weekdays[extract(isodow from p_start_date)::integer]]
+          end
+        );
+      when 'MONTHLY' then
+        v_period_start := (date_trunc('month', p_start_date::timestamp) + make_interval(months => v_index * v_interval))::date;
+        if v_month_position is not null and v_month_position < 0 then
+          v_date := (v_period_start + interval '1 month')::date - 1;
+          v_offset := (extract(isodow from v_date)::integer - v_month_weekday + 7) % 7;
+          v_dates := array[v_date - v_offset];
+        elsif v_month_position is not null then
+          v_offset := (v_month_weekday - extract(isodow from v_period_start)::integer + 7) % 7;
+          v_date := v_period_start + v_offset + (v_month_position - 1) * 7;
+          if date_trunc('month', v_date::timestamp) = v_period_start::timestamp then
+            v_dates := array[v_date];
+          end if;
+        else
+          -- As in RFC 5545, months without this day (the 31st, February 30) are skipped.
+          v_date := v_period_start + (extract(day from p_start_date)::integer - 1);
+          if date_trunc('month', v_date::timestamp) = v_period_start::timestamp then
+            v_dates := array[v_date];
+          end if;
+        end if;
+      else
+        v_period_start := make_date(extract(year from p_start_date)::integer + v_index * v_interval, 1, 1);
+        v_date := make_date(extract(year from v_period_start)::integer, extract(month from p_start_date)::integer, 1)
+          + (extract(day from p_start_date)::integer - 1);
+        if extract(month from v_date) = extract(month from p_start_date) then
+          v_dates := array[v_date];
+        end if;
+    end case;
+
+    exit when v_period_start > v_range_end;
+    foreach v_date in array v_dates loop
+      continue when v_date < p_start_date;
+      if v_date > v_range_end then
+        return;
+      end if;
+      v_produced := v_produced + 1;
+      if v_count is not null and v_produced > v_count then
+        return;
+      end if;
+      if v_date >= p_from then
+        return next v_date;
+      end if;
+    end loop;
+    v_index := v_index + 1;
+  end loop;
+end;
+$$;
+
+-- Tasks of the workspace plus the unedited occurrences that overlap p_from..p_to. Occurrence ids
+-- are 'occurrence:<series id>:<date>', as in the planner. Open-ended series stop 90 days ahead
+-- when no end is given. Runs as the caller, so table RLS applies.
+create or replace function public.workspace_tasks(
+  p_workspace_id uuid,
+  p_from date default null,
+  p_to date default null
+)
+returns table (
+  id text,
+  workspace_id uuid,
+  title text,
+  project_id uuid,
+  assignee_id uuid,
+  assignee_ids uuid[],
+  start_date date,
+  end_date date,
+  status_id uuid,
+  type_id uuid,
+  priority text,
+  tag_ids uuid[],
+  description text,
+  repeat_id uuid,
+  estimate_hours numeric,
+  milestone_id uuid
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    t.id::text,
+    t.workspace_id,
+    t.title,
+    t.project_id,
+    t.assignee_id,
+    t.assignee_ids,
+    t.start_date,
+    t.end_date,
+    t.status_id,
+    t.type_id,
+    t.priority,
+    t.tag_ids,
+    t.description,
+    t.repeat_id,
+    t.estimate_hours,
+    t.milestone_id
+  from public.tasks t
+  where t.workspace_id = p_workspace_id
+  union all
+  select
+    'occurrence:' || s.id || ':' || to_char(d.date, 'YYYY-MM-DD'),
+    s.workspace_id,
+    s.title,
+    s.project_id,
+    s.assignee_ids[1],
+    s.assignee_ids,
+    d.date,
+    d.date + s.duration_days,
+    s.status_id,
+    s.type_id,
+    s.priority,
+    s.tag_ids,
+    s.description,
+    s.id,
+    s.estimate_hours,
+    null::uuid
+  from public.task_series s
+  -- An occurrence that starts before the window may still reach into it.
+  cross join lateral public.task_series_dates(
+    s.rrule,
+    s.start_date,
+    coalesce(p_from - s.duration_days, s.start_date),
+    coalesce(p_to, current_date + 90)
+  ) as d(date)
+  where s.workspace_id = p_workspace_id
+    and not (d.date = any(s.exdates));
+$$;
+
+grant execute on function public.workspace_tasks(uuid, date, date) to authenticated;
+
+-- Editing an occurrence turns it into a task row. The date joins exdates and the row is inserted in one
+-- transaction; when the date is already excluded (someone else edited it first) nothing is written.
+create or replace function public.materialize_task_occurrence(
+  p_workspace_id uuid,
+  p_date date,
+  p_task jsonb
+)
+returns setof public.tasks
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_task public.tasks := jsonb_populate_record(null::public.tasks, p_task);
+begin
+  update public.task_series
+  set exdates = array_append(exdates, p_date)
+  where id = v_task.repeat_id
+    and workspace_id = p_workspace_id
+    and not (p_date = any(exdates));
+  if not found then
+    return;
+  end if;
+
+  return query
+  insert into public.tasks (
+    id, workspace_id, title, project_id, assignee_id, assignee_ids, start_date, end_date,
+    status_id, type_id, priority, tag_ids, description, repeat_id, estimate_hours, milestone_id
+  )
+  values (
+    v_task.id, p_workspace_id, v_task.title, v_task.project_id, v_task.assignee_id,
+    coalesce(v_task.assignee_ids, '{}'), v_task.start_date, v_task.end_date,
+    v_task.status_id, v_task.type_id, v_task.priority, coalesce(v_task.tag_ids, '{}'),
+    v_task.description, v_task.repeat_id, v_task.estimate_hours, v_task.milestone_id
+  )
+  returning *;
+end;
+$$;
+
+grant execute on function public.materialize_task_occurrence(uuid, date, jsonb) to authenticated;
+
+-- Adds and removes exclusion dates against the stored array, so concurrent editors keep each other's dates.
+create or replace function public.update_task_series_exdates(
+  p_workspace_id uuid,
+  p_series_id uuid,
+  p_add date[] default '{}',
+  p_remove date[] default '{}'
+)
+returns setof public.task_series
+language sql
+security invoker
+set search_path = public
+as $$
+  update public.task_series s
+  set exdates = array(
+    select distinct d
+    from unnest(s.exdates || p_add) as d
+    where d <> all(p_remove)
+    order by d
+  )
+  where s.id = p_series_id
+    and s.workspace_id = p_workspace_id
+  returning s.*;
+$$;
+
+grant execute on function public.update_task_series_exdates(uuid, uuid, date[], date[]) to authenticated;
+
+create or replace function public.dashboard_task_counts(
+  p_workspace_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+returns table (
+  assignee_id uuid,
+  assignee_name text,
+  project_id uuid,
+  project_name text,
+  status_id uuid,
+  status_name text,
+  status_is_final boolean,
+  total bigint,
+  estimated_hours numeric,
+  logged_hours numeric
+)
+language plpgsql
+security definer
+set search_path = public
+set row_security = off
+as $$
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'not allowed';
+  end if;
+
+  return query
+  select
+    assignee_link.assignee_id as assignee_id,
+    a.name as assignee_name,
+    p.id as project_id,
+    p.name as project_name,
+    s.id as status_id,
+    s.name as status_name,
+    s.is_final as status_is_final,
+    count(t.id)::bigint as total,
+    coalesce(sum(
+      coalesce(t.estimate_hours, 0) / greatest(coalesce(array_length(t.assignee_ids, 1), 0), 1)
+    ), 0)::numeric as estimated_hours,
+    coalesce(sum(logged.hours), 0)::numeric as logged_hours
+  from public.workspace_tasks(p_workspace_id, p_start_date, p_end_date) t
+  join public.statuses s on s.id = t.status_id
+  left join public.projects p on p.id = t.project_id
+  left join lateral (
+    select unnest(
+      case
+        when t.assignee_ids is not null and array_length(t.assignee_ids, 1) > 0 then t.assignee_ids
+        when t.assignee_id is not null then array[t.assignee_id]
+        else array[null::uuid]
+      end
+    ) as assignee_id
+  ) assignee_link on true
+  left join public.assignees a on a.id = assignee_link.assignee_id
+  left join lateral (
+    select sum(te.hours) as hours
+    from public.time_entries te
+    where te.task_id::text = t.id
+      and te.entry_date between p_start_date and p_end_date
+      and (assignee_link.assignee_id is null or te.assignee_id = assignee_link.assignee_id)
+  ) logged on true
+  where t.start_date <= p_end_date
+    and t.end_date >= p_start_date
+  group by assignee_link.assignee_id, a.name, p.id, p.name, s.id, s.name, s.is_final;
+end;
+$$;
+
+create or replace function public.dashboard_task_counts_base(
+  p_workspace_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+returns table (
+  assignee_id uuid,
+  assignee_name text,
+  project_id uuid,
+  project_name text,
+  status_id uuid,
+  status_name text,
+  status_is_final boolean,
+  total bigint,
+  estimated_hours numeric,
+  logged_hours numeric
+)
+language plpgsql
+security definer
+set search_path = public
+set row_security = off
+as $$
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'not allowed';
+  end if;
+
+  return query
+  select
+    null::uuid as assignee_id,
+    null::text as assignee_name,
+    p.id as project_id,
+    p.name as project_name,
+    s.id as status_id,
+    s.name as status_name,
+    s.is_final as status_is_final,
+    count(distinct t.id)::bigint as total,
+    coalesce(sum(coalesce(t.estimate_hours, 0)), 0)::numeric as estimated_hours,
+    coalesce(sum(logged.hours), 0)::numeric as logged_hours
+  from public.workspace_tasks(p_workspace_id, p_start_date, p_end_date) t
+  join public.statuses s on s.id = t.status_id
+  left join public.projects p on p.id = t.project_id
+  left join lateral (
+    select sum(te.hours) as hours
+    from public.time_entries te
+    where te.task_id::text = t.id
+      and te.entry_date between p_start_date and p_end_date
+  ) logged on true
+  where t.start_date <= p_end_date
+    and t.end_date >= p_start_date
+  group by p.id, p.name, s.id, s.name, s.is_final;
+end;
+$$;
+
+create or replace function public.dashboard_task_time_series(
+  p_workspace_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+returns table (
+  bucket_date date,
+  assignee_id uuid,
+  assignee_name text,
+  project_id uuid,
+  project_name text,
+  status_id uuid,
+  status_name text,
+  status_is_final boolean,
+  total bigint
+)
+language plpgsql
+security definer
+set search_path = public
+set row_security = off
+as $$
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'not allowed';
+  end if;
+
+  return query
+  with dates as (
+    select generate_series(p_start_date, p_end_date, interval '1 day')::date as bucket_date
+  ),
+  period_tasks as (
+    select * from public.workspace_tasks(p_workspace_id, p_start_date, p_end_date)
+  )
+  select
+    d.bucket_date,
+    assignee_link.assignee_id as assignee_id,
+    a.name as assignee_name,
+    p.id as project_id,
+    p.name as project_name,
+    s.id as status_id,
+    s.name as status_name,
+    s.is_final as status_is_final,
+    count(t.id)::bigint as total
+  from dates d
+  join period_tasks t on t.start_date <= d.bucket_date
+    and t.end_date >= d.bucket_date
+  join public.statuses s on s.id = t.status_id
+  left join public.projects p on p.id = t.project_id
+  left join lateral (
+    select unnest(
+      case
+        when t.assignee_ids is not null and array_length(t.assignee_ids, 1) > 0 then t.assignee_ids
+        when t.assignee_id is not null then array[t.assignee_id]
+        else array[null::uuid]
+      end
+    ) as assignee_id
+  ) assignee_link on true
+  left join public.assignees a on a.id = assignee_link.assignee_id
+  group by d.bucket_date, assignee_link.assignee_id, a.name, p.id, p.name, s.id, s.name, s.is_final;
+end;
+$$;
+
+create or replace function public.dashboard_task_time_series_base(
+  p_workspace_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+returns table (
+  bucket_date date,
+  assignee_id uuid,
+  assignee_name text,
+  project_id uuid,
+  project_name text,
+  status_id uuid,
+  status_name text,
+  status_is_final boolean,
+  total bigint
+)
+language plpgsql
+security definer
+set search_path = public
+set row_security = off
+as $$
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'not allowed';
+  end if;
+
+  return query
+  with dates as (
+    select generate_series(p_start_date, p_end_date, interval '1 day')::date as bucket_date
+  ),
+  period_tasks as (
+    select * from public.workspace_tasks(p_workspace_id, p_start_date, p_end_date)
+  )
+  select
+    d.bucket_date,
+    null::uuid as assignee_id,
+    null::text as assignee_name,
+    p.id as project_id,
+    p.name as project_name,
+    s.id as status_id,
+    s.name as status_name,
+    s.is_final as status_is_final,
+    count(distinct t.id)::bigint as total
+  from dates d
+  join period_tasks t on t.start_date <= d.bucket_date
+    and t.end_date >= d.bucket_date
+  join public.statuses s on s.id = t.status_id
+  left join public.projects p on p.id = t.project_id
+  group by d.bucket_date, p.id, p.name, s.id, s.name, s.is_final;
+end;
+$$;
+
+create index if not exists task_series_search_idx
+  on public.task_series using gin (public.task_search_vector(title, description));
+
+-- Task ids become text: a series is found as its next occurrence (or its first one once it has ended).
+drop function if exists public.search_workspace(uuid, text, integer);
+create or replace function public.search_workspace(
+  p_workspace_id uuid,
+  p_query text,
+  p_limit integer default 20
+)
+returns table (
+  kind text,
+  id text,
+  title text,
+  subtitle text,
+  project_id uuid,
+  start_date date,
+  end_date date,
+  rank real
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_query tsquery;
+  v_text text := lower(trim(coalesce(p_query, '')));
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'not allowed';
+  end if;
+
+  select to_tsquery('simple', string_agg(term || ':*', ' & '))
+    into v_query
+  from regexp_split_to_table(v_text, '[^[:alnum:]]+') as term
+  where term <> '';
+
+  if v_query is null then
+    return;
+  end if;
+
+  return query
+  (
+    select found.*
+    from (
+      select
+        'task'::text as kind,
+        t.id::text as id,
+        t.title,
+        p.name as subtitle,
+        t.project_id,
+        t.start_date,
+        t.end_date,
+        ts_rank(public.task_search_vector(t.title, t.description), v_query) as rank
+      from public.tasks t
+      left join public.projects p on p.id = t.project_id
+      where t.workspace_id = p_workspace_id
+        and public.task_search_vector(t.title, t.description) @@ v_query
+      union all
+      select
+        'task'::text,
+        'occurrence:' || s.id || ':' || to_char(occurrence.date, 'YYYY-MM-DD'),
+        s.title,
+        p.name,
+        s.project_id,
+        occurrence.date,
+        occurrence.date + s.duration_days,
+        ts_rank(public.task_search_vector(s.title, s.description), v_query)
+      from public.task_series s
+      left join public.projects p on p.id = s.project_id
+      cross join lateral (
+        select coalesce(
+          (
+            select min(d)
+            from public.task_series_dates(
+              s.rrule, s.start_date, greatest(s.start_date, current_date), greatest(s.start_date, current_date) + 366
+            ) as d
+            where not (d = any(s.exdates))
+          ),
+          (
+            select min(d)
+            from public.task_series_dates(s.rrule, s.start_date, s.start_date, s.start_date + 366) as d
+            where not (d = any(s.exdates))
+          )
+        ) as date
+      ) occurrence
+      where s.workspace_id = p_workspace_id
+        and public.task_search_vector(s.title, s.description) @@ v_query
+        and occurrence.date is not null
+    ) found
+    order by found.rank desc, found.start_date desc
+    limit p_limit
+  )
+  union all
+  (
+    select
+      'project'::text,
+      p.id::text,
+      p.name,
+      p.code,
+      p.id,
+      null::date,
+      null::date,
+      ts_rank(public.project_search_vector(p.name, p.code), v_query)
+    from public.projects p
+    where p.workspace_id = p_workspace_id
+      and public.project_search_vector(p.name, p.code) @@ v_query
+    order by 8 desc, p.name
+    limit p_limit
+  )
+  union all
+  (
+    select
+      'member'::text,
+      a.id::text,
+      a.name,
+      null::text,
+      null::uuid,
+      null::date,
+      null::date,
+      0::real
+    from public.assignees a
+    where a.workspace_id = p_workspace_id
+      and strpos(lower(a.name), v_text) > 0
+    order by a.name
+    limit p_limit
+  );
+end;
+$$;
+
+grant execute on function public.search_workspace(uuid, text, integer) to authenticated;
@@ -0,0 +1,76 @@
+-- Bulk actions on a selection (shift, drag, status, assignee, tags) give every task its own change.
+-- They are applied in one transaction: if any task cannot be updated, none is.
+-- p_changes: [{ "id": uuid, "fields": { column: value }, "add_tag_ids": [uuid], "remove_tag_ids": [uuid] }].
+-- Tags are added and removed against the stored array, so concurrent tag edits are kept.
+create or replace function public.bulk_update_tasks(
+  p_workspace_id uuid,
+  p_changes jsonb
+)
+returns setof public.tasks
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_change jsonb;
+  v_fields jsonb;
+  v_id uuid;
+  v_tag_id uuid;
+begin
+  for v_change in select value from jsonb_array_elements(p_changes) loop
+    v_id := (v_change->>'id')::uuid;
+    v_fields := coalesce(v_change->'fields', '{}'::jsonb);
+
+    update public.tasks t
+    set
+      title = case when v_fields ? 'title' then v_fields->>'title' else t.title end,
+      project_id = case when v_fields ? 'project_id' then (v_fields->>'project_id')::uuid else t.project_id end,
+      assignee_id = case when v_fields ? 'assignee_id' then (v_fields->>'assignee_id')::uuid else t.assignee_id end,
+      assignee_ids = case
+        when v_fields ? 'assignee_ids'
+          then array(select jsonb_array_elements_text(v_fields->'assignee_ids'))::uuid[]
+        else t.assignee_ids
+      end,
+      start_date = case when v_fields ? 'start_date' then (v_fields->>'start_date')::date else t.start_date end,
+      end_date = case when v_fields ? 'end_date' then (v_fields->>'end_date')::date else t.end_date end,
+      status_id = case when v_fields ? 'status_id' then (v_fields->>'status_id')::uuid else t.status_id end,
+      type_id = case when v_fields ? 'type_id' then (v_fields->>'type_id')::uuid else t.type_id end,
+      priority = case when v_fields ? 'priority' then v_fields->>'priority' else t.priority end,
+      tag_ids = case
+        when v_fields ? 'tag_ids' then array(select jsonb_array_elements_text(v_fields->'tag_ids'))::uuid[]
+        else t.tag_ids
+      end,
+      description = case when v_fields ? 'description' then v_fields->>'description' else t.description end,
+      repeat_id = case when v_fields ? 'repeat_id' then (v_fields->>'repeat_id')::uuid else t.repeat_id end,
+      estimate_hours = case
+        when v_fields ? 'estimate_hours' then (v_fields->>'estimate_hours')::numeric
+        else t.estimate_hours
+      end,
+      milestone_id = case when v_fields ? 'milestone_id' then (v_fields->>'milestone_id')::uuid else t.milestone_id end
+    where t.id = v_id
+      and t.workspace_id = p_workspace_id;
+
+    -- RLS hides rows the caller may not edit: treat them like a missing task and undo the whole batch.
+    if not found then
+      raise exception 'Task % could not be updated.', v_id using errcode = 'insufficient_privilege';
+    end if;
+
+    for v_tag_id in select value::uuid from jsonb_array_elements_text(coalesce(v_change->'add_tag_ids', '[]'::jsonb)) loop
+      update public.tasks
+      set tag_ids = array_append(tag_ids, v_tag_id)
+      where id = v_id
+        and not (v_tag_id = any(tag_ids));
+    end loop;
+
+    for v_tag_id in select value::uuid from jsonb_array_elements_text(coalesce(v_change->'remove_tag_ids', '[]'::jsonb)) loop
+      update public.tasks
+      set tag_ids = array_remove(tag_ids, v_tag_id)
+      where id = v_id;
+    end loop;
+
+    return query select * from public.tasks where id = v_id;
+  end loop;
+end;
+$$;
+
+grant execute on function public.bulk_update_tasks(uuid, jsonb) to authenticated;
@@ -0,0 +1,116 @@
+-- Title and description are saved while the user types, and every save used to add an activity row.
+-- A change to the same task and field by the same actor within a few minutes of the previous one,
+-- with nothing else logged for the task in between, now updates that row instead:
+-- the row keeps the value from before the first edit and gets the latest value.
+create or replace function public.record_task_activity(
+  p_workspace_id uuid,
+  p_task_id uuid,
+  p_actor_id uuid,
+  p_field text,
+  p_old_value jsonb,
+  p_new_value jsonb
+)
+returns void as $$
+declare
+  v_last public.task_activity%rowtype;
+begin
+  select * into v_last
+  from public.task_activity
+  where task_id = p_task_id
+    and field = p_field
+  order by created_at desc
+  limit 1;
+
+  if found
+    and v_last.actor_id is not distinct from p_actor_id
+    and v_last.created_at > now() - interval '5 minutes'
+    and not exists (
+      select 1
+      from public.task_activity a
+      where a.task_id = p_task_id
+        and a.created_at > v_last.created_at
+        and (a.field <> p_field or a.actor_id is distinct from p_actor_id)
+    ) then
+    update public.task_activity
+    set new_value = p_new_value,
+        created_at = now()
+    where id = v_last.id;
+    return;
+  end if;
+
+  insert into public.task_activity (workspace_id, task_id, actor_id, field, old_value, new_value)
+  values (p_workspace_id, p_task_id, p_actor_id, p_field, p_old_value, p_new_value);
+end;
+$$ language plpgsql security definer set search_path = public set row_security = off;
+
+-- Only the trigger writes activity; clients must not call the helper directly.
+revoke execute on function public.record_task_activity(uuid, uuid, uuid, text, jsonb, jsonb)
+  from public, anon, authenticated;
+
+create or replace function public.log_task_activity()
+returns trigger as $$
+declare
+  actor uuid := auth.uid();
+begin
+  if tg_op = 'INSERT' then
+    insert into public.task_activity (workspace_id, task_id, actor_id, field, new_value)
+    values (new.workspace_id, new.id, actor, 'created', to_jsonb(new.title));
+    return new;
+  end if;
+
+  if new.status_id is distinct from old.status_id then
+    perform public.record_task_activity(
+      new.workspace_id, new.id, actor, 'status', to_jsonb(old.status_id), to_jsonb(new.status_id)
+    );
+  end if;
+
+  if new.start_date is distinct from old.start_date or new.end_date is distinct from old.end_date then
+    perform public.record_task_activity(
+      new.workspace_id,
+      new.id,
+      actor,
+      'dates',
+      jsonb_build_object('start', old.start_date, 'end', old.end_date),
+      jsonb_build_object('start', new.start_date, 'end', new.end_date)
+    );
+  end if;
+
+  if new.assignee_ids is distinct from old.assignee_ids then
+    perform public.record_task_activity(
+      new.workspace_id, new.id, actor, 'assignees', to_jsonb(old.assignee_ids), to_jsonb(new.assignee_ids)
+    );
+  end if;
+
+  if new.project_id is distinct from old.project_id then
+    perform public.record_task_activity(
+      new.workspace_id, new.id, actor, 'project', to_jsonb(old.project_id), to_jsonb(new.project_id)
+    );
+  end if;
+
+  if new.priority is distinct from old.priority then
+    perform public.record_task_activity(
+      new.workspace_id, new.id, actor, 'priority', to_jsonb(old.priority), to_jsonb(new.priority)
+    );
+  end if;
+
+  if new.tag_ids is distinct from old.tag_ids then
+    perform public.record_task_activity(
+      new.workspace_id, new.id, actor, 'tags', to_jsonb(old.tag_ids), to_jsonb(new.tag_ids)
+    );
+  end if;
+
+  if new.title is distinct from old.title then
+    perform public.record_task_activity(
+      new.workspace_id, new.id, actor, 'title', to_jsonb(old.title), to_jsonb(new.title)
+    );
+  end if;
+
+  if new.description is distinct from old.description then
+    perform public.record_task_activity(
+      new.workspace_id, new.id, actor, 'description', to_jsonb(old.description), to_jsonb(new.description)
+    );
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public set row_security = off;
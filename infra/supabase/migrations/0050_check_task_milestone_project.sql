@@ -0,0 +1,56 @@
+-- A task may only be linked to a milestone of its own project.
+-- Moving a task to another project drops the link to the old project's milestone;
+-- explicitly linking a milestone of another project is rejected.
+update public.tasks t
+set milestone_id = null
+where t.milestone_id is not null
+  and not exists (
+    select 1 from public.milestones m
+    where m.id = t.milestone_id and m.project_id = t.project_id
+  );
+
+create or replace function public.check_task_milestone_project()
+returns trigger as $$
+begin
+  if new.milestone_id is null or exists (
+    select 1 from public.milestones
+    where id = new.milestone_id
+      and project_id = new.project_id
+  ) then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+    and new.project_id is distinct from old.project_id
+    and new.milestone_id is not distinct from old.milestone_id then
+    new.milestone_id := null;
+    return new;
+  end if;
+
+  raise exception 'A task can only be linked to a milestone of its project.' using errcode = 'check_violation';
+end;
+$$ language plpgsql security definer set search_path = public set row_security = off;
+
+drop trigger if exists tasks_check_milestone_project on public.tasks;
+create trigger tasks_check_milestone_project
+  before insert or update of project_id, milestone_id on public.tasks
+  for each row execute function public.check_task_milestone_project();
+
+-- A milestone moved to another project leaves the tasks of its old project.
+create or replace function public.unlink_moved_milestone_tasks()
+returns trigger as $$
+begin
+  update public.tasks
+  set milestone_id = null
+  where milestone_id = new.id
+    and project_id is distinct from new.project_id;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public set row_security = off;
+
+drop trigger if exists milestones_unlink_moved_tasks on public.milestones;
+create trigger milestones_unlink_moved_tasks
+  after update of project_id on public.milestones
+  for each row
+  when (new.project_id is distinct from old.project_id)
+  execute function public.unlink_moved_milestone_tasks();
@@ -0,0 +1,190 @@
+-- Logged hours belong to the period they were logged in, not to the tasks planned in it:
+-- time logged this week on a task that ended last month still counts this week.
+-- Task counts and estimates keep using the tasks that overlap the period.
+create or replace function public.dashboard_task_counts(
+  p_workspace_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+returns table (
+  assignee_id uuid,
+  assignee_name text,
+  project_id uuid,
+  project_name text,
+  status_id uuid,
+  status_name text,
+  status_is_final boolean,
+  total bigint,
+  estimated_hours numeric,
+  logged_hours numeric
+)
+language plpgsql
+security definer
+set search_path = public
+set row_security = off
+as $$
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'not allowed';
+  end if;
+
+  return query
+  with planned as (
+    select
+      assignee_link.assignee_id,
+      t.project_id,
+      t.status_id,
+      t.id as task_id,
+      coalesce(t.estimate_hours, 0) / greatest(coalesce(array_length(t.assignee_ids, 1), 0), 1) as estimate_hours,
+      0::numeric as hours
+    from public.workspace_tasks(p_workspace_id, p_start_date, p_end_date) t
+    left join lateral (
+      select unnest(
+        case
+          when t.assignee_ids is not null and array_length(t.assignee_ids, 1) > 0 then t.assignee_ids
+          when t.assignee_id is not null then array[t.assignee_id]
+          else array[null::uuid]
+        end
+      ) as assignee_id
+    ) assignee_link on true
+    where t.start_date <= p_end_date
+      and t.end_date >= p_start_date
+  ),
+  logged as (
+    select
+      te.assignee_id,
+      t.project_id,
+      t.status_id,
+      null::text as task_id,
+      0::numeric as estimate_hours,
+      te.hours::numeric as hours
+    from public.time_entries te
+    join public.tasks t on t.id = te.task_id
+    where te.workspace_id = p_workspace_id
+      and te.entry_date between p_start_date and p_end_date
+  ),
+  combined as (
+    select * from planned
+    union all
+    select * from logged
+  )
+  select
+    c.assignee_id as assignee_id,
+    a.name as assignee_name,
+    p.id as project_id,
+    p.name as project_name,
+    s.id as status_id,
+    s.name as status_name,
+    s.is_final as status_is_final,
+    count(c.task_id)::bigint as total,
+    coalesce(sum(c.estimate_hours), 0)::numeric as estimated_hours,
+    coalesce(sum(c.hours), 0)::numeric as logged_hours
+  from combined c
+  join public.statuses s on s.id = c.status_id
+  left join public.projects p on p.id = c.project_id
+  left join public.assignees a on a.id = c.assignee_id
+  group by c.assignee_id, a.name, p.id, p.name, s.id, s.name, s.is_final;
+end;
+$$;
+
+create or replace function public.dashboard_task_counts_base(
+  p_workspace_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+returns table (
+  assignee_id uuid,
+  assignee_name text,
+  project_id uuid,
+  project_name text,
+  status_id uuid,
+  status_name text,
+  status_is_final boolean,
+  total bigint,
+  estimated_hours numeric,
+  logged_hours numeric
+)
+language plpgsql
+security definer
+set search_path = public
+set row_security = off
+as $$
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'not allowed';
+  end if;
+
+  return query
+  with planned as (
+    select
+      t.project_id,
+      t.status_id,
+      t.id as task_id,
+      coalesce(t.estimate_hours, 0) as estimate_hours,
+      0::numeric as hours
+    from public.workspace_tasks(p_workspace_id, p_start_date, p_end_date) t
+    where t.start_date <= p_end_date
+      and t.end_date >= p_start_date
+  ),
+  logged as (
+    select
+      t.project_id,
+      t.status_id,
+      null::text as task_id,
+      0::numeric as estimate_hours,
+      te.hours::numeric as hours
+    from public.time_entries te
+    join public.tasks t on t.id = te.task_id
+    where te.workspace_id = p_workspace_id
+      and te.entry_date between p_start_date and p_end_date
+  ),
+  combined as (
+    select * from planned
+    union all
+    select * from logged
+  )
+  select
+    null::uuid as assignee_id,
+    null::text as assignee_name,
+    p.id as project_id,
+    p.name as project_name,
+    s.id as status_id,
+    s.name as status_name,
+    s.is_final as status_is_final,
+    count(distinct c.task_id)::bigint as total,
+    coalesce(sum(c.estimate_hours), 0)::numeric as estimated_hours,
+    coalesce(sum(c.hours), 0)::numeric as logged_hours
+  from combined c
+  join public.statuses s on s.id = c.status_id
+  left join public.projects p on p.id = c.project_id
+  group by p.id, p.name, s.id, s.name, s.is_final;
+end;
+$$;
+
+-- The write policies only check the role in workspace_id, so an entry could point at a task
+-- of another workspace and show up in that workspace's numbers. The task must be in the entry's workspace.
+delete from public.time_entries te
+where not exists (
+  select 1 from public.tasks t
+  where t.id = te.task_id and t.workspace_id = te.workspace_id
+);
+
+create or replace function public.check_time_entry_workspace()
+returns trigger as $$
+begin
+  if not exists (
+    select 1 from public.tasks
+    where id = new.task_id
+      and workspace_id = new.workspace_id
+  ) then
+    raise exception 'A time entry must belong to the workspace of its task.' using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public set row_security = off;
+
+drop trigger if exists time_entries_check_workspace on public.time_entries;
+create trigger time_entries_check_workspace
+  before insert or update on public.time_entries
+  for each row execute function public.check_time_entry_workspace();
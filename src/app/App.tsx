@@ -12,8 +12,10 @@ import AdminUsersPage from "@/features/admin/pages/AdminUsersPage";
 import DashboardPage from "@/features/dashboard/pages/DashboardPage";
 import ProjectsPage from "@/features/projects/pages/ProjectsPage";
 import MembersPage from "@/features/members/pages/MembersPage";
+import TimesheetPage from "@/features/members/pages/TimesheetPage";
 import { AuthProvider } from "@/features/auth/providers/AuthProvider";
 import { ProtectedRoute } from "@/app/ProtectedRoute";
+import { CommandPalette } from "@/features/command/components/CommandPalette";
 import { i18n } from "@/shared/lib/i18n";
 import { useLocaleStore } from "@/shared/store/localeStore";
 
@@ -35,6 +37,7 @@ const App = () => {
                 v7_relativeSplatPath: true,
               }}
             >
+              <CommandPalette />
               <Routes>
                 <Route path="/auth" element={<AuthPage />} />
                 <Route path="/invite/:workspaceId" element={<InvitePage />} />
@@ -78,6 +81,14 @@ const App = () => {
                     </ProtectedRoute>
                   )}
                 />
+                <Route
+                  path="/members/:assigneeId/timesheet"
+                  element={(
+                    <ProtectedRoute>
+                      <TimesheetPage />
+                    </ProtectedRoute>
+                  )}
+                />
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                 <Route path="*" element={<NotFoundPage />} />
               </Routes>
@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { t } from '@lingui/macro';
+import {
+  CalendarDays,
+  Columns3,
+  FolderKanban,
+  Keyboard,
+  LayoutDashboard,
+  ListTodo,
+  Plus,
+  User,
+  Users,
+} from 'lucide-react';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { useCommandStore } from '@/features/command/store/commandStore';
+import { parseDateQuery } from '@/features/command/lib/dateQuery';
+import { KeyboardShortcutsDialog } from '@/features/command/components/KeyboardShortcutsDialog';
+import { useWorkspaceSearch } from '@/features/planner/hooks/useWorkspaceSearch';
+import { GroupMode, ViewMode } from '@/features/planner/types/planner';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/shared/ui/command';
+import { formatProjectLabel } from '@/shared/lib/projectLabels';
+import { isPlainShortcutEvent } from '@/shared/lib/keyboard';
+
+export const CommandPalette: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, workspaces, currentWorkspaceId, setCurrentWorkspaceId, currentWorkspaceRole, isSuperAdmin } = useAuthStore();
+  const {
+    projects,
+    assignees,
+    viewMode,
+    groupMode,
+    setViewMode,
+    setGroupMode,
+    setCurrentDate,
+    requestScrollToDate,
+    revealTask,
+  } = usePlannerStore();
+  const { paletteOpen, setPaletteOpen, setShortcutsOpen, requestCreateTask } = useCommandStore();
+  const [search, setSearch] = useState('');
+  const canEdit = currentWorkspaceRole === 'editor' || currentWorkspaceRole === 'admin';
+  const enabled = Boolean(user) && !isSuperAdmin;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setPaletteOpen(!useCommandStore.getState().paletteOpen);
+        return;
+      }
+      if (event.key === '?' && isPlainShortcutEvent(event)) {
+        event.preventDefault();
+        setShortcutsOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, setPaletteOpen, setShortcutsOpen]);
+
+  useEffect(() => {
+    if (!paletteOpen) setSearch('');
+  }, [paletteOpen]);
+
+  const query = search.trim().toLowerCase();
+  const jumpDate = useMemo(() => parseDateQuery(search), [search]);
+  // Задачи ищем на сервере: в сторе только загруженный диапазон дат.
+  const { results: searchResults } = useWorkspaceSearch(paletteOpen ? currentWorkspaceId : null, search);
+  const matchingTasks = useMemo(
+    () => searchResults.filter((result) => result.kind === 'task'),
+    [searchResults],
+  );
+  const activeProjects = useMemo(() => projects.filter((project) => !project.archived), [projects]);
+  const activeAssignees = useMemo(() => assignees.filter((assignee) => assignee.isActive), [assignees]);
+
+  if (!enabled) return null;
+
+  const run = (action: () => void) => {
+    setPaletteOpen(false);
+    action();
+  };
+
+  const openTimeline = () => navigate('/');
+
+  const goToDate = (date: string) => {
+    openTimeline();
+    setCurrentDate(date);
+    requestScrollToDate(date);
+  };
+
+  const viewModes: Array<{ value: ViewMode; label: string }> = [
+    { value: 'day', label: t`Day view` },
+    { value: 'week', label: t`Week view` },
+    { value: 'month', label: t`Month view` },
+    { value: 'quarter', label: t`Quarter view` },
+    { value: 'calendar', label: t`Calendar view` },
+  ];
+  const groupModes: Array<{ value: GroupMode; label: string }> = [
+    { value: 'assignee', label: t`Group by people` },
+    { value: 'project', label: t`Group by projects` },
+    { value: 'status', label: t`Group by status` },
+    { value: 'type', label: t`Group by type` },
+    { value: 'tag', label: t`Group by tags` },
+    { value: 'customer', label: t`Group by customers` },
+    { value: 'group', label: t`Group by member groups` },
+    { value: 'customer_project', label: t`Group by customers and projects` },
+    { value: 'group_assignee', label: t`Group by member groups and people` },
+  ];
+
+  return (
+    <>
+      <CommandDialog open={paletteOpen} onOpenChange={setPaletteOpen}>
+        <CommandInput
+          value={search}
+          onValueChange={setSearch}
+          placeholder={t`Type a command, a name or a date...`}
+        />
+        <CommandList>
+          <CommandEmpty>{t`Nothing found.`}</CommandEmpty>
+          {jumpDate && (
+            <CommandGroup heading={t`Date`} forceMount>
+              <CommandItem value={`date ${search}`} forceMount onSelect={() => run(() => goToDate(jumpDate))}>
+                <CalendarDays className="mr-2 h-4 w-4" />
+                {t`Go to ${format(parseISO(jumpDate), 'dd MMM yyyy')}`}
+              </CommandItem>
+            </CommandGroup>
+          )}
+          <CommandGroup heading={t`Actions`}>
+            {canEdit && (
+              <CommandItem
+                value={`create new task ${t`Create task`}`}
+                onSelect={() => run(() => {
+                  openTimeline();
+                  requestCreateTask();
+                })}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                {t`Create task`}
+                <CommandShortcut>N</CommandShortcut>
+              </CommandItem>
+            )}
+            <CommandItem
+              value={`today ${t`Go to today`}`}
+              onSelect={() => run(() => goToDate(format(new Date(), 'yyyy-MM-dd')))}
+            >
+              <CalendarDays className="mr-2 h-4 w-4" />
+              {t`Go to today`}
+              <CommandShortcut>T</CommandShortcut>
+            </CommandItem>
+            <CommandItem value={`keyboard shortcuts ${t`Keyboard shortcuts`}`} onSelect={() => run(() => setShortcutsOpen(true))}>
+              <Keyboard className="mr-2 h-4 w-4" />
+              {t`Keyboard shortcuts`}
+              <CommandShortcut>?</CommandShortcut>
+            </CommandItem>
+          </CommandGroup>
+          <CommandGroup heading={t`Pages`}>
+            <CommandItem value={`page timeline ${t`Timeline`}`} onSelect={() => run(openTimeline)}>
+              <Columns3 className="mr-2 h-4 w-4" />
+              {t`Timeline`}
+            </CommandItem>
+            <CommandItem value={`page dashboard ${t`Dashboard`}`} onSelect={() => run(() => navigate('/dashboard'))}>
+              <LayoutDashboard className="mr-2 h-4 w-4" />
+              {t`Dashboard`}
+            </CommandItem>
+            <CommandItem value={`page projects ${t`Projects`}`} onSelect={() => run(() => navigate('/projects'))}>
+              <FolderKanban className="mr-2 h-4 w-4" />
+              {t`Projects`}
+            </CommandItem>
+            <CommandItem value={`page members ${t`Members`}`} onSelect={() => run(() => navigate('/members'))}>
+              <Users className="mr-2 h-4 w-4" />
+              {t`Members`}
+            </CommandItem>
+          </CommandGroup>
+          <CommandGroup heading={t`View`}>
+            {viewModes.filter((item) => item.value !== viewMode).map((item) => (
+              <CommandItem
+                key={item.value}
+                value={`view ${item.value} ${item.label}`}
+                onSelect={() => run(() => {
+                  openTimeline();
+                  setViewMode(item.value);
+                })}
+              >
+                <Columns3 className="mr-2 h-4 w-4" />
+                {item.label}
+              </CommandItem>
+            ))}
+            {groupModes.filter((item) => item.value !== groupMode).map((item) => (
+              <CommandItem
+                key={item.value}
+                value={`group ${item.value} ${item.label}`}
+                onSelect={() => run(() => {
+                  openTimeline();
+                  setGroupMode(item.value);
+                })}
+              >
+                <Users className="mr-2 h-4 w-4" />
+                {item.label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+          {workspaces.length > 1 && (
+            <CommandGroup heading={t`Workspaces`}>
+              {workspaces.filter((workspace) => workspace.id !== currentWorkspaceId).map((workspace) => (
+                <CommandItem
+                  key={workspace.id}
+                  value={`workspace ${workspace.name} ${workspace.id}`}
+                  onSelect={() => run(() => setCurrentWorkspaceId(workspace.id))}
+                >
+                  <LayoutDashboard className="mr-2 h-4 w-4" />
+                  {t`Switch to ${workspace.name}`}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+          {query.length > 0 && (
+            <>
+              <CommandSeparator />
+              {matchingTasks.length > 0 && (
+                <CommandGroup heading={t`Tasks`}>
+                  {matchingTasks.map((task) => (
+                    <CommandItem
+                      key={task.id}
+                      value={`task ${task.title} ${task.id}`}
+                      forceMount
+                      onSelect={() => run(() => {
+                        openTimeline();
+                        void revealTask(task.id);
+                      })}
+                    >
+                      <ListTodo className="mr-2 h-4 w-4" />
+                      <span className="truncate">{task.title}</span>
+                      {task.startDate && (
+                        <CommandShortcut>{format(parseISO(task.startDate), 'dd MMM yyyy')}</CommandShortcut>
+                      )}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              <CommandGroup heading={t`Projects`}>
+                {activeProjects.map((project) => (
+                  <CommandItem
+                    key={project.id}
+                    value={`project ${project.name} ${project.code ?? ''} ${project.id}`}
+                    onSelect={() => run(() => navigate('/projects', { state: { projectId: project.id } }))}
+                  >
+                    <span
+                      className="mr-2 h-3 w-3 flex-shrink-0 rounded-full"
+                      style={{ backgroundColor: project.color }}
+                    />
+                    <span className="truncate">{formatProjectLabel(project.name, project.code)}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+              <CommandGroup heading={t`Members`}>
+                {activeAssignees.map((assignee) => (
+                  <CommandItem
+                    key={assignee.id}
+                    value={`member ${assignee.name} ${assignee.id}`}
+                    onSelect={() => run(() => navigate(`/members/${assignee.id}/timesheet`))}
+                  >
+                    <User className="mr-2 h-4 w-4" />
+                    <span className="truncate">{assignee.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
+        </CommandList>
+      </CommandDialog>
+      <KeyboardShortcutsDialog />
+    </>
+  );
+};
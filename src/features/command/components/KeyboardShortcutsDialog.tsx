@@ -0,0 +1,67 @@
+import React from 'react';
+import { t } from '@lingui/macro';
+import { useCommandStore } from '@/features/command/store/commandStore';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/shared/ui/dialog';
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const modKey = isMac ? '⌘' : 'Ctrl';
+
+export const KeyboardShortcutsDialog: React.FC = () => {
+  const { shortcutsOpen, setShortcutsOpen } = useCommandStore();
+
+  const sections = [
+    {
+      title: t`Anywhere`,
+      items: [
+        { keys: [modKey, 'K'], label: t`Open the command palette` },
+        { keys: ['?'], label: t`Show keyboard shortcuts` },
+      ],
+    },
+    {
+      title: t`Timeline`,
+      items: [
+        { keys: ['T'], label: t`Go to today` },
+        { keys: ['←', '→'], label: t`Previous / next period` },
+        { keys: ['N'], label: t`Create task` },
+        { keys: ['E'], label: t`Open the selected task` },
+        { keys: ['Del'], label: t`Delete the selected tasks` },
+        { keys: ['Shift', 'Click'], label: t`Add a task to the selection` },
+        { keys: ['Esc'], label: t`Clear the selection` },
+        { keys: [modKey, 'Z'], label: t`Undo` },
+        { keys: [modKey, 'Shift', 'Z'], label: t`Redo` },
+      ],
+    },
+  ];
+
+  return (
+    <Dialog open={shortcutsOpen} onOpenChange={setShortcutsOpen}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t`Keyboard shortcuts`}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {sections.map((section) => (
+            <div key={section.title} className="space-y-2">
+              <div className="text-xs font-medium uppercase text-muted-foreground">{section.title}</div>
+              {section.items.map((item) => (
+                <div key={item.label} className="flex items-center justify-between gap-4 text-sm">
+                  <span>{item.label}</span>
+                  <span className="flex flex-shrink-0 items-center gap-1">
+                    {item.keys.map((key) => (
+                      <kbd
+                        key={key}
+                        className="rounded border bg-muted px-1.5 py-0.5 font-mono text-[11px] text-muted-foreground"
+                      >
+                        {key}
+                      </kbd>
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
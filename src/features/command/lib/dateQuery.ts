@@ -0,0 +1,16 @@
+import { format, isValid, parse } from 'date-fns';
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd.MM.yyyy', 'd.M.yyyy', 'dd.MM', 'd.M', 'dd/MM/yyyy'];
+
+/** A palette query that reads as a date (2024-03-07, 07.03.2024, 7.3), as yyyy-MM-dd; null otherwise. */
+export const parseDateQuery = (query: string, referenceDate = new Date()) => {
+  const value = query.trim();
+  if (!/^\d/.test(value)) return null;
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(value, pattern, referenceDate);
+    if (isValid(date) && format(date, pattern) === value) {
+      return format(date, 'yyyy-MM-dd');
+    }
+  }
+  return null;
+};
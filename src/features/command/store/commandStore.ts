@@ -0,0 +1,22 @@
+import { create } from 'zustand';
+
+interface CommandState {
+  paletteOpen: boolean;
+  shortcutsOpen: boolean;
+  createTaskPending: boolean;
+  setPaletteOpen: (open: boolean) => void;
+  setShortcutsOpen: (open: boolean) => void;
+  requestCreateTask: () => void;
+  clearCreateTaskRequest: () => void;
+}
+
+export const useCommandStore = create<CommandState>((set) => ({
+  paletteOpen: false,
+  shortcutsOpen: false,
+  createTaskPending: false,
+  setPaletteOpen: (open) => set({ paletteOpen: open }),
+  setShortcutsOpen: (open) => set({ shortcutsOpen: open }),
+  // Запрос подхватывает страница планировщика, в том числе сразу после перехода на неё.
+  requestCreateTask: () => set({ createTaskPending: true }),
+  clearCreateTaskRequest: () => set({ createTaskPending: false }),
+}));
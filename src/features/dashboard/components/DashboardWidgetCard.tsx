@@ -30,7 +30,7 @@ import {
   startOfMonth,
   startOfWeek,
 } from 'date-fns';
-import { GripVertical, Pencil } from 'lucide-react';
+import { AlertTriangle, GripVertical, Pencil } from 'lucide-react';
 import { cn } from '@/shared/lib/classNames';
 import { formatProjectLabel } from '@/shared/lib/projectLabels';
 import { Card } from '@/shared/ui/card';
@@ -44,7 +44,7 @@ import {
   DashboardWidget,
   DashboardWidgetData,
 } from '@/features/dashboard/types/dashboard';
-import { getBarPalette, getPeriodRange } from '@/features/dashboard/lib/dashboardUtils';
+import { getBarPalette, getPeriodRange, isHoursMetric } from '@/features/dashboard/lib/dashboardUtils';
 import { t } from '@lingui/macro';
 
 const filterLabels: Record<DashboardStatusFilter, string> = {
@@ -95,6 +95,9 @@ export const DashboardWidgetCard: React.FC<DashboardWidgetCardProps> = ({
     ? getBarPalette(widget.barPalette)
     : ['#94A3B8'];
   const paletteColors = palette.length ? palette : ['#94A3B8'];
+  const isHours = isHoursMetric(widget.metric);
+  const formatValue = (value: number) => (isHours ? `${value.toLocaleString()}h` : value.toLocaleString());
+  const valueLabel = isHours ? t`Hours` : t`Tasks`;
   const isChart = widget.type === 'bar' || widget.type === 'line' || widget.type === 'area' || widget.type === 'pie';
   const milestoneView = widget.milestoneView
     ?? (widget.type === 'milestone_calendar' ? 'calendar' : 'list');
@@ -162,7 +165,7 @@ export const DashboardWidgetCard: React.FC<DashboardWidgetCardProps> = ({
             style={{ backgroundColor: paletteColors[index % paletteColors.length] }}
           />
           <span className="min-w-0 break-words text-muted-foreground">{item.name}</span>
-          <span className="text-right font-medium text-foreground">{item.value.toLocaleString()}</span>
+          <span className="text-right font-medium text-foreground">{formatValue(item.value)}</span>
         </div>
       ))}
     </div>
@@ -270,7 +273,7 @@ export const DashboardWidgetCard: React.FC<DashboardWidgetCardProps> = ({
               className={cn(kpiValueClass, 'font-semibold text-foreground text-center')}
               style={kpiValueStyle}
             >
-              {data?.total ?? 0}
+              {isHours ? formatValue(data?.total ?? 0) : (data?.total ?? 0)}
             </div>
             {!isKpiSmall && showPeriod && (
               <div className="text-xs text-muted-foreground">{periodLabel}</div>
@@ -286,7 +289,7 @@ export const DashboardWidgetCard: React.FC<DashboardWidgetCardProps> = ({
           <div className={cn('flex h-full min-h-0 flex-col', contentGapClass)}>
             {data?.series.length ? (
               <ChartContainer
-                config={{ value: { label: t`Tasks` } }}
+                config={{ value: { label: valueLabel } }}
                 className={cn('flex-1 min-h-0', barChartMinHeightClass)}
                 style={{ aspectRatio: 'auto' }}
               >
@@ -404,7 +407,7 @@ export const DashboardWidgetCard: React.FC<DashboardWidgetCardProps> = ({
           <div className={cn('flex h-full min-h-0 flex-col', contentGapClass)}>
             {data?.series.length ? (
               <ChartContainer
-                config={{ value: { label: t`Tasks` } }}
+                config={{ value: { label: valueLabel } }}
                 className={cn('flex-1 min-h-0', pieMinHeightClass)}
                 style={{ aspectRatio: 'auto' }}
               >
@@ -452,10 +455,19 @@ export const DashboardWidgetCard: React.FC<DashboardWidgetCardProps> = ({
                         </div>
                         <div className="truncate text-xs text-muted-foreground">
                           {projectName ?? t`No project`}
+                          {milestone.totalTasks > 0 && (
+                            <> · {t`${milestone.doneTasks}/${milestone.totalTasks} tasks done`}</>
+                          )}
                         </div>
                       </div>
-                      <div className="text-xs text-muted-foreground">
+                      <div className="flex flex-col items-end gap-0.5 text-xs text-muted-foreground">
                         {format(parseISO(milestone.date), 'MMM d')}
+                        {milestone.atRisk && (
+                          <span className="flex items-center gap-1 text-destructive">
+                            <AlertTriangle className="h-3 w-3" />
+                            {t`At risk`}
+                          </span>
+                        )}
                       </div>
                     </div>
                   );
@@ -475,7 +487,9 @@ export const DashboardWidgetCard: React.FC<DashboardWidgetCardProps> = ({
                         <div className="grid gap-1">
                           {hiddenMilestones.map((milestone) => (
                             <div key={milestone.id} className="flex items-center justify-between gap-3">
-                              <span className="truncate">{milestone.title}</span>
+                              <span className={cn('truncate', milestone.atRisk && 'text-destructive')}>
+                                {milestone.title}
+                              </span>
                               <span className="text-muted-foreground">
                                 {format(parseISO(milestone.date), 'MMM d')}
                               </span>
@@ -526,6 +540,7 @@ export const DashboardWidgetCard: React.FC<DashboardWidgetCardProps> = ({
                   const visibleColors = dayColors.slice(0, maxDots);
                   const moreCount = dayColors.length - visibleColors.length;
                   const isOutsideMonth = milestoneCalendarMode === 'month' && !isSameMonth(day, monthStart);
+                  const hasRisk = dayMilestones.some((milestone) => milestone.atRisk);
                   const dayCell = (
                     <div
                       className={cn(
@@ -533,6 +548,7 @@ export const DashboardWidgetCard: React.FC<DashboardWidgetCardProps> = ({
                         isSmall ? 'p-0.5 text-[9px]' : 'p-1 text-[11px]',
                         isOutsideMonth && 'text-muted-foreground/50',
                         isToday(day) && 'border-primary text-primary',
+                        hasRisk && 'border-destructive',
                       )}
                     >
                       <div className={cn(isSmall ? 'text-[9px]' : 'text-[11px]')}>
@@ -581,7 +597,13 @@ export const DashboardWidgetCard: React.FC<DashboardWidgetCardProps> = ({
                                   </div>
                                   <div className="truncate text-[10px] text-muted-foreground">
                                     {projectName}
+                                    {milestone.totalTasks > 0 && (
+                                      <> · {t`${milestone.doneTasks}/${milestone.totalTasks} tasks done`}</>
+                                    )}
                                   </div>
+                                  {milestone.atRisk && (
+                                    <div className="text-[10px] text-destructive">{t`At risk`}</div>
+                                  )}
                                 </div>
                               </div>
                             );
@@ -9,6 +9,7 @@ import { Checkbox } from '@/shared/ui/checkbox';
 import { Switch } from '@/shared/ui/switch';
 import {
   DashboardGroupBy,
+  DashboardMetric,
   DashboardFilterField,
   DashboardFilterGroup,
   DashboardFilterOperator,
@@ -60,6 +61,12 @@ const groupByOptions: Array<{ value: DashboardGroupBy; label: string }> = [
   { value: 'project', label: t`By project` },
 ];
 
+const metricOptions: Array<{ value: DashboardMetric; label: string }> = [
+  { value: 'tasks', label: t`Task count` },
+  { value: 'estimated_hours', label: t`Estimated hours` },
+  { value: 'logged_hours', label: t`Logged hours` },
+];
+
 const statusFilterOptions: Array<{ value: DashboardStatusFilter; label: string }> = [
   { value: 'all', label: t`All statuses` },
   { value: 'active', label: t`Active` },
@@ -111,6 +118,7 @@ export const WidgetEditorDialog: React.FC<WidgetEditorDialogProps> = ({
   const [title, setTitle] = useState('');
   const [type, setType] = useState<DashboardWidgetType>('kpi');
   const [groupBy, setGroupBy] = useState<DashboardGroupBy>('none');
+  const [metric, setMetric] = useState<DashboardMetric>('tasks');
   const [period, setPeriod] = useState<DashboardPeriod>('week');
   const [statusFilter, setStatusFilter] = useState<DashboardStatusFilter>('active');
   const [statusIds, setStatusIds] = useState<string[]>([]);
@@ -156,6 +164,7 @@ export const WidgetEditorDialog: React.FC<WidgetEditorDialogProps> = ({
       setTitle(initialWidget.title);
       setType(normalizedType);
       setGroupBy(initialWidget.groupBy ?? 'none');
+      setMetric(initialWidget.metric ?? 'tasks');
       setPeriod(initialWidget.period);
       setStatusFilter(initialWidget.statusFilter);
       setStatusIds(initialWidget.statusIds ?? []);
@@ -172,6 +181,7 @@ export const WidgetEditorDialog: React.FC<WidgetEditorDialogProps> = ({
     setTitle(t`New widget`);
     setType('kpi');
     setGroupBy('none');
+    setMetric('tasks');
     setPeriod('week');
     setStatusFilter('active');
     setStatusIds([]);
@@ -208,6 +218,7 @@ export const WidgetEditorDialog: React.FC<WidgetEditorDialogProps> = ({
   }, [initialWidget, type]);
 
   const showGroupBy = isChartType;
+  const showMetric = type === 'kpi' || type === 'bar' || type === 'pie';
   const showCustomStatuses = statusFilter === 'custom';
   const showTaskFilters = isTaskWidget;
   const canSave = title.trim().length > 0;
@@ -311,6 +322,7 @@ export const WidgetEditorDialog: React.FC<WidgetEditorDialogProps> = ({
     const nextIsMilestone = normalizedType === 'milestone';
     const nextIsTaskWidget = normalizedType === 'kpi' || nextIsChartType;
     const normalizedGroupBy = nextIsChartType ? groupBy : 'none';
+    const nextHasMetric = normalizedType === 'kpi' || normalizedType === 'bar' || normalizedType === 'pie';
     const normalizedGroups = nextIsTaskWidget
       ? filterGroups
         .map((group) => ({
@@ -326,6 +338,7 @@ export const WidgetEditorDialog: React.FC<WidgetEditorDialogProps> = ({
       title: title.trim(),
       type: normalizedType,
       groupBy: normalizedGroupBy,
+      metric: nextHasMetric ? metric : undefined,
       period: normalizedPeriod,
       size,
       barPalette: nextIsChartType ? barPalette : undefined,
@@ -437,6 +450,24 @@ export const WidgetEditorDialog: React.FC<WidgetEditorDialogProps> = ({
             </div>
           )}
 
+          {showMetric && (
+            <div className="space-y-2">
+              <Label>{t`Metric`}</Label>
+              <Select value={metric} onValueChange={(value) => setMetric(value as DashboardMetric)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {metricOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {showGroupBy && (
             <div className="space-y-2">
               <Label>{t`Group by`}</Label>
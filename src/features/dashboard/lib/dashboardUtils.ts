@@ -4,6 +4,7 @@ import {
   DashboardFilterField,
   DashboardFilterGroup,
   DashboardFilterOperator,
+  DashboardMetric,
   DashboardPeriod,
   DashboardStatus,
   DashboardSeriesRow,
@@ -167,6 +168,16 @@ const buildDateRange = (period: DashboardPeriod) => {
 
 const toSeriesKey = (value: string) => `series_${value.replace(/[^a-z0-9]/gi, '_')}`;
 
+const getRowValue = (row: DashboardStatsRow, metric: DashboardMetric = 'tasks') => {
+  if (metric === 'estimated_hours') return row.estimated_hours ?? 0;
+  if (metric === 'logged_hours') return row.logged_hours ?? 0;
+  return row.total;
+};
+
+export const isHoursMetric = (metric?: DashboardMetric) => (
+  metric === 'estimated_hours' || metric === 'logged_hours'
+);
+
 export const buildWidgetData = (
   rows: DashboardStatsRow[],
   widget: DashboardWidget,
@@ -192,7 +203,7 @@ export const buildWidgetData = (
       const key = row.assignee_id ?? 'unassigned';
       const name = row.assignee_name ?? 'Unassigned';
       const existing = seriesMap.get(key) ?? { name, value: 0 };
-      existing.value += row.total;
+      existing.value += getRowValue(row, widget.metric);
       seriesMap.set(key, existing);
     });
   } else if (groupBy === 'status') {
@@ -203,7 +214,7 @@ export const buildWidgetData = (
         ? formatStatusLabel(status.name, status.emoji)
         : row.status_name;
       const existing = seriesMap.get(key) ?? { name, value: 0 };
-      existing.value += row.total;
+      existing.value += getRowValue(row, widget.metric);
       seriesMap.set(key, existing);
     });
   } else if (groupBy === 'project') {
@@ -213,17 +224,22 @@ export const buildWidgetData = (
         ? projectNameById.get(row.project_id) ?? row.project_name ?? 'No project'
         : 'No project';
       const existing = seriesMap.get(key) ?? { name, value: 0 };
-      existing.value += row.total;
+      existing.value += getRowValue(row, widget.metric);
       seriesMap.set(key, existing);
     });
   }
 
   const series = Array.from(seriesMap.values()).sort((a, b) => b.value - a.value);
   const total = groupBy === 'none'
-    ? filtered.reduce((sum, row) => sum + row.total, 0)
+    ? filtered.reduce((sum, row) => sum + getRowValue(row, widget.metric), 0)
     : series.reduce((sum, item) => sum + item.value, 0);
 
-  return { total, series };
+  return isHoursMetric(widget.metric)
+    ? {
+      total: Math.round(total * 100) / 100,
+      series: series.map((item) => ({ ...item, value: Math.round(item.value * 100) / 100 })),
+    }
+    : { total, series };
 };
 
 export const buildTimeSeriesData = (
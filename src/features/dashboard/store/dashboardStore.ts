@@ -16,6 +16,7 @@ import {
   DashboardWidgetSize,
 } from '@/features/dashboard/types/dashboard';
 import { createWidgetId, getPeriodRange, DEFAULT_BAR_PALETTE } from '@/features/dashboard/lib/dashboardUtils';
+import { getMilestoneProgressById } from '@/features/planner/lib/milestones';
 
 const DASHBOARD_BREAKPOINTS = { lg: 1200, md: 992, sm: 768, xs: 480 };
 const DASHBOARD_COLS = { lg: 12, md: 10, sm: 6, xs: 2 };
@@ -744,23 +745,65 @@ export const useDashboardStore = create<DashboardState>((set, get) => ({
     set({ statuses, projects, assignees, groups, assigneeGroupMap });
   },
   loadMilestones: async (workspaceId) => {
-    const { data, error } = await supabase
-      .from('milestones')
-      .select('id, title, project_id, date')
-      .eq('workspace_id', workspaceId)
-      .order('date', { ascending: true });
+    const [milestonesRes, tasksRes, statusesRes] = await Promise.all([
+      supabase
+        .from('milestones')
+        .select('id, title, project_id, date')
+        .eq('workspace_id', workspaceId)
+        .order('date', { ascending: true }),
+      supabase
+        .from('tasks')
+        .select('id, milestone_id, status_id, end_date')
+        .eq('workspace_id', workspaceId)
+        .not('milestone_id', 'is', null),
+      supabase
+        .from('statuses')
+        .select('id, is_final, is_cancelled')
+        .eq('workspace_id', workspaceId),
+    ]);
 
-    if (error) {
-      set({ error: error.message });
+    if (milestonesRes.error || tasksRes.error || statusesRes.error) {
+      set({
+        error: milestonesRes.error?.message
+          || tasksRes.error?.message
+          || statusesRes.error?.message
+          || 'Failed to load milestones.',
+      });
       return;
     }
 
-    const milestones = (data ?? []).map((row) => ({
+    const baseMilestones = (milestonesRes.data ?? []).map((row) => ({
       id: row.id as string,
       title: row.title as string,
       projectId: row.project_id as string,
       date: row.date as string,
     }));
+    const progressById = getMilestoneProgressById(
+      baseMilestones,
+      (tasksRes.data ?? []).map((row) => ({
+        id: row.id as string,
+        milestoneId: row.milestone_id as string | null,
+        statusId: row.status_id as string,
+        endDate: row.end_date as string,
+      })),
+      (statusesRes.data ?? []).map((row) => {
+        const isCancelled = Boolean(row.is_cancelled);
+        return {
+          id: row.id as string,
+          isFinal: Boolean(row.is_final) && !isCancelled,
+          isCancelled,
+        };
+      }),
+    );
+    const milestones = baseMilestones.map((milestone) => {
+      const progress = progressById.get(milestone.id);
+      return {
+        ...milestone,
+        doneTasks: progress?.done ?? 0,
+        totalTasks: progress?.total ?? 0,
+        atRisk: progress?.atRisk ?? false,
+      };
+    });
 
     set({ milestones });
   },
@@ -822,10 +865,14 @@ export const useDashboardStore = create<DashboardState>((set, get) => ({
     const rows = (aggregateRes.data ?? []).map((row: DashboardStatsRow & { total: number | string }) => ({
       ...row,
       total: Number(row.total),
+      estimated_hours: Number(row.estimated_hours ?? 0),
+      logged_hours: Number(row.logged_hours ?? 0),
     }));
     const rowsBase = (aggregateBaseRes.data ?? []).map((row: DashboardStatsRow & { total: number | string }) => ({
       ...row,
       total: Number(row.total),
+      estimated_hours: Number(row.estimated_hours ?? 0),
+      logged_hours: Number(row.logged_hours ?? 0),
     }));
     const seriesRows = (seriesRes.data ?? []).map((row: DashboardSeriesRow & { total: number | string }) => ({
       ...row,
@@ -11,6 +11,8 @@ export type DashboardWidgetType =
 
 export type DashboardGroupBy = 'none' | 'assignee' | 'status' | 'project';
 
+export type DashboardMetric = 'tasks' | 'estimated_hours' | 'logged_hours';
+
 export type DashboardStatusFilter = 'all' | 'active' | 'final' | 'cancelled' | 'custom';
 
 export type DashboardWidgetSize = 'small' | 'medium' | 'large';
@@ -49,6 +51,7 @@ export type DashboardWidget = {
   title: string;
   period: DashboardPeriod;
   groupBy?: DashboardGroupBy;
+  metric?: DashboardMetric;
   size?: DashboardWidgetSize;
   barPalette?: DashboardBarPalette;
   milestoneView?: DashboardMilestoneView;
@@ -100,6 +103,10 @@ export type DashboardMilestone = {
   title: string;
   projectId: string;
   date: string;
+  /** Linked tasks in a final status / all linked tasks except cancelled ones. */
+  doneTasks: number;
+  totalTasks: number;
+  atRisk: boolean;
 };
 
 export type DashboardStatsRow = {
@@ -112,6 +119,8 @@ export type DashboardStatsRow = {
   status_name: string;
   status_is_final: boolean;
   total: number;
+  estimated_hours?: number;
+  logged_hours?: number;
 };
 
 export type DashboardSeriesItem = {
@@ -1,6 +1,8 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { Navigate, useNavigate } from 'react-router-dom';
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom';
 import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { usePlannerHistory } from '@/features/planner/hooks/usePlannerHistory';
+import { useMutationQueueSync } from '@/features/planner/hooks/useMutationQueueSync';
 import { useAuthStore, WorkspaceRole } from '@/features/auth/store/authStore';
 import { WorkspaceSwitcher } from '@/features/workspace/components/WorkspaceSwitcher';
 import { WorkspaceNav } from '@/features/workspace/components/WorkspaceNav';
@@ -23,10 +25,12 @@ import { formatStatusLabel } from '@/shared/lib/statusLabels';
 import { formatProjectLabel } from '@/shared/lib/projectLabels';
 import { cn } from '@/shared/lib/classNames';
 import { format, parseISO } from 'date-fns';
-import { Settings, User, RefreshCcw, ArrowDownAZ, ArrowDownZA, Layers, Plus } from 'lucide-react';
+import { Settings, User, RefreshCcw, ArrowDownAZ, ArrowDownZA, Layers, Plus, Clock } from 'lucide-react';
 import { Task } from '@/features/planner/types/planner';
 import { WorkspaceMembersPanel } from '@/features/workspace/components/WorkspaceMembersPanel';
-import DOMPurify from 'dompurify';
+import { TaskActivityLog } from '@/features/planner/components/TaskActivityLog';
+import { parseHours } from '@/features/planner/lib/timeTracking';
+import { hasRichTags, sanitizeRichText } from '@/shared/lib/richText';
 import { compareNames } from '@/shared/lib/nameSorting';
 import { Label } from '@/shared/ui/label';
 
@@ -44,6 +48,8 @@ type TaskRow = {
   tag_ids: string[] | null;
   description: string | null;
   repeat_id: string | null;
+  estimate_hours: number | null;
+  milestone_id: string | null;
 };
 
 type MemberGroup = {
@@ -87,43 +93,18 @@ const mapTaskRow = (row: TaskRow): Task => ({
   tagIds: row.tag_ids ?? [],
   description: row.description,
   repeatId: row.repeat_id ?? null,
+  estimateHours: row.estimate_hours === null || row.estimate_hours === undefined ? null : Number(row.estimate_hours),
+  milestoneId: row.milestone_id ?? null,
 });
 
-const hasRichTags = (value: string) => (
-  /<\/?(b|strong|i|em|u|s|strike|ul|ol|li|blockquote|br|div|p|span|img)\b/i.test(value)
-);
-
-const sanitizeDescription = (value: string) => (
-  DOMPurify.sanitize(value, {
-    ALLOWED_TAGS: [
-      'b',
-      'strong',
-      'i',
-      'em',
-      'u',
-      's',
-      'strike',
-      'ul',
-      'ol',
-      'li',
-      'blockquote',
-      'br',
-      'div',
-      'p',
-      'span',
-      'img',
-    ],
-    ALLOWED_ATTR: ['src', 'alt', 'style', 'width', 'height'],
-    ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto|data:image\/)|[^a-z]|[a-z+.-]+(?:[^a-z+.-:]|$))/i,
-  })
-);
-
 const MembersPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [showSettings, setShowSettings] = useState(false);
   const [showAccountSettings, setShowAccountSettings] = useState(false);
   const [tab, setTab] = useState<'active' | 'disabled'>('active');
   const [mode, setMode] = useState<'tasks' | 'access' | 'groups'>('tasks');
   const [selectedAssigneeId, setSelectedAssigneeId] = useState<string | null>(null);
+  const [linkedAssigneeId, setLinkedAssigneeId] = useState<string | null>(() => searchParams.get('member'));
   const [assigneeTasks, setAssigneeTasks] = useState<Task[]>([]);
   const [tasksLoading, setTasksLoading] = useState(false);
   const [tasksError, setTasksError] = useState('');
@@ -155,6 +136,7 @@ const MembersPage = () => {
   const [groupActionLoading, setGroupActionLoading] = useState(false);
   const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
   const [editingGroupName, setEditingGroupName] = useState('');
+  const [capacityDraft, setCapacityDraft] = useState('');
   const pageSize = 100;
 
   const {
@@ -169,6 +151,7 @@ const MembersPage = () => {
     assigneeTaskCounts,
     assigneeCountsDate,
     deleteTasks,
+    updateAssignee,
     setHighlightedTaskId,
     setViewMode,
     setCurrentDate,
@@ -272,6 +255,7 @@ const MembersPage = () => {
     ? `members-mode-user-${user.id}`
     : 'members-mode';
   const modeHydratedRef = useRef(false);
+  const linkedModeRef = useRef(searchParams.get('mode'));
 
   useEffect(() => {
     if (currentWorkspaceId) {
@@ -282,7 +266,9 @@ const MembersPage = () => {
   useEffect(() => {
     modeHydratedRef.current = false;
     if (typeof window === 'undefined') return;
-    const saved = window.localStorage.getItem(modeStorageKey);
+    // Режим из ссылки важнее сохранённого, но применяется только при первом открытии.
+    const saved = linkedModeRef.current ?? window.localStorage.getItem(modeStorageKey);
+    linkedModeRef.current = null;
     if (saved === 'tasks' || saved === 'groups' || (saved === 'access' && isAdmin)) {
       setMode(saved);
     } else if (saved === 'access' && !isAdmin) {
@@ -377,11 +363,45 @@ const MembersPage = () => {
     }
   }, [activeVisibleAssignees, disabledVisibleAssignees, selectedAssigneeId, tab]);
 
+  useEffect(() => {
+    if (!linkedAssigneeId || assignees.length === 0) return;
+    const assignee = assignees.find((item) => item.id === linkedAssigneeId);
+    setLinkedAssigneeId(null);
+    if (!assignee) return;
+    setTab(assignee.isActive ? 'active' : 'disabled');
+    setSelectedAssigneeId(assignee.id);
+  }, [assignees, linkedAssigneeId]);
+
+  // Выбранный участник и режим живут в query-параметрах, чтобы ссылкой можно было поделиться.
+  useEffect(() => {
+    if (linkedAssigneeId) return;
+    const next = new URLSearchParams();
+    if (selectedAssigneeId) next.set('member', selectedAssigneeId);
+    next.set('mode', mode);
+    if (next.toString() === searchParams.toString()) return;
+    setSearchParams(next, { replace: true });
+  }, [linkedAssigneeId, mode, searchParams, selectedAssigneeId, setSearchParams]);
+
   const selectedAssignee = useMemo(
     () => assignees.find((assignee) => assignee.id === selectedAssigneeId) ?? null,
     [assignees, selectedAssigneeId],
   );
 
+  useEffect(() => {
+    setCapacityDraft(selectedAssignee ? String(selectedAssignee.capacityHours) : '');
+  }, [selectedAssignee]);
+
+  const handleCapacityCommit = useCallback(() => {
+    if (!selectedAssignee) return;
+    const next = parseHours(capacityDraft);
+    if (next === null || next > 24) {
+      setCapacityDraft(String(selectedAssignee.capacityHours));
+      return;
+    }
+    if (next === selectedAssignee.capacityHours) return;
+    void updateAssignee(selectedAssignee.id, { capacityHours: next });
+  }, [capacityDraft, selectedAssignee, updateAssignee]);
+
   const statusById = useMemo(
     () => new Map(statuses.map((status) => [status.id, status])),
     [statuses],
@@ -526,13 +546,16 @@ const MembersPage = () => {
     setTasksLoading(true);
     setTasksError('');
     const offset = (pageIndex - 1) * pageSize;
+    const today = format(new Date(), 'yyyy-MM-dd');
+    // workspace_tasks добавляет к строкам tasks ещё не изменённые повторы серий в заданном окне.
     let query = supabase
-      .from('tasks')
-      .select('*', { count: 'exact' })
-      .eq('workspace_id', currentWorkspaceId)
+      .rpc('workspace_tasks', {
+        p_workspace_id: currentWorkspaceId,
+        p_from: taskScope === 'current' ? today : (pastFromDate || null),
+        p_to: taskScope === 'current' ? null : (pastToDate || today),
+      }, { count: 'exact' })
       .or(`assignee_id.eq.${assigneeId},assignee_ids.cs.{${assigneeId}}`);
 
-    const today = format(new Date(), 'yyyy-MM-dd');
     if (taskScope === 'current') {
       query = query.gte('end_date', today);
     } else {
@@ -604,6 +627,13 @@ const MembersPage = () => {
     fetchAssigneeTasks(selectedAssigneeId);
   }, [fetchAssigneeTasks, selectedAssigneeId]);
 
+  useMutationQueueSync();
+  usePlannerHistory(canEdit, () => {
+    if (selectedAssigneeId) {
+      fetchAssigneeTasks(selectedAssigneeId);
+    }
+  });
+
   useEffect(() => {
     setSelectedTaskIds(new Set());
   }, [selectedAssigneeId, pageIndex, projectFilterIds, search, statusFilterIds, taskScope, pastFromDate, pastToDate, pastSort]);
@@ -631,7 +661,7 @@ const MembersPage = () => {
   const selectedTaskDescription = useMemo(() => {
     if (!selectedTask?.description) return '';
     if (!hasRichTags(selectedTask.description)) return selectedTask.description;
-    return sanitizeDescription(selectedTask.description);
+    return sanitizeRichText(selectedTask.description);
   }, [selectedTask?.description]);
 
   const allVisibleSelected = filteredTasks.length > 0 && filteredTasks.every((task) => selectedTaskIds.has(task.id));
@@ -1212,8 +1242,36 @@ const MembersPage = () => {
                     </div>
                     <div>{scopeToggle}</div>
                   </div>
-                  <div className="text-xs text-muted-foreground">
-                    {assigneeCountsDate ? t`Tasks from today` : t`Tasks count loading...`}
+                  <div className="flex items-center gap-3">
+                    <div className="text-xs text-muted-foreground">
+                      {assigneeCountsDate ? t`Tasks from today` : t`Tasks count loading...`}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="assignee-capacity" className="text-xs text-muted-foreground">
+                        {t`Capacity, h/day`}
+                      </Label>
+                      <Input
+                        id="assignee-capacity"
+                        type="number"
+                        min={0}
+                        max={24}
+                        step={0.5}
+                        className="h-8 w-20"
+                        value={capacityDraft}
+                        onChange={(event) => setCapacityDraft(event.target.value)}
+                        onBlur={handleCapacityCommit}
+                        disabled={!canEdit}
+                      />
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => navigate(`/members/${selectedAssignee.id}/timesheet`)}
+                    >
+                      <Clock className="h-4 w-4" />
+                      {t`Timesheet`}
+                    </Button>
                   </div>
                 </div>
               </div>
@@ -1541,100 +1599,111 @@ const MembersPage = () => {
           )}
           {selectedTask && (
             <div className="space-y-4">
-              <div className="grid gap-3 sm:grid-cols-2">
-                <div>
-                  <div className="text-xs text-muted-foreground">{t`Project`}</div>
-                  <div className="text-sm">
-                    {selectedTaskProject
-                      ? formatProjectLabel(selectedTaskProject.name, selectedTaskProject.code)
-                      : t`No project`}
-                  </div>
-                </div>
-                <div>
-                  <div className="text-xs text-muted-foreground">{t`Status`}</div>
-                  <div className="flex items-center gap-2 text-sm">
-                    <span
-                      className="inline-flex h-2 w-2 rounded-full"
-                      style={{ backgroundColor: statusById.get(selectedTask.statusId)?.color ?? '#94a3b8' }}
-                    />
-                    <span>{statusById.get(selectedTask.statusId)
-                      ? formatStatusLabel(
-                        statusById.get(selectedTask.statusId)!.name,
-                        statusById.get(selectedTask.statusId)!.emoji,
-                      )
-                      : t`Unknown`}
-                    </span>
+              <Tabs defaultValue="details">
+                <TabsList className="h-8">
+                  <TabsTrigger value="details" className="text-xs">{t`Details`}</TabsTrigger>
+                  <TabsTrigger value="history" className="text-xs">{t`History`}</TabsTrigger>
+                </TabsList>
+                <TabsContent value="details" className="space-y-4">
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div>
+                      <div className="text-xs text-muted-foreground">{t`Project`}</div>
+                      <div className="text-sm">
+                        {selectedTaskProject
+                          ? formatProjectLabel(selectedTaskProject.name, selectedTaskProject.code)
+                          : t`No project`}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">{t`Status`}</div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <span
+                          className="inline-flex h-2 w-2 rounded-full"
+                          style={{ backgroundColor: statusById.get(selectedTask.statusId)?.color ?? '#94a3b8' }}
+                        />
+                        <span>{statusById.get(selectedTask.statusId)
+                          ? formatStatusLabel(
+                            statusById.get(selectedTask.statusId)!.name,
+                            statusById.get(selectedTask.statusId)!.emoji,
+                          )
+                          : t`Unknown`}
+                        </span>
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">{t`Assignees`}</div>
+                      <div className="flex flex-wrap gap-1">
+                        {selectedTask.assigneeIds.length === 0 && (
+                          <span className="text-xs text-muted-foreground">{t`Unassigned`}</span>
+                        )}
+                        {selectedTask.assigneeIds.map((id) => {
+                          const assignee = assigneeById.get(id);
+                          if (!assignee) return null;
+                          return (
+                            <Badge key={assignee.id} variant="secondary" className="text-[10px]">
+                              {assignee.name}
+                              {!assignee.isActive && ` ${t`(disabled)`}`}
+                            </Badge>
+                          );
+                        })}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">{t`Dates`}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {format(parseISO(selectedTask.startDate), 'dd MMM yyyy')} – {format(parseISO(selectedTask.endDate), 'dd MMM yyyy')}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">{t`Type`}</div>
+                      <div className="text-sm">
+                        {taskTypeById.get(selectedTask.typeId)?.name ?? t`Unknown`}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">{t`Priority`}</div>
+                      <div className="text-sm">{selectedTask.priority ?? t`None`}</div>
+                    </div>
+                    <div className="sm:col-span-2">
+                      <div className="text-xs text-muted-foreground">{t`Tags`}</div>
+                      {selectedTaskTags.length === 0 ? (
+                        <div className="text-xs text-muted-foreground">{t`No tags`}</div>
+                      ) : (
+                        <div className="flex flex-wrap gap-1.5">
+                          {selectedTaskTags.map((tag) => (
+                            <Badge
+                              key={tag.id}
+                              variant="outline"
+                              className="text-[10px]"
+                              style={{ borderColor: tag.color, color: tag.color }}
+                            >
+                              {tag.name}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-                <div>
-                  <div className="text-xs text-muted-foreground">{t`Assignees`}</div>
-                  <div className="flex flex-wrap gap-1">
-                    {selectedTask.assigneeIds.length === 0 && (
-                      <span className="text-xs text-muted-foreground">{t`Unassigned`}</span>
+                  <div>
+                    <div className="text-xs text-muted-foreground">{t`Description`}</div>
+                    {!selectedTask.description && (
+                      <div className="text-sm text-muted-foreground">{t`No description.`}</div>
+                    )}
+                    {selectedTask.description && hasRichTags(selectedTask.description) && (
+                      <div
+                        className="text-sm leading-6"
+                        dangerouslySetInnerHTML={{ __html: selectedTaskDescription }}
+                      />
+                    )}
+                    {selectedTask.description && !hasRichTags(selectedTask.description) && (
+                      <div className="text-sm whitespace-pre-wrap">{selectedTaskDescription}</div>
                     )}
-                    {selectedTask.assigneeIds.map((id) => {
-                      const assignee = assigneeById.get(id);
-                      if (!assignee) return null;
-                      return (
-                        <Badge key={assignee.id} variant="secondary" className="text-[10px]">
-                          {assignee.name}
-                          {!assignee.isActive && ` ${t`(disabled)`}`}
-                        </Badge>
-                      );
-                    })}
-                  </div>
-                </div>
-                <div>
-                  <div className="text-xs text-muted-foreground">{t`Dates`}</div>
-                  <div className="text-sm text-muted-foreground">
-                    {format(parseISO(selectedTask.startDate), 'dd MMM yyyy')} – {format(parseISO(selectedTask.endDate), 'dd MMM yyyy')}
-                  </div>
-                </div>
-                <div>
-                  <div className="text-xs text-muted-foreground">{t`Type`}</div>
-                  <div className="text-sm">
-                    {taskTypeById.get(selectedTask.typeId)?.name ?? t`Unknown`}
                   </div>
-                </div>
-                <div>
-                  <div className="text-xs text-muted-foreground">{t`Priority`}</div>
-                  <div className="text-sm">{selectedTask.priority ?? t`None`}</div>
-                </div>
-                <div className="sm:col-span-2">
-                  <div className="text-xs text-muted-foreground">{t`Tags`}</div>
-                  {selectedTaskTags.length === 0 ? (
-                    <div className="text-xs text-muted-foreground">{t`No tags`}</div>
-                  ) : (
-                    <div className="flex flex-wrap gap-1.5">
-                      {selectedTaskTags.map((tag) => (
-                        <Badge
-                          key={tag.id}
-                          variant="outline"
-                          className="text-[10px]"
-                          style={{ borderColor: tag.color, color: tag.color }}
-                        >
-                          {tag.name}
-                        </Badge>
-                      ))}
-                    </div>
-                  )}
-                </div>
-              </div>
-              <div>
-                <div className="text-xs text-muted-foreground">{t`Description`}</div>
-                {!selectedTask.description && (
-                  <div className="text-sm text-muted-foreground">{t`No description.`}</div>
-                )}
-                {selectedTask.description && hasRichTags(selectedTask.description) && (
-                  <div
-                    className="text-sm leading-6"
-                    dangerouslySetInnerHTML={{ __html: selectedTaskDescription }}
-                  />
-                )}
-                {selectedTask.description && !hasRichTags(selectedTask.description) && (
-                  <div className="text-sm whitespace-pre-wrap">{selectedTaskDescription}</div>
-                )}
-              </div>
+                </TabsContent>
+                <TabsContent value="history" className="max-h-[50vh] overflow-y-auto pr-2">
+                  <TaskActivityLog taskId={selectedTask.id} />
+                </TabsContent>
+              </Tabs>
               <div className="flex justify-end gap-2">
                 <Button onClick={handleOpenTaskInTimeline}>
                   {t`Go to task`}
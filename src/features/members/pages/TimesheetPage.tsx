@@ -0,0 +1,246 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { addDays, addWeeks, format, startOfWeek } from 'date-fns';
+import { t } from '@lingui/macro';
+import { ArrowLeft, ChevronLeft, ChevronRight } from 'lucide-react';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import { WorkspaceSwitcher } from '@/features/workspace/components/WorkspaceSwitcher';
+import { WorkspaceNav } from '@/features/workspace/components/WorkspaceNav';
+import { mapTimeEntryRow, TimeEntryRow } from '@/features/planner/hooks/useTaskTimeEntries';
+import { buildTimesheetGrid, formatHours } from '@/features/planner/lib/timeTracking';
+import { TimeEntry } from '@/features/planner/types/planner';
+import { Button } from '@/shared/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/shared/ui/table';
+import { supabase } from '@/shared/lib/supabaseClient';
+import { formatProjectLabel } from '@/shared/lib/projectLabels';
+import { compareNames } from '@/shared/lib/nameSorting';
+import { cn } from '@/shared/lib/classNames';
+
+type TimesheetTask = {
+  id: string;
+  title: string;
+  projectId: string | null;
+};
+
+const TimesheetPage = () => {
+  const { assigneeId = '' } = useParams<{ assigneeId: string }>();
+  const navigate = useNavigate();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [tasksById, setTasksById] = useState<Map<string, TimesheetTask>>(new Map());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { assignees, projects, loadWorkspaceData } = usePlannerStore();
+  const { currentWorkspaceId, isSuperAdmin } = useAuthStore();
+
+  useEffect(() => {
+    if (currentWorkspaceId) {
+      loadWorkspaceData(currentWorkspaceId);
+    }
+  }, [currentWorkspaceId, loadWorkspaceData]);
+
+  const days = useMemo(
+    () => Array.from({ length: 7 }, (_, index) => format(addDays(weekStart, index), 'yyyy-MM-dd')),
+    [weekStart],
+  );
+
+  // Записи за неделю и названия их задач (задачи могут быть вне загруженного диапазона таймлайна).
+  useEffect(() => {
+    if (!currentWorkspaceId || !assigneeId) return;
+    let cancelled = false;
+
+    const loadEntries = async () => {
+      setLoading(true);
+      setError('');
+      const { data, error: entriesError } = await supabase
+        .from('time_entries')
+        .select('*')
+        .eq('workspace_id', currentWorkspaceId)
+        .eq('assignee_id', assigneeId)
+        .gte('entry_date', days[0])
+        .lte('entry_date', days[days.length - 1]);
+      if (cancelled) return;
+      if (entriesError) {
+        setError(entriesError.message);
+        setLoading(false);
+        return;
+      }
+      const nextEntries = (data ?? []).map((row) => mapTimeEntryRow(row as TimeEntryRow));
+      const taskIds = Array.from(new Set(nextEntries.map((entry) => entry.taskId)));
+      const nextTasks = new Map<string, TimesheetTask>();
+      if (taskIds.length > 0) {
+        const { data: taskRows, error: tasksError } = await supabase
+          .from('tasks')
+          .select('id, title, project_id')
+          .in('id', taskIds);
+        if (cancelled) return;
+        if (tasksError) {
+          console.error(tasksError);
+        }
+        (taskRows ?? []).forEach((row: { id: string; title: string; project_id: string | null }) => {
+          nextTasks.set(row.id, { id: row.id, title: row.title, projectId: row.project_id });
+        });
+      }
+      setEntries(nextEntries);
+      setTasksById(nextTasks);
+      setLoading(false);
+    };
+
+    void loadEntries();
+    return () => {
+      cancelled = true;
+    };
+  }, [assigneeId, currentWorkspaceId, days]);
+
+  const sortedAssignees = useMemo(
+    () => [...assignees].sort((left, right) => compareNames(left.name, right.name)),
+    [assignees],
+  );
+  const assignee = assignees.find((item) => item.id === assigneeId) ?? null;
+  const projectById = useMemo(() => new Map(projects.map((project) => [project.id, project])), [projects]);
+  const grid = useMemo(() => buildTimesheetGrid(entries, days), [days, entries]);
+  const rows = useMemo(() => (
+    [...grid.rows].sort((left, right) => (
+      (tasksById.get(left.taskId)?.title ?? '').localeCompare(tasksById.get(right.taskId)?.title ?? '')
+    ))
+  ), [grid.rows, tasksById]);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const weekLabel = `${format(weekStart, 'dd MMM')} – ${format(addDays(weekStart, 6), 'dd MMM yyyy')}`;
+
+  if (isSuperAdmin) {
+    return <Navigate to="/admin/users" replace />;
+  }
+
+  return (
+    <div className="flex flex-col h-screen overflow-hidden bg-background">
+      <header className="flex items-center justify-between px-4 py-3 border-b border-border bg-card">
+        <div className="flex items-center gap-3">
+          <WorkspaceSwitcher />
+          <WorkspaceNav />
+        </div>
+      </header>
+
+      <div className="border-b border-border px-6 py-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navigate('/members')}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div className="text-lg font-semibold">{t`Timesheet`}</div>
+            <Select value={assigneeId} onValueChange={(value) => navigate(`/members/${value}/timesheet`)}>
+              <SelectTrigger className="h-8 w-[220px]">
+                <SelectValue placeholder={t`Select member`} />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedAssignees.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setWeekStart((current) => addWeeks(current, -1))}
+              aria-label={t`Previous week`}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <div className="min-w-[170px] text-center text-sm font-medium">{weekLabel}</div>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setWeekStart((current) => addWeeks(current, 1))}
+              aria-label={t`Next week`}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+            >
+              {t`This week`}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto px-6 py-4">
+        {error && <p className="mb-3 text-sm text-destructive">{error}</p>}
+        {!assignee && assignees.length > 0 && (
+          <p className="text-sm text-muted-foreground">{t`Member not found.`}</p>
+        )}
+        {assignee && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[240px]">{t`Task`}</TableHead>
+                {days.map((day) => (
+                  <TableHead
+                    key={day}
+                    className={cn('w-20 text-right', day === today && 'text-foreground')}
+                  >
+                    {format(new Date(`${day}T00:00:00`), 'EEE dd')}
+                  </TableHead>
+                ))}
+                <TableHead className="w-20 text-right">{t`Total`}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={days.length + 2} className="text-center text-sm text-muted-foreground">
+                    {loading ? t`Loading...` : t`No time logged this week.`}
+                  </TableCell>
+                </TableRow>
+              )}
+              {rows.map((row) => {
+                const task = tasksById.get(row.taskId);
+                const project = task?.projectId ? projectById.get(task.projectId) : null;
+                return (
+                  <TableRow key={row.taskId}>
+                    <TableCell>
+                      <div className="truncate text-sm font-medium">{task?.title ?? t`Deleted task`}</div>
+                      {project && (
+                        <div className="truncate text-xs text-muted-foreground">
+                          {formatProjectLabel(project.name, project.code)}
+                        </div>
+                      )}
+                    </TableCell>
+                    {days.map((day) => (
+                      <TableCell key={day} className="text-right tabular-nums">
+                        {row.hoursByDay[day] ? formatHours(row.hoursByDay[day]) : ''}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-medium tabular-nums">{formatHours(row.total)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>{t`Total`}</TableCell>
+                {days.map((day) => (
+                  <TableCell key={day} className="text-right tabular-nums">
+                    {formatHours(grid.dayTotals[day] ?? 0)}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right tabular-nums">{formatHours(grid.total)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimesheetPage;
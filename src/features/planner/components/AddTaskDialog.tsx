@@ -1,6 +1,8 @@
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { useAuthStore } from '@/features/auth/store/authStore';
 import { useFilteredAssignees } from '@/features/planner/hooks/useFilteredAssignees';
+import { useTaskTemplates } from '@/features/planner/hooks/useTaskTemplates';
 import { Button } from '@/shared/ui/button';
 import { Input } from '@/shared/ui/input';
 import { Label } from '@/shared/ui/label';
@@ -17,18 +19,37 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/shared/ui/alert-dialog';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/shared/ui/select';
 import { RichTextEditor } from '@/features/planner/components/RichTextEditor';
+import { ChecklistDraft, TaskChecklist } from '@/features/planner/components/TaskChecklist';
+import { RecurrenceFields } from '@/features/planner/components/RecurrenceFields';
 import { Badge } from '@/shared/ui/badge';
 import { Checkbox } from '@/shared/ui/checkbox';
 import { Switch } from '@/shared/ui/switch';
 import { Popover, PopoverContent, PopoverTrigger } from '@/shared/ui/popover';
 import { ScrollArea } from '@/shared/ui/scroll-area';
-import { ChevronDown, Plus } from 'lucide-react';
-import { format, addDays } from '@/features/planner/lib/dateUtils';
+import { ChevronDown, Plus, Trash2 } from 'lucide-react';
+import { format } from '@/features/planner/lib/dateUtils';
 import { cn } from '@/shared/lib/classNames';
-import { TaskPriority } from '@/features/planner/types/planner';
-import { endOfMonth, isSameMonth, isSameYear, parseISO } from 'date-fns';
+import { TaskPriority, TaskTemplate } from '@/features/planner/types/planner';
+import { parseHours } from '@/features/planner/lib/timeTracking';
+import {
+  buildRecurrenceRule,
+  createRecurrenceDraft,
+  formatRRule,
+  getRecurrenceDraftIssue,
+  parseRRule,
+  RecurrenceDraft,
+} from '@/features/planner/lib/recurrence';
+import { getTemplateEndDate } from '@/features/planner/lib/taskTemplates';
 import { sortProjectsByTracking } from '@/shared/lib/projectSorting';
 import { t } from '@lingui/macro';
 
@@ -49,8 +70,23 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
   initialProjectId,
   initialAssigneeIds,
 }) => {
-  const { projects, trackedProjectIds, assignees, statuses, taskTypes, tags, addTask, createRepeats } = usePlannerStore();
+  const {
+    workspaceId,
+    projects,
+    trackedProjectIds,
+    assignees,
+    statuses,
+    taskTypes,
+    tags,
+    addTask,
+    saveTaskRecurrence,
+    addChecklistItem,
+  } = usePlannerStore();
+  const user = useAuthStore((state) => state.user);
+  const currentWorkspaceRole = useAuthStore((state) => state.currentWorkspaceRole);
   const filteredAssignees = useFilteredAssignees(assignees);
+  // Список перечитывается при каждом открытии, чтобы появились шаблоны, сохранённые из карточки задачи.
+  const { templates, deleteTemplate } = useTaskTemplates(open ? workspaceId : null);
   const activeProjects = useMemo(
     () => sortProjectsByTracking(
       projects.filter((project) => !project.archived),
@@ -67,14 +103,6 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
   const defaultStart = format(today, 'yyyy-MM-dd');
   const initialStart = initialStartDate ?? defaultStart;
   const initialEnd = initialEndDate ?? initialStart;
-  const getDefaultRepeatUntil = (baseDate: string) => {
-    const start = parseISO(baseDate);
-    const next = addDays(start, 1);
-    if (isSameMonth(next, start) && isSameYear(next, start)) {
-      return format(next, 'yyyy-MM-dd');
-    }
-    return format(endOfMonth(start), 'yyyy-MM-dd');
-  };
   const [title, setTitle] = useState('');
   const [projectId, setProjectId] = useState<string>('none');
   const [projectInitialized, setProjectInitialized] = useState(false);
@@ -86,16 +114,24 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
   const [endDate, setEndDate] = useState(initialEnd);
   const [tagIds, setTagIds] = useState<string[]>([]);
   const [description, setDescription] = useState('');
-  const repeatUntilAutoRef = useRef(true);
-  const [repeatFrequency, setRepeatFrequency] = useState<'none' | 'daily' | 'weekly' | 'monthly' | 'yearly'>('none');
-  const [repeatEnds, setRepeatEnds] = useState<'never' | 'on' | 'after'>('never');
-  const [repeatUntil, setRepeatUntil] = useState(getDefaultRepeatUntil(initialStart));
-  const [repeatCount, setRepeatCount] = useState(4);
+  const [estimate, setEstimate] = useState('');
+  const [checklist, setChecklist] = useState<ChecklistDraft[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft>(() => createRecurrenceDraft(initialStart));
   const [repeatError, setRepeatError] = useState('');
   const [repeatCreating, setRepeatCreating] = useState(false);
   const [repeatOpen, setRepeatOpen] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [confirmCloseOpen, setConfirmCloseOpen] = useState(false);
+  const [templateId, setTemplateId] = useState('');
+  const [templateDeleteOpen, setTemplateDeleteOpen] = useState(false);
+  const [templateError, setTemplateError] = useState('');
+
+  const activeTemplate = templates.find((template) => template.id === templateId) ?? null;
+  const personalTemplates = useMemo(() => templates.filter((template) => !template.isShared), [templates]);
+  const sharedTemplates = useMemo(() => templates.filter((template) => template.isShared), [templates]);
+  const canManageTemplate = (template: TaskTemplate) => (
+    template.ownerId === user?.id || (template.isShared && currentWorkspaceRole === 'admin')
+  );
 
   const normalizeAssigneeSelection = useCallback((ids: string[] | undefined) => {
     if (!ids || ids.length === 0) return [];
@@ -131,32 +167,16 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
     });
   };
 
-  const handleRepeatFrequencyChange = (value: typeof repeatFrequency) => {
-    markChanged();
-    setRepeatFrequency(value);
-    if (value === 'none') return;
-    if (repeatEnds !== 'on') return;
-    repeatUntilAutoRef.current = true;
-    setRepeatUntil(getDefaultRepeatUntil(startDate));
-  };
-
-  const handleRepeatEndsChange = (value: typeof repeatEnds) => {
+  const handleRecurrenceChange = (value: RecurrenceDraft) => {
     markChanged();
-    setRepeatEnds(value);
-    if (value !== 'on') return;
-    repeatUntilAutoRef.current = true;
-    setRepeatUntil(getDefaultRepeatUntil(startDate));
+    setRecurrence(value);
   };
 
   const handleRepeatToggle = (enabled: boolean) => {
     markChanged();
     setRepeatOpen(enabled);
     if (enabled) return;
-    setRepeatFrequency('none');
-    setRepeatEnds('never');
-    repeatUntilAutoRef.current = true;
-    setRepeatUntil(getDefaultRepeatUntil(startDate));
-    setRepeatCount(4);
+    setRecurrence(createRecurrenceDraft(startDate));
     setRepeatError('');
   };
 
@@ -179,9 +199,48 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
   const handleStartDateChange = (value: string) => {
     markChanged();
     setStartDate(value);
-    if (repeatEnds !== 'on' || repeatFrequency === 'none') return;
-    if (!repeatUntilAutoRef.current) return;
-    setRepeatUntil(getDefaultRepeatUntil(value));
+    // Длительность из шаблона откладывается от новой даты начала.
+    if (activeTemplate && value) {
+      setEndDate(getTemplateEndDate(activeTemplate, value));
+    }
+  };
+
+  const applyTemplate = (template: TaskTemplate) => {
+    markChanged();
+    setTemplateId(template.id);
+    setTemplateError('');
+    setTitle(template.title);
+    setProjectId(activeProjects.find((project) => project.id === template.projectId)?.id ?? 'none');
+    setAssigneeIds(
+      normalizeAssigneeSelection(template.assigneeIds)
+        .filter((id) => selectableAssignees.some((assignee) => assignee.id === id)),
+    );
+    if (template.statusId && statuses.some((status) => status.id === template.statusId)) {
+      setStatusId(template.statusId);
+    }
+    if (template.typeId && taskTypes.some((taskType) => taskType.id === template.typeId)) {
+      setTypeId(template.typeId);
+    }
+    setPriority(template.priority ?? 'none');
+    setTagIds(template.tagIds.filter((id) => tags.some((tag) => tag.id === id)));
+    setDescription(template.description ?? '');
+    setEstimate(template.estimateHours === null ? '' : String(template.estimateHours));
+    setEndDate(getTemplateEndDate(template, startDate));
+    const rule = template.rrule ? parseRRule(template.rrule) : null;
+    setRecurrence(createRecurrenceDraft(startDate, rule));
+    setRepeatOpen(Boolean(rule));
+    setRepeatError('');
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!activeTemplate) return;
+    const result = await deleteTemplate(activeTemplate.id);
+    setTemplateDeleteOpen(false);
+    if (result.error) {
+      setTemplateError(result.error);
+      return;
+    }
+    setTemplateId('');
   };
   
   const handleSubmit = async (e: React.FormEvent) => {
@@ -190,15 +249,18 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
     if (!title.trim() || !statusId || !typeId) return;
 
     setRepeatError('');
-    if (repeatFrequency !== 'none') {
-      if (repeatEnds === 'after' && (!repeatCount || repeatCount < 1)) {
-        setRepeatError(t`Enter how many repeats to create.`);
-        return;
-      }
-      if (repeatEnds === 'on' && !repeatUntil) {
-        setRepeatError(t`Select an end date.`);
-        return;
-      }
+    const recurrenceIssue = getRecurrenceDraftIssue(recurrence);
+    if (recurrenceIssue === 'weekdays') {
+      setRepeatError(t`Select at least one weekday.`);
+      return;
+    }
+    if (recurrenceIssue === 'count') {
+      setRepeatError(t`Enter how many repeats to create.`);
+      return;
+    }
+    if (recurrenceIssue === 'until') {
+      setRepeatError(t`Select an end date.`);
+      return;
     }
 
     setRepeatCreating(true);
@@ -214,6 +276,8 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
       tagIds,
       description: description.trim() || null,
       repeatId: null,
+      estimateHours: parseHours(estimate),
+      milestoneId: null,
     });
 
     if (!createdTask) {
@@ -222,13 +286,13 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
       return;
     }
 
-    if (repeatFrequency !== 'none') {
-      const result = await createRepeats(createdTask.id, {
-        frequency: repeatFrequency,
-        ends: repeatEnds,
-        untilDate: repeatEnds === 'on' ? repeatUntil : undefined,
-        count: repeatEnds === 'after' ? repeatCount : undefined,
-      });
+    for (const item of checklist) {
+      await addChecklistItem(createdTask.id, item);
+    }
+
+    const recurrenceRule = buildRecurrenceRule(recurrence, startDate);
+    if (recurrenceRule) {
+      const result = await saveTaskRecurrence(createdTask.id, formatRRule(recurrenceRule));
       if (result.error) {
         setRepeatError(result.error);
         setRepeatCreating(false);
@@ -248,14 +312,13 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
     setEndDate(defaultStart);
     setTagIds([]);
     setDescription('');
-    setRepeatFrequency('none');
-    setRepeatEnds('never');
-    repeatUntilAutoRef.current = true;
-    setRepeatUntil(getDefaultRepeatUntil(defaultStart));
-    setRepeatCount(4);
+    setEstimate('');
+    setChecklist([]);
+    setRecurrence(createRecurrenceDraft(defaultStart));
     setRepeatError('');
     setRepeatCreating(false);
     setRepeatOpen(false);
+    setTemplateId('');
     setHasChanges(false);
     
     onOpenChange(false);
@@ -273,6 +336,8 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
       setHasChanges(false);
       setRepeatOpen(false);
       setConfirmCloseOpen(false);
+      setTemplateId('');
+      setTemplateError('');
       return;
     }
     if (projectInitialized) return;
@@ -288,11 +353,7 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
     setEndDate(nextEnd);
     setProjectId(nextProjectId);
     setAssigneeIds(nextAssignees);
-    setRepeatFrequency('none');
-    setRepeatEnds('never');
-    repeatUntilAutoRef.current = true;
-    setRepeatUntil(getDefaultRepeatUntil(nextStart));
-    setRepeatCount(4);
+    setRecurrence(createRecurrenceDraft(nextStart));
     setRepeatError('');
     setRepeatOpen(false);
     setHasChanges(false);
@@ -333,6 +394,56 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-3 mt-3">
+          {templates.length > 0 && (
+            <div className="space-y-1.5">
+              <Label>{t`From template`}</Label>
+              <div className="flex items-center gap-1">
+                <Select
+                  value={templateId}
+                  onValueChange={(value) => {
+                    const template = templates.find((item) => item.id === value);
+                    if (template) applyTemplate(template);
+                  }}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={t`Choose a template`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {personalTemplates.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>{t`Personal`}</SelectLabel>
+                        {personalTemplates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    {sharedTemplates.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>{t`Shared`}</SelectLabel>
+                        {sharedTemplates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+                {activeTemplate && canManageTemplate(activeTemplate) && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-9 w-9"
+                    onClick={() => setTemplateDeleteOpen(true)}
+                    aria-label={t`Delete template`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {templateError && <div className="text-xs text-destructive">{templateError}</div>}
+            </div>
+          )}
+
           <div className="space-y-1.5">
             <Label htmlFor="new-title">{t`Title`} *</Label>
             <Input
@@ -504,6 +615,22 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
             </div>
           </div>
 
+          <div className="space-y-1.5">
+            <Label htmlFor="new-estimate">{t`Estimate (hours)`}</Label>
+            <Input
+              id="new-estimate"
+              type="number"
+              min={0}
+              step={0.25}
+              value={estimate}
+              onChange={(e) => {
+                markChanged();
+                setEstimate(e.target.value);
+              }}
+              placeholder={t`Not estimated`}
+            />
+          </div>
+
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label>{t`Repeat`}</Label>
@@ -516,67 +643,12 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
             </div>
             {repeatOpen && (
               <>
-                <div className="grid grid-cols-2 gap-3">
-                  <Select
-                    value={repeatFrequency}
-                    onValueChange={(value) => handleRepeatFrequencyChange(value as typeof repeatFrequency)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={t`Repeat`} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="none">{t`Does not repeat`}</SelectItem>
-                      <SelectItem value="daily">{t`Daily`}</SelectItem>
-                      <SelectItem value="weekly">{t`Weekly`}</SelectItem>
-                      <SelectItem value="monthly">{t`Monthly`}</SelectItem>
-                      <SelectItem value="yearly">{t`Yearly`}</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Select
-                    value={repeatEnds}
-                    onValueChange={(value) => handleRepeatEndsChange(value as typeof repeatEnds)}
-                    disabled={repeatFrequency === 'none'}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={t`Ends`} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="never">{t`Never`}</SelectItem>
-                      <SelectItem value="on">{t`On date`}</SelectItem>
-                      <SelectItem value="after">{t`After count`}</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                {repeatFrequency !== 'none' && repeatEnds === 'on' && (
-                  <div className="space-y-1.5">
-                    <Label htmlFor="new-repeat-until" className="text-xs text-muted-foreground">{t`End date`}</Label>
-                    <Input
-                      id="new-repeat-until"
-                      type="date"
-                      value={repeatUntil}
-                      onChange={(e) => {
-                        markChanged();
-                        repeatUntilAutoRef.current = false;
-                        setRepeatUntil(e.target.value);
-                      }}
-                    />
-                  </div>
-                )}
-                {repeatFrequency !== 'none' && repeatEnds === 'after' && (
-                  <div className="space-y-1.5">
-                    <Label htmlFor="new-repeat-count" className="text-xs text-muted-foreground">{t`Occurrences`}</Label>
-                    <Input
-                      id="new-repeat-count"
-                      type="number"
-                      min={1}
-                      value={repeatCount}
-                      onChange={(e) => {
-                        markChanged();
-                        setRepeatCount(Number(e.target.value));
-                      }}
-                    />
-                  </div>
-                )}
+                <RecurrenceFields
+                  id="new-repeat"
+                  value={recurrence}
+                  startDate={startDate}
+                  onChange={handleRecurrenceChange}
+                />
                 {repeatError && (
                   <div className="text-xs text-destructive">{repeatError}</div>
                 )}
@@ -597,6 +669,27 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
             />
           </div>
 
+          <TaskChecklist
+            items={checklist}
+            assignees={filteredAssignees}
+            canEdit
+            onAdd={(itemTitle) => {
+              markChanged();
+              setChecklist((current) => [
+                ...current,
+                { id: `draft-${Date.now()}-${current.length}`, title: itemTitle, done: false, assigneeId: null, dueDate: null },
+              ]);
+            }}
+            onUpdate={(id, updates) => {
+              markChanged();
+              setChecklist((current) => current.map((item) => (item.id === id ? { ...item, ...updates } : item)));
+            }}
+            onDelete={(id) => {
+              markChanged();
+              setChecklist((current) => current.filter((item) => item.id !== id));
+            }}
+          />
+
           <div className="space-y-2">
             <Label>{t`Tags`}</Label>
             {tags.length === 0 ? (
@@ -640,6 +733,29 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
             </Button>
           </DialogFooter>
         </form>
+        <AlertDialog open={templateDeleteOpen} onOpenChange={setTemplateDeleteOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t`Delete template?`}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {activeTemplate?.isShared
+                  ? t`The template will be removed for everyone in the workspace.`
+                  : t`The template will be removed.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{t`Cancel`}</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(event) => {
+                  event.preventDefault();
+                  void handleDeleteTemplate();
+                }}
+              >
+                {t`Delete`}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
         <AlertDialog open={confirmCloseOpen} onOpenChange={setConfirmCloseOpen}>
           <AlertDialogContent>
             <AlertDialogHeader>
@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { t } from '@lingui/macro';
+import { CalendarClock, Trash2, X } from 'lucide-react';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import { useFilteredAssignees } from '@/features/planner/hooks/useFilteredAssignees';
+import { useWorkingCalendar } from '@/features/planner/hooks/useWorkingCalendar';
+import { BulkTaskAction, buildBulkTaskChanges } from '@/features/planner/lib/bulkTaskActions';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/ui/alert-dialog';
+import { formatStatusLabel } from '@/shared/lib/statusLabels';
+import { compareNames } from '@/shared/lib/nameSorting';
+
+const UNASSIGNED_VALUE = 'unassigned';
+
+export const BulkTaskToolbar: React.FC = () => {
+  const {
+    tasks,
+    assignees,
+    statuses,
+    tags,
+    selectedTaskIds,
+    setSelectedTaskIds,
+    updateTasks,
+    deleteTasks,
+    workingCalendar,
+  } = usePlannerStore();
+  const currentWorkspaceRole = useAuthStore((state) => state.currentWorkspaceRole);
+  const canEdit = currentWorkspaceRole === 'editor' || currentWorkspaceRole === 'admin';
+  const filteredAssignees = useFilteredAssignees(assignees);
+  const calendar = useWorkingCalendar();
+  const [shiftDays, setShiftDays] = useState('');
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const selectedTasks = useMemo(() => {
+    const ids = new Set(selectedTaskIds);
+    return tasks.filter((task) => ids.has(task.id));
+  }, [selectedTaskIds, tasks]);
+  const assigneeOptions = useMemo(
+    () => filteredAssignees
+      .filter((assignee) => assignee.isActive)
+      .sort((left, right) => compareNames(left.name, right.name)),
+    [filteredAssignees],
+  );
+  const selectedTagIds = useMemo(
+    () => new Set(selectedTasks.flatMap((task) => task.tagIds)),
+    [selectedTasks],
+  );
+
+  if (!canEdit || selectedTasks.length === 0) return null;
+
+  const count = selectedTasks.length;
+
+  const applyAction = async (action: BulkTaskAction) => {
+    const changes = buildBulkTaskChanges(selectedTasks, action);
+    if (changes.length === 0) return;
+    setBusy(true);
+    setError('');
+    const result = await updateTasks(changes);
+    setBusy(false);
+    if (result.error) setError(result.error);
+  };
+
+  const handleShift = async () => {
+    const days = Number.parseInt(shiftDays, 10);
+    if (!Number.isFinite(days) || days === 0) {
+      setError(t`Enter a non-zero number of days.`);
+      return;
+    }
+    await applyAction({
+      type: 'shift',
+      days,
+      isWorkingDay: workingCalendar.keepWorkingDuration ? calendar.isWorkingDay : undefined,
+    });
+    setShiftDays('');
+  };
+
+  const handleDelete = async () => {
+    setBusy(true);
+    setError('');
+    const result = await deleteTasks(selectedTasks.map((task) => task.id));
+    setBusy(false);
+    setDeleteOpen(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setSelectedTaskIds([]);
+  };
+
+  return (
+    <div className="absolute bottom-4 left-1/2 z-40 flex -translate-x-1/2 flex-col items-center gap-1">
+      <div className="flex items-center gap-2 rounded-lg border bg-background px-3 py-2 shadow-lg">
+        <span className="whitespace-nowrap text-sm font-medium">{t`${count} selected`}</span>
+        <Select
+          value=""
+          onValueChange={(value) => applyAction({
+            type: 'assign',
+            assigneeId: value === UNASSIGNED_VALUE ? null : value,
+          })}
+          disabled={busy}
+        >
+          <SelectTrigger className="h-8 w-[150px]">
+            <SelectValue placeholder={t`Assign to`} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED_VALUE}>{t`Unassigned`}</SelectItem>
+            {assigneeOptions.map((assignee) => (
+              <SelectItem key={assignee.id} value={assignee.id}>{assignee.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value=""
+          onValueChange={(value) => applyAction({ type: 'status', statusId: value })}
+          disabled={busy}
+        >
+          <SelectTrigger className="h-8 w-[140px]">
+            <SelectValue placeholder={t`Status`} />
+          </SelectTrigger>
+          <SelectContent>
+            {statuses.map((status) => (
+              <SelectItem key={status.id} value={status.id}>
+                {formatStatusLabel(status.name, status.emoji)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value=""
+          onValueChange={(value) => applyAction({ type: 'addTag', tagId: value })}
+          disabled={busy || tags.length === 0}
+        >
+          <SelectTrigger className="h-8 w-[120px]">
+            <SelectValue placeholder={t`Add tag`} />
+          </SelectTrigger>
+          <SelectContent>
+            {tags.map((tag) => (
+              <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value=""
+          onValueChange={(value) => applyAction({ type: 'removeTag', tagId: value })}
+          disabled={busy || selectedTagIds.size === 0}
+        >
+          <SelectTrigger className="h-8 w-[130px]">
+            <SelectValue placeholder={t`Remove tag`} />
+          </SelectTrigger>
+          <SelectContent>
+            {tags.filter((tag) => selectedTagIds.has(tag.id)).map((tag) => (
+              <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            value={shiftDays}
+            onChange={(event) => setShiftDays(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') void handleShift();
+            }}
+            placeholder={t`± days`}
+            className="h-8 w-20"
+            aria-label={t`Shift by days`}
+          />
+          <Button variant="outline" size="sm" className="h-8" onClick={handleShift} disabled={busy}>
+            <CalendarClock className="mr-1 h-4 w-4" />
+            {t`Shift`}
+          </Button>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+          onClick={() => setDeleteOpen(true)}
+          disabled={busy}
+          aria-label={t`Delete selected`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => setSelectedTaskIds([])}
+          aria-label={t`Clear selection`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {error && <div className="rounded bg-background px-2 text-sm text-destructive">{error}</div>}
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t`Delete ${count} tasks?`}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t`The selected tasks will be deleted. You can undo this right after.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t`Cancel`}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={busy}>
+              {t`Delete`}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import { usePlannerStore } from '@/features/planner/store/plannerStore';
 import { useFilteredAssignees } from '@/features/planner/hooks/useFilteredAssignees';
+import { SavedViewsPicker } from '@/features/planner/components/SavedViewsPicker';
 import { Button } from '@/shared/ui/button';
 import { Checkbox } from '@/shared/ui/checkbox';
 import { ScrollArea } from '@/shared/ui/scroll-area';
@@ -201,6 +202,8 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ collapsed, onToggle })
           </Button>
         </div>
       </div>
+
+      <SavedViewsPicker />
       
       <ScrollArea className="flex-1">
         <FilterSection 
@@ -0,0 +1,209 @@
+import React from 'react';
+import { parseISO } from 'date-fns';
+import { t } from '@lingui/macro';
+import {
+  getDefaultRecurrenceUntil,
+  getDefaultWeekdays,
+  getMonthlyWeekday,
+  RECURRENCE_WEEKDAYS,
+  RecurrenceDraft,
+  RecurrenceWeekday,
+} from '@/features/planner/lib/recurrence';
+import { cn } from '@/shared/lib/classNames';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+
+interface RecurrenceFieldsProps {
+  id: string;
+  value: RecurrenceDraft;
+  startDate: string;
+  onChange: (value: RecurrenceDraft) => void;
+  disabled?: boolean;
+  compact?: boolean;
+}
+
+export const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({
+  id,
+  value,
+  startDate,
+  onChange,
+  disabled = false,
+  compact = false,
+}) => {
+  const controlClassName = compact ? 'h-8 text-sm' : undefined;
+  const labelClassName = 'text-xs text-muted-foreground';
+  const isRepeating = value.frequency !== 'none';
+
+  const weekdayLabels: Record<RecurrenceWeekday, string> = {
+    MO: t`Mon`,
+    TU: t`Tue`,
+    WE: t`Wed`,
+    TH: t`Thu`,
+    FR: t`Fri`,
+    SA: t`Sat`,
+    SU: t`Sun`,
+  };
+  const intervalUnits: Record<RecurrenceDraft['frequency'], string> = {
+    none: '',
+    daily: t`day(s)`,
+    weekly: t`week(s)`,
+    monthly: t`month(s)`,
+    yearly: t`year(s)`,
+  };
+  const weekdayNames: Record<RecurrenceWeekday, string> = {
+    MO: t`Monday`,
+    TU: t`Tuesday`,
+    WE: t`Wednesday`,
+    TH: t`Thursday`,
+    FR: t`Friday`,
+    SA: t`Saturday`,
+    SU: t`Sunday`,
+  };
+  const ordinals = [t`first`, t`second`, t`third`, t`fourth`];
+  const { position, weekday: startWeekday } = getMonthlyWeekday(startDate, false);
+  const dayOfMonth = parseISO(startDate).getDate();
+  const ordinal = ordinals[position - 1];
+  const weekdayName = weekdayNames[startWeekday];
+
+  const update = (updates: Partial<RecurrenceDraft>) => onChange({ ...value, ...updates });
+
+  const handleFrequencyChange = (frequency: RecurrenceDraft['frequency']) => {
+    update({ frequency, byWeekday: getDefaultWeekdays(frequency, startDate) });
+  };
+
+  const handleEndsChange = (ends: RecurrenceDraft['ends']) => {
+    update(ends === 'on' ? { ends, until: getDefaultRecurrenceUntil(startDate) } : { ends });
+  };
+
+  const toggleWeekday = (weekday: RecurrenceWeekday) => {
+    update({
+      byWeekday: value.byWeekday.includes(weekday)
+        ? value.byWeekday.filter((day) => day !== weekday)
+        : RECURRENCE_WEEKDAYS.filter((day) => day === weekday || value.byWeekday.includes(day)),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          value={value.frequency}
+          onValueChange={(next) => handleFrequencyChange(next as RecurrenceDraft['frequency'])}
+          disabled={disabled}
+        >
+          <SelectTrigger className={controlClassName}>
+            <SelectValue placeholder={t`Repeat`} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">{t`Does not repeat`}</SelectItem>
+            <SelectItem value="daily">{t`Daily`}</SelectItem>
+            <SelectItem value="weekly">{t`Weekly`}</SelectItem>
+            <SelectItem value="monthly">{t`Monthly`}</SelectItem>
+            <SelectItem value="yearly">{t`Yearly`}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={value.ends}
+          onValueChange={(next) => handleEndsChange(next as RecurrenceDraft['ends'])}
+          disabled={disabled || !isRepeating}
+        >
+          <SelectTrigger className={controlClassName}>
+            <SelectValue placeholder={t`Ends`} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="never">{t`Never`}</SelectItem>
+            <SelectItem value="on">{t`On date`}</SelectItem>
+            <SelectItem value="after">{t`After count`}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isRepeating && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${id}-interval`} className={labelClassName}>{t`Every`}</Label>
+          <Input
+            id={`${id}-interval`}
+            type="number"
+            min={1}
+            value={value.interval}
+            onChange={(e) => update({ interval: Number(e.target.value) })}
+            disabled={disabled}
+            className={cn('w-16', controlClassName)}
+          />
+          <span className={labelClassName}>{intervalUnits[value.frequency]}</span>
+        </div>
+      )}
+
+      {(value.frequency === 'daily' || value.frequency === 'weekly') && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label={t`Repeat on`}>
+          {RECURRENCE_WEEKDAYS.map((weekday) => {
+            const isSelected = value.byWeekday.includes(weekday);
+            return (
+              <button
+                key={weekday}
+                type="button"
+                aria-pressed={isSelected}
+                onClick={() => toggleWeekday(weekday)}
+                disabled={disabled}
+                className={cn(
+                  'h-7 min-w-9 rounded-md border px-1.5 text-xs transition-colors disabled:cursor-not-allowed disabled:opacity-60',
+                  isSelected
+                    ? 'border-primary bg-primary text-primary-foreground'
+                    : 'border-border text-muted-foreground hover:bg-muted',
+                )}
+              >
+                {weekdayLabels[weekday]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value.frequency === 'monthly' && (
+        <Select
+          value={value.monthlyMode}
+          onValueChange={(next) => update({ monthlyMode: next as RecurrenceDraft['monthlyMode'] })}
+          disabled={disabled}
+        >
+          <SelectTrigger className={controlClassName}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">{t`On day ${dayOfMonth}`}</SelectItem>
+            <SelectItem value="weekday">{t`On the ${ordinal} ${weekdayName}`}</SelectItem>
+            <SelectItem value="last_weekday">{t`On the last ${weekdayName}`}</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {isRepeating && value.ends === 'on' && (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-until`} className={labelClassName}>{t`End date`}</Label>
+          <Input
+            id={`${id}-until`}
+            type="date"
+            value={value.until}
+            onChange={(e) => update({ until: e.target.value })}
+            disabled={disabled}
+            className={controlClassName}
+          />
+        </div>
+      )}
+      {isRepeating && value.ends === 'after' && (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-count`} className={labelClassName}>{t`Occurrences`}</Label>
+          <Input
+            id={`${id}-count`}
+            type="number"
+            min={1}
+            value={value.count}
+            onChange={(e) => update({ count: Number(e.target.value) })}
+            disabled={disabled}
+            className={controlClassName}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
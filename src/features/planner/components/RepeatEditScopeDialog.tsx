@@ -0,0 +1,60 @@
+import React from 'react';
+import { TaskSeriesScope } from '@/features/planner/types/planner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/ui/alert-dialog';
+
+interface RepeatEditScopeDialogProps {
+  open: boolean;
+  taskTitle: string;
+  onSelect: (scope: TaskSeriesScope) => void;
+  onCancel: () => void;
+}
+
+export const RepeatEditScopeDialog: React.FC<RepeatEditScopeDialogProps> = ({
+  open,
+  taskTitle,
+  onSelect,
+  onCancel,
+}) => (
+  <AlertDialog
+    open={open}
+    onOpenChange={(nextOpen) => {
+      if (!nextOpen) onCancel();
+    }}
+  >
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Edit repeated task?</AlertDialogTitle>
+        <AlertDialogDescription>
+          {`"${taskTitle}" repeats. Apply the change only to this repeat, to this and following repeats, or to all of them? Date moves shift the other repeats by the same number of days.`}
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction
+          className="bg-muted text-foreground hover:bg-muted/80"
+          onClick={() => onSelect('this')}
+        >
+          Only this
+        </AlertDialogAction>
+        <AlertDialogAction
+          className="bg-muted text-foreground hover:bg-muted/80"
+          onClick={() => onSelect('following')}
+        >
+          This & following
+        </AlertDialogAction>
+        <AlertDialogAction onClick={() => onSelect('all')}>
+          All repeats
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
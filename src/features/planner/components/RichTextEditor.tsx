@@ -1,11 +1,17 @@
-import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { Bold, Italic, Underline, Strikethrough, List, ListOrdered, Quote, Image } from 'lucide-react';
-import DOMPurify from 'dompurify';
 import { Button } from '@/shared/ui/button';
 import { toast } from '@/shared/ui/sonner';
 import { cn } from '@/shared/lib/classNames';
+import { hasRichTags, sanitizeRichText } from '@/shared/lib/richText';
 import { t } from '@lingui/macro';
 
+export interface MentionCandidate {
+  id: string;
+  label: string;
+  hint?: string;
+}
+
 interface RichTextEditorProps {
   id?: string;
   value: string;
@@ -14,46 +20,26 @@ interface RichTextEditorProps {
   placeholder?: string;
   disabled?: boolean;
   className?: string;
+  /** Enables `@` autocomplete; picked entries are inserted as `data-mention-id` spans. */
+  mentionCandidates?: MentionCandidate[];
 }
 
 const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
 const MIN_IMAGE_WIDTH = 120;
 const DEFAULT_IMAGE_SCALE = 0.7;
-
-const hasRichTags = (value: string) => (
-  /<\/?(b|strong|i|em|u|s|strike|ul|ol|li|blockquote|br|div|p|span|img)\b/i.test(value)
-);
+const MAX_MENTION_OPTIONS = 6;
 
 const normalizePlainText = (text: string) => text.replace(/\u00a0/g, ' ');
 
 const isEmptyText = (text: string) => normalizePlainText(text).trim().length === 0;
 
-const sanitizeHtml = (value: string) => {
-  if (typeof window === 'undefined') return value;
-  return DOMPurify.sanitize(value, {
-    ALLOWED_TAGS: [
-      'b',
-      'strong',
-      'i',
-      'em',
-      'u',
-      's',
-      'strike',
-      'ul',
-      'ol',
-      'li',
-      'blockquote',
-      'br',
-      'div',
-      'p',
-      'span',
-      'img',
-    ],
-    ALLOWED_ATTR: ['src', 'alt', 'style', 'width', 'height'],
-    ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto|data:image\/)|[^a-z]|[a-z+.-]+(?:[^a-z+.-:]|$))/i,
-    ALLOWED_CSS_PROPERTIES: ['width', 'height'],
-  });
-};
+const escapeHtml = (value: string) => (
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+);
 
 const sanitizeEditorHtml = (editor: HTMLDivElement) => {
   const clone = editor.cloneNode(true) as HTMLDivElement;
@@ -66,7 +52,7 @@ const sanitizeEditorHtml = (editor: HTMLDivElement) => {
       wrapper.remove();
     }
   });
-  return sanitizeHtml(clone.innerHTML);
+  return sanitizeRichText(clone.innerHTML);
 };
 
 const extractEditorValue = (editor: HTMLDivElement) => {
@@ -85,7 +71,7 @@ const setEditorValue = (editor: HTMLDivElement, value: string) => {
     return;
   }
   if (hasRichTags(value)) {
-    editor.innerHTML = sanitizeHtml(value);
+    editor.innerHTML = sanitizeRichText(value);
     return;
   }
   editor.textContent = value;
@@ -109,6 +95,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
   placeholder,
   disabled = false,
   className,
+  mentionCandidates,
 }) => {
   const editorRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -125,6 +112,20 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
   const contextImageRef = useRef<HTMLImageElement | null>(null);
   const lastValueRef = useRef(value);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null);
+  const mentionRangeRef = useRef<Range | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; x: number; y: number } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+
+  const mentionOptions = useMemo(() => {
+    if (!mentionQuery || !mentionCandidates) return [];
+    const query = mentionQuery.query.toLowerCase();
+    return mentionCandidates
+      .filter((candidate) => (
+        candidate.label.toLowerCase().includes(query)
+        || Boolean(candidate.hint?.toLowerCase().includes(query))
+      ))
+      .slice(0, MAX_MENTION_OPTIONS);
+  }, [mentionCandidates, mentionQuery]);
 
   const syncFromEditor = useCallback(() => {
     const editor = editorRef.current;
@@ -138,6 +139,64 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
     onChange(nextValue);
   }, [onChange]);
 
+  const closeMentionMenu = useCallback(() => {
+    mentionRangeRef.current = null;
+    setMentionQuery(null);
+  }, []);
+
+  // Ищем "@запрос" прямо перед курсором в текущем текстовом узле.
+  const updateMentionQuery = useCallback(() => {
+    if (!mentionCandidates) return;
+    const editor = editorRef.current;
+    const selection = window.getSelection();
+    if (!editor || !selection || selection.rangeCount === 0 || !selection.isCollapsed) {
+      closeMentionMenu();
+      return;
+    }
+    const range = selection.getRangeAt(0);
+    const node = range.startContainer;
+    if (node.nodeType !== Node.TEXT_NODE || !editor.contains(node)) {
+      closeMentionMenu();
+      return;
+    }
+    const textBefore = (node.textContent ?? '').slice(0, range.startOffset);
+    const match = /(?:^|\s)@([^\s@]*)$/.exec(textBefore);
+    if (!match) {
+      closeMentionMenu();
+      return;
+    }
+    const mentionRange = document.createRange();
+    mentionRange.setStart(node, range.startOffset - match[1].length - 1);
+    mentionRange.setEnd(node, range.startOffset);
+    mentionRangeRef.current = mentionRange;
+    const rect = mentionRange.getBoundingClientRect();
+    const containerRect = containerRef.current?.getBoundingClientRect();
+    setMentionQuery({
+      query: match[1],
+      x: containerRect ? rect.left - containerRect.left : 0,
+      y: containerRect ? rect.bottom - containerRect.top + 4 : 0,
+    });
+    setMentionIndex(0);
+  }, [closeMentionMenu, mentionCandidates]);
+
+  const insertMention = useCallback((candidate: MentionCandidate) => {
+    const editor = editorRef.current;
+    const selection = window.getSelection();
+    const range = mentionRangeRef.current;
+    if (!editor || !selection || !range) return;
+    editor.focus();
+    selection.removeAllRanges();
+    selection.addRange(range);
+    const html = [
+      `<span data-mention-id="${escapeHtml(candidate.id)}" contenteditable="false">`,
+      `@${escapeHtml(candidate.label)}`,
+      '</span>&nbsp;',
+    ].join('');
+    document.execCommand('insertHTML', false, html);
+    closeMentionMenu();
+    syncFromEditor();
+  }, [closeMentionMenu, syncFromEditor]);
+
   const applyCommand = useCallback((command: string, commandValue?: string) => {
     if (disabled) return;
     const editor = editorRef.current;
@@ -341,6 +400,25 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
 
   const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
     if (disabled) return;
+    if (mentionQuery && mentionOptions.length > 0) {
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex((current) => (current + step + mentionOptions.length) % mentionOptions.length);
+        return;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        insertMention(mentionOptions[Math.min(mentionIndex, mentionOptions.length - 1)]);
+        return;
+      }
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        event.stopPropagation();
+        closeMentionMenu();
+        return;
+      }
+    }
     const isModifier = event.metaKey || event.ctrlKey;
     if (!isModifier) return;
     const key = event.key.toLowerCase();
@@ -527,8 +605,14 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
     closeContextMenu();
   };
 
+  const handleInput = () => {
+    syncFromEditor();
+    updateMentionQuery();
+  };
+
   const handleBlur = () => {
     syncFromEditor();
+    closeMentionMenu();
     onBlur?.();
   };
 
@@ -590,7 +674,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         aria-multiline="true"
         aria-disabled={disabled}
         spellCheck
-        onInput={syncFromEditor}
+        onInput={handleInput}
         onPaste={handlePaste}
         onBlur={handleBlur}
         onKeyDown={handleKeyDown}
@@ -602,6 +686,33 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         onDragEnd={handleDragEnd}
         suppressContentEditableWarning
       />
+      {mentionQuery && mentionOptions.length > 0 && (
+        <div
+          className="absolute z-[60] min-w-[200px] max-w-[280px] rounded-md border border-border bg-popover p-1 text-sm shadow-lg"
+          style={{ left: mentionQuery.x, top: mentionQuery.y }}
+          role="listbox"
+        >
+          {mentionOptions.map((candidate, index) => (
+            <button
+              key={candidate.id}
+              type="button"
+              role="option"
+              aria-selected={index === mentionIndex}
+              className={cn(
+                'flex w-full flex-col rounded-sm px-2 py-1 text-left hover:bg-muted',
+                index === mentionIndex && 'bg-muted',
+              )}
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => insertMention(candidate)}
+            >
+              <span className="truncate">{candidate.label}</span>
+              {candidate.hint && (
+                <span className="truncate text-xs text-muted-foreground">{candidate.hint}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
       {contextMenu && (
         <div
           ref={menuRef}
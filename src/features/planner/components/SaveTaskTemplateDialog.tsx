@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { t } from '@lingui/macro';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { useTaskTemplates } from '@/features/planner/hooks/useTaskTemplates';
+import { getTaskTemplateFields } from '@/features/planner/lib/taskTemplates';
+import type { Task } from '@/features/planner/types/planner';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Switch } from '@/shared/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/ui/dialog';
+
+interface SaveTaskTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  task: Task;
+  /** Rule of the task's series; saved with the template so new tasks repeat the same way. */
+  rrule: string | null;
+}
+
+export const SaveTaskTemplateDialog: React.FC<SaveTaskTemplateDialogProps> = ({
+  open,
+  onOpenChange,
+  task,
+  rrule,
+}) => {
+  const workspaceId = usePlannerStore((state) => state.workspaceId);
+  const { createTemplate } = useTaskTemplates(open ? workspaceId : null);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setName(task.title);
+    setShared(false);
+    setError('');
+  }, [open, task.title]);
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setBusy(true);
+    const result = await createTemplate({
+      ...getTaskTemplateFields(task, rrule),
+      name: trimmed,
+      isShared: shared,
+    });
+    setBusy(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>{t`Save as template`}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="task-template-name">{t`Name`}</Label>
+            <Input
+              id="task-template-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') {
+                  event.preventDefault();
+                  void handleSave();
+                }
+              }}
+              autoFocus
+            />
+          </div>
+          <label className="flex items-center justify-between gap-2 text-sm">
+            <span>{t`Share with workspace`}</span>
+            <Switch checked={shared} onCheckedChange={setShared} />
+          </label>
+          <p className="text-xs text-muted-foreground">
+            {t`Dates are saved as a duration and applied from the start date of the new task.`}
+          </p>
+          {error && <div className="text-sm text-destructive">{error}</div>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t`Cancel`}
+          </Button>
+          <Button onClick={handleSave} disabled={busy || !name.trim()}>
+            {t`Save`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
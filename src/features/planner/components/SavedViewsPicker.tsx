@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from 'react';
+import { t } from '@lingui/macro';
+import { Bookmark, Plus, Save, Trash2 } from 'lucide-react';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import { usePlannerViews } from '@/features/planner/hooks/usePlannerViews';
+import { isViewModified } from '@/features/planner/lib/plannerViews';
+import type { PlannerView } from '@/features/planner/types/planner';
+import { Badge } from '@/shared/ui/badge';
+import { Button } from '@/shared/ui/button';
+import { Checkbox } from '@/shared/ui/checkbox';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Switch } from '@/shared/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/shared/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/ui/alert-dialog';
+
+export const SavedViewsPicker: React.FC = () => {
+  const {
+    workspaceId,
+    filters,
+    viewMode,
+    groupMode,
+    currentDate,
+    activeViewId,
+    setActiveViewId,
+    setFilters,
+    setViewMode,
+    setGroupMode,
+    setCurrentDate,
+    requestScrollToDate,
+  } = usePlannerStore();
+  const user = useAuthStore((state) => state.user);
+  const currentWorkspaceRole = useAuthStore((state) => state.currentWorkspaceRole);
+  const { views, createView, updateView, deleteView } = usePlannerViews(workspaceId);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [keepDate, setKeepDate] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const activeView = views.find((view) => view.id === activeViewId) ?? null;
+  const personalViews = useMemo(() => views.filter((view) => !view.isShared), [views]);
+  const sharedViews = useMemo(() => views.filter((view) => view.isShared), [views]);
+  const modified = activeView
+    ? isViewModified(activeView, { filters, viewMode, groupMode })
+    : false;
+  const canManage = (view: PlannerView) => (
+    view.ownerId === user?.id || (view.isShared && currentWorkspaceRole === 'admin')
+  );
+
+  const applyView = (view: PlannerView) => {
+    setActiveViewId(view.id);
+    setFilters(view.filters);
+    setViewMode(view.viewMode);
+    setGroupMode(view.groupMode);
+    if (view.anchorDate) {
+      setCurrentDate(view.anchorDate);
+      requestScrollToDate(view.anchorDate);
+    }
+    setError('');
+  };
+
+  const handleSave = async () => {
+    if (!activeView) return;
+    setBusy(true);
+    const result = await updateView(activeView.id, {
+      filters,
+      viewMode,
+      groupMode,
+      anchorDate: activeView.anchorDate ? currentDate : null,
+    });
+    setBusy(false);
+    setError(result.error ?? '');
+  };
+
+  const handleCreate = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setBusy(true);
+    const result = await createView({
+      name: trimmed,
+      filters,
+      viewMode,
+      groupMode,
+      anchorDate: keepDate ? currentDate : null,
+      isShared: shared,
+    });
+    setBusy(false);
+    if (result.error || !result.view) {
+      setError(result.error ?? '');
+      return;
+    }
+    setError('');
+    setActiveViewId(result.view.id);
+    setCreateOpen(false);
+  };
+
+  const handleDelete = async () => {
+    if (!activeView) return;
+    setBusy(true);
+    const result = await deleteView(activeView.id);
+    setBusy(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setError('');
+    setActiveViewId(null);
+    setDeleteOpen(false);
+  };
+
+  const openCreateDialog = () => {
+    setName('');
+    setShared(false);
+    setKeepDate(false);
+    setError('');
+    setCreateOpen(true);
+  };
+
+  const renderItems = (items: PlannerView[]) => items.map((view) => (
+    <SelectItem key={view.id} value={view.id}>{view.name}</SelectItem>
+  ));
+
+  return (
+    <div className="px-4 py-3 border-b border-border space-y-2">
+      <div className="flex items-center gap-2">
+        <Bookmark className="w-4 h-4 text-muted-foreground" />
+        <span className="text-sm font-medium flex-1">{t`Views`}</span>
+        {modified && (
+          <Badge variant="secondary" className="h-5 px-1.5 text-[10px] font-normal">
+            {t`Modified`}
+          </Badge>
+        )}
+      </div>
+      <Select
+        value={activeView?.id ?? ''}
+        onValueChange={(value) => {
+          const view = views.find((item) => item.id === value);
+          if (view) applyView(view);
+        }}
+      >
+        <SelectTrigger className="h-8 text-sm">
+          <SelectValue placeholder={views.length === 0 ? t`No saved views` : t`Choose a view`} />
+        </SelectTrigger>
+        <SelectContent>
+          {personalViews.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>{t`Personal`}</SelectLabel>
+              {renderItems(personalViews)}
+            </SelectGroup>
+          )}
+          {sharedViews.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>{t`Shared`}</SelectLabel>
+              {renderItems(sharedViews)}
+            </SelectGroup>
+          )}
+        </SelectContent>
+      </Select>
+      <div className="flex items-center gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 flex-1 px-2 text-xs"
+          onClick={openCreateDialog}
+          disabled={!workspaceId}
+        >
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          {t`Save as new`}
+        </Button>
+        {activeView && canManage(activeView) && (
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={handleSave}
+              disabled={busy || !modified}
+              aria-label={t`Save view`}
+            >
+              <Save className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => setDeleteOpen(true)}
+              disabled={busy}
+              aria-label={t`Delete view`}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </>
+        )}
+      </div>
+      {error && !createOpen && <div className="text-xs text-destructive">{error}</div>}
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>{t`Save view`}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="planner-view-name">{t`Name`}</Label>
+              <Input
+                id="planner-view-name"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    event.preventDefault();
+                    void handleCreate();
+                  }
+                }}
+                autoFocus
+              />
+            </div>
+            <label className="flex items-center justify-between gap-2 text-sm">
+              <span>{t`Share with workspace`}</span>
+              <Switch checked={shared} onCheckedChange={setShared} />
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={keepDate} onCheckedChange={(checked) => setKeepDate(checked === true)} />
+              <span>{t`Remember current date`}</span>
+            </label>
+            {error && <div className="text-sm text-destructive">{error}</div>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              {t`Cancel`}
+            </Button>
+            <Button onClick={handleCreate} disabled={busy || !name.trim()}>
+              {t`Save`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t`Delete view?`}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {activeView?.isShared
+                ? t`The view will be removed for everyone in the workspace.`
+                : t`The view will be removed.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={busy}>{t`Cancel`}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                void handleDelete();
+              }}
+              disabled={busy}
+            >
+              {t`Delete`}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { t } from '@lingui/macro';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { useTaskActivity } from '@/features/planner/hooks/useTaskActivity';
+import { formatDateRange } from '@/features/planner/lib/dateUtils';
+import { getActivityDates, getListChanges } from '@/features/planner/lib/taskActivity';
+import { TaskActivity, TaskActivityField } from '@/features/planner/types/planner';
+import { formatProjectLabel } from '@/shared/lib/projectLabels';
+import { formatStatusLabel } from '@/shared/lib/statusLabels';
+
+interface TaskActivityLogProps {
+  taskId: string;
+}
+
+export const TaskActivityLog: React.FC<TaskActivityLogProps> = ({ taskId }) => {
+  const currentWorkspaceId = useAuthStore((state) => state.currentWorkspaceId);
+  const members = useAuthStore((state) => state.members);
+  const fetchMembers = useAuthStore((state) => state.fetchMembers);
+  const statuses = usePlannerStore((state) => state.statuses);
+  const projects = usePlannerStore((state) => state.projects);
+  const assignees = usePlannerStore((state) => state.assignees);
+  const tags = usePlannerStore((state) => state.tags);
+  const { activity, loading } = useTaskActivity(currentWorkspaceId, taskId);
+
+  useEffect(() => {
+    if (!currentWorkspaceId || members.length > 0) return;
+    void fetchMembers(currentWorkspaceId);
+  }, [currentWorkspaceId, fetchMembers, members.length]);
+
+  const memberById = useMemo(
+    () => new Map(members.map((member) => [member.userId, member])),
+    [members],
+  );
+  const statusById = useMemo(() => new Map(statuses.map((status) => [status.id, status])), [statuses]);
+  const projectById = useMemo(() => new Map(projects.map((project) => [project.id, project])), [projects]);
+  const assigneeById = useMemo(() => new Map(assignees.map((assignee) => [assignee.id, assignee])), [assignees]);
+  const tagById = useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+
+  const fieldLabels: Record<TaskActivityField, string> = {
+    created: t`Created`,
+    status: t`Status`,
+    dates: t`Dates`,
+    assignees: t`Assignees`,
+    project: t`Project`,
+    priority: t`Priority`,
+    tags: t`Tags`,
+    title: t`Title`,
+    description: t`Description`,
+  };
+
+  const getActorLabel = (actorId: string | null) => {
+    if (!actorId) return t`System`;
+    const member = memberById.get(actorId);
+    if (!member) return t`Former member`;
+    return member.displayName || member.email;
+  };
+
+  const formatValue = (field: TaskActivityField, value: unknown) => {
+    if (field === 'dates') {
+      const dates = getActivityDates(value);
+      return dates ? formatDateRange(dates.start, dates.end) : '—';
+    }
+    if (typeof value !== 'string' || !value) {
+      if (field === 'project') return t`No project`;
+      if (field === 'priority') return t`None`;
+      return '—';
+    }
+    if (field === 'status') {
+      const status = statusById.get(value);
+      return status ? formatStatusLabel(status.name, status.emoji) : t`Unknown`;
+    }
+    if (field === 'project') {
+      const project = projectById.get(value);
+      return project ? formatProjectLabel(project.name, project.code) : t`Unknown`;
+    }
+    return value;
+  };
+
+  const describeEntry = (entry: TaskActivity) => {
+    if (entry.field === 'created') {
+      return t`Task created`;
+    }
+    if (entry.field === 'description') {
+      return t`Description updated`;
+    }
+    if (entry.field === 'assignees' || entry.field === 'tags') {
+      const { added, removed } = getListChanges(entry.oldValue, entry.newValue);
+      const nameOf = (id: string) => (
+        entry.field === 'assignees'
+          ? assigneeById.get(id)?.name ?? t`Unknown`
+          : tagById.get(id)?.name ?? t`Unknown`
+      );
+      const parts = [
+        added.length > 0 ? `+ ${added.map(nameOf).join(', ')}` : null,
+        removed.length > 0 ? `− ${removed.map(nameOf).join(', ')}` : null,
+      ].filter(Boolean);
+      return `${fieldLabels[entry.field]}: ${parts.join('; ')}`;
+    }
+    return `${fieldLabels[entry.field]}: ${formatValue(entry.field, entry.oldValue)} → ${formatValue(entry.field, entry.newValue)}`;
+  };
+
+  if (loading && activity.length === 0) {
+    return <p className="text-[11px] text-muted-foreground">{t`Loading history...`}</p>;
+  }
+
+  if (activity.length === 0) {
+    return <p className="text-[11px] text-muted-foreground">{t`No changes recorded yet.`}</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {activity.map((entry) => (
+        <li key={entry.id} className="border-l-2 border-muted pl-3">
+          <div className="flex flex-wrap items-center gap-x-2 text-xs">
+            <span className="font-medium text-foreground">{getActorLabel(entry.actorId)}</span>
+            <span className="text-muted-foreground">
+              {format(parseISO(entry.createdAt), 'dd MMM yyyy, HH:mm')}
+            </span>
+          </div>
+          <div className="text-sm break-words">{describeEntry(entry)}</div>
+        </li>
+      ))}
+    </ol>
+  );
+};
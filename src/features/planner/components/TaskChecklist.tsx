@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Assignee, ChecklistItem } from '@/features/planner/types/planner';
+import { getChecklistProgress } from '@/features/planner/lib/checklist';
+import { Button } from '@/shared/ui/button';
+import { Checkbox } from '@/shared/ui/checkbox';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/shared/ui/tooltip';
+import { cn } from '@/shared/lib/classNames';
+import { ArrowUpRight, Plus, X } from 'lucide-react';
+import { t } from '@lingui/macro';
+
+export type ChecklistDraft = Pick<ChecklistItem, 'id' | 'title' | 'done' | 'assigneeId' | 'dueDate'>;
+
+interface TaskChecklistProps {
+  items: ChecklistDraft[];
+  assignees: Assignee[];
+  canEdit: boolean;
+  onAdd: (title: string) => void;
+  onUpdate: (id: string, updates: Partial<Omit<ChecklistDraft, 'id'>>) => void;
+  onDelete: (id: string) => void;
+  onPromote?: (id: string) => void;
+}
+
+export const TaskChecklist: React.FC<TaskChecklistProps> = ({
+  items,
+  assignees,
+  canEdit,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onPromote,
+}) => {
+  const [newTitle, setNewTitle] = useState('');
+  const { done, total } = getChecklistProgress(items);
+
+  const handleAdd = () => {
+    const title = newTitle.trim();
+    if (!canEdit || !title) return;
+    onAdd(title);
+    setNewTitle('');
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground">{t`Checklist`}</Label>
+        {total > 0 && (
+          <span className="text-[11px] text-muted-foreground">{done}/{total}</span>
+        )}
+      </div>
+      {total > 0 && (
+        <div className="h-1 overflow-hidden rounded-full bg-muted">
+          <div className="h-full bg-primary transition-all" style={{ width: `${(done / total) * 100}%` }} />
+        </div>
+      )}
+      {items.map((item) => {
+        const selectableAssignees = assignees.filter((assignee) => (
+          assignee.isActive || assignee.id === item.assigneeId
+        ));
+        return (
+          <div key={item.id} className="flex items-center gap-1.5">
+            <Checkbox
+              checked={item.done}
+              onCheckedChange={(checked) => onUpdate(item.id, { done: checked === true })}
+              disabled={!canEdit}
+              aria-label={t`Mark as done`}
+            />
+            <Input
+              value={item.title}
+              onChange={(event) => onUpdate(item.id, { title: event.target.value })}
+              className={cn('h-7 min-w-0 flex-1 text-sm', item.done && 'text-muted-foreground line-through')}
+              disabled={!canEdit}
+            />
+            <Select
+              value={item.assigneeId ?? 'none'}
+              onValueChange={(value) => onUpdate(item.id, { assigneeId: value === 'none' ? null : value })}
+              disabled={!canEdit}
+            >
+              <SelectTrigger className="h-7 w-28 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">{t`Unassigned`}</SelectItem>
+                {selectableAssignees.map((assignee) => (
+                  <SelectItem key={assignee.id} value={assignee.id}>{assignee.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={item.dueDate ?? ''}
+              onChange={(event) => onUpdate(item.id, { dueDate: event.target.value || null })}
+              className="h-7 w-32 text-xs"
+              disabled={!canEdit}
+              aria-label={t`Due date`}
+            />
+            {canEdit && onPromote && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    type="button"
+                    className="flex-shrink-0 text-muted-foreground hover:text-foreground"
+                    onClick={() => onPromote(item.id)}
+                    aria-label={t`Convert to task`}
+                  >
+                    <ArrowUpRight className="h-3.5 w-3.5" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent>{t`Convert to task`}</TooltipContent>
+              </Tooltip>
+            )}
+            {canEdit && (
+              <button
+                type="button"
+                className="flex-shrink-0 text-muted-foreground hover:text-destructive"
+                onClick={() => onDelete(item.id)}
+                aria-label={t`Remove item`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {total === 0 && !canEdit && (
+        <p className="text-[11px] text-muted-foreground">{t`No checklist items.`}</p>
+      )}
+      {canEdit && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={newTitle}
+            onChange={(event) => setNewTitle(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key !== 'Enter') return;
+              // Enter не должен отправлять форму диалога создания задачи.
+              event.preventDefault();
+              handleAdd();
+            }}
+            placeholder={t`Add an item...`}
+            className="h-8 flex-1 text-sm"
+          />
+          <Button type="button" variant="outline" size="sm" className="h-8" onClick={handleAdd} disabled={!newTitle.trim()}>
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            {t`Add`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
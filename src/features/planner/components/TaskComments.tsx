@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { t } from '@lingui/macro';
+import { Pencil, Trash2 } from 'lucide-react';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import { MentionCandidate, RichTextEditor } from '@/features/planner/components/RichTextEditor';
+import { useTaskComments } from '@/features/planner/hooks/useTaskComments';
+import { getMentionIds } from '@/features/planner/lib/comments';
+import { hasRichTags, sanitizeRichText } from '@/shared/lib/richText';
+import { Button } from '@/shared/ui/button';
+
+interface TaskCommentsProps {
+  taskId: string;
+}
+
+const CommentBody: React.FC<{ body: string }> = ({ body }) => {
+  const html = useMemo(() => (hasRichTags(body) ? sanitizeRichText(body) : null), [body]);
+  if (html === null) {
+    return <div className="text-sm whitespace-pre-wrap break-words">{body}</div>;
+  }
+  return (
+    <div
+      className="rich-text-content text-sm leading-6 break-words"
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export const TaskComments: React.FC<TaskCommentsProps> = ({ taskId }) => {
+  const currentWorkspaceId = useAuthStore((state) => state.currentWorkspaceId);
+  const userId = useAuthStore((state) => state.user?.id ?? null);
+  const members = useAuthStore((state) => state.members);
+  const fetchMembers = useAuthStore((state) => state.fetchMembers);
+  const {
+    comments,
+    loading,
+    addComment,
+    updateComment,
+    deleteComment,
+  } = useTaskComments(currentWorkspaceId, taskId);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!currentWorkspaceId) return;
+    void fetchMembers(currentWorkspaceId);
+  }, [currentWorkspaceId, fetchMembers]);
+
+  useEffect(() => {
+    setDraft('');
+    setEditingId(null);
+    setError('');
+  }, [taskId]);
+
+  const memberById = useMemo(
+    () => new Map(members.map((member) => [member.userId, member])),
+    [members],
+  );
+  const memberIds = useMemo(() => members.map((member) => member.userId), [members]);
+  const mentionCandidates = useMemo<MentionCandidate[]>(() => (
+    members.map((member) => ({
+      id: member.userId,
+      label: member.displayName || member.email,
+      hint: member.displayName ? member.email : undefined,
+    }))
+  ), [members]);
+
+  const getAuthorLabel = (authorId: string) => {
+    const member = memberById.get(authorId);
+    if (!member) return t`Former member`;
+    return member.displayName || member.email;
+  };
+
+  const handlePost = async () => {
+    if (!draft || posting) return;
+    setPosting(true);
+    setError('');
+    const result = await addComment(draft, getMentionIds(draft, memberIds));
+    setPosting(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setDraft('');
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !editDraft) return;
+    setError('');
+    const result = await updateComment(editingId, editDraft, getMentionIds(editDraft, memberIds));
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    setError('');
+    const result = await deleteComment(id);
+    if (result.error) {
+      setError(result.error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {loading && comments.length === 0 && (
+        <p className="text-[11px] text-muted-foreground">{t`Loading comments...`}</p>
+      )}
+      {!loading && comments.length === 0 && (
+        <p className="text-[11px] text-muted-foreground">{t`No comments yet.`}</p>
+      )}
+      {comments.map((comment) => {
+        const isOwn = comment.authorId === userId;
+        const isEditing = editingId === comment.id;
+        return (
+          <div key={comment.id} className="space-y-1 rounded-md border bg-muted/20 px-3 py-2">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="font-medium text-foreground">{getAuthorLabel(comment.authorId)}</span>
+              <span className="text-muted-foreground">
+                {format(parseISO(comment.createdAt), 'dd MMM yyyy, HH:mm')}
+              </span>
+              {comment.updatedAt !== comment.createdAt && (
+                <span className="text-muted-foreground">{t`(edited)`}</span>
+              )}
+              {isOwn && !isEditing && (
+                <div className="ml-auto flex items-center gap-1">
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground"
+                    onClick={() => {
+                      setEditingId(comment.id);
+                      setEditDraft(comment.body);
+                    }}
+                    aria-label={t`Edit comment`}
+                    title={t`Edit comment`}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDelete(comment.id)}
+                    aria-label={t`Delete comment`}
+                    title={t`Delete comment`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+            {isEditing ? (
+              <div className="space-y-2">
+                <RichTextEditor
+                  value={editDraft}
+                  onChange={setEditDraft}
+                  mentionCandidates={mentionCandidates}
+                  className="min-h-[64px]"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                    {t`Cancel`}
+                  </Button>
+                  <Button type="button" size="sm" onClick={handleSaveEdit} disabled={!editDraft}>
+                    {t`Save`}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <CommentBody body={comment.body} />
+            )}
+          </div>
+        );
+      })}
+      <RichTextEditor
+        value={draft}
+        onChange={setDraft}
+        placeholder={t`Write a comment. Type @ to mention someone.`}
+        mentionCandidates={mentionCandidates}
+        className="min-h-[64px]"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex justify-end">
+        <Button type="button" size="sm" onClick={handlePost} disabled={!draft || posting}>
+          {t`Comment`}
+        </Button>
+      </div>
+    </div>
+  );
+};
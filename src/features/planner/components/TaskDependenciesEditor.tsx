@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { Task, TaskDependency, TaskDependencyType } from '@/features/planner/types/planner';
+import { formatDateRange } from '@/features/planner/lib/dateUtils';
+import { getEarliestSuccessorStart } from '@/features/planner/lib/taskDependencies';
+import { Button } from '@/shared/ui/button';
+import { Label } from '@/shared/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import { cn } from '@/shared/lib/classNames';
+import { AlertTriangle, Link2, X } from 'lucide-react';
+import { t } from '@lingui/macro';
+
+interface TaskDependenciesEditorProps {
+  task: Task;
+  canEdit: boolean;
+}
+
+type LinkDirection = 'predecessor' | 'successor';
+
+export const TaskDependenciesEditor: React.FC<TaskDependenciesEditorProps> = ({ task, canEdit }) => {
+  const {
+    tasks,
+    dependencies,
+    addTaskDependency,
+    deleteTaskDependency,
+    setSelectedTaskId,
+  } = usePlannerStore();
+  const [direction, setDirection] = useState<LinkDirection>('predecessor');
+  const [linkedTaskId, setLinkedTaskId] = useState('');
+  const [linkType, setLinkType] = useState<TaskDependencyType>('finish_to_start');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const taskById = useMemo(() => new Map(tasks.map((item) => [item.id, item])), [tasks]);
+  const predecessors = useMemo(
+    () => dependencies.filter((dependency) => dependency.successorId === task.id),
+    [dependencies, task.id],
+  );
+  const successors = useMemo(
+    () => dependencies.filter((dependency) => dependency.predecessorId === task.id),
+    [dependencies, task.id],
+  );
+  const candidateTasks = useMemo(() => (
+    tasks
+      .filter((item) => item.id !== task.id)
+      .sort((left, right) => left.startDate.localeCompare(right.startDate) || left.title.localeCompare(right.title))
+  ), [task.id, tasks]);
+
+  const typeLabels: Record<TaskDependencyType, string> = {
+    finish_to_start: t`Finish → Start`,
+    start_to_start: t`Start → Start`,
+  };
+
+  const handleAdd = async () => {
+    if (!canEdit || !linkedTaskId || saving) return;
+    setError('');
+    setSaving(true);
+    const result = direction === 'predecessor'
+      ? await addTaskDependency(linkedTaskId, task.id, linkType)
+      : await addTaskDependency(task.id, linkedTaskId, linkType);
+    setSaving(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setLinkedTaskId('');
+  };
+
+  const renderDependency = (dependency: TaskDependency, otherId: string) => {
+    const other = taskById.get(otherId);
+    const predecessor = taskById.get(dependency.predecessorId);
+    const successor = taskById.get(dependency.successorId);
+    const isViolated = Boolean(predecessor && successor)
+      && successor.startDate < getEarliestSuccessorStart(predecessor, dependency.type);
+
+    return (
+      <div key={dependency.id} className="flex items-center gap-2 rounded-md border px-2 py-1 text-xs">
+        {isViolated && (
+          <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 text-destructive" aria-label={t`Dates conflict`} />
+        )}
+        <button
+          type="button"
+          className={cn('min-w-0 flex-1 truncate text-left', other ? 'hover:underline' : 'text-muted-foreground')}
+          onClick={() => other && setSelectedTaskId(other.id)}
+          disabled={!other}
+        >
+          {other ? other.title : t`Task outside the loaded range`}
+          {other && (
+            <span className="ml-1 text-muted-foreground">{formatDateRange(other.startDate, other.endDate)}</span>
+          )}
+        </button>
+        <span className="flex-shrink-0 text-[10px] text-muted-foreground">{typeLabels[dependency.type]}</span>
+        {canEdit && (
+          <button
+            type="button"
+            className="flex-shrink-0 text-muted-foreground hover:text-destructive"
+            onClick={() => deleteTaskDependency(dependency.id)}
+            aria-label={t`Remove dependency`}
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs text-muted-foreground">{t`Dependencies`}</Label>
+      {predecessors.length === 0 && successors.length === 0 && (
+        <p className="text-[11px] text-muted-foreground">{t`No dependencies yet.`}</p>
+      )}
+      {predecessors.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[11px] font-medium text-muted-foreground">{t`Blocked by`}</div>
+          {predecessors.map((dependency) => renderDependency(dependency, dependency.predecessorId))}
+        </div>
+      )}
+      {successors.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[11px] font-medium text-muted-foreground">{t`Blocks`}</div>
+          {successors.map((dependency) => renderDependency(dependency, dependency.successorId))}
+        </div>
+      )}
+      {canEdit && (
+        <div className="space-y-2 pt-1">
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={direction} onValueChange={(value) => setDirection(value as LinkDirection)}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="predecessor">{t`Blocked by`}</SelectItem>
+                <SelectItem value="successor">{t`Blocks`}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={linkType} onValueChange={(value) => setLinkType(value as TaskDependencyType)}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="finish_to_start">{typeLabels.finish_to_start}</SelectItem>
+                <SelectItem value="start_to_start">{typeLabels.start_to_start}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={linkedTaskId} onValueChange={setLinkedTaskId} disabled={candidateTasks.length === 0}>
+              <SelectTrigger className="h-8 flex-1 min-w-0 text-sm">
+                <SelectValue placeholder={t`Select task`} />
+              </SelectTrigger>
+              <SelectContent>
+                {candidateTasks.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    <span className="truncate">{item.title}</span>
+                    <span className="ml-1 text-[10px] text-muted-foreground">
+                      {formatDateRange(item.startDate, item.endDate)}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={handleAdd}
+              disabled={!linkedTaskId || saving}
+            >
+              <Link2 className="mr-1 h-3.5 w-3.5" />
+              {t`Link`}
+            </Button>
+          </div>
+          {error && <div className="text-xs text-destructive">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
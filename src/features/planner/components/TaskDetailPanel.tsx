@@ -6,6 +6,27 @@ import { Button } from '@/shared/ui/button';
 import { Checkbox } from '@/shared/ui/checkbox';
 import { Input } from '@/shared/ui/input';
 import { RichTextEditor } from '@/features/planner/components/RichTextEditor';
+import { TaskDependenciesEditor } from '@/features/planner/components/TaskDependenciesEditor';
+import { TaskChecklist } from '@/features/planner/components/TaskChecklist';
+import { TaskActivityLog } from '@/features/planner/components/TaskActivityLog';
+import { TaskComments } from '@/features/planner/components/TaskComments';
+import { TaskTimeTracking } from '@/features/planner/components/TaskTimeTracking';
+import { RecurrenceFields } from '@/features/planner/components/RecurrenceFields';
+import { RepeatEditScopeDialog } from '@/features/planner/components/RepeatEditScopeDialog';
+import { SaveTaskTemplateDialog } from '@/features/planner/components/SaveTaskTemplateDialog';
+import { getTaskChecklist } from '@/features/planner/lib/checklist';
+import { isTaskLateForMilestone } from '@/features/planner/lib/milestones';
+import {
+  buildRecurrenceRule,
+  createRecurrenceDraft,
+  formatRRule,
+  getRecurrenceDraftIssue,
+  getTaskSeriesEdit,
+  isEmptyTaskSeriesEdit,
+  isOccurrenceId,
+  parseRRule,
+  RecurrenceDraft,
+} from '@/features/planner/lib/recurrence';
 import { Label } from '@/shared/ui/label';
 import { formatStatusLabel } from '@/shared/lib/statusLabels';
 import { formatProjectLabel } from '@/shared/lib/projectLabels';
@@ -13,6 +34,7 @@ import { sortProjectsByTracking } from '@/shared/lib/projectSorting';
 import { cn } from '@/shared/lib/classNames';
 import { Popover, PopoverContent, PopoverTrigger } from '@/shared/ui/popover';
 import { ScrollArea } from '@/shared/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
 import { Badge } from '@/shared/ui/badge';
 import {
@@ -25,12 +47,14 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/shared/ui/alert-dialog';
-import { AlertTriangle, ChevronDown, CircleDot, Layers, RotateCw, Trash2, User, X } from 'lucide-react';
+import { AlertTriangle, BookmarkPlus, ChevronDown, CircleDot, Layers, RefreshCw, RotateCw, Trash2, User, X } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/shared/ui/tooltip';
-import { Task, TaskPriority } from '@/features/planner/types/planner';
+import { Task, TaskPriority, TaskSeriesScope } from '@/features/planner/types/planner';
 import { useAuthStore } from '@/features/auth/store/authStore';
-import { addDays, endOfMonth, format, isSameMonth, isSameYear, parseISO } from 'date-fns';
 import { t } from '@lingui/macro';
+import { format, parseISO } from 'date-fns';
+
+const REMOTE_NOTICE_MS = 10000;
 
 const areArraysEqual = (left: string[], right: string[]) => {
   if (left.length !== right.length) return false;
@@ -47,6 +71,8 @@ const areTasksEqual = (left: Task, right: Task) => (
   left.startDate === right.startDate &&
   left.endDate === right.endDate &&
   left.description === right.description &&
+  left.estimateHours === right.estimateHours &&
+  left.milestoneId === right.milestoneId &&
   areArraysEqual(left.tagIds, right.tagIds)
 );
 
@@ -67,11 +93,19 @@ export const TaskDetailPanel: React.FC = () => {
     statuses, 
     taskTypes, 
     tags,
+    milestones,
     updateTask,
     deleteTask,
     deleteTaskSeries,
+    updateTaskSeries,
     duplicateTask,
-    createRepeats,
+    taskSeries,
+    saveTaskRecurrence,
+    checklistItems,
+    addChecklistItem,
+    updateChecklistItem,
+    deleteChecklistItem,
+    promoteChecklistItem,
   } = usePlannerStore();
   const currentWorkspaceRole = useAuthStore((state) => state.currentWorkspaceRole);
   const canEdit = currentWorkspaceRole === 'editor' || currentWorkspaceRole === 'admin';
@@ -89,20 +123,29 @@ export const TaskDetailPanel: React.FC = () => {
     [customers],
   );
 
+  const remoteUpdatedAt = usePlannerStore((state) => (
+    selectedTaskId ? state.remoteTaskUpdates[selectedTaskId] : undefined
+  ));
+
   const originalTaskRef = useRef<Task | null>(null);
+  const handledRemoteUpdateRef = useRef<number | null>(null);
   const repeatInFlightRef = useRef(false);
-  const repeatUntilAutoRef = useRef(true);
   const [confirmOpen, setConfirmOpen] = useState(false);
-  const [repeatFrequency, setRepeatFrequency] = useState<'none' | 'daily' | 'weekly' | 'monthly' | 'yearly'>('none');
-  const [repeatEnds, setRepeatEnds] = useState<'never' | 'on' | 'after'>('never');
-  const [repeatUntil, setRepeatUntil] = useState('');
-  const [repeatCount, setRepeatCount] = useState(4);
+  const [seriesScopeOpen, setSeriesScopeOpen] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft | null>(null);
   const [repeatError, setRepeatError] = useState('');
   const [repeatNotice, setRepeatNotice] = useState('');
-  const [repeatCreating, setRepeatCreating] = useState(false);
+  const [repeatSaving, setRepeatSaving] = useState(false);
   const [deleteOpen, setDeleteOpen] = useState(false);
+  const [templateOpen, setTemplateOpen] = useState(false);
+  const [showRemoteNotice, setShowRemoteNotice] = useState(false);
   
   const task = tasks.find(t => t.id === selectedTaskId);
+  const series = task?.repeatId ? taskSeries.find((item) => item.id === task.repeatId) ?? null : null;
+  const checklist = useMemo(
+    () => (selectedTaskId ? getTaskChecklist(checklistItems, selectedTaskId) : []),
+    [checklistItems, selectedTaskId],
+  );
   const currentProject = useMemo(
     () => projects.find((project) => project.id === task?.projectId),
     [projects, task?.projectId],
@@ -112,6 +155,14 @@ export const TaskDetailPanel: React.FC = () => {
     if (!archivedProject) return activeProjects;
     return [archivedProject, ...activeProjects.filter((project) => project.id !== archivedProject.id)];
   }, [activeProjects, archivedProject]);
+  const projectMilestones = useMemo(
+    () => milestones
+      .filter((milestone) => milestone.projectId === task?.projectId)
+      .sort((left, right) => left.date.localeCompare(right.date)),
+    [milestones, task?.projectId],
+  );
+  const currentMilestone = milestones.find((milestone) => milestone.id === task?.milestoneId) ?? null;
+  const currentStatus = statuses.find((status) => status.id === task?.statusId);
   const currentProjectCustomer = currentProject?.customerId
     ? customerById.get(currentProject.customerId)
     : null;
@@ -128,6 +179,12 @@ export const TaskDetailPanel: React.FC = () => {
       return;
     }
     if (originalTaskRef.current?.id === selectedTaskId) return;
+    // Первая правка сохраняет виртуальный повтор задачей с новым id; точка отсчёта остаётся прежней.
+    const original = originalTaskRef.current;
+    if (task && original && isOccurrenceId(original.id) && !isOccurrenceId(task.id) && task.repeatId === original.repeatId) {
+      originalTaskRef.current = { ...original, id: task.id };
+      return;
+    }
     if (task) {
       originalTaskRef.current = {
         ...task,
@@ -137,49 +194,42 @@ export const TaskDetailPanel: React.FC = () => {
     }
   }, [selectedTaskId, task]);
 
-  const getDefaultRepeatUntil = (baseDate: string) => {
-    const start = parseISO(baseDate);
-    const next = addDays(start, 1);
-    if (isSameMonth(next, start) && isSameYear(next, start)) {
-      return format(next, 'yyyy-MM-dd');
-    }
-    return format(endOfMonth(start), 'yyyy-MM-dd');
-  };
-
   useEffect(() => {
-    if (!task) return;
-    setRepeatFrequency('none');
-    setRepeatEnds('never');
-    repeatUntilAutoRef.current = true;
-    setRepeatUntil(getDefaultRepeatUntil(task.startDate));
-    setRepeatCount(4);
-    setRepeatError('');
-    setRepeatNotice('');
-    setRepeatCreating(false);
-  }, [task?.id]);
+    if (!task || !remoteUpdatedAt || handledRemoteUpdateRef.current === remoteUpdatedAt) return;
+    handledRemoteUpdateRef.current = remoteUpdatedAt;
+    // Чужая правка становится новой точкой отсчёта, чтобы "Don't save" её не откатывал.
+    originalTaskRef.current = {
+      ...task,
+      assigneeIds: [...task.assigneeIds],
+      tagIds: [...task.tagIds],
+    };
+  }, [remoteUpdatedAt, task]);
 
   useEffect(() => {
-    if (!task) return;
-    if (repeatFrequency === 'none' || repeatEnds !== 'on') return;
-    if (!repeatUntilAutoRef.current) return;
-    setRepeatUntil(getDefaultRepeatUntil(task.startDate));
-  }, [repeatEnds, repeatFrequency, task?.startDate]);
-
-  const handleRepeatFrequencyChange = (value: typeof repeatFrequency) => {
-    setRepeatFrequency(value);
-    if (value === 'none') return;
-    if (repeatEnds === 'on' && task) {
-      repeatUntilAutoRef.current = true;
-      setRepeatUntil(getDefaultRepeatUntil(task.startDate));
+    const remaining = remoteUpdatedAt ? REMOTE_NOTICE_MS - (Date.now() - remoteUpdatedAt) : 0;
+    if (remaining <= 0) {
+      setShowRemoteNotice(false);
+      return;
     }
-  };
+    setShowRemoteNotice(true);
+    const timer = window.setTimeout(() => setShowRemoteNotice(false), remaining);
+    return () => window.clearTimeout(timer);
+  }, [remoteUpdatedAt]);
 
-  const handleRepeatEndsChange = (value: typeof repeatEnds) => {
-    setRepeatEnds(value);
-    if (value !== 'on' || !task) return;
-    repeatUntilAutoRef.current = true;
-    setRepeatUntil(getDefaultRepeatUntil(task.startDate));
-  };
+  // Правило серии показываем для любого её повтора; при сохранении повтор получает новый id, поэтому ключ — серия.
+  // Дата начала нужна только для черновика и не сбрасывает его при каждой правке дат.
+  const recurrenceKey = task ? task.repeatId ?? task.id : null;
+  const seriesRule = series?.rrule ?? null;
+  const taskStartDateRef = useRef(task?.startDate ?? null);
+  taskStartDateRef.current = task?.startDate ?? null;
+  useEffect(() => {
+    const startDate = taskStartDateRef.current;
+    if (!recurrenceKey || !startDate) return;
+    setRecurrence(createRecurrenceDraft(startDate, seriesRule ? parseRRule(seriesRule) : null));
+    setRepeatError('');
+    setRepeatNotice('');
+    setRepeatSaving(false);
+  }, [recurrenceKey, seriesRule]);
 
   const isDirty = useMemo(() => {
     if (!task || !originalTaskRef.current) return false;
@@ -205,6 +255,25 @@ export const TaskDetailPanel: React.FC = () => {
 
   const handleSaveAndClose = () => {
     setConfirmOpen(false);
+    const originalTask = originalTaskRef.current;
+    if (canEdit && task && originalTask?.repeatId && !isEmptyTaskSeriesEdit(getTaskSeriesEdit(originalTask, task))) {
+      setSeriesScopeOpen(true);
+      return;
+    }
+    setSelectedTaskId(null);
+  };
+
+  // Правка уже применена к этому повтору; остальным она передаётся относительно исходной задачи.
+  const handleSeriesEditScope = async (scope: TaskSeriesScope) => {
+    setSeriesScopeOpen(false);
+    const originalTask = originalTaskRef.current;
+    if (scope !== 'this' && task && originalTask) {
+      const result = await updateTaskSeries(task.id, originalTask, task, scope);
+      if (result.error) {
+        setRepeatError(result.error);
+        return;
+      }
+    }
     setSelectedTaskId(null);
   };
 
@@ -231,6 +300,7 @@ export const TaskDetailPanel: React.FC = () => {
   }
   
   const isRepeating = Boolean(task.repeatId);
+  const isOccurrence = isOccurrenceId(task.id);
   const hasFutureRepeats = isRepeating
     ? tasks.some((item) => item.repeatId === task.repeatId && item.startDate > task.startDate)
     : false;
@@ -240,6 +310,13 @@ export const TaskDetailPanel: React.FC = () => {
     updateTask(task.id, { [field]: value } as Partial<Task>);
   };
 
+  // Веха принадлежит проекту: при переносе задачи в другой проект связь снимается.
+  const handleProjectChange = (projectId: string | null) => {
+    if (!canEdit) return;
+    const keepsMilestone = !currentMilestone || currentMilestone.projectId === projectId;
+    updateTask(task.id, keepsMilestone ? { projectId } : { projectId, milestoneId: null });
+  };
+
   const handleAssigneeToggle = (assigneeId: string) => {
     if (!canEdit) return;
     const targetAssignee = assignees.find((assignee) => assignee.id === assigneeId);
@@ -269,43 +346,40 @@ export const TaskDetailPanel: React.FC = () => {
     setDeleteOpen(true);
   };
 
-  const handleCreateRepeats = async () => {
-    if (!canEdit) return;
+  const handleSaveRepeat = async () => {
+    if (!canEdit || !recurrence) return;
     if (repeatInFlightRef.current) return;
-    repeatInFlightRef.current = true;
     setRepeatError('');
     setRepeatNotice('');
-    if (repeatFrequency === 'none') {
+    const issue = getRecurrenceDraftIssue(recurrence);
+    const rule = buildRecurrenceRule(recurrence, task.startDate);
+    if (!rule) {
       setRepeatError('Select a repeat schedule.');
-      repeatInFlightRef.current = false;
       return;
     }
-    if (repeatEnds === 'after' && (!repeatCount || repeatCount < 1)) {
+    if (issue === 'weekdays') {
+      setRepeatError('Select at least one weekday.');
+      return;
+    }
+    if (issue === 'count') {
       setRepeatError('Enter how many repeats to create.');
-      repeatInFlightRef.current = false;
       return;
     }
-    if (repeatEnds === 'on' && !repeatUntil) {
+    if (issue === 'until') {
       setRepeatError('Select an end date.');
-      repeatInFlightRef.current = false;
       return;
     }
 
-    setRepeatCreating(true);
-    const result = await createRepeats(task.id, {
-      frequency: repeatFrequency,
-      ends: repeatEnds,
-      untilDate: repeatEnds === 'on' ? repeatUntil : undefined,
-      count: repeatEnds === 'after' ? repeatCount : undefined,
-    });
+    repeatInFlightRef.current = true;
+    setRepeatSaving(true);
+    const result = await saveTaskRecurrence(task.id, formatRRule(rule));
     repeatInFlightRef.current = false;
+    setRepeatSaving(false);
     if (result.error) {
       setRepeatError(result.error);
-      setRepeatCreating(false);
       return;
     }
-    setRepeatNotice(`Created ${result.created ?? 0} tasks.`);
-    setRepeatCreating(false);
+    setRepeatNotice('Repeat saved.');
   };
   
   return (
@@ -342,6 +416,12 @@ export const TaskDetailPanel: React.FC = () => {
                       <span>Repeat</span>
                     </div>
                   )}
+                  {showRemoteNotice && (
+                    <div className="flex items-center gap-1.5 text-xs text-sky-600" role="status">
+                      <RefreshCw className="h-3 w-3" aria-hidden="true" />
+                      <span>{t`Another user just updated this task`}</span>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -349,7 +429,7 @@ export const TaskDetailPanel: React.FC = () => {
                 <Label>Project</Label>
                 <Select
                   value={task.projectId || 'none'}
-                  onValueChange={(v) => handleUpdate('projectId', v === 'none' ? null : v)}
+                  onValueChange={(v) => handleProjectChange(v === 'none' ? null : v)}
                   disabled={isReadOnly}
                 >
                   <SelectTrigger>
@@ -380,6 +460,41 @@ export const TaskDetailPanel: React.FC = () => {
                 )}
               </div>
 
+              {task.projectId && (
+                <div className="space-y-2">
+                  <Label>Milestone</Label>
+                  <Select
+                    value={task.milestoneId ?? 'none'}
+                    onValueChange={(v) => handleUpdate('milestoneId', v === 'none' ? null : v)}
+                    disabled={isReadOnly || (projectMilestones.length === 0 && !task.milestoneId)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={projectMilestones.length > 0 ? 'Select milestone' : 'No milestones'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No milestone</SelectItem>
+                      {task.milestoneId && !currentMilestone && (
+                        <SelectItem value={task.milestoneId}>Milestone outside the loaded range</SelectItem>
+                      )}
+                      {projectMilestones.map((milestone) => (
+                        <SelectItem key={milestone.id} value={milestone.id}>
+                          {milestone.title}
+                          <span className="ml-1 text-[10px] text-muted-foreground">
+                            {format(parseISO(milestone.date), 'd MMM yyyy')}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {currentMilestone && isTaskLateForMilestone(task, currentMilestone, currentStatus) && (
+                    <div className="flex items-center gap-1 text-xs text-destructive">
+                      <AlertTriangle className="h-3 w-3" />
+                      Ends after the milestone date
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="description">{t`Description`}</Label>
                 <RichTextEditor
@@ -391,6 +506,37 @@ export const TaskDetailPanel: React.FC = () => {
                   className="max-h-[45vh] overflow-y-auto pr-2"
                 />
               </div>
+
+              <TaskChecklist
+                items={checklist}
+                assignees={filteredAssignees}
+                canEdit={canEdit}
+                onAdd={(title) => addChecklistItem(task.id, { title })}
+                onUpdate={updateChecklistItem}
+                onDelete={deleteChecklistItem}
+                onPromote={(id) => {
+                  void promoteChecklistItem(id);
+                }}
+              />
+
+              {isOccurrence ? (
+                <p className="text-xs text-muted-foreground">
+                  Comments and history appear once this repeat is edited.
+                </p>
+              ) : (
+                <Tabs defaultValue="comments">
+                  <TabsList className="h-8">
+                    <TabsTrigger value="comments" className="text-xs">{t`Comments`}</TabsTrigger>
+                    <TabsTrigger value="history" className="text-xs">{t`History`}</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="comments">
+                    <TaskComments taskId={task.id} />
+                  </TabsContent>
+                  <TabsContent value="history" className="max-h-72 overflow-y-auto pr-2">
+                    <TaskActivityLog taskId={task.id} />
+                  </TabsContent>
+                </Tabs>
+              )}
             </div>
 
             <div className="space-y-3 lg:border-l lg:pl-6">
@@ -567,72 +713,15 @@ export const TaskDetailPanel: React.FC = () => {
 
               <div className="space-y-1">
                 <Label className="text-xs text-muted-foreground">Repeat</Label>
-                <div className="grid grid-cols-2 gap-2">
-                  <Select
-                    value={repeatFrequency}
-                    onValueChange={(value) => handleRepeatFrequencyChange(value as typeof repeatFrequency)}
+                {recurrence && (
+                  <RecurrenceFields
+                    id="repeat"
+                    value={recurrence}
+                    startDate={task.startDate}
+                    onChange={setRecurrence}
                     disabled={isReadOnly}
-                  >
-                    <SelectTrigger className="h-8 text-sm">
-                      <SelectValue placeholder="Repeat" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="none">Does not repeat</SelectItem>
-                      <SelectItem value="daily">Daily</SelectItem>
-                      <SelectItem value="weekly">Weekly</SelectItem>
-                      <SelectItem value="monthly">Monthly</SelectItem>
-                      <SelectItem value="yearly">Yearly</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Select
-                    value={repeatEnds}
-                    onValueChange={(value) => handleRepeatEndsChange(value as typeof repeatEnds)}
-                    disabled={isReadOnly || repeatFrequency === 'none'}
-                  >
-                    <SelectTrigger className="h-8 text-sm">
-                      <SelectValue placeholder="Ends" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="never">Never</SelectItem>
-                      <SelectItem value="on">On date</SelectItem>
-                      <SelectItem value="after">After count</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                {repeatFrequency !== 'none' && repeatEnds === 'on' && (
-                  <div className="space-y-1">
-                    <Label htmlFor="repeat-until" className="text-xs text-muted-foreground">End date</Label>
-                    <Input
-                      id="repeat-until"
-                      type="date"
-                      value={repeatUntil}
-                      onChange={(e) => {
-                        repeatUntilAutoRef.current = false;
-                        setRepeatUntil(e.target.value);
-                      }}
-                      disabled={isReadOnly}
-                      className="h-8 text-sm"
-                    />
-                  </div>
-                )}
-                {repeatFrequency !== 'none' && repeatEnds === 'after' && (
-                  <div className="space-y-1">
-                    <Label htmlFor="repeat-count" className="text-xs text-muted-foreground">Occurrences</Label>
-                    <Input
-                      id="repeat-count"
-                      type="number"
-                      min={1}
-                      value={repeatCount}
-                      onChange={(e) => setRepeatCount(Number(e.target.value))}
-                      disabled={isReadOnly}
-                      className="h-8 text-sm"
-                    />
-                  </div>
-                )}
-                {repeatFrequency !== 'none' && repeatEnds === 'never' && (
-                  <p className="text-[11px] text-muted-foreground">
-                    Creates repeats for the next 12 months.
-                  </p>
+                    compact
+                  />
                 )}
                 {repeatError && (
                   <div className="text-xs text-destructive">{repeatError}</div>
@@ -645,10 +734,10 @@ export const TaskDetailPanel: React.FC = () => {
                   variant="outline"
                   size="sm"
                   className="h-8"
-                  onClick={handleCreateRepeats}
-                  disabled={isReadOnly || repeatFrequency === 'none' || repeatCreating}
+                  onClick={handleSaveRepeat}
+                  disabled={isReadOnly || recurrence?.frequency === 'none' || repeatSaving}
                 >
-                  Create repeats
+                  Save repeat
                 </Button>
               </div>
 
@@ -682,7 +771,26 @@ export const TaskDetailPanel: React.FC = () => {
                 </div>
               </div>
 
-              <div className="flex justify-end pt-2">
+              <TaskDependenciesEditor task={task} canEdit={canEdit} />
+
+              <TaskTimeTracking
+                task={task}
+                assignees={assignees}
+                canEdit={canEdit}
+                onEstimateChange={(hours) => handleUpdate('estimateHours', hours)}
+              />
+
+              <div className="flex justify-between pt-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8"
+                  onClick={() => setTemplateOpen(true)}
+                  disabled={isReadOnly}
+                >
+                  <BookmarkPlus className="w-4 h-4 mr-2" />
+                  Save as template
+                </Button>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -735,6 +843,20 @@ export const TaskDetailPanel: React.FC = () => {
         </AlertDialogContent>
       </AlertDialog>
 
+      <SaveTaskTemplateDialog
+        open={templateOpen}
+        onOpenChange={setTemplateOpen}
+        task={task}
+        rrule={series?.rrule ?? null}
+      />
+
+      <RepeatEditScopeDialog
+        open={seriesScopeOpen}
+        taskTitle={task.title}
+        onSelect={handleSeriesEditScope}
+        onCancel={() => setSeriesScopeOpen(false)}
+      />
+
       <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { t } from '@lingui/macro';
+import { Plus, X } from 'lucide-react';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import { useTaskTimeEntries } from '@/features/planner/hooks/useTaskTimeEntries';
+import { formatHours, parseHours, sumHours } from '@/features/planner/lib/timeTracking';
+import { Assignee, Task } from '@/features/planner/types/planner';
+import { cn } from '@/shared/lib/classNames';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+
+interface TaskTimeTrackingProps {
+  task: Task;
+  assignees: Assignee[];
+  canEdit: boolean;
+  onEstimateChange: (hours: number | null) => void;
+}
+
+export const TaskTimeTracking: React.FC<TaskTimeTrackingProps> = ({
+  task,
+  assignees,
+  canEdit,
+  onEstimateChange,
+}) => {
+  const currentWorkspaceId = useAuthStore((state) => state.currentWorkspaceId);
+  const { entries, addEntry, deleteEntry } = useTaskTimeEntries(currentWorkspaceId, task.id);
+  const [estimateDraft, setEstimateDraft] = useState(task.estimateHours?.toString() ?? '');
+  const [assigneeId, setAssigneeId] = useState('');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [hours, setHours] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setEstimateDraft(task.estimateHours?.toString() ?? '');
+  }, [task.estimateHours]);
+
+  // По умолчанию время списывается на первого исполнителя задачи.
+  useEffect(() => {
+    setAssigneeId(task.assigneeIds[0] ?? '');
+    setError('');
+  }, [task.id, task.assigneeIds]);
+
+  const assigneeById = useMemo(
+    () => new Map(assignees.map((assignee) => [assignee.id, assignee])),
+    [assignees],
+  );
+  const selectableAssignees = useMemo(
+    () => assignees.filter((assignee) => assignee.isActive || task.assigneeIds.includes(assignee.id)),
+    [assignees, task.assigneeIds],
+  );
+  const logged = sumHours(entries);
+  const estimate = task.estimateHours;
+  const isOverEstimate = estimate !== null && logged > estimate;
+
+  const commitEstimate = () => {
+    const next = parseHours(estimateDraft);
+    if (next === estimate) return;
+    onEstimateChange(next);
+  };
+
+  const handleAdd = async () => {
+    const parsed = parseHours(hours);
+    if (!assigneeId || !date || !parsed) {
+      setError(t`Pick a member, a date and the hours spent.`);
+      return;
+    }
+    setError('');
+    const result = await addEntry({
+      assigneeId,
+      date,
+      hours: parsed,
+      note: note.trim() || null,
+    });
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setHours('');
+    setNote('');
+  };
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteEntry(id);
+    if (result.error) {
+      setError(result.error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="estimate" className="text-xs text-muted-foreground">{t`Estimate (hours)`}</Label>
+          <Input
+            id="estimate"
+            type="number"
+            min={0}
+            step={0.25}
+            value={estimateDraft}
+            onChange={(event) => setEstimateDraft(event.target.value)}
+            onBlur={commitEstimate}
+            placeholder={t`Not estimated`}
+            disabled={!canEdit}
+            className="h-8 text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">{t`Logged`}</Label>
+          <div className={cn('flex h-8 items-center text-sm', isOverEstimate && 'text-destructive')}>
+            {estimate !== null
+              ? `${formatHours(logged)} / ${formatHours(estimate)}`
+              : formatHours(logged)}
+          </div>
+        </div>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="max-h-40 space-y-1 overflow-y-auto pr-1">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-center gap-2 text-xs">
+              <span className="w-16 flex-shrink-0 text-muted-foreground">
+                {format(parseISO(entry.date), 'dd MMM')}
+              </span>
+              <span className="w-24 flex-shrink-0 truncate">
+                {assigneeById.get(entry.assigneeId)?.name ?? t`Unknown`}
+              </span>
+              <span className="w-12 flex-shrink-0 font-medium">{formatHours(entry.hours)}</span>
+              <span className="min-w-0 flex-1 truncate text-muted-foreground" title={entry.note ?? undefined}>
+                {entry.note}
+              </span>
+              {canEdit && (
+                <button
+                  type="button"
+                  className="flex-shrink-0 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDelete(entry.id)}
+                  aria-label={t`Remove time entry`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="space-y-1.5">
+          <div className="grid grid-cols-[minmax(0,1fr)_auto_4.5rem] gap-1.5">
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder={t`Member`} />
+              </SelectTrigger>
+              <SelectContent>
+                {selectableAssignees.map((assignee) => (
+                  <SelectItem key={assignee.id} value={assignee.id}>{assignee.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={date}
+              onChange={(event) => setDate(event.target.value)}
+              className="h-8 w-32 text-xs"
+              aria-label={t`Date`}
+            />
+            <Input
+              type="number"
+              min={0}
+              step={0.25}
+              value={hours}
+              onChange={(event) => setHours(event.target.value)}
+              placeholder={t`Hours`}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="flex items-center gap-1.5">
+            <Input
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder={t`Note (optional)`}
+              className="h-8 flex-1 text-xs"
+            />
+            <Button type="button" variant="outline" size="sm" className="h-8" onClick={handleAdd}>
+              <Plus className="mr-1 h-3.5 w-3.5" />
+              {t`Log time`}
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { t } from '@lingui/macro';
+import { FolderKanban, ListTodo, Loader2, Search, User } from 'lucide-react';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import {
+  useWorkspaceSearch,
+  WorkspaceSearchKind,
+  WorkspaceSearchResult,
+} from '@/features/planner/hooks/useWorkspaceSearch';
+import { Input } from '@/shared/ui/input';
+import { cn } from '@/shared/lib/classNames';
+import { formatProjectLabel } from '@/shared/lib/projectLabels';
+
+const KIND_ORDER: WorkspaceSearchKind[] = ['task', 'project', 'member'];
+
+export const WorkspaceSearch: React.FC = () => {
+  const navigate = useNavigate();
+  const currentWorkspaceId = useAuthStore((state) => state.currentWorkspaceId);
+  const revealTask = usePlannerStore((state) => state.revealTask);
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [openError, setOpenError] = useState('');
+  const { results, loading, error } = useWorkspaceSearch(currentWorkspaceId, query);
+
+  const groupLabels: Record<WorkspaceSearchKind, string> = {
+    task: t`Tasks`,
+    project: t`Projects`,
+    member: t`Members`,
+  };
+  const ordered = useMemo(
+    () => KIND_ORDER.flatMap((kind) => results.filter((result) => result.kind === kind)),
+    [results],
+  );
+  const showResults = open && query.trim().length >= 2;
+
+  const handleOpen = async (result: WorkspaceSearchResult) => {
+    setOpenError('');
+    if (result.kind === 'task') {
+      const outcome = await revealTask(result.id);
+      if (outcome.error) {
+        setOpenError(outcome.error);
+        return;
+      }
+    } else if (result.kind === 'project') {
+      navigate('/projects', { state: { projectId: result.id } });
+    } else {
+      navigate(`/members/${result.id}/timesheet`);
+    }
+    setOpen(false);
+    setQuery('');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      setOpen(false);
+      event.currentTarget.blur();
+      return;
+    }
+    if (!showResults || ordered.length === 0) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((current) => (current + step + ordered.length) % ordered.length);
+      return;
+    }
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      void handleOpen(ordered[Math.min(activeIndex, ordered.length - 1)]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search className="pointer-events-none absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value);
+          setActiveIndex(0);
+          setOpenError('');
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={t`Search tasks, projects, people`}
+        className="h-9 w-[260px] pl-8"
+        aria-label={t`Search`}
+      />
+      {showResults && (
+        <div className="absolute right-0 top-full z-50 mt-1 max-h-[420px] w-[380px] overflow-y-auto rounded-md border bg-popover p-1 shadow-lg">
+          {loading && ordered.length === 0 && (
+            <div className="flex items-center gap-2 px-2 py-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t`Searching...`}
+            </div>
+          )}
+          {!loading && !error && ordered.length === 0 && (
+            <div className="px-2 py-3 text-sm text-muted-foreground">{t`Nothing found.`}</div>
+          )}
+          {(error || openError) && (
+            <div className="px-2 py-2 text-sm text-destructive">{openError || error}</div>
+          )}
+          {KIND_ORDER.map((kind) => {
+            const items = ordered.filter((result) => result.kind === kind);
+            if (items.length === 0) return null;
+            return (
+              <div key={kind} className="py-1">
+                <div className="px-2 py-1 text-xs font-medium text-muted-foreground">{groupLabels[kind]}</div>
+                {items.map((result) => {
+                  const index = ordered.indexOf(result);
+                  const Icon = kind === 'task' ? ListTodo : kind === 'project' ? FolderKanban : User;
+                  const subtitle = kind === 'project' ? null : result.subtitle;
+                  return (
+                    <button
+                      key={`${kind}-${result.id}`}
+                      type="button"
+                      className={cn(
+                        'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                        index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/60',
+                      )}
+                      onMouseDown={(event) => event.preventDefault()}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      onClick={() => void handleOpen(result)}
+                    >
+                      <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      <span className="min-w-0 flex-1">
+                        <span className="block truncate">
+                          {kind === 'project' ? formatProjectLabel(result.title, result.subtitle) : result.title}
+                        </span>
+                        {subtitle && (
+                          <span className="block truncate text-xs text-muted-foreground">{subtitle}</span>
+                        )}
+                      </span>
+                      {result.startDate && (
+                        <span className="flex-shrink-0 text-xs text-muted-foreground">
+                          {format(parseISO(result.startDate), 'dd MMM yyyy')}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
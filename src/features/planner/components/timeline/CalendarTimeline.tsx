@@ -7,6 +7,7 @@ import { Button } from '@/shared/ui/button';
 import { cn } from '@/shared/lib/classNames';
 import { formatProjectLabel } from '@/shared/lib/projectLabels';
 import { hexToRgba } from '@/features/planner/lib/colorUtils';
+import { useWorkingCalendar } from '@/features/planner/hooks/useWorkingCalendar';
 import { Milestone } from '@/features/planner/types/planner';
 import { ArrowDown, ArrowUp } from 'lucide-react';
 import { t } from '@lingui/macro';
@@ -19,7 +20,6 @@ import {
   eachDayOfInterval,
   format,
   isToday,
-  isWeekend,
   max,
   min,
   parseISO,
@@ -29,8 +29,6 @@ import {
   isSameMonth,
 } from 'date-fns';
 
-const HOLIDAY_COUNTRY_CODE = 'RU';
-
 export const CalendarTimeline: React.FC = () => {
   const {
     tasks,
@@ -49,9 +47,7 @@ export const CalendarTimeline: React.FC = () => {
   const canEdit = currentWorkspaceRole === 'editor' || currentWorkspaceRole === 'admin';
   const containerRef = useRef<HTMLDivElement>(null);
   const monthRefs = useRef(new Map<string, HTMLDivElement>());
-  const loadedHolidayYears = useRef(new Set<number>());
-  const loadingHolidayYears = useRef(new Set<number>());
-  const [holidayMap, setHolidayMap] = useState<Record<string, string[]>>({});
+  const calendar = useWorkingCalendar();
   const [milestoneDialogOpen, setMilestoneDialogOpen] = useState(false);
   const [milestoneDialogDate, setMilestoneDialogDate] = useState<string | null>(null);
   const [editingMilestone, setEditingMilestone] = useState<Milestone | null>(null);
@@ -198,67 +194,6 @@ export const CalendarTimeline: React.FC = () => {
     return Array.from(grouped.entries()).sort((a, b) => a[0] - b[0]);
   }, [months]);
 
-  useEffect(() => {
-    const years = Array.from(new Set(months.map((month) => month.getFullYear())));
-    const toLoad = years.filter((year) => (
-      !loadedHolidayYears.current.has(year) && !loadingHolidayYears.current.has(year)
-    ));
-    if (toLoad.length === 0) return;
-
-    let active = true;
-    const controller = new AbortController();
-
-    const loadYear = async (year: number) => {
-      loadingHolidayYears.current.add(year);
-      try {
-        const response = await fetch(
-          `https://date.nager.at/api/v3/PublicHolidays/${year}/${HOLIDAY_COUNTRY_CODE}`,
-          { signal: controller.signal },
-        );
-        if (!response.ok) {
-          throw new Error(`Holiday fetch failed: ${response.status}`);
-        }
-        const data = (await response.json()) as Array<{ date?: string; localName?: string; name?: string }>;
-        if (!active) return;
-        setHolidayMap((prev) => {
-          const next = { ...prev };
-          data.forEach((holiday) => {
-            if (!holiday.date) return;
-            const label = holiday.localName || holiday.name || 'Holiday';
-            const existing = next[holiday.date] ?? [];
-            if (existing.includes(label)) return;
-            next[holiday.date] = [...existing, label];
-          });
-          return next;
-        });
-        loadedHolidayYears.current.add(year);
-      } catch (error) {
-        if ((error as { name?: string })?.name !== 'AbortError') {
-          console.error(error);
-        }
-        loadedHolidayYears.current.add(year);
-      } finally {
-        loadingHolidayYears.current.delete(year);
-      }
-    };
-
-    const loadSequentially = async () => {
-      for (const year of toLoad) {
-        if (!active) return;
-        await loadYear(year);
-      }
-    };
-
-    void loadSequentially();
-
-    return () => {
-      active = false;
-      controller.abort();
-    };
-  }, [months]);
-
-  const holidayDates = useMemo(() => new Set(Object.keys(holidayMap)), [holidayMap]);
-
   const setMonthRef = useCallback((key: string) => (node: HTMLDivElement | null) => {
     if (!node) {
       monthRefs.current.delete(key);
@@ -368,15 +303,18 @@ export const CalendarTimeline: React.FC = () => {
                             const key = format(day, 'yyyy-MM-dd');
                             const counts = taskCounts.get(key) ?? { total: 0, mine: 0 };
                             const inMonth = isSameMonth(day, month);
-                            const weekend = isWeekend(day);
+                            const weekend = !calendar.isWorkingDay(day);
                             const today = isToday(day);
                             const prevDay = index > 0 ? days[index - 1] : null;
                             const nextDay = index < days.length - 1 ? days[index + 1] : null;
-                            const prevKey = prevDay ? format(prevDay, 'yyyy-MM-dd') : '';
-                            const nextKey = nextDay ? format(nextDay, 'yyyy-MM-dd') : '';
-                            const isHoliday = inMonth && holidayDates.has(key);
-                            const prevIsHoliday = Boolean(prevDay && holidayDates.has(prevKey) && isSameMonth(prevDay, month));
-                            const nextIsHoliday = Boolean(nextDay && holidayDates.has(nextKey) && isSameMonth(nextDay, month));
+                            const holidayNames = calendar.getHolidayNames(day);
+                            const isHoliday = inMonth && holidayNames.length > 0;
+                            const prevIsHoliday = Boolean(
+                              prevDay && isSameMonth(prevDay, month) && calendar.getHolidayNames(prevDay).length > 0,
+                            );
+                            const nextIsHoliday = Boolean(
+                              nextDay && isSameMonth(nextDay, month) && calendar.getHolidayNames(nextDay).length > 0,
+                            );
                             const holidayStarts = isHoliday && (index % 7 === 0 || !prevIsHoliday);
                             const holidayEnds = isHoliday && (index % 7 === 6 || !nextIsHoliday);
                             const holidayRadius = holidayStarts && holidayEnds
@@ -386,7 +324,6 @@ export const CalendarTimeline: React.FC = () => {
                               : holidayEnds
                               ? 'rounded-r-full'
                               : 'rounded-none';
-                            const holidayNames = holidayMap[key] ?? [];
                             const milestonesForDay = milestonesByDate.get(key) ?? [];
 
                             return (
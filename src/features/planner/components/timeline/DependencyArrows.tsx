@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import { TaskDependency } from '@/features/planner/types/planner';
+import { TaskWithLane } from '@/features/planner/lib/taskLanes';
+import { getTaskBarGap, getTaskPosition, TASK_GAP, TASK_HEIGHT } from '@/features/planner/lib/dateUtils';
+import { getEarliestSuccessorStart } from '@/features/planner/lib/taskDependencies';
+
+interface DependencyArrowsProps {
+  dependencies: TaskDependency[];
+  rows: Array<{ id: string; height: number; tasks: TaskWithLane[] }>;
+  visibleDays: Date[];
+  dayWidth: number;
+  width: number;
+}
+
+// Отступы контейнера задач внутри TimelineRow (py-2 px-0.5)
+const ROW_PADDING_TOP = 8;
+const ROW_PADDING_LEFT = 2;
+const ELBOW = 8;
+
+type BarBox = { left: number; right: number; middle: number; startDate: string; endDate: string };
+
+export const DependencyArrows: React.FC<DependencyArrowsProps> = ({
+  dependencies,
+  rows,
+  visibleDays,
+  dayWidth,
+  width,
+}) => {
+  const totalHeight = useMemo(() => rows.reduce((sum, row) => sum + row.height, 0), [rows]);
+
+  // Задача с несколькими исполнителями рисуется в нескольких строках — стрелка цепляется к первой.
+  const boxes = useMemo(() => {
+    const map = new Map<string, BarBox>();
+    // Геометрия нужна только связанным задачам, остальные не считаем.
+    const linkedIds = new Set(dependencies.flatMap((dependency) => [dependency.predecessorId, dependency.successorId]));
+    if (linkedIds.size === 0) return map;
+    let rowTop = 0;
+    rows.forEach((row) => {
+      row.tasks.forEach((task) => {
+        if (map.has(task.id) || !linkedIds.has(task.id)) return;
+        const position = getTaskPosition(task.startDate, task.endDate, visibleDays, dayWidth);
+        if (!position) return;
+        const left = ROW_PADDING_LEFT + position.left;
+        map.set(task.id, {
+          left,
+          right: left + Math.max(position.width, dayWidth - getTaskBarGap(dayWidth)),
+          middle: rowTop + ROW_PADDING_TOP + task.lane * (TASK_HEIGHT + TASK_GAP) + TASK_HEIGHT / 2,
+          startDate: task.startDate,
+          endDate: task.endDate,
+        });
+      });
+      rowTop += row.height;
+    });
+    return map;
+  }, [dayWidth, dependencies, rows, visibleDays]);
+
+  const arrows = useMemo(() => dependencies.flatMap((dependency) => {
+    const from = boxes.get(dependency.predecessorId);
+    const to = boxes.get(dependency.successorId);
+    if (!from || !to) return [];
+
+    const startX = dependency.type === 'start_to_start' ? from.left : from.right;
+    const startY = from.middle;
+    const endX = to.left;
+    const endY = to.middle;
+    const exitX = dependency.type === 'start_to_start' ? startX - ELBOW : startX + ELBOW;
+    const entryX = endX - ELBOW;
+
+    let path: string;
+    if (entryX >= exitX || dependency.type === 'start_to_start') {
+      const turnX = dependency.type === 'start_to_start' ? Math.min(exitX, entryX) : entryX;
+      path = `M ${startX} ${startY} H ${turnX} V ${endY} H ${endX}`;
+    } else {
+      // Преемник начинается левее конца предшественника — обходим над строкой преемника.
+      const detourY = endY - TASK_HEIGHT / 2 - TASK_GAP / 2;
+      path = `M ${startX} ${startY} H ${exitX} V ${detourY} H ${entryX} V ${endY} H ${endX}`;
+    }
+
+    const isViolated = to.startDate < getEarliestSuccessorStart(from, dependency.type);
+    return [{ id: dependency.id, path, isViolated }];
+  }), [boxes, dependencies]);
+
+  if (arrows.length === 0) return null;
+
+  return (
+    <svg
+      className="pointer-events-none absolute left-0 top-0 z-10 overflow-visible"
+      width={width}
+      height={totalHeight}
+      aria-hidden="true"
+    >
+      <defs>
+        <marker id="dependency-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="7" markerHeight="7" orient="auto">
+          <path d="M 0 0 L 8 4 L 0 8 z" fill="#64748b" />
+        </marker>
+        <marker id="dependency-arrow-violated" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="7" markerHeight="7" orient="auto">
+          <path d="M 0 0 L 8 4 L 0 8 z" fill="#dc2626" />
+        </marker>
+      </defs>
+      {arrows.map((arrow) => (
+        <path
+          key={arrow.id}
+          d={arrow.path}
+          fill="none"
+          stroke={arrow.isViolated ? '#dc2626' : '#64748b'}
+          strokeWidth={1.5}
+          strokeDasharray={arrow.isViolated ? '4 3' : undefined}
+          markerEnd={arrow.isViolated ? 'url(#dependency-arrow-violated)' : 'url(#dependency-arrow)'}
+        />
+      ))}
+    </svg>
+  );
+};
@@ -8,7 +8,10 @@ import { formatProjectLabel } from '@/shared/lib/projectLabels';
 import { sortProjectsByTracking } from '@/shared/lib/projectSorting';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
 import { Milestone } from '@/features/planner/types/planner';
+import { getMilestoneProgress } from '@/features/planner/lib/milestones';
+import { cn } from '@/shared/lib/classNames';
 import { format, parseISO } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
 
 interface MilestoneDialogProps {
   open: boolean;
@@ -25,7 +28,16 @@ export const MilestoneDialog: React.FC<MilestoneDialogProps> = ({
   milestone,
   canEdit,
 }) => {
-  const { projects, trackedProjectIds, addMilestone, updateMilestone, deleteMilestone } = usePlannerStore();
+  const {
+    projects,
+    trackedProjectIds,
+    tasks,
+    statuses,
+    addMilestone,
+    updateMilestone,
+    deleteMilestone,
+    setSelectedTaskId,
+  } = usePlannerStore();
   const [title, setTitle] = useState('');
   const [projectId, setProjectId] = useState('');
 
@@ -53,6 +65,21 @@ export const MilestoneDialog: React.FC<MilestoneDialogProps> = ({
     return format(parseISO(selectedDate), 'd MMM yyyy');
   }, [selectedDate]);
 
+  const linkedTasks = useMemo(() => {
+    if (!milestone) return [];
+    return tasks
+      .filter((task) => task.milestoneId === milestone.id)
+      .sort((left, right) => left.endDate.localeCompare(right.endDate));
+  }, [milestone, tasks]);
+  const progress = useMemo(
+    () => (milestone ? getMilestoneProgress(milestone, tasks, statuses) : null),
+    [milestone, statuses, tasks],
+  );
+  const statusById = useMemo(
+    () => new Map(statuses.map((status) => [status.id, status])),
+    [statuses],
+  );
+
   useEffect(() => {
     if (!open) return;
     if (milestone) {
@@ -79,6 +106,11 @@ export const MilestoneDialog: React.FC<MilestoneDialogProps> = ({
     onOpenChange(false);
   };
 
+  const handleOpenTask = (taskId: string) => {
+    onOpenChange(false);
+    setSelectedTaskId(taskId);
+  };
+
   const handleDelete = async () => {
     if (!canEdit || !milestone) return;
     await deleteMilestone(milestone.id);
@@ -136,6 +168,61 @@ export const MilestoneDialog: React.FC<MilestoneDialogProps> = ({
               </SelectContent>
             </Select>
           </div>
+          {milestone && progress && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Linked tasks</Label>
+                <span className="text-xs text-muted-foreground">
+                  {progress.done}/{progress.total} done
+                </span>
+              </div>
+              {progress.total > 0 && (
+                <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className={cn('h-full', progress.atRisk ? 'bg-destructive' : 'bg-primary')}
+                    style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                  />
+                </div>
+              )}
+              {progress.atRisk && (
+                <div className="flex items-center gap-1 text-xs text-destructive">
+                  <AlertTriangle className="h-3 w-3" />
+                  At risk: {progress.lateTaskIds.length} open task(s) end after the milestone date
+                </div>
+              )}
+              {linkedTasks.length > 0 ? (
+                <div className="max-h-40 space-y-1 overflow-y-auto">
+                  {linkedTasks.map((task) => {
+                    const status = statusById.get(task.statusId);
+                    const isLate = progress.lateTaskIds.includes(task.id);
+                    return (
+                      <button
+                        key={task.id}
+                        type="button"
+                        className="flex w-full items-center gap-2 rounded px-1 py-0.5 text-left text-sm hover:bg-muted"
+                        onClick={() => handleOpenTask(task.id)}
+                      >
+                        <span
+                          className="h-2 w-2 flex-shrink-0 rounded-full"
+                          style={{ backgroundColor: status?.color ?? '#94A3B8' }}
+                        />
+                        <span className={cn('flex-1 truncate', status?.isFinal && 'text-muted-foreground line-through')}>
+                          {task.title}
+                        </span>
+                        <span className={cn('text-xs', isLate ? 'text-destructive' : 'text-muted-foreground')}>
+                          {format(parseISO(task.endDate), 'd MMM')}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-xs text-muted-foreground">
+                  No tasks are linked yet. Pick this milestone in a task of the project.
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         <DialogFooter className="gap-2 sm:gap-0">
@@ -2,13 +2,28 @@ import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import { createPortal } from 'react-dom';
 import { usePlannerStore } from '@/features/planner/store/plannerStore';
 import { useFilteredAssignees } from '@/features/planner/hooks/useFilteredAssignees';
-import { Task, TaskPriority } from '@/features/planner/types/planner';
+import { Task, TaskPriority, TaskSeriesScope } from '@/features/planner/types/planner';
 import { cn } from '@/shared/lib/classNames';
 import { formatStatusLabel, stripStatusEmoji } from '@/shared/lib/statusLabels';
 import { formatProjectLabel } from '@/shared/lib/projectLabels';
 import { sortProjectsByTracking } from '@/shared/lib/projectSorting';
-import { calculateNewDates, calculateResizedDates, formatDateRange, TASK_HEIGHT, TASK_GAP } from '@/features/planner/lib/dateUtils';
-import { Ban, RotateCw } from 'lucide-react';
+import {
+  calculateNewDates,
+  calculateResizedDates,
+  countWorkingDays,
+  formatDateRange,
+  getTaskBarGap,
+  TASK_HEIGHT,
+  TASK_GAP,
+} from '@/features/planner/lib/dateUtils';
+import { useWorkingCalendar } from '@/features/planner/hooks/useWorkingCalendar';
+import { getDependentShifts, TaskDateChange } from '@/features/planner/lib/taskDependencies';
+import { getChecklistProgress, getTaskChecklist } from '@/features/planner/lib/checklist';
+import { buildPlannerSearchParams } from '@/features/planner/lib/plannerUrl';
+import { normalizeFilters } from '@/features/planner/lib/plannerViews';
+import { RepeatEditScopeDialog } from '@/features/planner/components/RepeatEditScopeDialog';
+import { toast } from '@/shared/ui/sonner';
+import { Ban, ListChecks, RotateCw } from 'lucide-react';
 import {
   ContextMenu,
   ContextMenuContent,
@@ -41,6 +56,10 @@ interface TaskBarProps {
   visibleDays: Date[];
   lane: number;
   canEdit: boolean;
+  /** Row the bar is drawn in; together with `getRowMoveUpdates` enables dragging to another row. */
+  rowId?: string;
+  /** Task fields to change when the bar is dropped on another row, or null when the move is not allowed. */
+  getRowMoveUpdates?: (task: Task, fromRowId: string, toRowId: string) => Partial<Task> | null;
 }
 
 const normalizeHex = (color: string) => {
@@ -99,34 +118,63 @@ export const TaskBar: React.FC<TaskBarProps> = ({
   visibleDays,
   lane,
   canEdit,
+  rowId,
+  getRowMoveUpdates,
 }) => {
   const {
     tasks,
+    dependencies,
+    checklistItems,
     projects,
     trackedProjectIds,
     statuses,
     taskTypes,
     assignees,
-    moveTask,
+    rescheduleTasks,
     updateTask,
+    updateTasks,
     deleteTask,
     deleteTaskSeries,
+    updateTaskSeries,
     duplicateTask,
     setSelectedTaskId,
     selectedTaskId,
+    selectedTaskIds,
+    setSelectedTaskIds,
+    toggleTaskSelection,
+    selectionDragOffset,
+    setSelectionDragOffset,
     highlightedTaskId,
     setHighlightedTaskId,
+    workingCalendar,
+    viewMode,
+    groupMode,
   } = usePlannerStore();
   
   const filteredAssignees = useFilteredAssignees(assignees);
+  const calendar = useWorkingCalendar();
+  const snapToWorkingDays = workingCalendar.keepWorkingDuration ? calendar.isWorkingDay : undefined;
+  const workingDays = useMemo(
+    () => countWorkingDays(task.startDate, task.endDate, calendar.isWorkingDay),
+    [calendar, task.endDate, task.startDate],
+  );
   
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState<'left' | 'right' | null>(null);
-  const [dragOffset, setDragOffset] = useState({ x: 0, startX: 0 });
+  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0, startX: 0, startY: 0 });
   const [hasMoved, setHasMoved] = useState(false);
   const [isHovering, setIsHovering] = useState(false);
   const [tooltipPos, setTooltipPos] = useState({ x: 0, y: 0 });
   const [deleteOpen, setDeleteOpen] = useState(false);
+  const [pendingReschedule, setPendingReschedule] = useState<{
+    startDate: string;
+    endDate: string;
+    shifts: TaskDateChange[];
+    /** Остальные поля той же правки (например, строка, в которую утащили бар). */
+    updates: Partial<Task>;
+  } | null>(null);
+  // Правка повторяющейся задачи ждёт выбора: только этот повтор, этот и следующие или все.
+  const [pendingSeriesEdit, setPendingSeriesEdit] = useState<Partial<Task> | null>(null);
   
   const barRef = useRef<HTMLDivElement>(null);
   
@@ -150,6 +198,11 @@ export const TaskBar: React.FC<TaskBarProps> = ({
     ? 'Unassigned'
     : assignedAssignees.map((assignee) => assignee.name).join(', ');
   const isSelected = selectedTaskId === task.id;
+  const isInSelection = selectedTaskIds.includes(task.id);
+  // Перетаскивание бара из выделения двигает всё выделение.
+  const isGroupDrag = isDragging && isInSelection && selectedTaskIds.length > 1;
+  // Одиночный бар можно утащить в другую строку: поменяется поле, по которому сгруппирован таймлайн.
+  const canMoveToRow = Boolean(rowId && getRowMoveUpdates) && !isGroupDrag;
   const isHighlighted = highlightedTaskId === task.id;
   const priorityMeta = task.priority ? priorityStyles[task.priority] : null;
   const isCancelled = status
@@ -160,6 +213,10 @@ export const TaskBar: React.FC<TaskBarProps> = ({
   const hasFutureRepeats = isRepeating
     ? tasks.some((item) => item.repeatId === task.repeatId && item.startDate > task.startDate)
     : false;
+  const checklistProgress = useMemo(
+    () => getChecklistProgress(getTaskChecklist(checklistItems, task.id)),
+    [checklistItems, task.id],
+  );
   
   const fallbackProjectColor = projects.length === 1 ? projects[0]?.color : undefined;
   const baseBgColor = project?.color || fallbackProjectColor || '#94a3b8';
@@ -204,11 +261,63 @@ export const TaskBar: React.FC<TaskBarProps> = ({
     setTooltipPos({ x, y });
   }, []);
   
+  // Даты и прочие поля одной правки уходят одним патчем: одна запись в истории и одна запись на сервер.
+  const commitOwnDates = useCallback((startDate: string, endDate: string, updates: Partial<Task> = {}) => {
+    const shifts = getDependentShifts(tasks, dependencies, { id: task.id, startDate, endDate });
+    if (shifts.length === 0) {
+      updateTask(task.id, { ...updates, startDate, endDate });
+      return;
+    }
+    setPendingReschedule({ startDate, endDate, shifts, updates });
+  }, [dependencies, task.id, tasks, updateTask]);
+
+  const commitDates = useCallback((startDate: string, endDate: string, updates: Partial<Task> = {}) => {
+    if (isRepeating) {
+      setPendingSeriesEdit({ ...updates, startDate, endDate });
+      return;
+    }
+    commitOwnDates(startDate, endDate, updates);
+  }, [commitOwnDates, isRepeating]);
+
+  const handleSeriesEditScope = async (scope: TaskSeriesScope) => {
+    if (!pendingSeriesEdit) return;
+    const updates = pendingSeriesEdit;
+    setPendingSeriesEdit(null);
+    if (scope === 'this') {
+      const { startDate, endDate, ...rest } = updates;
+      if (startDate && endDate) {
+        commitOwnDates(startDate, endDate, rest);
+      } else {
+        await updateTask(task.id, updates);
+      }
+      return;
+    }
+    const result = await updateTaskSeries(task.id, task, { ...task, ...updates }, scope);
+    if (result.error) {
+      toast.error(result.error);
+    }
+  };
+
+  // Строка под курсором; сам перетаскиваемый бар лежит в DOM исходной строки, поэтому его пропускаем.
+  const getRowIdAtPoint = useCallback((x: number, y: number) => {
+    if (typeof document.elementsFromPoint !== 'function') return null;
+    const row = document.elementsFromPoint(x, y)
+      .filter((element) => !barRef.current?.contains(element))
+      .map((element) => element.closest<HTMLElement>('[data-row-id]'))
+      .find((element) => element !== null);
+    return row?.dataset.rowId ?? null;
+  }, []);
+
   const handleMouseDown = useCallback((e: React.MouseEvent, resize?: 'left' | 'right') => {
     if (!canEdit) return;
     if (e.button !== 0) return;
     e.preventDefault();
     e.stopPropagation();
+
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      toggleTaskSelection(task.id);
+      return;
+    }
     
     setHasMoved(false);
     
@@ -218,44 +327,68 @@ export const TaskBar: React.FC<TaskBarProps> = ({
       setIsDragging(true);
     }
     
-    setDragOffset({ x: 0, startX: e.clientX });
-  }, [canEdit]);
+    setDragOffset({ x: 0, y: 0, startX: e.clientX, startY: e.clientY });
+  }, [canEdit, task.id, toggleTaskSelection]);
   
   useEffect(() => {
     if (!isDragging && !isResizing) return;
     
     const handleMouseMove = (e: MouseEvent) => {
       const deltaX = e.clientX - dragOffset.startX;
-      if (Math.abs(deltaX) > 3) {
+      const deltaY = isDragging && canMoveToRow ? e.clientY - dragOffset.startY : 0;
+      if (Math.abs(deltaX) > 3 || Math.abs(deltaY) > 3) {
         setHasMoved(true);
       }
-      setDragOffset(prev => ({ ...prev, x: deltaX }));
+      setDragOffset(prev => ({ ...prev, x: deltaX, y: deltaY }));
+      if (isGroupDrag) {
+        setSelectionDragOffset(deltaX);
+      }
     };
     
-    const handleMouseUp = () => {
+    const handleMouseUp = (e: MouseEvent) => {
       const daysDelta = Math.round(dragOffset.x / dayWidth);
+      const targetRowId = isDragging && canMoveToRow && hasMoved ? getRowIdAtPoint(e.clientX, e.clientY) : null;
+      const rowUpdates = rowId && targetRowId && targetRowId !== rowId
+        ? getRowMoveUpdates?.(task, rowId, targetRowId) ?? null
+        : null;
       
-      if (daysDelta !== 0) {
+      if (isGroupDrag) {
+        setSelectionDragOffset(0);
+        if (daysDelta !== 0) {
+          const selectedIds = new Set(selectedTaskIds);
+          rescheduleTasks(tasks
+            .filter((item) => selectedIds.has(item.id))
+            .map((item) => ({
+              id: item.id,
+              ...calculateNewDates(item.startDate, item.endDate, daysDelta, snapToWorkingDays),
+            })));
+        }
+      } else if (daysDelta !== 0) {
         if (isResizing) {
           const { startDate, endDate } = calculateResizedDates(
             task.startDate,
             task.endDate,
             isResizing,
-            daysDelta
+            daysDelta,
+            snapToWorkingDays
           );
-          moveTask(task.id, startDate, endDate);
+          commitDates(startDate, endDate);
         } else {
           const { startDate, endDate } = calculateNewDates(
             task.startDate,
             task.endDate,
-            daysDelta
+            daysDelta,
+            snapToWorkingDays
           );
-          moveTask(task.id, startDate, endDate);
+          commitDates(startDate, endDate, rowUpdates ?? {});
         }
+      } else if (rowUpdates) {
+        void updateTask(task.id, rowUpdates);
       }
       
       // Only open panel on clean click (no movement)
       if (!hasMoved && !isResizing) {
+        setSelectedTaskIds([]);
         setSelectedTaskId(task.id);
         if (isHighlighted) {
           setHighlightedTaskId(null);
@@ -264,7 +397,7 @@ export const TaskBar: React.FC<TaskBarProps> = ({
       
       setIsDragging(false);
       setIsResizing(null);
-      setDragOffset({ x: 0, startX: 0 });
+      setDragOffset({ x: 0, y: 0, startX: 0, startY: 0 });
       setHasMoved(false);
     };
     
@@ -278,30 +411,51 @@ export const TaskBar: React.FC<TaskBarProps> = ({
   }, [
     isDragging,
     isResizing,
+    isGroupDrag,
+    canMoveToRow,
     dragOffset.startX,
+    dragOffset.startY,
     dragOffset.x,
     dayWidth,
     task,
-    moveTask,
+    tasks,
+    commitDates,
+    rescheduleTasks,
+    getRowIdAtPoint,
+    getRowMoveUpdates,
+    rowId,
+    updateTask,
     hasMoved,
     isHighlighted,
+    selectedTaskIds,
     setHighlightedTaskId,
     setSelectedTaskId,
+    setSelectedTaskIds,
+    setSelectionDragOffset,
+    snapToWorkingDays,
   ]);
 
   // Calculate visual position during drag
   const visualLeft = isDragging || isResizing === 'left'
     ? position.left + dragOffset.x
-    : position.left;
+    : position.left + (isInSelection ? selectionDragOffset : 0);
     
   const visualWidth = isResizing === 'left'
     ? position.width - dragOffset.x
     : isResizing === 'right'
     ? position.width + dragOffset.x
     : position.width;
+  const barWidth = Math.max(visualWidth, dayWidth - getTaskBarGap(dayWidth));
+  // Narrow bars (month and quarter zoom) drop the badges first and the text last; the hover card keeps the details.
+  const isCompactBar = barWidth < 72;
+  const isTinyBar = barWidth < 24;
 
   const handleStatusChange = (statusId: string) => {
     if (!canEdit || statusId === task.statusId) return;
+    if (isRepeating) {
+      setPendingSeriesEdit({ statusId });
+      return;
+    }
     updateTask(task.id, { statusId });
   };
 
@@ -309,9 +463,31 @@ export const TaskBar: React.FC<TaskBarProps> = ({
     if (!canEdit) return;
     const nextProjectId = projectId === 'none' ? null : projectId;
     if (nextProjectId === task.projectId) return;
+    if (isRepeating) {
+      setPendingSeriesEdit({ projectId: nextProjectId });
+      return;
+    }
     updateTask(task.id, { projectId: nextProjectId });
   };
 
+  const handleCopyLink = () => {
+    // Without filters, so the task is visible to whoever opens the link.
+    const params = buildPlannerSearchParams({
+      viewMode,
+      groupMode,
+      currentDate: task.startDate,
+      filters: normalizeFilters(null),
+      selectedTaskId: task.id,
+    });
+    const url = `${window.location.origin}/?${params.toString()}`;
+    navigator.clipboard.writeText(url)
+      .then(() => toast('Link copied'))
+      .catch((error) => {
+        console.error(error);
+        toast('Failed to copy link');
+      });
+  };
+
   const projectValue = task.projectId ?? 'none';
 
   return (
@@ -319,6 +495,7 @@ export const TaskBar: React.FC<TaskBarProps> = ({
       <ContextMenuTrigger asChild>
         <div
           ref={barRef}
+          data-task-id={task.id}
           onMouseDown={(e) => handleMouseDown(e)}
           onMouseEnter={(e) => {
             setIsHovering(true);
@@ -336,79 +513,100 @@ export const TaskBar: React.FC<TaskBarProps> = ({
             }
           }}
           className={cn(
-            'task-bar absolute flex flex-col justify-center px-2 py-0.5 overflow-hidden select-none pointer-events-auto',
+            'task-bar absolute flex flex-col justify-center py-0.5 overflow-hidden select-none pointer-events-auto',
+            isCompactBar ? 'px-1' : 'px-2',
             isDragging && 'dragging z-50',
             isResizing && 'z-50',
             isSelected && 'ring-2 ring-primary ring-offset-1',
+            isInSelection && !isSelected && 'ring-2 ring-sky-500 ring-offset-1',
+            isInSelection && selectionDragOffset !== 0 && 'z-50',
             isHighlighted && 'task-highlight z-40',
             isCancelled && 'opacity-60 saturate-50'
           )}
           style={{
             left: visualLeft,
-            top: topPosition,
-            width: Math.max(visualWidth, dayWidth - 4),
+            top: topPosition + dragOffset.y,
+            width: barWidth,
             height: TASK_HEIGHT,
             backgroundColor: bgColor,
             border: isFinalStyle ? '1px solid #24342B' : 'none',
           }}
         >
           {/* Left resize handle */}
-          <div
-            className="resize-handle left-0 hover:bg-black/20"
-            onMouseDown={(e) => handleMouseDown(e, 'left')}
-          />
+          {!isTinyBar && (
+            <div
+              className="resize-handle left-0 hover:bg-black/20"
+              onMouseDown={(e) => handleMouseDown(e, 'left')}
+            />
+          )}
           
           {/* Task content */}
-          <div className="flex min-w-0 flex-1 flex-col gap-0.5">
-            <div className="flex items-center gap-2 min-w-0">
-              {status?.emoji && (
-                <span className="inline-flex h-4 w-4 flex-shrink-0 items-center justify-center text-sm leading-none">
-                  {status.emoji}
-                </span>
-              )}
-              {isCancelled && (
-                <Ban className="h-3 w-3 text-red-500" aria-label="Cancelled" title="Cancelled" />
-              )}
-              {isRepeating && (
-                <RotateCw
-                  className="h-3 w-3 opacity-80"
+          {!isTinyBar && (
+            <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+              <div className="flex items-center gap-2 min-w-0">
+                {!isCompactBar && status?.emoji && (
+                  <span className="inline-flex h-4 w-4 flex-shrink-0 items-center justify-center text-sm leading-none">
+                    {status.emoji}
+                  </span>
+                )}
+                {!isCompactBar && isCancelled && (
+                  <Ban className="h-3 w-3 text-red-500" aria-label="Cancelled" title="Cancelled" />
+                )}
+                {!isCompactBar && isRepeating && (
+                  <RotateCw
+                    className="h-3 w-3 opacity-80"
+                    style={{ color: textColor }}
+                    aria-label="Repeat"
+                    title="Repeat"
+                  />
+                )}
+                {!isCompactBar && priorityMeta && (
+                  <span
+                    className="inline-flex h-4 w-4 items-center justify-center rounded-full border shadow-[0_0_0_1px_rgba(0,0,0,0.06)]"
+                    style={priorityBadgeStyle}
+                    title={priorityMeta.label}
+                    aria-label={priorityMeta.label}
+                  >
+                    <span className={cn('text-[11px] font-black leading-none priority-blink', priorityMeta.className)}>
+                      {prioritySymbol}
+                    </span>
+                  </span>
+                )}
+                <span
+                  className={cn('task-label text-sm font-semibold leading-tight truncate', isCompleted && 'line-through')}
                   style={{ color: textColor }}
-                  aria-label="Repeat"
-                  title="Repeat"
-                />
-              )}
-              {priorityMeta && (
+                >
+                  {task.title}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 min-w-0">
                 <span
-                  className="inline-flex h-4 w-4 items-center justify-center rounded-full border shadow-[0_0_0_1px_rgba(0,0,0,0.06)]"
-                  style={priorityBadgeStyle}
-                  title={priorityMeta.label}
-                  aria-label={priorityMeta.label}
+                  className="text-[11px] leading-tight truncate"
+                  style={{ color: secondaryTextColor }}
                 >
-                  <span className={cn('text-[11px] font-black leading-none priority-blink', priorityMeta.className)}>
-                    {prioritySymbol}
-                  </span>
+                  {project ? formatProjectLabel(project.name, project.code) : 'No Project'}
                 </span>
-              )}
-              <span
-                className={cn('task-label text-sm font-semibold leading-tight truncate', isCompleted && 'line-through')}
-                style={{ color: textColor }}
-              >
-                {task.title}
-              </span>
+                {!isCompactBar && checklistProgress.total > 0 && (
+                  <span
+                    className="ml-auto inline-flex flex-shrink-0 items-center gap-0.5 text-[11px] leading-tight"
+                    style={{ color: secondaryTextColor }}
+                    title="Checklist"
+                  >
+                    <ListChecks className="h-3 w-3" aria-hidden="true" />
+                    {checklistProgress.done}/{checklistProgress.total}
+                  </span>
+                )}
+              </div>
             </div>
-            <span
-              className="text-[11px] leading-tight truncate"
-              style={{ color: secondaryTextColor }}
-            >
-              {project ? formatProjectLabel(project.name, project.code) : 'No Project'}
-            </span>
-          </div>
+          )}
           
           {/* Right resize handle */}
-          <div
-            className="resize-handle right-0 hover:bg-black/20"
-            onMouseDown={(e) => handleMouseDown(e, 'right')}
-          />
+          {!isTinyBar && (
+            <div
+              className="resize-handle right-0 hover:bg-black/20"
+              onMouseDown={(e) => handleMouseDown(e, 'right')}
+            />
+          )}
         </div>
       </ContextMenuTrigger>
       <ContextMenuContent>
@@ -430,6 +628,9 @@ export const TaskBar: React.FC<TaskBarProps> = ({
         <ContextMenuItem onSelect={() => duplicateTask(task.id)} disabled={!canEdit}>
           Duplicate task
         </ContextMenuItem>
+        <ContextMenuItem onSelect={handleCopyLink}>
+          Copy link
+        </ContextMenuItem>
         <ContextMenuSub>
           <ContextMenuSubTrigger>Assign project</ContextMenuSubTrigger>
           <ContextMenuSubContent>
@@ -467,6 +668,8 @@ export const TaskBar: React.FC<TaskBarProps> = ({
             </div>
             <div className="text-xs text-muted-foreground">
               {formatDateRange(task.startDate, task.endDate)}
+              {' · '}
+              {workingDays === 1 ? '1 working day' : `${workingDays} working days`}
             </div>
             {isRepeating && (
               <div className="flex items-center gap-1 text-xs text-muted-foreground">
@@ -474,9 +677,26 @@ export const TaskBar: React.FC<TaskBarProps> = ({
                 <span>Repeat</span>
               </div>
             )}
+            {checklistProgress.total > 0 && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <ListChecks className="h-3 w-3" aria-hidden="true" />
+                <span>
+                  Checklist: <span className="text-foreground font-medium">{checklistProgress.done}/{checklistProgress.total}</span>
+                </span>
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground">
+              Project:{' '}
+              <span className="text-foreground font-medium">
+                {project ? formatProjectLabel(project.name, project.code) : 'No Project'}
+              </span>
+            </div>
             <div className="text-xs text-muted-foreground">
               Assignees: <span className="text-foreground font-medium">{assigneeLabel}</span>
             </div>
+            {priorityMeta && (
+              <div className={cn('text-xs font-medium', priorityMeta.className)}>{priorityMeta.label}</div>
+            )}
             <div className="flex flex-wrap gap-1">
               {status && (
                 <Badge className="text-[10px]" style={getBadgeStyle(status.color)}>
@@ -493,6 +713,57 @@ export const TaskBar: React.FC<TaskBarProps> = ({
         </div>,
         document.body
       )}
+      <RepeatEditScopeDialog
+        open={Boolean(pendingSeriesEdit)}
+        taskTitle={task.title}
+        onSelect={handleSeriesEditScope}
+        onCancel={() => setPendingSeriesEdit(null)}
+      />
+      <AlertDialog
+        open={Boolean(pendingReschedule)}
+        onOpenChange={(open) => {
+          if (!open) setPendingReschedule(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Shift dependent tasks?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {`The new dates for "${task.title}" overlap ${pendingReschedule?.shifts.length ?? 0} dependent task(s). Shift the dependent chain to keep the order?`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-muted text-foreground hover:bg-muted/80"
+              onClick={async () => {
+                if (!pendingReschedule) return;
+                const { startDate, endDate, updates } = pendingReschedule;
+                setPendingReschedule(null);
+                await updateTask(task.id, { ...updates, startDate, endDate });
+              }}
+            >
+              Move only this task
+            </AlertDialogAction>
+            <AlertDialogAction
+              onClick={async () => {
+                if (!pendingReschedule) return;
+                const { startDate, endDate, shifts, updates } = pendingReschedule;
+                setPendingReschedule(null);
+                await updateTasks([
+                  { id: task.id, updates: { ...updates, startDate, endDate } },
+                  ...shifts.map((shift) => ({
+                    id: shift.id,
+                    updates: { startDate: shift.startDate, endDate: shift.endDate },
+                  })),
+                ]);
+              }}
+            >
+              Shift dependents
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
       <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -6,12 +6,21 @@ import {
   ChevronLeft, 
   ChevronRight, 
   Calendar,
-  Users,
-  FolderKanban,
+  Layers,
 } from 'lucide-react';
-import { format, parseISO, addDays, subDays, addWeeks, subWeeks } from '@/features/planner/lib/dateUtils';
-import { addMonths, subMonths } from 'date-fns';
+import { format, parseISO, getPagedDate } from '@/features/planner/lib/dateUtils';
 import { cn } from '@/shared/lib/classNames';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/shared/ui/select';
+import { GroupMode } from '@/features/planner/types/planner';
 import { t } from '@lingui/macro';
 
 export const TimelineControls: React.FC = () => {
@@ -27,26 +36,27 @@ export const TimelineControls: React.FC = () => {
     setFilters,
   } = usePlannerStore();
   const hideUnassignedId = 'hide-unassigned-toggle';
+  const groupModes: Array<{ value: GroupMode; label: string }> = [
+    { value: 'assignee', label: t`People` },
+    { value: 'project', label: t`Projects` },
+    { value: 'status', label: t`Status` },
+    { value: 'type', label: t`Type` },
+    { value: 'tag', label: t`Tags` },
+    { value: 'customer', label: t`Customers` },
+    { value: 'group', label: t`Groups` },
+  ];
+  const nestedGroupModes: Array<{ value: GroupMode; label: string }> = [
+    { value: 'customer_project', label: t`Customers → Projects` },
+    { value: 'group_assignee', label: t`Groups → People` },
+  ];
   const showUnassigned = !filters.hideUnassigned;
   
   const handlePrev = () => {
-    const date = parseISO(currentDate);
-    const newDate = viewMode === 'day' 
-      ? subDays(date, 7) 
-      : viewMode === 'calendar'
-      ? subMonths(date, 1)
-      : subWeeks(date, 2);
-    setCurrentDate(format(newDate, 'yyyy-MM-dd'));
+    setCurrentDate(getPagedDate(currentDate, viewMode, -1));
   };
   
   const handleNext = () => {
-    const date = parseISO(currentDate);
-    const newDate = viewMode === 'day' 
-      ? addDays(date, 7) 
-      : viewMode === 'calendar'
-      ? addMonths(date, 1)
-      : addWeeks(date, 2);
-    setCurrentDate(format(newDate, 'yyyy-MM-dd'));
+    setCurrentDate(getPagedDate(currentDate, viewMode, 1));
   };
   
   const handleToday = () => {
@@ -120,45 +130,64 @@ export const TimelineControls: React.FC = () => {
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => setViewMode('calendar')}
+            onClick={() => setViewMode('month')}
             className={cn(
               'h-7 px-3 text-xs rounded-md',
-              viewMode === 'calendar' && 'bg-background shadow-sm'
+              viewMode === 'month' && 'bg-background shadow-sm'
             )}
           >
-            {t`Calendar`}
+            {t`Month`}
           </Button>
-        </div>
-        
-        {/* Group mode toggle */}
-        <div className="flex items-center bg-muted rounded-lg p-0.5">
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => setGroupMode('assignee')}
-            disabled={viewMode === 'calendar'}
+            onClick={() => setViewMode('quarter')}
             className={cn(
-              'h-7 px-3 text-xs rounded-md gap-1.5',
-              groupMode === 'assignee' && 'bg-background shadow-sm'
+              'h-7 px-3 text-xs rounded-md',
+              viewMode === 'quarter' && 'bg-background shadow-sm'
             )}
           >
-            <Users className="h-3.5 w-3.5" />
-            {t`People`}
+            {t`Quarter`}
           </Button>
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => setGroupMode('project')}
-            disabled={viewMode === 'calendar'}
+            onClick={() => setViewMode('calendar')}
             className={cn(
-              'h-7 px-3 text-xs rounded-md gap-1.5',
-              groupMode === 'project' && 'bg-background shadow-sm'
+              'h-7 px-3 text-xs rounded-md',
+              viewMode === 'calendar' && 'bg-background shadow-sm'
             )}
           >
-            <FolderKanban className="h-3.5 w-3.5" />
-            {t`Projects`}
+            {t`Calendar`}
           </Button>
         </div>
+        
+        {/* Group mode */}
+        <Select
+          value={groupMode}
+          onValueChange={(value) => setGroupMode(value as GroupMode)}
+          disabled={viewMode === 'calendar'}
+        >
+          <SelectTrigger className="h-8 w-[190px] gap-1.5 text-xs" aria-label={t`Group by`}>
+            <Layers className="h-3.5 w-3.5 flex-shrink-0" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectLabel>{t`Group by`}</SelectLabel>
+              {groupModes.map((item) => (
+                <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+              ))}
+            </SelectGroup>
+            <SelectSeparator />
+            <SelectGroup>
+              <SelectLabel>{t`Nested`}</SelectLabel>
+              {nestedGroupModes.map((item) => (
+                <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
 
         <div
           className="flex items-center gap-2 text-[11px] text-muted-foreground/70 select-none"
@@ -2,23 +2,63 @@ import React, { useCallback, useMemo, useState, useRef, useEffect, useLayoutEffe
 import { flushSync } from 'react-dom';
 import { usePlannerStore } from '@/features/planner/store/plannerStore';
 import { useFilteredAssignees } from '@/features/planner/hooks/useFilteredAssignees';
+import { useWorkingCalendar } from '@/features/planner/hooks/useWorkingCalendar';
 import { useAuthStore } from '@/features/auth/store/authStore';
 import { TimelineHeader } from './TimelineHeader';
 import { TimelineRow } from './TimelineRow';
 import { TaskBar } from './TaskBar';
 import { MilestoneDialog } from './MilestoneDialog';
+import { DependencyArrows } from './DependencyArrows';
 import { getVisibleDays, getDayWidth, getTaskPosition, SIDEBAR_WIDTH, HEADER_HEIGHT, MIN_ROW_HEIGHT, TASK_HEIGHT, TASK_GAP } from '@/features/planner/lib/dateUtils';
+import { ChevronDown, ChevronRight, Pin } from 'lucide-react';
 import { Milestone, Task } from '@/features/planner/types/planner';
 
 /** Дополнительный отступ снизу у строки пользователя в режиме группировки по исполнителям (визуально больше расстояние между пользователями) */
 const ASSIGNEE_ROW_GAP = 20;
+/** Высота заголовка группы в двухуровневой группировке */
+const GROUP_HEADER_HEIGHT = 32;
 import { calculateTaskLanes, getMaxLanes, TaskWithLane } from '@/features/planner/lib/taskLanes';
+import { buildWorkload } from '@/features/planner/lib/workload';
+import { getMilestoneProgressById } from '@/features/planner/lib/milestones';
+import {
+  buildGroupItems,
+  canMoveBetweenGroups,
+  getGroupMoveUpdates,
+  getHeaderRowId,
+  getTaskRowIds,
+  getUngroupedRowName,
+  isAssigneeGroupMode,
+  UNGROUPED_ROW_ID,
+} from '@/features/planner/lib/timelineGroups';
+import { applyRowOrder, getRowOrderMode, hasCustomRowOrder, moveRowId } from '@/features/planner/lib/rowOrder';
+import {
+  buildRowOffsets,
+  getDayRange,
+  getRowRange,
+  isBarInDayRange,
+} from '@/features/planner/lib/timelineVirtualization';
 import { Button } from '@/shared/ui/button';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/shared/ui/context-menu';
 import { cn } from '@/shared/lib/classNames';
-import { formatProjectLabel } from '@/shared/lib/projectLabels';
 import { hexToRgba } from '@/features/planner/lib/colorUtils';
 import { differenceInDays, format, isSameDay, parseISO } from 'date-fns';
 
+interface TimelineDisplayRow {
+  id: string;
+  name: string;
+  color?: string;
+  tasks: TaskWithLane[];
+  height: number;
+  /** Заголовок группы верхнего уровня: сворачивается и не содержит задач. */
+  header?: { groupId: string; collapsed: boolean; taskCount: number };
+}
+
 interface TimelineGridProps {
   onCreateTask?: (payload: {
     startDate: string;
@@ -31,10 +71,20 @@ interface TimelineGridProps {
 export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
   const { 
     tasks,
+    dependencies,
     milestones,
     projects, 
+    customers,
     assignees, 
+    memberGroups,
     memberGroupAssignments,
+    statuses,
+    taskTypes,
+    tags,
+    rowOrders,
+    setRowOrder,
+    togglePinnedRow,
+    resetRowOrder,
     viewMode, 
     groupMode, 
     currentDate,
@@ -45,11 +95,14 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
     filters,
     assigneeTaskCounts,
     highlightedTaskId,
+    selectedTaskIds,
+    setSelectedTaskIds,
   } = usePlannerStore();
   const user = useAuthStore((state) => state.user);
   const currentWorkspaceRole = useAuthStore((state) => state.currentWorkspaceRole);
   const canEdit = currentWorkspaceRole === 'editor' || currentWorkspaceRole === 'admin';
   const filteredAssignees = useFilteredAssignees(assignees);
+  const calendar = useWorkingCalendar();
 
   const assigneeGroupMap = useMemo(() => {
     const groupByUserId = new Map(memberGroupAssignments.map((assignment) => [assignment.userId, assignment.groupId]));
@@ -80,10 +133,19 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
     didMove: boolean;
   } | null>(null);
   const lastDragTimeRef = useRef(0);
+  const rowsRef = useRef<HTMLDivElement>(null);
+  // Рамка выделения в координатах контейнера строк.
+  const lassoRef = useRef<{ originX: number; originY: number; x: number; y: number } | null>(null);
+  const [lasso, setLasso] = useState<{ originX: number; originY: number; x: number; y: number } | null>(null);
   const [scrollLeft, setScrollLeft] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
   const [isDragScrolling, setIsDragScrolling] = useState(false);
   const [viewportWidth, setViewportWidth] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
   const [sidebarPad, setSidebarPad] = useState(0);
+  const [collapsedGroupIds, setCollapsedGroupIds] = useState<string[]>([]);
+  const draggedRowIdRef = useRef<string | null>(null);
+  const [dropTargetRowId, setDropTargetRowId] = useState<string | null>(null);
   const [milestoneDialogOpen, setMilestoneDialogOpen] = useState(false);
   const [milestoneDialogDate, setMilestoneDialogDate] = useState<string | null>(null);
   const [editingMilestone, setEditingMilestone] = useState<Milestone | null>(null);
@@ -201,7 +263,7 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
   }, [tasks, filters, assigneeGroupMap]);
   
   const visibleAssignees = useMemo(() => {
-    if (groupMode !== 'assignee') return filteredAssignees;
+    if (!isAssigneeGroupMode(groupMode)) return filteredAssignees;
     let list = filteredAssignees;
     if (filters.assigneeIds.length > 0) {
       list = list.filter((assignee) => filters.assigneeIds.includes(assignee.id));
@@ -215,67 +277,84 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
     return list;
   }, [assigneeGroupMap, filteredAssignees, filters.assigneeIds, filters.groupIds, groupMode]);
 
-  // Group items (assignees or projects). При группировке по исполнителям: сначала текущий пользователь, затем остальные по алфавиту.
-  const groupItems = useMemo(() => {
-    if (groupMode === 'assignee') {
-      const sorted = [...visibleAssignees].sort((a, b) => {
-        if (myAssigneeId && a.id === myAssigneeId) return -1;
-        if (myAssigneeId && b.id === myAssigneeId) return 1;
-        return (a.name ?? '').localeCompare(b.name ?? '', undefined, { sensitivity: 'base' });
-      });
-      return sorted.map(a => ({ id: a.id, name: a.name, color: undefined }));
-    }
-    return projects.map(p => ({ id: p.id, name: formatProjectLabel(p.name, p.code), color: p.color }));
-  }, [groupMode, visibleAssignees, projects, myAssigneeId]);
+  // Строки группировки. Исполнители: сначала текущий пользователь, затем остальные по алфавиту.
+  const sortedAssignees = useMemo(() => [...visibleAssignees].sort((a, b) => {
+    if (myAssigneeId && a.id === myAssigneeId) return -1;
+    if (myAssigneeId && b.id === myAssigneeId) return 1;
+    return (a.name ?? '').localeCompare(b.name ?? '', undefined, { sensitivity: 'base' });
+  }), [visibleAssignees, myAssigneeId]);
+
+  // Ручной порядок и закреплённые строки пользователя поверх алфавитного порядка.
+  const rowOrderMode = getRowOrderMode(groupMode);
+  const rowOrder = useMemo(
+    () => rowOrders.find((order) => order.groupMode === rowOrderMode) ?? null,
+    [rowOrderMode, rowOrders],
+  );
+  const pinnedRowIds = useMemo(() => new Set(rowOrder?.pinnedIds ?? []), [rowOrder]);
+
+  const groupLayout = useMemo(() => buildGroupItems(groupMode, {
+    assignees: rowOrderMode === 'assignee' ? applyRowOrder(sortedAssignees, rowOrder) : sortedAssignees,
+    projects: rowOrderMode === 'project' ? applyRowOrder(projects, rowOrder) : projects,
+    customers,
+    statuses,
+    taskTypes,
+    tags,
+    memberGroups,
+    assigneeGroupMap,
+  }), [
+    assigneeGroupMap,
+    customers,
+    groupMode,
+    memberGroups,
+    projects,
+    rowOrder,
+    rowOrderMode,
+    sortedAssignees,
+    statuses,
+    tags,
+    taskTypes,
+  ]);
+  const groupItems = groupLayout.items;
+
+  useEffect(() => {
+    setCollapsedGroupIds([]);
+  }, [groupMode]);
+
+  const toggleGroupCollapsed = useCallback((groupId: string) => {
+    setCollapsedGroupIds((current) => (
+      current.includes(groupId) ? current.filter((id) => id !== groupId) : [...current, groupId]
+    ));
+  }, []);
   
-  // Group tasks by row with lane calculation
+  // Group tasks by row with lane calculation. Задача попадает в каждую подходящую строку (несколько исполнителей или тегов).
   const tasksByRow = useMemo(() => {
-    const grouped: Record<string, TaskWithLane[]> = {};
-    
-    groupItems.forEach(item => {
-      grouped[item.id] = [];
-    });
-    grouped['unassigned'] = [];
-    
-    // Group tasks first
     const tasksPerGroup: Record<string, Task[]> = {};
     groupItems.forEach(item => {
       tasksPerGroup[item.id] = [];
     });
-    tasksPerGroup['unassigned'] = [];
+    tasksPerGroup[UNGROUPED_ROW_ID] = [];
     
     const visibleGroupIds = new Set(groupItems.map((item) => item.id));
 
     filteredTasks.forEach(task => {
-      if (groupMode === 'assignee') {
-        const matchingAssignees = Array.from(new Set(task.assigneeIds)).filter((id) => visibleGroupIds.has(id));
-        if (matchingAssignees.length === 0) {
-          tasksPerGroup['unassigned'].push(task);
-          return;
-        }
-        matchingAssignees.forEach((assigneeId) => {
-          if (!tasksPerGroup[assigneeId]) {
-            tasksPerGroup[assigneeId] = [];
-          }
-          tasksPerGroup[assigneeId].push(task);
-        });
+      const rowIds = getTaskRowIds(task, groupMode, visibleGroupIds, projectById, assigneeGroupMap);
+      if (rowIds.length === 0) {
+        tasksPerGroup[UNGROUPED_ROW_ID].push(task);
         return;
       }
-
-      const groupId = task.projectId || 'unassigned';
-      if (!tasksPerGroup[groupId]) {
-        tasksPerGroup[groupId] = [];
-      }
-      tasksPerGroup[groupId].push(task);
+      rowIds.forEach((rowId) => {
+        tasksPerGroup[rowId].push(task);
+      });
     });
     
     // Calculate lanes for each group
+    const grouped: Record<string, TaskWithLane[]> = {};
     Object.entries(tasksPerGroup).forEach(([groupId, tasks]) => {
       grouped[groupId] = calculateTaskLanes(tasks);
     });
     
     return grouped;
-  }, [filteredTasks, groupItems, groupMode]);
+  }, [assigneeGroupMap, filteredTasks, groupItems, groupMode, projectById]);
   
   // Calculate row heights based on max lanes
   const rowHeights = useMemo(() => {
@@ -313,7 +392,11 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
     }
     syncingRef.current = e.currentTarget;
     const newScrollLeft = e.currentTarget.scrollLeft;
-    flushSync(() => setScrollLeft(newScrollLeft));
+    const newScrollTop = e.currentTarget.scrollTop;
+    flushSync(() => {
+      setScrollLeft(newScrollLeft);
+      setScrollTop(newScrollTop);
+    });
     requestAnimationFrame(() => {
       syncingRef.current = null;
     });
@@ -363,6 +446,16 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
     if (target instanceof Element && target.closest('.task-bar, .milestone-dot')) {
       return;
     }
+    if (e.shiftKey && canEdit && rowsRef.current) {
+      const rect = rowsRef.current.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      if (y < 0) return;
+      lassoRef.current = { originX: x, originY: y, x, y };
+      setLasso(lassoRef.current);
+      e.preventDefault();
+      return;
+    }
     dragScrollRef.current = {
       startX: e.clientX,
       startScrollLeft: e.currentTarget.scrollLeft,
@@ -371,7 +464,65 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
     };
     setIsDragScrolling(true);
     e.preventDefault();
-  }, []);
+  }, [canEdit]);
+
+  const isLassoActive = lasso !== null;
+
+  useEffect(() => {
+    if (!isLassoActive) return;
+
+    const getPoint = (e: MouseEvent) => {
+      const rect = rowsRef.current?.getBoundingClientRect();
+      return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : null;
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const point = getPoint(e);
+      if (!point || !lassoRef.current) return;
+      lassoRef.current = { ...lassoRef.current, ...point };
+      setLasso(lassoRef.current);
+    };
+
+    const handleMouseUp = () => {
+      const current = lassoRef.current;
+      const rowsRect = rowsRef.current?.getBoundingClientRect();
+      lassoRef.current = null;
+      setLasso(null);
+      if (!current || !rowsRect) return;
+      const left = rowsRect.left + Math.min(current.originX, current.x);
+      const right = rowsRect.left + Math.max(current.originX, current.x);
+      const top = rowsRect.top + Math.min(current.originY, current.y);
+      const bottom = rowsRect.top + Math.max(current.originY, current.y);
+      if (right - left < 4 && bottom - top < 4) return;
+      const ids: string[] = [];
+      rowsRef.current?.querySelectorAll<HTMLElement>('[data-task-id]').forEach((element) => {
+        const rect = element.getBoundingClientRect();
+        if (rect.right < left || rect.left > right || rect.bottom < top || rect.top > bottom) return;
+        if (element.dataset.taskId) ids.push(element.dataset.taskId);
+      });
+      // Рамка добавляет к текущему выделению, как и клик с Shift.
+      setSelectedTaskIds([...usePlannerStore.getState().selectedTaskIds, ...ids]);
+      lastDragTimeRef.current = Date.now();
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isLassoActive, setSelectedTaskIds]);
+
+  useEffect(() => {
+    if (selectedTaskIds.length === 0) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setSelectedTaskIds([]);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedTaskIds.length, setSelectedTaskIds]);
 
   useEffect(() => {
     if (!isDragScrolling) return;
@@ -420,11 +571,14 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
   useEffect(() => {
     if (!scrollContainerRef.current) return;
     const container = scrollContainerRef.current;
-    const updateWidth = () => setViewportWidth(container.clientWidth);
-    updateWidth();
+    const updateSize = () => {
+      setViewportWidth(container.clientWidth);
+      setViewportHeight(container.clientHeight);
+    };
+    updateSize();
 
     if (typeof ResizeObserver !== 'undefined') {
-      const observer = new ResizeObserver(updateWidth);
+      const observer = new ResizeObserver(updateSize);
       observer.observe(container);
       return () => observer.disconnect();
     }
@@ -495,35 +649,85 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
     }
   }, [scrollRequestId, scrollTargetDate, scrollToIndex]);
   
+  // Загрузка считается по всем задачам исполнителя, а не только по отфильтрованным.
+  const workloadByAssignee = useMemo(() => (
+    isAssigneeGroupMode(groupMode) ? buildWorkload(tasks, assignees, visibleDays, calendar.isWorkingDay) : null
+  ), [assignees, calendar, groupMode, tasks, visibleDays]);
+
   // Rows to display (including unassigned if there are unassigned tasks). В режиме по исполнителям — чуть больше отступ между строками пользователей.
+  // В двухуровневой группировке строки идут под заголовками групп; свёрнутая группа прячет свои строки.
   const displayRows = useMemo(() => {
-    const rows = groupItems.map(item => {
+    const assigneeRows = isAssigneeGroupMode(groupMode);
+    const rows: TimelineDisplayRow[] = [];
+    const pushItem = (item: { id: string; name: string; color?: string }) => {
       const baseHeight = rowHeights[item.id] || MIN_ROW_HEIGHT;
-      const height = groupMode === 'assignee' && item.id !== 'unassigned'
-        ? baseHeight + ASSIGNEE_ROW_GAP
-        : baseHeight;
-      return {
-        ...item,
+      rows.push({
+        id: item.id,
+        name: item.name,
+        color: item.color,
         tasks: tasksByRow[item.id] || [],
-        height,
-      };
-    });
+        height: assigneeRows ? baseHeight + ASSIGNEE_ROW_GAP : baseHeight,
+      });
+    };
+
+    if (groupLayout.headers.length > 0) {
+      groupLayout.headers.forEach((header) => {
+        const children = groupItems.filter((item) => item.parentId === header.id);
+        const collapsed = collapsedGroupIds.includes(header.id);
+        const taskIds = new Set(children.flatMap((item) => (tasksByRow[item.id] ?? []).map((task) => task.id)));
+        rows.push({
+          id: getHeaderRowId(header.id),
+          name: header.name,
+          tasks: [],
+          height: GROUP_HEADER_HEIGHT,
+          header: { groupId: header.id, collapsed, taskCount: taskIds.size },
+        });
+        if (!collapsed) children.forEach(pushItem);
+      });
+    } else {
+      groupItems.forEach(pushItem);
+    }
 
-    const showUnassignedRow = tasksByRow['unassigned']?.length > 0
-      && (groupMode === 'project' || (filters.assigneeIds.length === 0 && !filters.hideUnassigned));
+    const showUnassignedRow = tasksByRow[UNGROUPED_ROW_ID]?.length > 0
+      && (!assigneeRows || (filters.assigneeIds.length === 0 && !filters.hideUnassigned));
     
     if (showUnassignedRow) {
       rows.push({
-        id: 'unassigned',
-        name: groupMode === 'assignee' ? 'Unassigned' : 'No Project',
+        id: UNGROUPED_ROW_ID,
+        name: getUngroupedRowName(groupMode),
         color: '#94a3b8',
-        tasks: tasksByRow['unassigned'],
-        height: rowHeights['unassigned'] || MIN_ROW_HEIGHT,
+        tasks: tasksByRow[UNGROUPED_ROW_ID],
+        height: rowHeights[UNGROUPED_ROW_ID] || MIN_ROW_HEIGHT,
       });
     }
     
     return rows;
-  }, [filters.assigneeIds.length, filters.hideUnassigned, groupItems, groupMode, rowHeights, tasksByRow]);
+  }, [
+    collapsedGroupIds,
+    filters.assigneeIds.length,
+    filters.hideUnassigned,
+    groupItems,
+    groupLayout.headers,
+    groupMode,
+    rowHeights,
+    tasksByRow,
+  ]);
+
+  // Виртуализация: монтируем только строки и дни в пределах вьюпорта с запасом.
+  // Позиции баров считаются один раз на набор строк, а не на каждый кадр скролла.
+  const rowBars = useMemo(() => displayRows.map((row) => row.tasks.flatMap((task) => {
+    const position = getTaskPosition(task.startDate, task.endDate, visibleDays, dayWidth);
+    return position ? [{ task, position }] : [];
+  })), [dayWidth, displayRows, visibleDays]);
+  const rowOffsets = useMemo(() => buildRowOffsets(displayRows.map((row) => row.height)), [displayRows]);
+  const rowRange = getRowRange(rowOffsets, scrollTop, viewportHeight || window.innerHeight);
+  const dayRange = useMemo(
+    () => getDayRange(scrollLeft, viewportWidth || window.innerWidth, dayWidth, visibleDays.length),
+    [dayWidth, scrollLeft, viewportWidth, visibleDays.length],
+  );
+  const mountedRows = displayRows.slice(rowRange.start, rowRange.end);
+  const rowsTopSpace = rowOffsets[rowRange.start] ?? 0;
+  const rowsBottomSpace = (rowOffsets[displayRows.length] ?? 0) - (rowOffsets[rowRange.end] ?? 0);
 
   useLayoutEffect(() => {
     const sidebar = sidebarRef.current;
@@ -609,8 +813,8 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
       assigneeIds: [],
     };
 
-    if (groupMode === 'project') {
-      if (rowId === 'unassigned') {
+    if (groupMode === 'project' || groupMode === 'customer_project') {
+      if (rowId === UNGROUPED_ROW_ID) {
         defaults.projectId = null;
       } else {
         const project = projects.find((item) => item.id === rowId);
@@ -618,7 +822,7 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
       }
     }
 
-    if (groupMode === 'assignee' && rowId !== 'unassigned') {
+    if (isAssigneeGroupMode(groupMode) && rowId !== UNGROUPED_ROW_ID) {
       const assignee = assignees.find((item) => item.id === rowId);
       if (assignee?.isActive) {
         defaults.assigneeIds = [assignee.id];
@@ -628,18 +832,68 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
     onCreateTask?.(defaults);
   }, [assignees, canEdit, groupMode, onCreateTask, projects]);
 
-  // По умолчанию показываем линию от каждой вехи, попадающей в видимый диапазон дат
+  // Перенос бара в другую строку меняет поле, по которому сгруппированы задачи; сохраняет его сам бар вместе с датами.
+  const getTaskRowMoveUpdates = useCallback((task: Task, fromRowId: string, toRowId: string) => {
+    if (toRowId !== UNGROUPED_ROW_ID) {
+      if (isAssigneeGroupMode(groupMode) && !assignees.find((item) => item.id === toRowId)?.isActive) return null;
+      if (projectById.get(toRowId)?.archived) return null;
+    }
+    return getGroupMoveUpdates(task, groupMode, fromRowId, toRowId);
+  }, [assignees, groupMode, projectById]);
+  const rowMoveUpdatesGetter = canEdit && canMoveBetweenGroups(groupMode) ? getTaskRowMoveUpdates : undefined;
+
+  const isOrderableRow = (row: TimelineDisplayRow) => Boolean(rowOrderMode) && !row.header && row.id !== UNGROUPED_ROW_ID;
+
+  // Закреплённые строки переставляются только между собой, строки вложенной группировки — внутри своей группы.
+  const canDropRow = useCallback((movedId: string, targetId: string) => {
+    if (movedId === targetId) return false;
+    if (pinnedRowIds.has(movedId) !== pinnedRowIds.has(targetId)) return false;
+    const moved = groupItems.find((item) => item.id === movedId);
+    const target = groupItems.find((item) => item.id === targetId);
+    return Boolean(moved && target && moved.parentId === target.parentId);
+  }, [groupItems, pinnedRowIds]);
+
+  const handleRowDrop = useCallback((movedId: string, targetId: string) => {
+    if (!rowOrderMode || !canDropRow(movedId, targetId)) return;
+    const pinnedIds = rowOrder?.pinnedIds ?? [];
+    if (pinnedRowIds.has(movedId)) {
+      void setRowOrder(rowOrderMode, rowOrder?.rowIds ?? [], moveRowId(pinnedIds, movedId, targetId));
+      return;
+    }
+    const orderedIds = groupItems.map((item) => item.id).filter((id) => !pinnedRowIds.has(id));
+    void setRowOrder(rowOrderMode, moveRowId(orderedIds, movedId, targetId));
+  }, [canDropRow, groupItems, pinnedRowIds, rowOrder, rowOrderMode, setRowOrder]);
+
+  const handleRowDragEnd = useCallback(() => {
+    draggedRowIdRef.current = null;
+    setDropTargetRowId(null);
+  }, []);
+
+  const milestoneProgressById = useMemo(
+    () => getMilestoneProgressById(sortedMilestones, tasks, statuses),
+    [sortedMilestones, tasks, statuses],
+  );
+
+  // По умолчанию показываем линию от каждой вехи, попадающей в видимый диапазон дат.
+  // Линия даты под угрозой, если под угрозой хотя бы одна её веха.
   const visibleMilestoneLines = useMemo(() => {
-    const lines: { date: string; color: string }[] = [];
-    const seenDates = new Set<string>();
+    const lines: { date: string; color: string; atRisk: boolean }[] = [];
+    const lineByDate = new Map<string, { date: string; color: string; atRisk: boolean }>();
     for (const m of sortedMilestones) {
-      if (!visibleDayIndex.has(m.date) || seenDates.has(m.date)) continue;
-      seenDates.add(m.date);
+      if (!visibleDayIndex.has(m.date)) continue;
+      const atRisk = milestoneProgressById.get(m.id)?.atRisk ?? false;
+      const existing = lineByDate.get(m.date);
+      if (existing) {
+        existing.atRisk = existing.atRisk || atRisk;
+        continue;
+      }
       const project = projectById.get(m.projectId);
-      lines.push({ date: m.date, color: project?.color ?? '#94a3b8' });
+      const line = { date: m.date, color: project?.color ?? '#94a3b8', atRisk };
+      lineByDate.set(m.date, line);
+      lines.push(line);
     }
     return lines;
-  }, [sortedMilestones, visibleDayIndex, projectById]);
+  }, [sortedMilestones, visibleDayIndex, projectById, milestoneProgressById]);
 
   // Линия начинается от нижней точки круга вехи (h-2.5 = 10px, радиус 5px)
   const milestoneDotRadius = 5;
@@ -663,28 +917,101 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
             className="flex-1 min-h-0 overflow-y-auto scrollbar-hidden"
             onScroll={handleSidebarScroll}
           >
-            {displayRows.map((row) => (
-              <div
-                key={row.id}
-                className="flex items-center px-4 border-b border-border hover:bg-timeline-row-hover transition-colors box-border"
-                style={{ height: row.height }}
-              >
-                {row.color && (
-                  <div
-                    className="w-3 h-3 rounded-full mr-3 flex-shrink-0"
-                    style={{ backgroundColor: row.color }}
-                  />
-                )}
-                <span className="text-sm font-medium text-foreground truncate">
-                  {row.name}
-                </span>
-                <span className="ml-auto text-xs text-muted-foreground">
-                  {groupMode === 'assignee' && row.id !== 'unassigned'
-                    ? (assigneeTaskCounts[row.id] ?? row.tasks.length)
-                    : row.tasks.length}
-                </span>
-              </div>
-            ))}
+            {rowsTopSpace > 0 && <div aria-hidden style={{ height: rowsTopSpace }} />}
+            {mountedRows.map((row) => {
+              if (row.header) {
+                const { groupId, collapsed, taskCount } = row.header;
+                return (
+                  <button
+                    key={row.id}
+                    type="button"
+                    className="flex w-full items-center gap-1.5 px-2 border-b border-border bg-muted/60 hover:bg-muted transition-colors box-border text-left"
+                    style={{ height: row.height }}
+                    onClick={() => toggleGroupCollapsed(groupId)}
+                    aria-expanded={!collapsed}
+                  >
+                    {collapsed
+                      ? <ChevronRight className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      : <ChevronDown className="h-4 w-4 flex-shrink-0 text-muted-foreground" />}
+                    <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground truncate">
+                      {row.name}
+                    </span>
+                    <span className="ml-auto pr-2 text-xs text-muted-foreground">{taskCount}</span>
+                  </button>
+                );
+              }
+              const orderable = isOrderableRow(row);
+              const pinned = pinnedRowIds.has(row.id);
+              const rowLabel = (
+                <div
+                  className={cn(
+                    'flex items-center px-4 border-b border-border hover:bg-timeline-row-hover transition-colors box-border',
+                    dropTargetRowId === row.id && 'bg-timeline-row-hover shadow-[inset_0_2px_0_hsl(var(--primary))]'
+                  )}
+                  style={{ height: row.height }}
+                  draggable={orderable}
+                  onDragStart={orderable ? (event) => {
+                    draggedRowIdRef.current = row.id;
+                    event.dataTransfer.effectAllowed = 'move';
+                    event.dataTransfer.setData('text/plain', row.id);
+                  } : undefined}
+                  onDragOver={orderable ? (event) => {
+                    const movedId = draggedRowIdRef.current;
+                    if (!movedId || !canDropRow(movedId, row.id)) return;
+                    event.preventDefault();
+                    event.dataTransfer.dropEffect = 'move';
+                    setDropTargetRowId(row.id);
+                  } : undefined}
+                  onDragLeave={orderable ? () => {
+                    setDropTargetRowId((current) => (current === row.id ? null : current));
+                  } : undefined}
+                  onDrop={orderable ? (event) => {
+                    event.preventDefault();
+                    const movedId = draggedRowIdRef.current;
+                    handleRowDragEnd();
+                    if (movedId) handleRowDrop(movedId, row.id);
+                  } : undefined}
+                  onDragEnd={orderable ? handleRowDragEnd : undefined}
+                >
+                  {row.color && (
+                    <div
+                      className="w-3 h-3 rounded-full mr-3 flex-shrink-0"
+                      style={{ backgroundColor: row.color }}
+                    />
+                  )}
+                  <span className="text-sm font-medium text-foreground truncate">
+                    {row.name}
+                  </span>
+                  {pinned && <Pin className="ml-1.5 h-3 w-3 flex-shrink-0 text-muted-foreground" aria-label="Pinned" />}
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {isAssigneeGroupMode(groupMode) && row.id !== UNGROUPED_ROW_ID
+                      ? (assigneeTaskCounts[row.id] ?? row.tasks.length)
+                      : row.tasks.length}
+                  </span>
+                </div>
+              );
+              if (!orderable || !rowOrderMode) {
+                return <React.Fragment key={row.id}>{rowLabel}</React.Fragment>;
+              }
+              return (
+                <ContextMenu key={row.id}>
+                  <ContextMenuTrigger asChild>{rowLabel}</ContextMenuTrigger>
+                  <ContextMenuContent>
+                    <ContextMenuItem onSelect={() => void togglePinnedRow(rowOrderMode, row.id)}>
+                      {pinned ? 'Unpin' : 'Pin to top'}
+                    </ContextMenuItem>
+                    <ContextMenuSeparator />
+                    <ContextMenuItem
+                      disabled={!hasCustomRowOrder(rowOrder)}
+                      onSelect={() => void resetRowOrder(rowOrderMode)}
+                    >
+                      Reset to alphabetical order
+                    </ContextMenuItem>
+                  </ContextMenuContent>
+                </ContextMenu>
+              );
+            })}
+            {rowsBottomSpace > 0 && <div aria-hidden style={{ height: rowsBottomSpace }} />}
             {sidebarPad > 0 && (
               <div aria-hidden className="w-full" style={{ height: sidebarPad }} />
             )}
@@ -702,11 +1029,12 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
               className="pointer-events-none absolute z-0 left-0"
               style={{ top: milestoneLineTop, width: totalWidth, height: milestoneLineHeight }}
             >
-              {visibleMilestoneLines.map(({ date, color }) => {
+              {visibleMilestoneLines.map(({ date, color, atRisk }) => {
                 const lineIndex = visibleDayIndex.get(date);
                 if (typeof lineIndex !== 'number') return null;
                 const isHovered = milestoneLine?.date === date;
                 const lineColor = hexToRgba(color, isHovered ? 1 : 0.6) ?? color;
+                // Веха под угрозой — пунктир цвета destructive поверх цвета проекта
                 return (
                   <div
                     key={date}
@@ -716,7 +1044,10 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
                       transform: 'translateX(-50%)',
                       width: isHovered ? milestoneLineHoverWidth : milestoneLineWidth,
                       backgroundColor: lineColor,
-                      opacity: isHovered ? 1 : 0.7,
+                      backgroundImage: atRisk
+                        ? 'repeating-linear-gradient(to bottom, hsl(var(--destructive)) 0 8px, transparent 8px 14px)'
+                        : undefined,
+                      opacity: isHovered || atRisk ? 1 : 0.7,
                     }}
                   />
                 );
@@ -730,6 +1061,7 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
                   viewMode={viewMode}
                   scrollLeft={scrollLeft}
                   viewportWidth={viewportWidth}
+                  dayRange={dayRange}
                 />
               </div>
               <div
@@ -746,12 +1078,16 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
                   const dotBorder = hexToRgba(color, 0.8) ?? color;
                   const offset = milestoneOffsets.get(milestone.id) ?? 0;
                   const left = dayIndex * dayWidth + dayWidth / 2 + offset;
+                  const atRisk = milestoneProgressById.get(milestone.id)?.atRisk ?? false;
 
                   return (
                     <button
                       key={milestone.id}
                       type="button"
-                      className="milestone-dot absolute top-1/2 h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full border transition-transform hover:scale-110"
+                      className={cn(
+                        'milestone-dot absolute top-1/2 h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full border transition-transform hover:scale-110',
+                        atRisk && 'ring-2 ring-destructive',
+                      )}
                       style={{ left, backgroundColor: dotColor, borderColor: dotBorder }}
                       onClick={(event) => {
                         event.stopPropagation();
@@ -764,40 +1100,72 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({ onCreateTask }) => {
                 })}
               </div>
             </div>
-            {displayRows.map((row, rowIndex) => (
-              <TimelineRow
-                key={row.id}
-                rowId={row.id}
-                rowIndex={rowIndex}
-                visibleDays={visibleDays}
-                dayWidth={dayWidth}
-                viewMode={viewMode}
-                height={row.height}
-                canEdit={canEdit}
-                onCreateTask={handleCreateTaskAt}
-              >
-                {row.tasks.map(task => {
-                  const position = getTaskPosition(
-                    task.startDate,
-                    task.endDate,
-                    visibleDays,
-                    dayWidth
-                  );
-                  if (!position) return null;
+            <div ref={rowsRef} className="relative">
+              {lasso && (
+                <div
+                  className="pointer-events-none absolute z-50 border border-sky-500 bg-sky-500/10"
+                  style={{
+                    left: Math.min(lasso.originX, lasso.x),
+                    top: Math.min(lasso.originY, lasso.y),
+                    width: Math.abs(lasso.x - lasso.originX),
+                    height: Math.abs(lasso.y - lasso.originY),
+                  }}
+                />
+              )}
+              {rowsTopSpace > 0 && <div aria-hidden style={{ height: rowsTopSpace }} />}
+              {mountedRows.map((row, offset) => {
+                const rowIndex = rowRange.start + offset;
+                if (row.header) {
                   return (
-                    <TaskBar
-                      key={task.id}
-                      task={task}
-                      position={position}
-                      dayWidth={dayWidth}
-                      visibleDays={visibleDays}
-                      lane={task.lane}
-                      canEdit={canEdit}
+                    <div
+                      key={row.id}
+                      className="border-b border-border bg-muted/40 box-border"
+                      style={{ height: row.height }}
                     />
                   );
-                })}
-              </TimelineRow>
-            ))}
+                }
+                return (
+                  <TimelineRow
+                    key={row.id}
+                    rowId={row.id}
+                    rowIndex={rowIndex}
+                    visibleDays={visibleDays}
+                    dayWidth={dayWidth}
+                    viewMode={viewMode}
+                    dayRange={dayRange}
+                    height={row.height}
+                    workload={workloadByAssignee?.get(row.id)}
+                    canEdit={canEdit}
+                    onCreateTask={handleCreateTaskAt}
+                  >
+                    {rowBars[rowIndex].map(({ task, position }) => {
+                      if (!isBarInDayRange(position, dayRange, dayWidth)) return null;
+                      return (
+                        <TaskBar
+                          key={task.id}
+                          task={task}
+                          position={position}
+                          dayWidth={dayWidth}
+                          visibleDays={visibleDays}
+                          lane={task.lane}
+                          canEdit={canEdit}
+                          rowId={row.id}
+                          getRowMoveUpdates={rowMoveUpdatesGetter}
+                        />
+                      );
+                    })}
+                  </TimelineRow>
+                );
+              })}
+              {rowsBottomSpace > 0 && <div aria-hidden style={{ height: rowsBottomSpace }} />}
+              <DependencyArrows
+                dependencies={dependencies}
+                rows={displayRows}
+                visibleDays={visibleDays}
+                dayWidth={dayWidth}
+                width={totalWidth}
+              />
+            </div>
           </div>
         </div>
       </div>
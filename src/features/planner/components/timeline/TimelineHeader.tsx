@@ -1,7 +1,9 @@
 import React from 'react';
-import { format } from 'date-fns';
-import { isToday, isWeekend, formatDayHeader } from '@/features/planner/lib/dateUtils';
+import { addDays, format, isWithinInterval, startOfDay } from 'date-fns';
+import { isToday, formatDayHeader, isZoomedOutView } from '@/features/planner/lib/dateUtils';
+import { useWorkingCalendar } from '@/features/planner/hooks/useWorkingCalendar';
 import { ViewMode } from '@/features/planner/types/planner';
+import { VirtualRange } from '@/features/planner/lib/timelineVirtualization';
 import { cn } from '@/shared/lib/classNames';
 
 interface TimelineHeaderProps {
@@ -10,6 +12,7 @@ interface TimelineHeaderProps {
   viewMode: ViewMode;
   scrollLeft: number;
   viewportWidth: number;
+  dayRange?: VirtualRange;
 }
 
 export const TimelineHeader: React.FC<TimelineHeaderProps> = ({
@@ -18,7 +21,10 @@ export const TimelineHeader: React.FC<TimelineHeaderProps> = ({
   viewMode,
   scrollLeft,
   viewportWidth,
+  dayRange,
 }) => {
+  const calendar = useWorkingCalendar();
+
   // Group days by month for month labels
   const monthGroups = React.useMemo(() => {
     const groups: { month: string; days: number; startIndex: number }[] = [];
@@ -47,6 +53,20 @@ export const TimelineHeader: React.FC<TimelineHeaderProps> = ({
     return groups;
   }, [visibleDays]);
 
+  // Weeks for the lower row of month and quarter views; visible days start on a Monday there.
+  const weekGroups = React.useMemo(() => {
+    if (!isZoomedOutView(viewMode)) return [];
+    const groups: { start: Date; days: number; startIndex: number }[] = [];
+    for (let index = 0; index < visibleDays.length; index += 7) {
+      groups.push({
+        start: visibleDays[index],
+        days: Math.min(7, visibleDays.length - index),
+        startIndex: index,
+      });
+    }
+    return groups;
+  }, [viewMode, visibleDays]);
+
   const totalWidth = visibleDays.length * dayWidth;
   const activeMonth = React.useMemo(() => {
     if (visibleDays.length === 0) return '';
@@ -92,44 +112,79 @@ export const TimelineHeader: React.FC<TimelineHeaderProps> = ({
         </div>
       )}
       
+      {/* Week row (month and quarter views) */}
+      {weekGroups.length > 0 && (
+        <div className="flex h-14">
+          {weekGroups.map((group) => {
+            const end = addDays(group.start, group.days - 1);
+            const current = isWithinInterval(startOfDay(new Date()), { start: group.start, end });
+            return (
+              <div
+                key={group.startIndex}
+                title={`${format(group.start, 'd MMM')} – ${format(end, 'd MMM yyyy')}`}
+                className={cn(
+                  'flex items-center justify-center overflow-hidden border-r border-border',
+                  current && 'today-hatch'
+                )}
+                style={{ width: group.days * dayWidth }}
+              >
+                <span className={cn(
+                  'truncate px-1 text-xs font-medium',
+                  current ? 'text-rose-700' : 'text-muted-foreground'
+                )}>
+                  {format(group.start, viewMode === 'quarter' ? 'd' : 'd MMM')}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Day row */}
-      <div className="flex h-14">
-        {visibleDays.map((day, index) => {
-          const { day: dayName, date } = formatDayHeader(day, viewMode);
-          const today = isToday(day);
-          const weekend = isWeekend(day);
-          
-          return (
-            <div
-              key={index}
-              className={cn(
-                'flex flex-col items-center justify-center border-r border-border transition-colors py-2 gap-1',
-                weekend && 'bg-timeline-weekend',
-                today && 'today-hatch'
-              )}
-              style={{ width: dayWidth }}
-            >
-              <span className={cn(
-                'text-xs uppercase tracking-wide leading-none',
-                today ? 'text-rose-700 font-semibold' : 'text-muted-foreground'
-              )}>
-                {dayName}
-              </span>
-              <span className={cn(
-                'inline-flex items-center justify-center text-lg font-medium leading-none',
-                today ? 'text-rose-700' : 'text-foreground'
-              )}>
+      {weekGroups.length === 0 && (
+        <div className="flex h-14">
+          {dayRange && dayRange.start > 0 && (
+            <div className="flex-shrink-0" style={{ width: dayRange.start * dayWidth }} />
+          )}
+          {(dayRange ? visibleDays.slice(dayRange.start, dayRange.end) : visibleDays).map((day) => {
+            const { day: dayName, date } = formatDayHeader(day, viewMode);
+            const today = isToday(day);
+            const weekend = !calendar.isWorkingDay(day);
+            const holidayNames = calendar.getHolidayNames(day);
+            
+            return (
+              <div
+                key={day.getTime()}
+                title={holidayNames.length > 0 ? holidayNames.join(', ') : undefined}
+                className={cn(
+                  'flex flex-col items-center justify-center border-r border-border transition-colors py-2 gap-1',
+                  weekend && 'bg-timeline-weekend',
+                  today && 'today-hatch'
+                )}
+                style={{ width: dayWidth }}
+              >
                 <span className={cn(
-                  'inline-flex items-center justify-center',
-                  today && 'rounded-full bg-rose-100/80 px-2.5 py-0.5'
+                  'text-xs uppercase tracking-wide leading-none',
+                  today ? 'text-rose-700 font-semibold' : 'text-muted-foreground'
                 )}>
-                  {date}
+                  {dayName}
                 </span>
-              </span>
-            </div>
-          );
-        })}
-      </div>
+                <span className={cn(
+                  'inline-flex items-center justify-center text-lg font-medium leading-none',
+                  today ? 'text-rose-700' : 'text-foreground'
+                )}>
+                  <span className={cn(
+                    'inline-flex items-center justify-center',
+                    today && 'rounded-full bg-rose-100/80 px-2.5 py-0.5'
+                  )}>
+                    {date}
+                  </span>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
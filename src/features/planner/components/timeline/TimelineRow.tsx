@@ -1,7 +1,10 @@
 import React, { useCallback, useState } from 'react';
 import { format } from 'date-fns';
-import { isToday, isWeekend } from '@/features/planner/lib/dateUtils';
+import { isToday, isZoomedOutView } from '@/features/planner/lib/dateUtils';
+import { useWorkingCalendar } from '@/features/planner/hooks/useWorkingCalendar';
 import { ViewMode } from '@/features/planner/types/planner';
+import { WorkloadDay } from '@/features/planner/lib/workload';
+import { VirtualRange } from '@/features/planner/lib/timelineVirtualization';
 import { cn } from '@/shared/lib/classNames';
 import {
   ContextMenu,
@@ -9,6 +12,7 @@ import {
   ContextMenuItem,
   ContextMenuTrigger,
 } from '@/shared/ui/context-menu';
+import { WorkloadStrip } from './WorkloadStrip';
 
 interface TimelineRowProps {
   rowId: string;
@@ -16,8 +20,11 @@ interface TimelineRowProps {
   visibleDays: Date[];
   dayWidth: number;
   viewMode: ViewMode;
+  /** Days to mount; the rest of the row is an empty spacer. Defaults to every visible day. */
+  dayRange?: VirtualRange;
   height: number;
   children: React.ReactNode;
+  workload?: WorkloadDay[];
   canEdit?: boolean;
   onCreateTask?: (date: string, rowId: string) => void;
 }
@@ -28,12 +35,18 @@ export const TimelineRow: React.FC<TimelineRowProps> = ({
   visibleDays,
   dayWidth,
   viewMode,
+  dayRange,
   height,
   children,
+  workload,
   canEdit = false,
   onCreateTask,
 }) => {
   const [contextDate, setContextDate] = useState<string | null>(null);
+  const calendar = useWorkingCalendar();
+  const zoomedOut = isZoomedOutView(viewMode);
+  const firstDay = dayRange?.start ?? 0;
+  const mountedDays = dayRange ? visibleDays.slice(dayRange.start, dayRange.end) : visibleDays;
 
   const getDateFromEvent = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
     const rect = event.currentTarget.getBoundingClientRect();
@@ -59,6 +72,7 @@ export const TimelineRow: React.FC<TimelineRowProps> = ({
     <div 
       className="relative border-b border-border box-border"
       style={{ height }}
+      data-row-id={rowId}
     >
       {/* Grid background */}
       <ContextMenu>
@@ -68,15 +82,21 @@ export const TimelineRow: React.FC<TimelineRowProps> = ({
             onDoubleClick={handleDoubleClick}
             onContextMenu={handleContextMenu}
           >
-            {visibleDays.map((day, index) => {
+            {firstDay > 0 && (
+              <div className="h-full flex-shrink-0" style={{ width: firstDay * dayWidth }} />
+            )}
+            {mountedDays.map((day, offset) => {
+              const index = firstDay + offset;
               const today = isToday(day);
-              const weekend = isWeekend(day);
+              const weekend = !calendar.isWorkingDay(day);
               
               return (
                 <div
                   key={index}
                   className={cn(
-                    'h-full border-r border-timeline-grid transition-colors relative',
+                    'h-full border-timeline-grid transition-colors relative',
+                    // Zoomed-out views only mark week boundaries, day lines would turn into noise.
+                    (!zoomedOut || index % 7 === 6) && 'border-r',
                     weekend && 'bg-timeline-weekend/50',
                     today && 'today-hatch'
                   )}
@@ -103,6 +123,9 @@ export const TimelineRow: React.FC<TimelineRowProps> = ({
       <div className="absolute inset-0 py-2 px-0.5 pointer-events-none">
         {children}
       </div>
+
+      {/* Heat strip with the member's daily load */}
+      {workload && <WorkloadStrip days={workload} dayWidth={dayWidth} dayRange={dayRange} />}
     </div>
   );
 };
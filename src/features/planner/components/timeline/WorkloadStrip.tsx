@@ -0,0 +1,86 @@
+import React, { useCallback, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { format, parseISO } from 'date-fns';
+import { formatHours } from '@/features/planner/lib/timeTracking';
+import { WorkloadDay } from '@/features/planner/lib/workload';
+import { VirtualRange } from '@/features/planner/lib/timelineVirtualization';
+import { cn } from '@/shared/lib/classNames';
+
+interface WorkloadStripProps {
+  days: WorkloadDay[];
+  dayWidth: number;
+  dayRange?: VirtualRange;
+}
+
+const getLoadClass = (day: WorkloadDay) => {
+  if (day.load <= 0) return null;
+  if (day.load > day.capacity) return 'bg-destructive/70';
+  if (day.load >= day.capacity * 0.8) return 'bg-amber-400/70';
+  return 'bg-emerald-400/50';
+};
+
+export const WorkloadStrip: React.FC<WorkloadStripProps> = ({ days, dayWidth, dayRange }) => {
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [tooltipPos, setTooltipPos] = useState({ x: 0, y: 0 });
+  const hoveredDay = hoveredIndex !== null ? days[hoveredIndex] : null;
+
+  const handleMouseMove = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const index = Math.floor((event.clientX - rect.left) / dayWidth);
+    const day = days[index];
+    setHoveredIndex(day && day.load > 0 ? index : null);
+    const offset = 14;
+    const tooltipWidth = 240;
+    const x = event.clientX + tooltipWidth + offset > window.innerWidth
+      ? Math.max(8, event.clientX - tooltipWidth - offset)
+      : event.clientX + offset;
+    setTooltipPos({ x, y: Math.max(8, event.clientY - offset) });
+  }, [dayWidth, days]);
+
+  return (
+    <div
+      className="absolute bottom-0 left-0 right-0 flex h-1.5"
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setHoveredIndex(null)}
+    >
+      {dayRange && dayRange.start > 0 && (
+        <div className="h-full flex-shrink-0" style={{ width: dayRange.start * dayWidth }} />
+      )}
+      {(dayRange ? days.slice(dayRange.start, dayRange.end) : days).map((day) => (
+        <div
+          key={day.date}
+          className={cn('h-full flex-shrink-0', getLoadClass(day))}
+          style={{ width: dayWidth }}
+        />
+      ))}
+      {hoveredDay && typeof document !== 'undefined' && createPortal(
+        <div
+          className="pointer-events-none fixed z-50 w-60 -translate-y-full rounded-lg border bg-background p-3 shadow-xl"
+          style={{ left: tooltipPos.x, top: tooltipPos.y }}
+        >
+          <div className="flex items-baseline justify-between gap-2 text-xs">
+            <span className="font-semibold text-foreground">
+              {format(parseISO(hoveredDay.date), 'EEE, dd MMM')}
+            </span>
+            <span className={cn(
+              'font-medium',
+              hoveredDay.load > hoveredDay.capacity ? 'text-destructive' : 'text-muted-foreground',
+            )}
+            >
+              {formatHours(hoveredDay.load)} / {formatHours(hoveredDay.capacity)}
+            </span>
+          </div>
+          <div className="mt-2 space-y-1">
+            {hoveredDay.tasks.map((item) => (
+              <div key={item.taskId} className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate text-foreground">{item.title}</span>
+                <span className="flex-shrink-0 text-muted-foreground">{formatHours(item.hours)}</span>
+              </div>
+            ))}
+          </div>
+        </div>,
+        document.body,
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+// src/features/planner/hooks/useMutationQueueSync.ts
+import { useEffect, useRef } from 'react';
+import { t } from '@lingui/macro';
+import { toast } from '@/shared/ui/sonner';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+
+const RETRY_INTERVAL_MS = 30000;
+
+/**
+ * useMutationQueueSync
+ * - Проигрывает отложенные изменения из IndexedDB при открытии страницы и при возврате сети
+ * - Пока очередь не пуста, периодически пробует отправить её снова
+ * - Показывает тост, когда сервер отклонил изменение и оно было откатено
+ */
+export const useMutationQueueSync = () => {
+  const flushMutationQueue = usePlannerStore((state) => state.flushMutationQueue);
+  const pendingMutations = usePlannerStore((state) => state.pendingMutations);
+  const syncRejection = usePlannerStore((state) => state.syncRejection);
+  const shownRejectionRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    void flushMutationQueue();
+    const handleOnline = () => {
+      void flushMutationQueue();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [flushMutationQueue]);
+
+  useEffect(() => {
+    if (pendingMutations === 0) return;
+    const timer = window.setInterval(() => {
+      void flushMutationQueue();
+    }, RETRY_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [flushMutationQueue, pendingMutations]);
+
+  useEffect(() => {
+    if (!syncRejection || shownRejectionRef.current === syncRejection.id) return;
+    shownRejectionRef.current = syncRejection.id;
+    toast.error(t`Change was rolled back`, {
+      description: syncRejection.message,
+    });
+  }, [syncRejection]);
+
+  return { pendingMutations };
+};
@@ -0,0 +1,79 @@
+// src/features/planner/hooks/usePlannerHistory.ts
+import { useCallback, useEffect, useRef } from 'react';
+import { t } from '@lingui/macro';
+import { toast } from '@/shared/ui/sonner';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { countHistoryTasks, isDestructiveHistoryEntry } from '@/features/planner/lib/plannerHistory';
+import { isEditableTarget } from '@/shared/lib/keyboard';
+
+/**
+ * usePlannerHistory
+ * - Ctrl/Cmd+Z отменяет, Shift+Ctrl/Cmd+Z (и Ctrl+Y) повторяет последнее действие планировщика
+ * - В полях ввода оставляет браузеру его собственный undo
+ * - После удаления показывает тост с кнопкой "Undo"
+ * - onApplied вызывается после отмены/повтора, чтобы страницы со своими списками задач их перезагрузили
+ */
+export const usePlannerHistory = (enabled = true, onApplied?: () => void) => {
+  const undoAction = usePlannerStore((state) => state.undo);
+  const redoAction = usePlannerStore((state) => state.redo);
+  const lastEntry = usePlannerStore((state) => state.undoStack[state.undoStack.length - 1]);
+  const announcedIdsRef = useRef(new Set<number>());
+  const onAppliedRef = useRef(onApplied);
+  onAppliedRef.current = onApplied;
+
+  const undo = useCallback(async () => {
+    await undoAction();
+    onAppliedRef.current?.();
+  }, [undoAction]);
+
+  const redo = useCallback(async () => {
+    await redoAction();
+    onAppliedRef.current?.();
+  }, [redoAction]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        void undo();
+        return;
+      }
+      if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey)) {
+        event.preventDefault();
+        void redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, redo, undo]);
+
+  useEffect(() => {
+    if (!enabled || !lastEntry || !isDestructiveHistoryEntry(lastEntry)) return;
+    if (announcedIdsRef.current.has(lastEntry.id)) return;
+    announcedIdsRef.current.add(lastEntry.id);
+
+    const count = countHistoryTasks(lastEntry);
+    const message = lastEntry.kind === 'deleteMilestone'
+      ? t`Milestone deleted`
+      : lastEntry.kind === 'deleteTaskSeries'
+        ? t`Repeats deleted`
+        : count === 1
+          ? t`Task deleted`
+          : t`${count} tasks deleted`;
+    toast(message, {
+      action: {
+        label: t`Undo`,
+        onClick: () => {
+          const { undoStack } = usePlannerStore.getState();
+          // Отменяем только если удаление всё ещё последнее действие в истории.
+          if (undoStack[undoStack.length - 1]?.id !== lastEntry.id) return;
+          void undo();
+        },
+      },
+    });
+  }, [enabled, lastEntry, undo]);
+};
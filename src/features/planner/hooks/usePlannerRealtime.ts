@@ -0,0 +1,54 @@
+// src/features/planner/hooks/usePlannerRealtime.ts
+import { useEffect } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/shared/lib/supabaseClient';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import type { PlannerRealtimeTable } from '@/features/planner/types/planner';
+
+const REALTIME_TABLES: PlannerRealtimeTable[] = [
+  'tasks',
+  'task_series',
+  'task_dependencies',
+  'task_checklist_items',
+  'milestones',
+  'projects',
+  'statuses',
+  'tags',
+  'assignees',
+];
+
+/**
+ * usePlannerRealtime
+ * - Подписывается на изменения таблиц планировщика в текущем workspace
+ * - INSERT/UPDATE фильтруются по workspace_id на сервере, DELETE приходят без фильтра
+ *   (Realtime не умеет фильтровать удаления) и сверяются по id в сторе
+ */
+export const usePlannerRealtime = (workspaceId: string | null) => {
+  const applyRealtimeChange = usePlannerStore((state) => state.applyRealtimeChange);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    const channel = supabase.channel(`planner:${workspaceId}`);
+    REALTIME_TABLES.forEach((table) => {
+      const handleChange = (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+        applyRealtimeChange({
+          table,
+          eventType: payload.eventType,
+          newRow: payload.eventType === 'DELETE' ? null : payload.new,
+          oldRow: payload.eventType === 'INSERT' ? null : payload.old,
+        });
+      };
+      const filter = `workspace_id=eq.${workspaceId}`;
+      channel
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, handleChange)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, handleChange)
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, handleChange);
+    });
+    channel.subscribe();
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [applyRealtimeChange, workspaceId]);
+};
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { getPagedDate } from '@/features/planner/lib/dateUtils';
+import { isPlainShortcutEvent } from '@/shared/lib/keyboard';
+
+interface PlannerShortcutHandlers {
+  onCreateTask: () => void;
+}
+
+/**
+ * usePlannerShortcuts
+ * - T — сегодня, ←/→ — листать период, как кнопки TimelineControls
+ * - N — новая задача, E — открыть выделенную задачу, Del — удалить выделенные задачи
+ * - Не срабатывают при вводе текста, в открытых диалогах и с модификаторами
+ */
+export const usePlannerShortcuts = (enabled: boolean, canEdit: boolean, handlers: PlannerShortcutHandlers) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isPlainShortcutEvent(event)) return;
+      const state = usePlannerStore.getState();
+      const key = event.key.toLowerCase();
+
+      if (key === 't' && !event.shiftKey) {
+        event.preventDefault();
+        const today = format(new Date(), 'yyyy-MM-dd');
+        state.setCurrentDate(today);
+        state.requestScrollToDate(today);
+        return;
+      }
+      if (key === 'arrowleft' || key === 'arrowright') {
+        event.preventDefault();
+        state.setCurrentDate(getPagedDate(state.currentDate, state.viewMode, key === 'arrowleft' ? -1 : 1));
+        return;
+      }
+      if (key === 'e' && !event.shiftKey) {
+        const taskId = state.selectedTaskIds.length === 1 ? state.selectedTaskIds[0] : state.highlightedTaskId;
+        if (!taskId) return;
+        event.preventDefault();
+        state.setSelectedTaskIds([]);
+        state.setSelectedTaskId(taskId);
+        return;
+      }
+      if (!canEdit) return;
+      if (key === 'n' && !event.shiftKey) {
+        event.preventDefault();
+        handlersRef.current.onCreateTask();
+        return;
+      }
+      if (key === 'delete' && state.selectedTaskIds.length > 0) {
+        event.preventDefault();
+        // Отмена доступна через тост удаления и Ctrl/Cmd+Z.
+        void state.deleteTasks(state.selectedTaskIds);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canEdit, enabled]);
+};
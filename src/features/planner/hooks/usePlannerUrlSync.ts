@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { buildPlannerSearchParams, parsePlannerSearchParams } from '@/features/planner/lib/plannerUrl';
+
+/**
+ * usePlannerUrlSync
+ * - При открытии ссылки применяет режим, группировку и дату из query-параметров
+ * - Задачу из ссылки открывает после загрузки пространства (при необходимости догружает её)
+ * - Дальше держит query-параметры в синхроне со стором, не засоряя историю браузера
+ * Возвращает состояние из ссылки: фильтры из него применяет страница вместо сохранённых локально.
+ */
+export const usePlannerUrlSync = (workspaceId: string | null) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [initialState] = useState(() => parsePlannerSearchParams(searchParams));
+  const pendingTaskIdRef = useRef(initialState?.selectedTaskId ?? null);
+  const viewMode = usePlannerStore((state) => state.viewMode);
+  const groupMode = usePlannerStore((state) => state.groupMode);
+  const currentDate = usePlannerStore((state) => state.currentDate);
+  const filters = usePlannerStore((state) => state.filters);
+  const selectedTaskId = usePlannerStore((state) => state.selectedTaskId);
+  const loading = usePlannerStore((state) => state.loading);
+  const loadedWorkspaceId = usePlannerStore((state) => state.loadedRange?.workspaceId ?? null);
+
+  useEffect(() => {
+    if (!initialState) return;
+    const { setViewMode, setGroupMode, setCurrentDate, requestScrollToDate } = usePlannerStore.getState();
+    if (initialState.viewMode) setViewMode(initialState.viewMode);
+    if (initialState.groupMode) setGroupMode(initialState.groupMode);
+    if (initialState.currentDate) {
+      setCurrentDate(initialState.currentDate);
+      requestScrollToDate(initialState.currentDate);
+    }
+  }, [initialState]);
+
+  useEffect(() => {
+    const taskId = pendingTaskIdRef.current;
+    if (!taskId || !workspaceId || loading || loadedWorkspaceId !== workspaceId) return;
+    pendingTaskIdRef.current = null;
+    const { tasks, setSelectedTaskId, revealTask } = usePlannerStore.getState();
+    if (tasks.some((task) => task.id === taskId)) {
+      setSelectedTaskId(taskId);
+      return;
+    }
+    void revealTask(taskId);
+  }, [loadedWorkspaceId, loading, workspaceId]);
+
+  useEffect(() => {
+    const next = buildPlannerSearchParams({ viewMode, groupMode, currentDate, filters, selectedTaskId });
+    if (next.toString() === searchParams.toString()) return;
+    setSearchParams(next, { replace: true });
+  }, [currentDate, filters, groupMode, searchParams, selectedTaskId, setSearchParams, viewMode]);
+
+  return initialState;
+};
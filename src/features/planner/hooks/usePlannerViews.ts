@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/shared/lib/supabaseClient';
+import { normalizeFilters } from '@/features/planner/lib/plannerViews';
+import type { GroupMode, PlannerView, ViewMode } from '@/features/planner/types/planner';
+
+type PlannerViewRow = {
+  id: string;
+  owner_id: string;
+  name: string;
+  filters: unknown;
+  view_mode: ViewMode;
+  group_mode: GroupMode;
+  anchor_date: string | null;
+  is_shared: boolean;
+};
+
+const mapPlannerViewRow = (row: PlannerViewRow): PlannerView => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  name: row.name,
+  filters: normalizeFilters(row.filters),
+  viewMode: row.view_mode,
+  groupMode: row.group_mode,
+  anchorDate: row.anchor_date,
+  isShared: row.is_shared,
+});
+
+const buildPlannerViewPayload = (view: Partial<Omit<PlannerView, 'id' | 'ownerId'>>) => {
+  const payload: Record<string, unknown> = {};
+  if ('name' in view) payload.name = view.name;
+  if ('filters' in view) payload.filters = view.filters;
+  if ('viewMode' in view) payload.view_mode = view.viewMode;
+  if ('groupMode' in view) payload.group_mode = view.groupMode;
+  if ('anchorDate' in view) payload.anchor_date = view.anchorDate;
+  if ('isShared' in view) payload.is_shared = view.isShared;
+  return payload;
+};
+
+const sortViews = (views: PlannerView[]) => (
+  [...views].sort((left, right) => left.name.localeCompare(right.name))
+);
+
+/**
+ * usePlannerViews
+ * - Сохранённые виды планировщика: личные и общие для пространства (видимость режет RLS)
+ * - Создание, обновление и удаление; ошибки возвращаются вызывающему
+ */
+export const usePlannerViews = (workspaceId: string | null) => {
+  const [views, setViews] = useState<PlannerView[]>([]);
+
+  useEffect(() => {
+    setViews([]);
+    if (!workspaceId) return;
+
+    let cancelled = false;
+    supabase
+      .from('planner_views')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error(error);
+          return;
+        }
+        setViews(sortViews((data ?? []).map((row) => mapPlannerViewRow(row as PlannerViewRow))));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId]);
+
+  const createView = useCallback(async (view: Omit<PlannerView, 'id' | 'ownerId'>) => {
+    if (!workspaceId) return { error: 'Workspace not selected.' };
+    const { data, error } = await supabase
+      .from('planner_views')
+      .insert({ workspace_id: workspaceId, ...buildPlannerViewPayload(view) })
+      .select('*')
+      .single();
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    const created = mapPlannerViewRow(data as PlannerViewRow);
+    setViews((current) => sortViews([...current, created]));
+    return { view: created };
+  }, [workspaceId]);
+
+  const updateView = useCallback(async (id: string, updates: Partial<Omit<PlannerView, 'id' | 'ownerId'>>) => {
+    if (!workspaceId) return { error: 'Workspace not selected.' };
+    const { data, error } = await supabase
+      .from('planner_views')
+      .update(buildPlannerViewPayload(updates))
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .select('*')
+      .single();
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    const updated = mapPlannerViewRow(data as PlannerViewRow);
+    setViews((current) => sortViews(current.map((view) => (view.id === id ? updated : view))));
+    return { view: updated };
+  }, [workspaceId]);
+
+  const deleteView = useCallback(async (id: string) => {
+    if (!workspaceId) return { error: 'Workspace not selected.' };
+    const { error } = await supabase
+      .from('planner_views')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', id);
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    setViews((current) => current.filter((view) => view.id !== id));
+    return {};
+  }, [workspaceId]);
+
+  return { views, createView, updateView, deleteView };
+};
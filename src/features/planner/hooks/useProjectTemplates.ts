@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/shared/lib/supabaseClient';
+import { normalizeProjectTemplatePlan } from '@/features/planner/lib/projectTemplates';
+import type { ProjectTemplate } from '@/features/planner/types/planner';
+
+type ProjectTemplateRow = {
+  id: string;
+  name: string;
+  color: string;
+  tasks: unknown;
+  milestones: unknown;
+};
+
+const mapProjectTemplateRow = (row: ProjectTemplateRow): ProjectTemplate => ({
+  id: row.id,
+  name: row.name,
+  color: row.color,
+  ...normalizeProjectTemplatePlan(row.tasks, row.milestones),
+});
+
+const sortTemplates = (templates: ProjectTemplate[]) => (
+  [...templates].sort((left, right) => left.name.localeCompare(right.name))
+);
+
+/**
+ * useProjectTemplates
+ * - Шаблоны проектов пространства: план задач и вех со смещениями от даты начала
+ * - Создание и удаление; ошибки возвращаются вызывающему
+ */
+export const useProjectTemplates = (workspaceId: string | null) => {
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+
+  useEffect(() => {
+    setTemplates([]);
+    if (!workspaceId) return;
+
+    let cancelled = false;
+    supabase
+      .from('project_templates')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error(error);
+          return;
+        }
+        setTemplates(sortTemplates((data ?? []).map((row) => mapProjectTemplateRow(row as ProjectTemplateRow))));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId]);
+
+  const createTemplate = useCallback(async (template: Omit<ProjectTemplate, 'id'>) => {
+    if (!workspaceId) return { error: 'Workspace not selected.' };
+    const { data, error } = await supabase
+      .from('project_templates')
+      .insert({
+        workspace_id: workspaceId,
+        name: template.name,
+        color: template.color,
+        tasks: template.tasks,
+        milestones: template.milestones,
+      })
+      .select('*')
+      .single();
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    const created = mapProjectTemplateRow(data as ProjectTemplateRow);
+    setTemplates((current) => sortTemplates([...current, created]));
+    return { template: created };
+  }, [workspaceId]);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    if (!workspaceId) return { error: 'Workspace not selected.' };
+    const { error } = await supabase
+      .from('project_templates')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', id);
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    setTemplates((current) => current.filter((template) => template.id !== id));
+    return {};
+  }, [workspaceId]);
+
+  return { templates, createTemplate, deleteTemplate };
+};
@@ -0,0 +1,90 @@
+// src/features/planner/hooks/useTaskActivity.ts
+import { useEffect, useState } from 'react';
+import { supabase } from '@/shared/lib/supabaseClient';
+import { isOccurrenceId } from '@/features/planner/lib/recurrence';
+import type { TaskActivity, TaskActivityField } from '@/features/planner/types/planner';
+
+type TaskActivityRow = {
+  id: string;
+  task_id: string;
+  actor_id: string | null;
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+  created_at: string;
+};
+
+const mapTaskActivityRow = (row: TaskActivityRow): TaskActivity => ({
+  id: row.id,
+  taskId: row.task_id,
+  actorId: row.actor_id,
+  field: row.field as TaskActivityField,
+  oldValue: row.old_value,
+  newValue: row.new_value,
+  createdAt: row.created_at,
+});
+
+/**
+ * useTaskActivity
+ * - Загружает журнал изменений задачи (пишется триггером на public.tasks), новые записи сверху
+ * - Пока задача открыта, дописывает новые записи из Realtime
+ * - Частые правки одного поля сервер сливает в последнюю запись: обновлённая запись поднимается наверх
+ */
+export const useTaskActivity = (workspaceId: string | null, requestedTaskId: string | null) => {
+  // У неотредактированного повтора серии ещё нет строки в tasks, а значит и связанных записей.
+  const taskId = requestedTaskId && !isOccurrenceId(requestedTaskId) ? requestedTaskId : null;
+  const [activity, setActivity] = useState<TaskActivity[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setActivity([]);
+    if (!workspaceId || !taskId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    supabase
+      .from('task_activity')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: false })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        setLoading(false);
+        if (error) {
+          console.error(error);
+          return;
+        }
+        setActivity((data ?? []).map((row) => mapTaskActivityRow(row as TaskActivityRow)));
+      });
+
+    const channel = supabase
+      .channel(`task-activity:${taskId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'task_activity', filter: `task_id=eq.${taskId}` },
+        (payload) => {
+          const entry = mapTaskActivityRow(payload.new as TaskActivityRow);
+          setActivity((current) => (
+            current.some((item) => item.id === entry.id) ? current : [entry, ...current]
+          ));
+        },
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'task_activity', filter: `task_id=eq.${taskId}` },
+        (payload) => {
+          const entry = mapTaskActivityRow(payload.new as TaskActivityRow);
+          setActivity((current) => [entry, ...current.filter((item) => item.id !== entry.id)]);
+        },
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      void supabase.removeChannel(channel);
+    };
+  }, [taskId, workspaceId]);
+
+  return { activity, loading };
+};
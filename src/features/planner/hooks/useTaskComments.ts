@@ -0,0 +1,151 @@
+// src/features/planner/hooks/useTaskComments.ts
+import { useCallback, useEffect, useState } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/shared/lib/supabaseClient';
+import { isOccurrenceId } from '@/features/planner/lib/recurrence';
+import type { TaskComment } from '@/features/planner/types/planner';
+
+type TaskCommentRow = {
+  id: string;
+  task_id: string;
+  author_id: string;
+  body: string;
+  mention_ids: string[] | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const mapTaskCommentRow = (row: TaskCommentRow): TaskComment => ({
+  id: row.id,
+  taskId: row.task_id,
+  authorId: row.author_id,
+  body: row.body,
+  mentionIds: row.mention_ids ?? [],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const sortByCreatedAt = (comments: TaskComment[]) => (
+  [...comments].sort((left, right) => left.createdAt.localeCompare(right.createdAt))
+);
+
+const upsertComment = (comments: TaskComment[], comment: TaskComment) => (
+  sortByCreatedAt([...comments.filter((item) => item.id !== comment.id), comment])
+);
+
+/**
+ * useTaskComments
+ * - Загружает ветку комментариев задачи и держит её в актуальном состоянии через Realtime
+ * - Права (читать могут все участники, править и удалять — только автор) проверяет RLS
+ */
+export const useTaskComments = (workspaceId: string | null, requestedTaskId: string | null) => {
+  // У неотредактированного повтора серии ещё нет строки в tasks, а значит и связанных записей.
+  const taskId = requestedTaskId && !isOccurrenceId(requestedTaskId) ? requestedTaskId : null;
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setComments([]);
+    if (!workspaceId || !taskId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    supabase
+      .from('task_comments')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        setLoading(false);
+        if (error) {
+          console.error(error);
+          return;
+        }
+        setComments((data ?? []).map((row) => mapTaskCommentRow(row as TaskCommentRow)));
+      });
+
+    const handleChange = (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+      if (payload.eventType === 'DELETE') {
+        const id = (payload.old as { id?: string }).id;
+        if (!id) return;
+        setComments((current) => current.filter((item) => item.id !== id));
+        return;
+      }
+      const comment = mapTaskCommentRow(payload.new as TaskCommentRow);
+      setComments((current) => upsertComment(current, comment));
+    };
+    const filter = `task_id=eq.${taskId}`;
+    const channel = supabase
+      .channel(`task-comments:${taskId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'task_comments', filter }, handleChange)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'task_comments', filter }, handleChange)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'task_comments' }, handleChange)
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      void supabase.removeChannel(channel);
+    };
+  }, [taskId, workspaceId]);
+
+  const addComment = useCallback(async (body: string, mentionIds: string[]) => {
+    if (!workspaceId || !taskId) return { error: 'Task not selected.' };
+    const { data, error } = await supabase
+      .from('task_comments')
+      .insert({
+        workspace_id: workspaceId,
+        task_id: taskId,
+        body,
+        mention_ids: mentionIds,
+      })
+      .select('*')
+      .single();
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    setComments((current) => upsertComment(current, mapTaskCommentRow(data as TaskCommentRow)));
+    return {};
+  }, [taskId, workspaceId]);
+
+  const updateComment = useCallback(async (id: string, body: string, mentionIds: string[]) => {
+    const { data, error } = await supabase
+      .from('task_comments')
+      .update({ body, mention_ids: mentionIds })
+      .eq('id', id)
+      .select('*');
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    const row = (data ?? [])[0] as TaskCommentRow | undefined;
+    if (!row) return { error: 'You can only edit your own comments.' };
+    setComments((current) => upsertComment(current, mapTaskCommentRow(row)));
+    return {};
+  }, []);
+
+  const deleteComment = useCallback(async (id: string) => {
+    const { data, error } = await supabase
+      .from('task_comments')
+      .delete()
+      .eq('id', id)
+      .select('id');
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    if (!data || data.length === 0) return { error: 'You can only delete your own comments.' };
+    setComments((current) => current.filter((item) => item.id !== id));
+    return {};
+  }, []);
+
+  return {
+    comments,
+    loading,
+    addComment,
+    updateComment,
+    deleteComment,
+  };
+};
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/shared/lib/supabaseClient';
+import type { TaskTemplateFields } from '@/features/planner/lib/taskTemplates';
+import type { TaskPriority, TaskTemplate } from '@/features/planner/types/planner';
+
+type TaskTemplateRow = {
+  id: string;
+  owner_id: string;
+  name: string;
+  is_shared: boolean;
+  title: string;
+  project_id: string | null;
+  assignee_ids: string[] | null;
+  status_id: string | null;
+  type_id: string | null;
+  priority: TaskPriority | null;
+  tag_ids: string[] | null;
+  description: string | null;
+  estimate_hours: number | null;
+  duration_days: number;
+  rrule: string | null;
+};
+
+const mapTaskTemplateRow = (row: TaskTemplateRow): TaskTemplate => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  name: row.name,
+  isShared: row.is_shared,
+  title: row.title,
+  projectId: row.project_id,
+  assigneeIds: row.assignee_ids ?? [],
+  statusId: row.status_id,
+  typeId: row.type_id,
+  priority: row.priority,
+  tagIds: row.tag_ids ?? [],
+  description: row.description,
+  estimateHours: row.estimate_hours === null ? null : Number(row.estimate_hours),
+  durationDays: row.duration_days,
+  rrule: row.rrule,
+});
+
+const buildTaskTemplatePayload = (template: TaskTemplateFields & Pick<TaskTemplate, 'name' | 'isShared'>) => ({
+  name: template.name,
+  is_shared: template.isShared,
+  title: template.title,
+  project_id: template.projectId,
+  assignee_ids: template.assigneeIds,
+  status_id: template.statusId,
+  type_id: template.typeId,
+  priority: template.priority,
+  tag_ids: template.tagIds,
+  description: template.description,
+  estimate_hours: template.estimateHours,
+  duration_days: template.durationDays,
+  rrule: template.rrule,
+});
+
+const sortTemplates = (templates: TaskTemplate[]) => (
+  [...templates].sort((left, right) => left.name.localeCompare(right.name))
+);
+
+/**
+ * useTaskTemplates
+ * - Шаблоны задач: личные и общие для пространства (видимость режет RLS)
+ * - Создание и удаление; ошибки возвращаются вызывающему
+ */
+export const useTaskTemplates = (workspaceId: string | null) => {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+
+  useEffect(() => {
+    setTemplates([]);
+    if (!workspaceId) return;
+
+    let cancelled = false;
+    supabase
+      .from('task_templates')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error(error);
+          return;
+        }
+        setTemplates(sortTemplates((data ?? []).map((row) => mapTaskTemplateRow(row as TaskTemplateRow))));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId]);
+
+  const createTemplate = useCallback(async (
+    template: TaskTemplateFields & Pick<TaskTemplate, 'name' | 'isShared'>,
+  ) => {
+    if (!workspaceId) return { error: 'Workspace not selected.' };
+    const { data, error } = await supabase
+      .from('task_templates')
+      .insert({ workspace_id: workspaceId, ...buildTaskTemplatePayload(template) })
+      .select('*')
+      .single();
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    const created = mapTaskTemplateRow(data as TaskTemplateRow);
+    setTemplates((current) => sortTemplates([...current, created]));
+    return { template: created };
+  }, [workspaceId]);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    if (!workspaceId) return { error: 'Workspace not selected.' };
+    const { error } = await supabase
+      .from('task_templates')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', id);
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    setTemplates((current) => current.filter((template) => template.id !== id));
+    return {};
+  }, [workspaceId]);
+
+  return { templates, createTemplate, deleteTemplate };
+};
@@ -0,0 +1,110 @@
+// src/features/planner/hooks/useTaskTimeEntries.ts
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/shared/lib/supabaseClient';
+import { isOccurrenceId } from '@/features/planner/lib/recurrence';
+import type { TimeEntry } from '@/features/planner/types/planner';
+
+export type TimeEntryRow = {
+  id: string;
+  task_id: string;
+  assignee_id: string;
+  entry_date: string;
+  hours: number | string;
+  note: string | null;
+};
+
+export const mapTimeEntryRow = (row: TimeEntryRow): TimeEntry => ({
+  id: row.id,
+  taskId: row.task_id,
+  assigneeId: row.assignee_id,
+  date: row.entry_date,
+  hours: Number(row.hours),
+  note: row.note,
+});
+
+const sortEntries = (entries: TimeEntry[]) => (
+  [...entries].sort((left, right) => right.date.localeCompare(left.date))
+);
+
+/**
+ * useTaskTimeEntries
+ * - Загружает списанное время по задаче (новые даты сверху)
+ * - Добавление и удаление записей; права проверяет RLS (писать могут редакторы)
+ */
+export const useTaskTimeEntries = (workspaceId: string | null, requestedTaskId: string | null) => {
+  // У неотредактированного повтора серии ещё нет строки в tasks, а значит и связанных записей.
+  const taskId = requestedTaskId && !isOccurrenceId(requestedTaskId) ? requestedTaskId : null;
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setEntries([]);
+    if (!workspaceId || !taskId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    supabase
+      .from('time_entries')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('task_id', taskId)
+      .order('entry_date', { ascending: false })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        setLoading(false);
+        if (error) {
+          console.error(error);
+          return;
+        }
+        setEntries((data ?? []).map((row) => mapTimeEntryRow(row as TimeEntryRow)));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, workspaceId]);
+
+  const addEntry = useCallback(async (entry: Omit<TimeEntry, 'id' | 'taskId'>) => {
+    if (!workspaceId || !taskId) return { error: 'Task not selected.' };
+    const { data, error } = await supabase
+      .from('time_entries')
+      .insert({
+        workspace_id: workspaceId,
+        task_id: taskId,
+        assignee_id: entry.assigneeId,
+        entry_date: entry.date,
+        hours: entry.hours,
+        note: entry.note,
+      })
+      .select('*')
+      .single();
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    setEntries((current) => sortEntries([...current, mapTimeEntryRow(data as TimeEntryRow)]));
+    return {};
+  }, [taskId, workspaceId]);
+
+  const deleteEntry = useCallback(async (id: string) => {
+    const { data, error } = await supabase
+      .from('time_entries')
+      .delete()
+      .eq('id', id)
+      .select('id');
+    if (error) {
+      console.error(error);
+      return { error: error.message };
+    }
+    if (!data || data.length === 0) return { error: 'You do not have permission to remove this entry.' };
+    setEntries((current) => current.filter((item) => item.id !== id));
+    return {};
+  }, []);
+
+  return {
+    entries,
+    loading,
+    addEntry,
+    deleteEntry,
+  };
+};
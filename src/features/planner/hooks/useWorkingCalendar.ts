@@ -0,0 +1,13 @@
+// src/features/planner/hooks/useWorkingCalendar.ts
+import { useMemo } from 'react';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { createCalendarResolver } from '@/features/planner/lib/workingCalendar';
+
+/**
+ * useWorkingCalendar
+ * - Рабочий календарь текущего пространства: выходные, праздники пресета и свои дни
+ */
+export const useWorkingCalendar = () => {
+  const workingCalendar = usePlannerStore((state) => state.workingCalendar);
+  return useMemo(() => createCalendarResolver(workingCalendar), [workingCalendar]);
+};
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/shared/lib/supabaseClient';
+
+export type WorkspaceSearchKind = 'task' | 'project' | 'member';
+
+export interface WorkspaceSearchResult {
+  kind: WorkspaceSearchKind;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  projectId: string | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+type WorkspaceSearchRow = {
+  kind: WorkspaceSearchKind;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  project_id: string | null;
+  start_date: string | null;
+  end_date: string | null;
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * useWorkspaceSearch
+ * - Полнотекстовый поиск по всему пространству через RPC search_workspace, а не только по загруженному диапазону
+ * - Запрос уходит после паузы в наборе; устаревшие ответы отбрасываются
+ */
+export const useWorkspaceSearch = (workspaceId: string | null, query: string) => {
+  const [results, setResults] = useState<WorkspaceSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    if (!workspaceId || trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setLoading(false);
+      setError('');
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = window.setTimeout(async () => {
+      const { data, error: searchError } = await supabase.rpc('search_workspace', {
+        p_workspace_id: workspaceId,
+        p_query: trimmed,
+      });
+      if (cancelled) return;
+      setLoading(false);
+      if (searchError) {
+        console.error(searchError);
+        setError(searchError.message);
+        setResults([]);
+        return;
+      }
+      setError('');
+      setResults(((data ?? []) as WorkspaceSearchRow[]).map((row) => ({
+        kind: row.kind,
+        id: row.id,
+        title: row.title,
+        subtitle: row.subtitle,
+        projectId: row.project_id,
+        startDate: row.start_date,
+        endDate: row.end_date,
+      })));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [trimmed, workspaceId]);
+
+  return { results, loading, error };
+};
@@ -0,0 +1,46 @@
+import { Task } from '@/features/planner/types/planner';
+import { calculateNewDates } from '@/features/planner/lib/dateUtils';
+
+export interface TaskUpdateChange {
+  id: string;
+  updates: Partial<Task>;
+}
+
+export type BulkTaskAction =
+  | { type: 'assign'; assigneeId: string | null }
+  | { type: 'status'; statusId: string }
+  | { type: 'addTag'; tagId: string }
+  | { type: 'removeTag'; tagId: string }
+  | { type: 'shift'; days: number; isWorkingDay?: (date: Date) => boolean };
+
+const getActionUpdates = (task: Task, action: BulkTaskAction): Partial<Task> | null => {
+  switch (action.type) {
+    case 'assign': {
+      const assigneeIds = action.assigneeId ? [action.assigneeId] : [];
+      const unchanged = assigneeIds.length === task.assigneeIds.length
+        && assigneeIds.every((id) => task.assigneeIds.includes(id));
+      return unchanged ? null : { assigneeIds };
+    }
+    case 'status':
+      return task.statusId === action.statusId ? null : { statusId: action.statusId };
+    case 'addTag':
+      return task.tagIds.includes(action.tagId) ? null : { tagIds: [...task.tagIds, action.tagId] };
+    case 'removeTag':
+      return task.tagIds.includes(action.tagId)
+        ? { tagIds: task.tagIds.filter((id) => id !== action.tagId) }
+        : null;
+    default: {
+      if (action.days === 0) return null;
+      const dates = calculateNewDates(task.startDate, task.endDate, action.days, action.isWorkingDay);
+      return dates.startDate === task.startDate && dates.endDate === task.endDate ? null : dates;
+    }
+  }
+};
+
+/** Per-task updates for a bulk action; tasks the action would not change are skipped. */
+export const buildBulkTaskChanges = (tasks: Task[], action: BulkTaskAction): TaskUpdateChange[] => (
+  tasks.flatMap((task) => {
+    const updates = getActionUpdates(task, action);
+    return updates ? [{ id: task.id, updates }] : [];
+  })
+);
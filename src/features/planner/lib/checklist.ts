@@ -0,0 +1,13 @@
+import { ChecklistItem } from '@/features/planner/types/planner';
+
+export const getChecklistProgress = (items: Pick<ChecklistItem, 'done'>[]) => ({
+  done: items.filter((item) => item.done).length,
+  total: items.length,
+});
+
+/** Checklist items of one task in their saved order. */
+export const getTaskChecklist = (items: ChecklistItem[], taskId: string) => (
+  items
+    .filter((item) => item.taskId === taskId)
+    .sort((left, right) => left.position - right.position)
+);
@@ -0,0 +1,13 @@
+const MENTION_ATTR_PATTERN = /data-mention-id="([^"]+)"/g;
+
+/** User ids mentioned in a comment body, limited to current workspace members. */
+export const getMentionIds = (html: string, memberIds: string[]) => {
+  const known = new Set(memberIds);
+  const ids = new Set<string>();
+  for (const match of html.matchAll(MENTION_ATTR_PATTERN)) {
+    if (known.has(match[1])) {
+      ids.add(match[1]);
+    }
+  }
+  return Array.from(ids);
+};
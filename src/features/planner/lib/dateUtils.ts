@@ -6,6 +6,7 @@ import {
   addDays, 
   addYears,
   addWeeks, 
+  addMonths,
   subDays, 
   subYears,
   subWeeks,
@@ -22,6 +23,8 @@ import { ViewMode } from '@/features/planner/types/planner';
 
 export const DAY_WIDTH = 120; // pixels per day in day view
 export const WEEK_DAY_WIDTH = 48; // pixels per day in week view
+export const MONTH_DAY_WIDTH = 16; // pixels per day in month view
+export const QUARTER_DAY_WIDTH = 6; // pixels per day in quarter view
 export const MIN_ROW_HEIGHT = 56; // minimum pixels per row
 export const TASK_HEIGHT = 40; // height of task bar
 export const TASK_GAP = 4; // gap between stacked tasks
@@ -34,9 +37,10 @@ export const getVisibleDays = (
   tasks: Array<{ startDate: string; endDate: string }> = []
 ): Date[] => {
   const date = parseISO(currentDate);
+  const paddingYears = viewMode === 'quarter' ? 2 : 1;
 
-  let rangeStart = subYears(date, 1);
-  let rangeEnd = addYears(date, 1);
+  let rangeStart = subYears(date, paddingYears);
+  let rangeEnd = addYears(date, paddingYears);
 
   if (tasks.length > 0) {
     const startDates = tasks.map((task) => parseISO(task.startDate));
@@ -44,11 +48,11 @@ export const getVisibleDays = (
     const minDate = min([date, ...startDates]);
     const maxDate = max([date, ...endDates]);
 
-    rangeStart = subYears(minDate, 1);
-    rangeEnd = addYears(maxDate, 1);
+    rangeStart = subYears(minDate, paddingYears);
+    rangeEnd = addYears(maxDate, paddingYears);
   }
 
-  if (viewMode === 'week') {
+  if (viewMode !== 'day') {
     rangeStart = startOfWeek(rangeStart, { weekStartsOn: 1 });
     rangeEnd = endOfWeek(rangeEnd, { weekStartsOn: 1 });
   }
@@ -58,9 +62,17 @@ export const getVisibleDays = (
 
 export const getDayWidth = (viewMode: ViewMode): number => {
   if (viewMode === 'day') return DAY_WIDTH;
+  if (viewMode === 'month') return MONTH_DAY_WIDTH;
+  if (viewMode === 'quarter') return QUARTER_DAY_WIDTH;
   return WEEK_DAY_WIDTH;
 };
 
+/** Zoomed-out views draw weeks instead of single days in the header. */
+export const isZoomedOutView = (viewMode: ViewMode) => viewMode === 'month' || viewMode === 'quarter';
+
+/** Gap between neighbouring task bars; shrinks with the day width so one-day tasks stay visible. */
+export const getTaskBarGap = (dayWidth: number) => Math.min(4, dayWidth / 4);
+
 export const getTaskPosition = (
   startDate: string,
   endDate: string,
@@ -83,7 +95,7 @@ export const getTaskPosition = (
   const duration = differenceInDays(taskEnd, taskStart) + 1;
   
   const left = startOffset * dayWidth;
-  const width = duration * dayWidth - 4; // 4px gap
+  const width = duration * dayWidth - getTaskBarGap(dayWidth);
   
   return { left, width };
 };
@@ -116,17 +128,91 @@ export const formatDayHeader = (date: Date, viewMode: ViewMode): { day: string;
   };
 };
 
+/**
+ * Date the timeline pages to: a week in day view, two weeks in week view,
+ * a month in month and calendar views, three months in quarter view.
+ */
+export const getPagedDate = (currentDate: string, viewMode: ViewMode, direction: 1 | -1): string => {
+  const date = parseISO(currentDate);
+  const next = viewMode === 'day'
+    ? addDays(date, 7 * direction)
+    : viewMode === 'month' || viewMode === 'calendar'
+    ? addMonths(date, direction)
+    : viewMode === 'quarter'
+    ? addMonths(date, 3 * direction)
+    : addWeeks(date, 2 * direction);
+  return format(next, 'yyyy-MM-dd');
+};
+
 export const isToday = (date: Date): boolean => {
   return isSameDay(date, new Date());
 };
 
+// Safety limit for walking over non-working days (a calendar with no workdays at all).
+const MAX_NON_WORKING_STREAK = 366;
+
+/** Nearest working day from `date` in the given direction; `date` itself when it is a working day. */
+export const snapToWorkingDay = (
+  date: Date,
+  isWorkingDay: (date: Date) => boolean,
+  direction: 1 | -1 = 1
+): Date => {
+  let cursor = date;
+  for (let step = 0; step < MAX_NON_WORKING_STREAK; step++) {
+    if (isWorkingDay(cursor)) return cursor;
+    cursor = addDays(cursor, direction);
+  }
+  return date;
+};
+
+export const countWorkingDays = (
+  startDate: string,
+  endDate: string,
+  isWorkingDay: (date: Date) => boolean
+): number => {
+  const end = parseISO(endDate);
+  let count = 0;
+  for (let cursor = parseISO(startDate); cursor <= end; cursor = addDays(cursor, 1)) {
+    if (isWorkingDay(cursor)) count++;
+  }
+  return count;
+};
+
+/** The working day `count` working days after `start` (which must itself be a working day). */
+export const addWorkingDays = (
+  start: Date,
+  count: number,
+  isWorkingDay: (date: Date) => boolean
+): Date => {
+  let cursor = start;
+  for (let added = 0; added < count; added++) {
+    cursor = snapToWorkingDay(addDays(cursor, 1), isWorkingDay);
+  }
+  return cursor;
+};
+
+/**
+ * Shifts a task by `daysDelta` calendar days.
+ * With `isWorkingDay` the start snaps off non-working days (in the drag direction)
+ * and the end is placed so the task keeps its number of working days.
+ */
 export const calculateNewDates = (
   originalStart: string,
   originalEnd: string,
-  daysDelta: number
+  daysDelta: number,
+  isWorkingDay?: (date: Date) => boolean
 ): { startDate: string; endDate: string } => {
   const start = parseISO(originalStart);
   const end = parseISO(originalEnd);
+  const workingDays = isWorkingDay ? countWorkingDays(originalStart, originalEnd, isWorkingDay) : 0;
+
+  if (isWorkingDay && workingDays > 0) {
+    const newStart = snapToWorkingDay(addDays(start, daysDelta), isWorkingDay, daysDelta < 0 ? -1 : 1);
+    return {
+      startDate: format(newStart, 'yyyy-MM-dd'),
+      endDate: format(addWorkingDays(newStart, workingDays - 1, isWorkingDay), 'yyyy-MM-dd'),
+    };
+  }
   
   return {
     startDate: format(addDays(start, daysDelta), 'yyyy-MM-dd'),
@@ -134,24 +220,28 @@ export const calculateNewDates = (
   };
 };
 
+/** Moves one edge of a task; with `isWorkingDay` the moved edge snaps inwards off non-working days. */
 export const calculateResizedDates = (
   originalStart: string,
   originalEnd: string,
   edge: 'left' | 'right',
-  daysDelta: number
+  daysDelta: number,
+  isWorkingDay?: (date: Date) => boolean
 ): { startDate: string; endDate: string } => {
   const start = parseISO(originalStart);
   const end = parseISO(originalEnd);
   
   if (edge === 'left') {
-    const newStart = addDays(start, daysDelta);
+    const shiftedStart = addDays(start, daysDelta);
+    const newStart = isWorkingDay ? snapToWorkingDay(shiftedStart, isWorkingDay, 1) : shiftedStart;
     // Ensure start doesn't go past end
     if (newStart > end) {
       return { startDate: format(end, 'yyyy-MM-dd'), endDate: format(end, 'yyyy-MM-dd') };
     }
     return { startDate: format(newStart, 'yyyy-MM-dd'), endDate: format(end, 'yyyy-MM-dd') };
   } else {
-    const newEnd = addDays(end, daysDelta);
+    const shiftedEnd = addDays(end, daysDelta);
+    const newEnd = isWorkingDay ? snapToWorkingDay(shiftedEnd, isWorkingDay, -1) : shiftedEnd;
     // Ensure end doesn't go before start
     if (newEnd < start) {
       return { startDate: format(start, 'yyyy-MM-dd'), endDate: format(start, 'yyyy-MM-dd') };
@@ -0,0 +1,145 @@
+import { addDays, format } from 'date-fns';
+
+type HolidayRule =
+  | { name: string; month: number; day: number }
+  | { name: string; month: number; weekday: number; nth: number }
+  | { name: string; easterOffset: number };
+
+export interface HolidayPreset {
+  code: string;
+  label: string;
+  rules: HolidayRule[];
+}
+
+/**
+ * Bundled public holidays, so the calendar works without network access.
+ * Months are 1-based, weekdays follow Date#getDay, `nth: -1` is the last weekday of the month.
+ * Government-decreed transfers and substitute days off are not covered:
+ * add them as custom holidays and extra workdays.
+ */
+export const HOLIDAY_PRESETS: HolidayPreset[] = [
+  {
+    code: 'RU',
+    label: 'Russia',
+    rules: [
+      { name: 'Новогодние каникулы', month: 1, day: 1 },
+      { name: 'Новогодние каникулы', month: 1, day: 2 },
+      { name: 'Новогодние каникулы', month: 1, day: 3 },
+      { name: 'Новогодние каникулы', month: 1, day: 4 },
+      { name: 'Новогодние каникулы', month: 1, day: 5 },
+      { name: 'Новогодние каникулы', month: 1, day: 6 },
+      { name: 'Рождество Христово', month: 1, day: 7 },
+      { name: 'Новогодние каникулы', month: 1, day: 8 },
+      { name: 'День защитника Отечества', month: 2, day: 23 },
+      { name: 'Международный женский день', month: 3, day: 8 },
+      { name: 'Праздник Весны и Труда', month: 5, day: 1 },
+      { name: 'День Победы', month: 5, day: 9 },
+      { name: 'День России', month: 6, day: 12 },
+      { name: 'День народного единства', month: 11, day: 4 },
+    ],
+  },
+  {
+    code: 'US',
+    label: 'United States',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Martin Luther King, Jr. Day', month: 1, weekday: 1, nth: 3 },
+      { name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+      { name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+      { name: 'Juneteenth', month: 6, day: 19 },
+      { name: 'Independence Day', month: 7, day: 4 },
+      { name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+      { name: 'Columbus Day', month: 10, weekday: 1, nth: 2 },
+      { name: 'Veterans Day', month: 11, day: 11 },
+      { name: 'Thanksgiving Day', month: 11, weekday: 4, nth: 4 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+    ],
+  },
+  {
+    code: 'GB',
+    label: 'United Kingdom',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Good Friday', easterOffset: -2 },
+      { name: 'Easter Monday', easterOffset: 1 },
+      { name: 'Early May bank holiday', month: 5, weekday: 1, nth: 1 },
+      { name: 'Spring bank holiday', month: 5, weekday: 1, nth: -1 },
+      { name: 'Summer bank holiday', month: 8, weekday: 1, nth: -1 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+      { name: 'Boxing Day', month: 12, day: 26 },
+    ],
+  },
+  {
+    code: 'DE',
+    label: 'Germany',
+    rules: [
+      { name: 'Neujahr', month: 1, day: 1 },
+      { name: 'Karfreitag', easterOffset: -2 },
+      { name: 'Ostermontag', easterOffset: 1 },
+      { name: 'Tag der Arbeit', month: 5, day: 1 },
+      { name: 'Christi Himmelfahrt', easterOffset: 39 },
+      { name: 'Pfingstmontag', easterOffset: 50 },
+      { name: 'Tag der Deutschen Einheit', month: 10, day: 3 },
+      { name: 'Erster Weihnachtstag', month: 12, day: 25 },
+      { name: 'Zweiter Weihnachtstag', month: 12, day: 26 },
+    ],
+  },
+];
+
+/** Western (Gregorian) Easter Sunday. */
+export const getEasterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const getNthWeekday = (year: number, month: number, weekday: number, nth: number) => {
+  if (nth > 0) {
+    const first = new Date(year, month - 1, 1);
+    const offset = (weekday - first.getDay() + 7) % 7;
+    return new Date(year, month - 1, 1 + offset + (nth - 1) * 7);
+  }
+  const last = new Date(year, month, 0);
+  const offset = (last.getDay() - weekday + 7) % 7;
+  return new Date(year, month - 1, last.getDate() - offset);
+};
+
+const resolveRule = (rule: HolidayRule, year: number) => {
+  if ('easterOffset' in rule) return addDays(getEasterSunday(year), rule.easterOffset);
+  if ('weekday' in rule) return getNthWeekday(year, rule.month, rule.weekday, rule.nth);
+  return new Date(year, rule.month - 1, rule.day);
+};
+
+const presetCache = new Map<string, Map<string, string[]>>();
+
+/** Holidays of a preset for one year, keyed by yyyy-MM-dd. */
+export const getPresetHolidays = (code: string | null, year: number) => {
+  const preset = HOLIDAY_PRESETS.find((item) => item.code === code);
+  if (!preset) return new Map<string, string[]>();
+  const cacheKey = `${preset.code}-${year}`;
+  const cached = presetCache.get(cacheKey);
+  if (cached) return cached;
+
+  const holidays = new Map<string, string[]>();
+  preset.rules.forEach((rule) => {
+    const key = format(resolveRule(rule, year), 'yyyy-MM-dd');
+    const names = holidays.get(key) ?? [];
+    if (!names.includes(rule.name)) {
+      holidays.set(key, [...names, rule.name]);
+    }
+  });
+  presetCache.set(cacheKey, holidays);
+  return holidays;
+};
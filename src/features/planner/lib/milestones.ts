@@ -0,0 +1,56 @@
+import { Milestone, Status, Task } from '@/features/planner/types/planner';
+
+export interface MilestoneProgress {
+  done: number;
+  total: number;
+  /** Linked tasks that are not done yet and end after the milestone date. */
+  lateTaskIds: string[];
+  atRisk: boolean;
+}
+
+type MilestoneDate = Pick<Milestone, 'id' | 'date'>;
+type LinkedTask = Pick<Task, 'id' | 'milestoneId' | 'statusId' | 'endDate'>;
+type StatusFlags = Pick<Status, 'id' | 'isFinal' | 'isCancelled'>;
+
+const createMilestoneProgress = (): MilestoneProgress => ({ done: 0, total: 0, lateTaskIds: [], atRisk: false });
+
+/** A task that is not final and ends after the milestone date puts the milestone at risk. */
+export const isTaskLateForMilestone = (
+  task: Pick<Task, 'endDate'>,
+  milestone: Pick<Milestone, 'date'>,
+  status: Pick<Status, 'isFinal'> | undefined,
+) => !status?.isFinal && task.endDate > milestone.date;
+
+/** Completion of the tasks linked to each milestone; cancelled tasks are left out. */
+export const getMilestoneProgressById = (
+  milestones: MilestoneDate[],
+  tasks: LinkedTask[],
+  statuses: StatusFlags[],
+) => {
+  const statusById = new Map(statuses.map((status) => [status.id, status]));
+  const milestoneById = new Map(milestones.map((milestone) => [milestone.id, milestone]));
+  const progressById = new Map<string, MilestoneProgress>(
+    milestones.map((milestone) => [milestone.id, createMilestoneProgress()]),
+  );
+
+  tasks.forEach((task) => {
+    if (!task.milestoneId) return;
+    const milestone = milestoneById.get(task.milestoneId);
+    const progress = progressById.get(task.milestoneId);
+    if (!milestone || !progress) return;
+    const status = statusById.get(task.statusId);
+    if (status?.isCancelled) return;
+    progress.total += 1;
+    if (status?.isFinal) progress.done += 1;
+    if (isTaskLateForMilestone(task, milestone, status)) {
+      progress.lateTaskIds.push(task.id);
+      progress.atRisk = true;
+    }
+  });
+
+  return progressById;
+};
+
+export const getMilestoneProgress = (milestone: MilestoneDate, tasks: LinkedTask[], statuses: StatusFlags[]) => (
+  getMilestoneProgressById([milestone], tasks, statuses).get(milestone.id) ?? createMilestoneProgress()
+);
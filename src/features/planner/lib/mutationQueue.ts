@@ -0,0 +1,109 @@
+export type MutationOperation = 'insert' | 'upsert' | 'update' | 'delete' | 'rpc';
+
+export interface MutationMatch {
+  column: string;
+  op: 'eq' | 'in' | 'gte';
+  value: string | string[];
+}
+
+/**
+ * A write against one Supabase table, stored as plain data so it can sit in IndexedDB
+ * while the connection is down and be replayed later in the same order.
+ * `rpc` calls the database function named by `table` with `payload` as its arguments.
+ */
+export interface QueuedMutation {
+  id?: number;
+  workspaceId: string;
+  table: string;
+  operation: MutationOperation;
+  payload?: Record<string, unknown> | Record<string, unknown>[];
+  match?: MutationMatch[];
+  /** Unique columns an upsert resolves conflicts on when it is not the primary key. */
+  onConflict?: string;
+  createdAt: number;
+}
+
+const DB_NAME = 'timeline-buddy-offline';
+const STORE_NAME = 'mutations';
+
+// Без IndexedDB (SSR, тесты) очередь живёт в памяти до перезагрузки страницы.
+const memoryQueue: QueuedMutation[] = [];
+let memoryQueueId = 1;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const hasIndexedDb = () => typeof indexedDB !== 'undefined';
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const enqueueMutation = async (mutation: Omit<QueuedMutation, 'id'>) => {
+  if (!hasIndexedDb()) {
+    memoryQueue.push({ ...mutation, id: memoryQueueId++ });
+    return;
+  }
+  await runRequest('readwrite', (store) => store.add(mutation));
+};
+
+/** Queued mutations in the order they were made. */
+export const readQueuedMutations = async (): Promise<QueuedMutation[]> => {
+  if (!hasIndexedDb()) return [...memoryQueue];
+  const rows = await runRequest<QueuedMutation[]>('readonly', (store) => store.getAll());
+  return rows.sort((left, right) => (left.id ?? 0) - (right.id ?? 0));
+};
+
+export const removeQueuedMutation = async (id: number) => {
+  if (!hasIndexedDb()) {
+    const index = memoryQueue.findIndex((item) => item.id === id);
+    if (index !== -1) memoryQueue.splice(index, 1);
+    return;
+  }
+  await runRequest('readwrite', (store) => store.delete(id));
+};
+
+export const countQueuedMutations = async () => {
+  if (!hasIndexedDb()) return memoryQueue.length;
+  return runRequest<number>('readonly', (store) => store.count());
+};
+
+/**
+ * Whether a failed request should be retried later rather than treated as a rejection:
+ * the browser is offline, the request never reached the server, or the gateway is down.
+ */
+export const isRetryableFailure = (status: number, message: string) => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  if (status === 0 || status >= 500) return true;
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+export type PlannerMutation = Omit<QueuedMutation, 'id' | 'createdAt'>;
+
+export type MutationOutcome =
+  | { status: 'applied'; rows: Record<string, unknown>[] }
+  | { status: 'queued' }
+  | { status: 'rejected'; message: string };
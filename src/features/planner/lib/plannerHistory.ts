@@ -0,0 +1,169 @@
+import { ChecklistItem, Milestone, Task, TaskDependency, TaskSeries } from '@/features/planner/types/planner';
+
+export type PlannerHistoryKind =
+  | 'updateTasks'
+  | 'createTasks'
+  | 'deleteTasks'
+  | 'updateTaskSeries'
+  | 'deleteTaskSeries'
+  | 'createMilestone'
+  | 'updateMilestone'
+  | 'deleteMilestone';
+
+/** State of one record before and after an operation; `null` means the record did not exist. */
+export interface HistorySnapshot<T> {
+  id: string;
+  before: T | null;
+  after: T | null;
+}
+
+export interface PlannerHistoryEntry {
+  id: number;
+  kind: PlannerHistoryKind;
+  createdAt: number;
+  tasks: HistorySnapshot<Task>[];
+  milestones: HistorySnapshot<Milestone>[];
+  /** Links that were removed together with deleted tasks and have to come back on undo. */
+  dependencies: TaskDependency[];
+  /**
+   * Checklist items of deleted tasks. The server puts them back itself when the task row is
+   * re-inserted (see the task_trash migration); this copy only restores the local state.
+   */
+  checklistItems: ChecklistItem[];
+  /** Tasks whose link to a deleted milestone was cleared and has to be set again on undo. */
+  milestoneLinks: MilestoneLink[];
+  /** Repeat rules and templates of task series. */
+  taskSeries: HistorySnapshot<TaskSeries>[];
+  /**
+   * Dates the operation excluded from a series (a deleted or separately saved repeat).
+   * They are added and removed one by one, so exclusions made by others in between are kept.
+   */
+  exdates: SeriesExdates[];
+}
+
+export interface SeriesExdates {
+  seriesId: string;
+  dates: string[];
+}
+
+export interface MilestoneLink {
+  milestoneId: string;
+  taskIds: string[];
+}
+
+export type HistorySide = 'before' | 'after';
+
+export const HISTORY_LIMIT = 50;
+
+// Typing in the task title fires an update per keystroke; such edits collapse into one step.
+export const HISTORY_COALESCE_MS = 1500;
+
+let nextHistoryEntryId = 1;
+
+/** Id the next created entry will get: entries with this id or higher were recorded after the call. */
+export const getNextHistoryEntryId = () => nextHistoryEntryId;
+
+export const createHistoryEntry = (
+  kind: PlannerHistoryKind,
+  changes: Partial<Omit<PlannerHistoryEntry, 'id' | 'kind' | 'createdAt'>>,
+): PlannerHistoryEntry => ({
+  id: nextHistoryEntryId++,
+  kind,
+  createdAt: Date.now(),
+  tasks: changes.tasks ?? [],
+  milestones: changes.milestones ?? [],
+  dependencies: changes.dependencies ?? [],
+  checklistItems: changes.checklistItems ?? [],
+  milestoneLinks: changes.milestoneLinks ?? [],
+  taskSeries: changes.taskSeries ?? [],
+  exdates: changes.exdates ?? [],
+});
+
+/** Number of tasks and repeats an entry removed or changed, for messages like "3 tasks deleted". */
+export const countHistoryTasks = (entry: PlannerHistoryEntry) => (
+  entry.tasks.length + entry.exdates.reduce((count, item) => count + item.dates.length, 0)
+);
+
+const mergeSnapshots = <T>(previous: HistorySnapshot<T>[], next: HistorySnapshot<T>[]) => {
+  const merged = new Map(previous.map((snapshot) => [snapshot.id, snapshot]));
+  next.forEach((snapshot) => {
+    const earlier = merged.get(snapshot.id);
+    merged.set(snapshot.id, earlier ? { ...snapshot, before: earlier.before } : snapshot);
+  });
+  return Array.from(merged.values());
+};
+
+/**
+ * One entry that undoes both operations: every record goes back to its state before `previous`
+ * and forward to its state after `next`.
+ */
+export const mergeHistoryEntries = (previous: PlannerHistoryEntry, next: PlannerHistoryEntry): PlannerHistoryEntry => ({
+  ...next,
+  tasks: mergeSnapshots(previous.tasks, next.tasks),
+  milestones: mergeSnapshots(previous.milestones, next.milestones),
+  dependencies: [...previous.dependencies, ...next.dependencies],
+  checklistItems: [...previous.checklistItems, ...next.checklistItems],
+  milestoneLinks: [...previous.milestoneLinks, ...next.milestoneLinks],
+  taskSeries: mergeSnapshots(previous.taskSeries, next.taskSeries),
+  exdates: [...previous.exdates, ...next.exdates],
+});
+
+export const isDestructiveHistoryEntry = (entry: PlannerHistoryEntry) => (
+  entry.kind === 'deleteTasks' || entry.kind === 'deleteTaskSeries' || entry.kind === 'deleteMilestone'
+);
+
+const canCoalesce = (previous: PlannerHistoryEntry, next: PlannerHistoryEntry) => (
+  previous.kind === 'updateTasks'
+  && next.kind === 'updateTasks'
+  && previous.tasks.length === 1
+  && next.tasks.length === 1
+  && previous.tasks[0].id === next.tasks[0].id
+  && next.createdAt - previous.createdAt <= HISTORY_COALESCE_MS
+);
+
+/**
+ * Push an entry onto the undo stack, merging rapid edits of the same task and
+ * dropping the oldest entries past the limit.
+ */
+export const pushHistoryEntry = (stack: PlannerHistoryEntry[], entry: PlannerHistoryEntry) => {
+  const previous = stack[stack.length - 1];
+  if (previous && canCoalesce(previous, entry)) {
+    return [...stack.slice(0, -1), mergeHistoryEntries(previous, entry)];
+  }
+  return [...stack, entry].slice(-HISTORY_LIMIT);
+};
+
+/**
+ * What has to be written or removed to bring the records of an entry to one of its sides.
+ */
+export const getHistoryTargets = (entry: PlannerHistoryEntry, side: HistorySide) => {
+  const opposite: HistorySide = side === 'before' ? 'after' : 'before';
+  const upsertTasks = entry.tasks.flatMap((snapshot) => (snapshot[side] ? [snapshot[side]!] : []));
+  const deleteTaskIds = entry.tasks.filter((snapshot) => !snapshot[side]).map((snapshot) => snapshot.id);
+  const upsertMilestones = entry.milestones.flatMap((snapshot) => (snapshot[side] ? [snapshot[side]!] : []));
+  const deleteMilestoneIds = entry.milestones
+    .filter((snapshot) => !snapshot[side])
+    .map((snapshot) => snapshot.id);
+  const recreatesTasks = entry.tasks.some((snapshot) => snapshot[side] && !snapshot[opposite]);
+  const recreatesMilestones = entry.milestones.some((snapshot) => snapshot[side] && !snapshot[opposite]);
+  const upsertTaskSeries = entry.taskSeries.flatMap((snapshot) => (snapshot[side] ? [snapshot[side]!] : []));
+  const deleteTaskSeriesIds = entry.taskSeries
+    .filter((snapshot) => !snapshot[side])
+    .map((snapshot) => snapshot.id);
+  // A series that does not exist on this side has no dates to change.
+  const exdates = entry.exdates.filter((item) => !deleteTaskSeriesIds.includes(item.seriesId));
+
+  return {
+    upsertTasks,
+    deleteTaskIds,
+    upsertMilestones,
+    deleteMilestoneIds,
+    restoreDependencies: recreatesTasks ? entry.dependencies : [],
+    restoreChecklistItems: recreatesTasks ? entry.checklistItems : [],
+    restoreMilestoneLinks: recreatesMilestones ? entry.milestoneLinks : [],
+    upsertTaskSeries,
+    deleteTaskSeriesIds,
+    addExdates: side === 'after' ? exdates : [],
+    removeExdates: side === 'before' ? exdates : [],
+  };
+};
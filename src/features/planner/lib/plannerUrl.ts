@@ -0,0 +1,75 @@
+import { isValid, parseISO } from 'date-fns';
+import { Filters, GroupMode, ViewMode } from '@/features/planner/types/planner';
+import { FILTER_ID_KEYS } from '@/features/planner/lib/plannerViews';
+
+export interface PlannerUrlState {
+  viewMode: ViewMode;
+  groupMode: GroupMode;
+  currentDate: string;
+  filters: Filters;
+  selectedTaskId: string | null;
+}
+
+const VIEW_MODES: ViewMode[] = ['day', 'week', 'month', 'quarter', 'calendar'];
+const GROUP_MODES: GroupMode[] = [
+  'assignee',
+  'project',
+  'status',
+  'type',
+  'tag',
+  'customer',
+  'group',
+  'customer_project',
+  'group_assignee',
+];
+
+const FILTER_PARAMS: Record<typeof FILTER_ID_KEYS[number], string> = {
+  projectIds: 'projects',
+  assigneeIds: 'people',
+  groupIds: 'groups',
+  statusIds: 'statuses',
+  typeIds: 'types',
+  tagIds: 'tags',
+};
+
+const PLANNER_PARAMS = ['view', 'group', 'date', 'task', 'hideUnassigned', ...Object.values(FILTER_PARAMS)];
+
+const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+/**
+ * Planner state from a shared link. Returns null when the query string carries no planner params;
+ * otherwise missing filters mean "no filters", so the link shows the same tasks for everyone.
+ */
+export const parsePlannerSearchParams = (params: URLSearchParams): Partial<PlannerUrlState> | null => {
+  if (!PLANNER_PARAMS.some((key) => params.has(key))) return null;
+
+  const state: Partial<PlannerUrlState> = {};
+  const view = params.get('view');
+  if (view && VIEW_MODES.includes(view as ViewMode)) state.viewMode = view as ViewMode;
+  const group = params.get('group');
+  if (group && GROUP_MODES.includes(group as GroupMode)) state.groupMode = group as GroupMode;
+  const date = params.get('date');
+  if (date && isIsoDate(date)) state.currentDate = date;
+  const task = params.get('task');
+  if (task) state.selectedTaskId = task;
+
+  const filters = { hideUnassigned: params.get('hideUnassigned') === '1' } as Filters;
+  FILTER_ID_KEYS.forEach((key) => {
+    filters[key] = (params.get(FILTER_PARAMS[key]) ?? '').split(',').filter(Boolean);
+  });
+  state.filters = filters;
+  return state;
+};
+
+export const buildPlannerSearchParams = (state: PlannerUrlState) => {
+  const params = new URLSearchParams();
+  params.set('view', state.viewMode);
+  params.set('group', state.groupMode);
+  params.set('date', state.currentDate);
+  FILTER_ID_KEYS.forEach((key) => {
+    if (state.filters[key].length > 0) params.set(FILTER_PARAMS[key], state.filters[key].join(','));
+  });
+  if (state.filters.hideUnassigned) params.set('hideUnassigned', '1');
+  if (state.selectedTaskId) params.set('task', state.selectedTaskId);
+  return params;
+};
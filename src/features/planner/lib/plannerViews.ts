@@ -0,0 +1,44 @@
+import { Filters, GroupMode, PlannerView, ViewMode } from '@/features/planner/types/planner';
+
+const normalizeFilterIds = (value: unknown) => (
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : []
+);
+
+/** Filters from untrusted JSON (local storage, saved views); unknown fields are dropped. */
+export const normalizeFilters = (value: unknown): Filters => {
+  const candidate = value && typeof value === 'object' ? (value as Partial<Filters>) : {};
+  return {
+    projectIds: normalizeFilterIds(candidate.projectIds),
+    assigneeIds: normalizeFilterIds(candidate.assigneeIds),
+    groupIds: normalizeFilterIds(candidate.groupIds),
+    statusIds: normalizeFilterIds(candidate.statusIds),
+    typeIds: normalizeFilterIds(candidate.typeIds),
+    tagIds: normalizeFilterIds(candidate.tagIds),
+    hideUnassigned: typeof candidate.hideUnassigned === 'boolean' ? candidate.hideUnassigned : false,
+  };
+};
+
+export const FILTER_ID_KEYS = ['projectIds', 'assigneeIds', 'groupIds', 'statusIds', 'typeIds', 'tagIds'] as const;
+
+const sameIds = (left: string[], right: string[]) => {
+  if (left.length !== right.length) return false;
+  const rightSet = new Set(right);
+  return left.every((id) => rightSet.has(id));
+};
+
+export const areFiltersEqual = (left: Filters, right: Filters) => (
+  left.hideUnassigned === right.hideUnassigned
+  && FILTER_ID_KEYS.every((key) => sameIds(left[key], right[key]))
+);
+
+/** Whether the planner has drifted from a saved view. Scrolling away from the view's date anchor is not a change. */
+export const isViewModified = (
+  view: PlannerView,
+  current: { filters: Filters; viewMode: ViewMode; groupMode: GroupMode },
+) => (
+  view.viewMode !== current.viewMode
+  || view.groupMode !== current.groupMode
+  || !areFiltersEqual(view.filters, current.filters)
+);
@@ -0,0 +1,145 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+  Assignee,
+  Milestone,
+  ProjectTemplate,
+  Task,
+  TaskPriority,
+} from '@/features/planner/types/planner';
+
+export type ProjectTemplatePlan = Pick<ProjectTemplate, 'tasks' | 'milestones'>;
+
+/** Tasks and milestones with real dates, ready to be inserted for a new project. */
+export interface ProjectPlan {
+  tasks: Array<Omit<Task, 'id' | 'projectId' | 'repeatId' | 'milestoneId'>>;
+  milestones: Array<Pick<Milestone, 'title' | 'date'>>;
+}
+
+const toIsoDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+);
+
+const toStringList = (value: unknown) => (
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+);
+
+const toDays = (value: unknown) => (
+  typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : 0
+);
+
+/** Plan from untrusted JSON (the template's jsonb columns); entries without a title are dropped. */
+export const normalizeProjectTemplatePlan = (tasks: unknown, milestones: unknown): ProjectTemplatePlan => ({
+  tasks: (Array.isArray(tasks) ? tasks : [])
+    .filter(isRecord)
+    .filter((item) => typeof item.title === 'string' && item.title.trim() !== '')
+    .map((item) => ({
+      title: item.title as string,
+      offsetDays: toDays(item.offsetDays),
+      durationDays: Math.max(0, toDays(item.durationDays)),
+      typeId: typeof item.typeId === 'string' ? item.typeId : null,
+      priority: TASK_PRIORITIES.find((priority) => priority === item.priority) ?? null,
+      tagIds: toStringList(item.tagIds),
+      description: typeof item.description === 'string' ? item.description : null,
+      estimateHours: typeof item.estimateHours === 'number' ? item.estimateHours : null,
+      roles: toStringList(item.roles),
+    })),
+  milestones: (Array.isArray(milestones) ? milestones : [])
+    .filter(isRecord)
+    .filter((item) => typeof item.title === 'string' && item.title.trim() !== '')
+    .map((item) => ({ title: item.title as string, offsetDays: toDays(item.offsetDays) })),
+});
+
+/** Placeholders in the order they first appear. */
+export const getProjectTemplateRoles = (template: ProjectTemplatePlan) => (
+  Array.from(new Set(template.tasks.flatMap((task) => task.roles)))
+);
+
+/**
+ * Template plan of an existing project. Offsets count from its earliest task or milestone;
+ * every assignee becomes a placeholder named after them.
+ */
+export const buildProjectTemplatePlan = (
+  tasks: Task[],
+  milestones: Milestone[],
+  assignees: Assignee[],
+): ProjectTemplatePlan => {
+  const dates = [...tasks.map((task) => task.startDate), ...milestones.map((milestone) => milestone.date)].sort();
+  if (dates.length === 0) return { tasks: [], milestones: [] };
+  const start = parseISO(dates[0]);
+  const getOffset = (date: string) => differenceInCalendarDays(parseISO(date), start);
+  const nameById = new Map(assignees.map((assignee) => [assignee.id, assignee.name]));
+
+  return {
+    tasks: [...tasks]
+      .sort((left, right) => left.startDate.localeCompare(right.startDate))
+      .map((task) => ({
+        title: task.title,
+        offsetDays: getOffset(task.startDate),
+        durationDays: Math.max(0, differenceInCalendarDays(parseISO(task.endDate), parseISO(task.startDate))),
+        typeId: task.typeId,
+        priority: task.priority,
+        tagIds: [...task.tagIds],
+        description: task.description,
+        estimateHours: task.estimateHours,
+        roles: Array.from(new Set(
+          task.assigneeIds
+            .map((id) => nameById.get(id))
+            .filter((name): name is string => Boolean(name)),
+        )),
+      })),
+    milestones: [...milestones]
+      .sort((left, right) => left.date.localeCompare(right.date))
+      .map((milestone) => ({ title: milestone.title, offsetDays: getOffset(milestone.date) })),
+  };
+};
+
+/** Placeholders that match an active assignee by name start out mapped to them. */
+export const getDefaultRoleAssignees = (roles: string[], assignees: Assignee[]) => {
+  const idByName = new Map(
+    assignees
+      .filter((assignee) => assignee.isActive)
+      .map((assignee) => [assignee.name.trim().toLowerCase(), assignee.id]),
+  );
+  return Object.fromEntries(roles.map((role) => [role, idByName.get(role.trim().toLowerCase()) ?? null]));
+};
+
+/**
+ * Dates from `startDate`, placeholders replaced with the mapped assignees.
+ * New tasks get the default status; a task type that no longer exists falls back to the first one.
+ */
+export const buildProjectPlan = (
+  template: ProjectTemplatePlan,
+  startDate: string,
+  roleAssignees: Record<string, string | null>,
+  defaults: { statusId: string; typeIds: string[] },
+): ProjectPlan => {
+  const start = parseISO(startDate);
+  const getDate = (offsetDays: number) => toIsoDate(addDays(start, offsetDays));
+
+  return {
+    tasks: template.tasks.map((task) => ({
+      title: task.title,
+      startDate: getDate(task.offsetDays),
+      endDate: getDate(task.offsetDays + task.durationDays),
+      statusId: defaults.statusId,
+      typeId: task.typeId && defaults.typeIds.includes(task.typeId) ? task.typeId : defaults.typeIds[0],
+      priority: task.priority,
+      tagIds: [...task.tagIds],
+      description: task.description,
+      estimateHours: task.estimateHours,
+      assigneeIds: Array.from(new Set(
+        task.roles
+          .map((role) => roleAssignees[role])
+          .filter((id): id is string => Boolean(id)),
+      )),
+    })),
+    milestones: template.milestones.map((milestone) => ({
+      title: milestone.title,
+      date: getDate(milestone.offsetDays),
+    })),
+  };
+};
@@ -0,0 +1,483 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  endOfMonth,
+  format,
+  getDaysInMonth,
+  isSameMonth,
+  isSameYear,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Task, TaskSeries } from '@/features/planner/types/planner';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/** Monday first, as in the timeline. */
+export const RECURRENCE_WEEKDAYS: RecurrenceWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export const WORKWEEK_DAYS: RecurrenceWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+/**
+ * The RRULE subset the planner supports: FREQ, INTERVAL, BYDAY, COUNT and UNTIL.
+ * Monthly rules use BYDAY with a position ("2TU", "-1FR") for the nth weekday of the month.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  /** Daily and weekly rules only; empty means every day, or the start weekday for weekly rules. */
+  byWeekday: RecurrenceWeekday[];
+  /** Monthly rules only; null repeats on the day of month of the start date. */
+  monthlyWeekday: { position: number; weekday: RecurrenceWeekday } | null;
+  count: number | null;
+  until: string | null; // ISO date, inclusive
+}
+
+const FREQUENCY_BY_TOKEN: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+
+const isWeekday = (value: string): value is RecurrenceWeekday => (
+  (RECURRENCE_WEEKDAYS as string[]).includes(value)
+);
+
+// Date#getDay (Sunday = 0) -> RRULE weekday.
+const getRecurrenceWeekday = (date: Date) => RECURRENCE_WEEKDAYS[(date.getDay() + 6) % 7];
+
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/** Returns null for malformed rules and for parts outside the supported subset. */
+export const parseRRule = (value: string): RecurrenceRule | null => {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  if (!body) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    const [key, partValue] = part.split('=');
+    if (!key || partValue === undefined) return null;
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const frequency = FREQUENCY_BY_TOKEN[parts.get('FREQ') ?? ''];
+  if (!frequency) return null;
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: 1,
+    byWeekday: [],
+    monthlyWeekday: null,
+    count: null,
+    until: null,
+  };
+
+  for (const [key, partValue] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = Number(partValue);
+        if (!Number.isInteger(interval) || interval < 1) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'COUNT': {
+        const count = Number(partValue);
+        if (!Number.isInteger(count) || count < 1) return null;
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(partValue);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+      case 'BYDAY': {
+        const days = partValue.split(',');
+        if (frequency === 'monthly') {
+          const match = days.length === 1 ? /^(-1|[1-4])(MO|TU|WE|TH|FR|SA|SU)$/.exec(days[0]) : null;
+          if (!match) return null;
+          rule.monthlyWeekday = { position: Number(match[1]), weekday: match[2] as RecurrenceWeekday };
+          break;
+        }
+        if (frequency === 'yearly' || !days.every(isWeekday)) return null;
+        rule.byWeekday = RECURRENCE_WEEKDAYS.filter((day) => days.includes(day));
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  if (rule.count !== null && rule.until !== null) return null;
+  return rule;
+};
+
+export const formatRRule = (rule: RecurrenceRule) => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === 'monthly' && rule.monthlyWeekday) {
+    parts.push(`BYDAY=${rule.monthlyWeekday.position}${rule.monthlyWeekday.weekday}`);
+  } else if ((rule.frequency === 'daily' || rule.frequency === 'weekly') && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${RECURRENCE_WEEKDAYS.filter((day) => rule.byWeekday.includes(day)).join(',')}`);
+  }
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  }
+  return parts.join(';');
+};
+
+const getNthWeekdayOfMonth = (month: Date, position: number, weekday: RecurrenceWeekday) => {
+  const target = RECURRENCE_WEEKDAYS.indexOf(weekday);
+  if (position < 0) {
+    const last = endOfMonth(month);
+    const offset = (RECURRENCE_WEEKDAYS.indexOf(getRecurrenceWeekday(last)) - target + 7) % 7;
+    return addDays(last, -offset);
+  }
+  const first = startOfMonth(month);
+  const offset = (target - RECURRENCE_WEEKDAYS.indexOf(getRecurrenceWeekday(first)) + 7) % 7;
+  const date = addDays(first, offset + (position - 1) * 7);
+  return isSameMonth(date, month) ? date : null;
+};
+
+// Dates of one period (day, week, month or year) of the rule, in order.
+const getPeriodDates = (rule: RecurrenceRule, start: Date, index: number): { periodStart: Date; dates: Date[] } => {
+  const step = index * rule.interval;
+  switch (rule.frequency) {
+    case 'daily': {
+      const day = addDays(start, step);
+      const matches = rule.byWeekday.length === 0 || rule.byWeekday.includes(getRecurrenceWeekday(day));
+      return { periodStart: day, dates: matches ? [day] : [] };
+    }
+    case 'weekly': {
+      const week = addWeeks(startOfWeek(start, { weekStartsOn: 1 }), step);
+      const weekdays = rule.byWeekday.length > 0 ? rule.byWeekday : [getRecurrenceWeekday(start)];
+      return {
+        periodStart: week,
+        dates: RECURRENCE_WEEKDAYS
+          .map((day, dayIndex) => (weekdays.includes(day) ? addDays(week, dayIndex) : null))
+          .filter((date): date is Date => date !== null),
+      };
+    }
+    case 'monthly': {
+      const month = addMonths(startOfMonth(start), step);
+      if (rule.monthlyWeekday) {
+        const date = getNthWeekdayOfMonth(month, rule.monthlyWeekday.position, rule.monthlyWeekday.weekday);
+        return { periodStart: month, dates: date ? [date] : [] };
+      }
+      // As in RFC 5545, months without this day (the 31st, February 30) are skipped.
+      const dayOfMonth = start.getDate();
+      return {
+        periodStart: month,
+        dates: dayOfMonth <= getDaysInMonth(month)
+          ? [new Date(month.getFullYear(), month.getMonth(), dayOfMonth)]
+          : [],
+      };
+    }
+    case 'yearly': {
+      const year = addYears(new Date(start.getFullYear(), 0, 1), step);
+      const date = new Date(year.getFullYear(), start.getMonth(), start.getDate());
+      return { periodStart: year, dates: date.getMonth() === start.getMonth() ? [date] : [] };
+    }
+  }
+};
+
+const getPeriodsBefore = (rule: RecurrenceRule, start: Date, target: Date) => {
+  switch (rule.frequency) {
+    case 'daily':
+      return differenceInCalendarDays(target, start);
+    case 'weekly':
+      return differenceInCalendarWeeks(target, start, { weekStartsOn: 1 });
+    case 'monthly':
+      return differenceInCalendarMonths(target, start);
+    case 'yearly':
+      return target.getFullYear() - start.getFullYear();
+  }
+};
+
+/**
+ * Occurrence dates of the rule between `from` and `to` (ISO dates, inclusive).
+ * Dates before `startDate` or not matching the rule are never produced; COUNT is counted from `startDate`.
+ */
+export const expandRecurrence = (rule: RecurrenceRule, startDate: string, from: string, to: string): string[] => {
+  const start = parseISO(startDate);
+  const rangeEnd = rule.until && rule.until < to ? rule.until : to;
+  if (rangeEnd < startDate || rangeEnd < from) return [];
+
+  // Without COUNT nothing before the window needs counting, so jump close to it.
+  let index = 0;
+  if (rule.count === null && from > startDate) {
+    index = Math.max(0, Math.floor(getPeriodsBefore(rule, start, parseISO(from)) / rule.interval) - 1);
+  }
+
+  const dates: string[] = [];
+  let produced = 0;
+  for (;; index += 1) {
+    const { periodStart, dates: periodDates } = getPeriodDates(rule, start, index);
+    if (format(periodStart, 'yyyy-MM-dd') > rangeEnd) break;
+    for (const date of periodDates) {
+      const value = format(date, 'yyyy-MM-dd');
+      if (value < startDate) continue;
+      if (value > rangeEnd) return dates;
+      produced += 1;
+      if (rule.count !== null && produced > rule.count) return dates;
+      if (value >= from) dates.push(value);
+    }
+  }
+  return dates;
+};
+
+const OCCURRENCE_PREFIX = 'occurrence:';
+
+/** Occurrences that were not edited yet have no row; their id encodes the series and the date. */
+export const getOccurrenceId = (seriesId: string, date: string) => `${OCCURRENCE_PREFIX}${seriesId}:${date}`;
+
+export const isOccurrenceId = (id: string) => id.startsWith(OCCURRENCE_PREFIX);
+
+export const parseOccurrenceId = (id: string) => {
+  if (!isOccurrenceId(id)) return null;
+  const value = id.slice(OCCURRENCE_PREFIX.length);
+  const separator = value.lastIndexOf(':');
+  if (separator < 0) return null;
+  return { seriesId: value.slice(0, separator), date: value.slice(separator + 1) };
+};
+
+export const createOccurrenceTask = (series: TaskSeries, date: string): Task => ({
+  ...series.template,
+  assigneeIds: [...series.template.assigneeIds],
+  tagIds: [...series.template.tagIds],
+  id: getOccurrenceId(series.id, date),
+  startDate: date,
+  endDate: format(addDays(parseISO(date), series.durationDays), 'yyyy-MM-dd'),
+  repeatId: series.id,
+  milestoneId: null,
+});
+
+/** Fields every new occurrence copies from the task the series was created from. */
+export const getSeriesTemplate = (task: Task): TaskSeries['template'] => ({
+  title: task.title,
+  projectId: task.projectId,
+  assigneeIds: [...task.assigneeIds],
+  statusId: task.statusId,
+  typeId: task.typeId,
+  priority: task.priority,
+  tagIds: [...task.tagIds],
+  description: task.description,
+  estimateHours: task.estimateHours,
+});
+
+/** Unedited occurrences of the series that overlap `from`..`to`. */
+export const expandTaskSeries = (series: TaskSeries, from: string, to: string): Task[] => {
+  const rule = parseRRule(series.rrule);
+  if (!rule) return [];
+  const exdates = new Set(series.exdates);
+  // An occurrence that starts before the window may still reach into it.
+  const windowStart = format(addDays(parseISO(from), -series.durationDays), 'yyyy-MM-dd');
+  return expandRecurrence(rule, series.startDate, windowStart, to)
+    .filter((date) => !exdates.has(date))
+    .map((date) => createOccurrenceTask(series, date));
+};
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+/**
+ * Ends the series the day before `fromDate`. COUNT rules keep the number of occurrences before it.
+ * Returns null when no occurrence is left.
+ */
+export const truncateTaskSeries = (series: TaskSeries, fromDate: string): TaskSeries | null => {
+  const rule = parseRRule(series.rrule);
+  if (!rule || fromDate <= series.startDate) return null;
+  const lastDate = shiftDate(fromDate, -1);
+  const keptDates = expandRecurrence(rule, series.startDate, series.startDate, lastDate);
+  if (keptDates.length === 0) return null;
+  return {
+    ...series,
+    rrule: formatRRule(rule.count !== null
+      ? { ...rule, count: keptDates.length }
+      : { ...rule, until: rule.until && rule.until < lastDate ? rule.until : lastDate }),
+    exdates: series.exdates.filter((date) => date < fromDate),
+  };
+};
+
+/** Splits the series at `fromDate`: the tail gets `tailId` and the occurrences left to it. */
+export const splitTaskSeries = (series: TaskSeries, fromDate: string, tailId: string) => {
+  const head = truncateTaskSeries(series, fromDate);
+  const rule = parseRRule(series.rrule);
+  if (!rule) return { head, tail: null };
+  const usedCount = rule.count !== null && head
+    ? expandRecurrence(rule, series.startDate, series.startDate, shiftDate(fromDate, -1)).length
+    : 0;
+  if (rule.count !== null && usedCount >= rule.count) return { head, tail: null };
+  const tail: TaskSeries = {
+    ...series,
+    id: tailId,
+    rrule: formatRRule({ ...rule, count: rule.count !== null ? rule.count - usedCount : null }),
+    startDate: fromDate,
+    exdates: series.exdates.filter((date) => date >= fromDate),
+  };
+  return { head, tail };
+};
+
+/** Change of one occurrence that is carried over to the rest of its series. */
+export interface TaskSeriesEdit {
+  /** Changed fields other than dates. */
+  updates: Partial<Task>;
+  startShift: number; // days
+  endShift: number; // days
+}
+
+export const getTaskSeriesEdit = (before: Task, after: Task): TaskSeriesEdit => {
+  const previous = getSeriesTemplate(before);
+  const next = getSeriesTemplate(after);
+  const updates: Partial<Task> = {};
+  (Object.keys(next) as Array<keyof TaskSeries['template']>).forEach((key) => {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      Object.assign(updates, { [key]: next[key] });
+    }
+  });
+  return {
+    updates,
+    startShift: differenceInCalendarDays(parseISO(after.startDate), parseISO(before.startDate)),
+    endShift: differenceInCalendarDays(parseISO(after.endDate), parseISO(before.endDate)),
+  };
+};
+
+export const isEmptyTaskSeriesEdit = (edit: TaskSeriesEdit) => (
+  Object.keys(edit.updates).length === 0 && edit.startShift === 0 && edit.endShift === 0
+);
+
+/** New dates of another occurrence: the same relative shift, never ending before it starts. */
+export const shiftTaskDates = (task: Pick<Task, 'startDate' | 'endDate'>, edit: TaskSeriesEdit) => {
+  if (edit.startShift === 0 && edit.endShift === 0) return {};
+  const startDate = shiftDate(task.startDate, edit.startShift);
+  const endDate = shiftDate(task.endDate, edit.endShift);
+  return { startDate, endDate: endDate < startDate ? startDate : endDate };
+};
+
+// Weekdays, the nth weekday of the month and UNTIL follow the new start date.
+const shiftRule = (rule: RecurrenceRule, startDate: string, shift: number): RecurrenceRule => {
+  if (shift === 0) return rule;
+  const steps = ((shift % 7) + 7) % 7;
+  const shiftedWeekdays = rule.byWeekday.map((day) => RECURRENCE_WEEKDAYS[(RECURRENCE_WEEKDAYS.indexOf(day) + steps) % 7]);
+  return {
+    ...rule,
+    byWeekday: RECURRENCE_WEEKDAYS.filter((day) => shiftedWeekdays.includes(day)),
+    monthlyWeekday: rule.monthlyWeekday ? getMonthlyWeekday(startDate, rule.monthlyWeekday.position < 0) : null,
+    until: rule.until ? shiftDate(rule.until, shift) : null,
+  };
+};
+
+export const applyTaskSeriesEdit = (series: TaskSeries, edit: TaskSeriesEdit): TaskSeries => {
+  const startDate = shiftDate(series.startDate, edit.startShift);
+  const rule = parseRRule(series.rrule);
+  return {
+    ...series,
+    rrule: rule ? formatRRule(shiftRule(rule, startDate, edit.startShift)) : series.rrule,
+    startDate,
+    durationDays: Math.max(0, series.durationDays + edit.endShift - edit.startShift),
+    exdates: series.exdates.map((date) => shiftDate(date, edit.startShift)),
+    template: { ...series.template, ...edit.updates },
+  };
+};
+
+/** Form state of the repeat editor in the task dialogs. */
+export interface RecurrenceDraft {
+  frequency: RecurrenceFrequency | 'none';
+  interval: number;
+  byWeekday: RecurrenceWeekday[];
+  monthlyMode: 'day' | 'weekday' | 'last_weekday';
+  ends: 'never' | 'on' | 'after';
+  until: string;
+  count: number;
+}
+
+/** Default end date for "ends on": the next day, or the end of the month on the last day. */
+export const getDefaultRecurrenceUntil = (startDate: string) => {
+  const start = parseISO(startDate);
+  const next = addDays(start, 1);
+  if (isSameMonth(next, start) && isSameYear(next, start)) {
+    return format(next, 'yyyy-MM-dd');
+  }
+  return format(endOfMonth(start), 'yyyy-MM-dd');
+};
+
+/** Daily rules start on every day of the week, weekly ones on the weekday of the start date. */
+export const getDefaultWeekdays = (frequency: RecurrenceDraft['frequency'], startDate: string) => (
+  frequency === 'daily' ? [...RECURRENCE_WEEKDAYS] : [getRecurrenceWeekday(parseISO(startDate))]
+);
+
+export const createRecurrenceDraft = (startDate: string, rule?: RecurrenceRule | null): RecurrenceDraft => {
+  const until = getDefaultRecurrenceUntil(startDate);
+  if (!rule) {
+    return {
+      frequency: 'none',
+      interval: 1,
+      byWeekday: getDefaultWeekdays('none', startDate),
+      monthlyMode: 'day',
+      ends: 'never',
+      until,
+      count: 4,
+    };
+  }
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval,
+    byWeekday: rule.byWeekday.length > 0 ? rule.byWeekday : getDefaultWeekdays(rule.frequency, startDate),
+    monthlyMode: rule.monthlyWeekday
+      ? (rule.monthlyWeekday.position < 0 ? 'last_weekday' : 'weekday')
+      : 'day',
+    ends: rule.count !== null ? 'after' : (rule.until ? 'on' : 'never'),
+    until: rule.until ?? until,
+    count: rule.count ?? 4,
+  };
+};
+
+/** Position of the date's weekday in its month: 1..4, or -1 for the last one. */
+export const getMonthlyWeekday = (startDate: string, last: boolean) => {
+  const date = parseISO(startDate);
+  return {
+    position: last ? -1 : Math.min(4, Math.ceil(date.getDate() / 7)),
+    weekday: getRecurrenceWeekday(date),
+  };
+};
+
+/** What the user still has to fill in before the draft can be saved. */
+export const getRecurrenceDraftIssue = (draft: RecurrenceDraft): 'weekdays' | 'count' | 'until' | null => {
+  if (draft.frequency === 'none') return null;
+  if ((draft.frequency === 'daily' || draft.frequency === 'weekly') && draft.byWeekday.length === 0) return 'weekdays';
+  if (draft.ends === 'after' && (!draft.count || draft.count < 1)) return 'count';
+  if (draft.ends === 'on' && !draft.until) return 'until';
+  return null;
+};
+
+/** Null when the draft does not repeat. */
+export const buildRecurrenceRule = (draft: RecurrenceDraft, startDate: string): RecurrenceRule | null => {
+  if (draft.frequency === 'none') return null;
+  const usesWeekdays = draft.frequency === 'weekly'
+    || (draft.frequency === 'daily' && draft.byWeekday.length < RECURRENCE_WEEKDAYS.length);
+  return {
+    frequency: draft.frequency,
+    interval: Math.max(1, Math.floor(draft.interval) || 1),
+    byWeekday: usesWeekdays ? RECURRENCE_WEEKDAYS.filter((day) => draft.byWeekday.includes(day)) : [],
+    monthlyWeekday: draft.frequency === 'monthly' && draft.monthlyMode !== 'day'
+      ? getMonthlyWeekday(startDate, draft.monthlyMode === 'last_weekday')
+      : null,
+    count: draft.ends === 'after' ? draft.count : null,
+    until: draft.ends === 'on' ? draft.until : null,
+  };
+};
@@ -0,0 +1,44 @@
+import { GroupMode, PlannerRowOrder, RowOrderMode } from '@/features/planner/types/planner';
+
+/** Manual order is kept per kind of row: nested modes share it with their flat counterpart. */
+export const getRowOrderMode = (mode: GroupMode): RowOrderMode | null => {
+  if (mode === 'assignee' || mode === 'group_assignee') return 'assignee';
+  if (mode === 'project' || mode === 'customer_project') return 'project';
+  return null;
+};
+
+export const hasCustomRowOrder = (order?: PlannerRowOrder | null) => (
+  Boolean(order && (order.rowIds.length > 0 || order.pinnedIds.length > 0))
+);
+
+/**
+ * Pinned rows first, then rows in the manual order.
+ * Rows the order does not know yet (new members, new projects) keep their incoming order at the end.
+ */
+export const applyRowOrder = <T extends { id: string }>(items: T[], order?: PlannerRowOrder | null): T[] => {
+  if (!order || !hasCustomRowOrder(order)) return items;
+  const pinnedRank = new Map(order.pinnedIds.map((id, index) => [id, index]));
+  const manualRank = new Map(order.rowIds.map((id, index) => [id, index]));
+  const getRank = (id: string, index: number): [number, number] => {
+    const pinned = pinnedRank.get(id);
+    if (pinned !== undefined) return [0, pinned];
+    const manual = manualRank.get(id);
+    if (manual !== undefined) return [1, manual];
+    return [2, index];
+  };
+  return items
+    .map((item, index) => ({ item, rank: getRank(item.id, index) }))
+    .sort((left, right) => left.rank[0] - right.rank[0] || left.rank[1] - right.rank[1])
+    .map((entry) => entry.item);
+};
+
+/** Moves `movedId` to the position of `targetId`; the rows in between shift by one. */
+export const moveRowId = (ids: string[], movedId: string, targetId: string) => {
+  const fromIndex = ids.indexOf(movedId);
+  const toIndex = ids.indexOf(targetId);
+  if (fromIndex < 0 || toIndex < 0 || fromIndex === toIndex) return ids;
+  const next = [...ids];
+  next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, movedId);
+  return next;
+};
@@ -0,0 +1,21 @@
+const toIdList = (value: unknown) => (
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+);
+
+/** Ids added to and removed from a list field (assignees, tags) by one change. */
+export const getListChanges = (oldValue: unknown, newValue: unknown) => {
+  const before = toIdList(oldValue);
+  const after = toIdList(newValue);
+  return {
+    added: after.filter((id) => !before.includes(id)),
+    removed: before.filter((id) => !after.includes(id)),
+  };
+};
+
+/** Reads the `{ start, end }` payload the activity trigger writes for date changes. */
+export const getActivityDates = (value: unknown) => {
+  if (!value || typeof value !== 'object') return null;
+  const { start, end } = value as { start?: unknown; end?: unknown };
+  if (typeof start !== 'string' || typeof end !== 'string') return null;
+  return { start, end };
+};
@@ -0,0 +1,101 @@
+import { addDays, differenceInDays, format, parseISO } from 'date-fns';
+import { Task, TaskDependency } from '@/features/planner/types/planner';
+
+export interface TaskDateChange {
+  id: string;
+  startDate: string;
+  endDate: string;
+}
+
+type TaskDates = Pick<Task, 'id' | 'startDate' | 'endDate'>;
+
+/**
+ * Earliest start date allowed for a successor by a single dependency.
+ * Finish-to-start: the successor starts the day after the predecessor ends.
+ * Start-to-start: the successor starts no earlier than the predecessor.
+ */
+export const getEarliestSuccessorStart = (predecessor: Pick<Task, 'startDate' | 'endDate'>, type: TaskDependency['type']) => (
+  type === 'start_to_start'
+    ? predecessor.startDate
+    : format(addDays(parseISO(predecessor.endDate), 1), 'yyyy-MM-dd')
+);
+
+/**
+ * Check whether linking predecessor -> successor would close a loop in the dependency graph.
+ */
+export const wouldCreateDependencyCycle = (
+  dependencies: TaskDependency[],
+  predecessorId: string,
+  successorId: string,
+) => {
+  if (predecessorId === successorId) return true;
+  const successorsById = new Map<string, string[]>();
+  dependencies.forEach((dependency) => {
+    const list = successorsById.get(dependency.predecessorId) ?? [];
+    list.push(dependency.successorId);
+    successorsById.set(dependency.predecessorId, list);
+  });
+
+  const stack = [successorId];
+  const visited = new Set<string>();
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === predecessorId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    (successorsById.get(current) ?? []).forEach((next) => stack.push(next));
+  }
+  return false;
+};
+
+/**
+ * Given a task that is about to get new dates, compute how its dependent chain has to shift
+ * so that no successor starts before its predecessors allow. Durations are preserved and
+ * successors are only ever pushed later, never pulled earlier.
+ */
+export const getDependentShifts = (
+  tasks: TaskDates[],
+  dependencies: TaskDependency[],
+  change: TaskDateChange,
+): TaskDateChange[] => {
+  const current = new Map<string, TaskDates>(tasks.map((task) => [task.id, task]));
+  current.set(change.id, change);
+
+  const outgoing = new Map<string, TaskDependency[]>();
+  dependencies.forEach((dependency) => {
+    const list = outgoing.get(dependency.predecessorId) ?? [];
+    list.push(dependency);
+    outgoing.set(dependency.predecessorId, list);
+  });
+
+  const shifted = new Map<string, TaskDateChange>();
+  const queue = [change.id];
+  // A chain can revisit a task through several predecessors; the guard keeps cycles from looping forever.
+  let guard = tasks.length * Math.max(1, dependencies.length) + 1;
+
+  while (queue.length > 0 && guard > 0) {
+    guard -= 1;
+    const predecessorId = queue.shift()!;
+    const predecessor = current.get(predecessorId);
+    if (!predecessor) continue;
+
+    (outgoing.get(predecessorId) ?? []).forEach((dependency) => {
+      const successor = current.get(dependency.successorId);
+      if (!successor || successor.id === change.id) return;
+      const earliestStart = getEarliestSuccessorStart(predecessor, dependency.type);
+      if (successor.startDate >= earliestStart) return;
+
+      const delta = differenceInDays(parseISO(earliestStart), parseISO(successor.startDate));
+      const next = {
+        id: successor.id,
+        startDate: earliestStart,
+        endDate: format(addDays(parseISO(successor.endDate), delta), 'yyyy-MM-dd'),
+      };
+      current.set(successor.id, next);
+      shifted.set(successor.id, next);
+      queue.push(successor.id);
+    });
+  }
+
+  return Array.from(shifted.values());
+};
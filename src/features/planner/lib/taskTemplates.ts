@@ -0,0 +1,34 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { expandRecurrence, formatRRule, parseRRule, RecurrenceRule } from '@/features/planner/lib/recurrence';
+import { Task, TaskTemplate } from '@/features/planner/types/planner';
+
+export type TaskTemplateFields = Omit<TaskTemplate, 'id' | 'ownerId' | 'name' | 'isShared'>;
+
+/** UNTIL is a calendar date; a template keeps the number of occurrences up to it instead. */
+export const toRelativeRule = (rule: RecurrenceRule, startDate: string): RecurrenceRule => {
+  if (!rule.until) return rule;
+  const count = expandRecurrence(rule, startDate, startDate, rule.until).length;
+  return { ...rule, until: null, count: Math.max(1, count) };
+};
+
+/** Template fields of an existing task; `rrule` is the rule of its series, if it repeats. */
+export const getTaskTemplateFields = (task: Task, rrule: string | null): TaskTemplateFields => {
+  const rule = rrule ? parseRRule(rrule) : null;
+  return {
+    title: task.title,
+    projectId: task.projectId,
+    assigneeIds: [...task.assigneeIds],
+    statusId: task.statusId,
+    typeId: task.typeId,
+    priority: task.priority,
+    tagIds: [...task.tagIds],
+    description: task.description,
+    estimateHours: task.estimateHours,
+    durationDays: Math.max(0, differenceInCalendarDays(parseISO(task.endDate), parseISO(task.startDate))),
+    rrule: rule ? formatRRule(toRelativeRule(rule, task.startDate)) : null,
+  };
+};
+
+export const getTemplateEndDate = (template: Pick<TaskTemplate, 'durationDays'>, startDate: string) => (
+  format(addDays(parseISO(startDate), template.durationDays), 'yyyy-MM-dd')
+);
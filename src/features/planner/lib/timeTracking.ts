@@ -0,0 +1,42 @@
+import { TimeEntry } from '@/features/planner/types/planner';
+
+/** Parses an hours input ("1.5", "2,25"); empty, negative or non-numeric values give null. */
+export const parseHours = (value: string) => {
+  const normalized = value.trim().replace(',', '.');
+  if (!normalized) return null;
+  const hours = Number(normalized);
+  if (!Number.isFinite(hours) || hours < 0) return null;
+  return Math.round(hours * 100) / 100;
+};
+
+export const formatHours = (hours: number) => {
+  const rounded = Math.round(hours * 100) / 100;
+  return Number.isInteger(rounded) ? `${rounded}h` : `${rounded.toFixed(2).replace(/0$/, '')}h`;
+};
+
+export const sumHours = (entries: Pick<TimeEntry, 'hours'>[]) => (
+  Math.round(entries.reduce((sum, entry) => sum + entry.hours, 0) * 100) / 100
+);
+
+/**
+ * Week grid for the timesheet: one row per task with hours per day,
+ * plus per-day and overall totals.
+ */
+export const buildTimesheetGrid = (entries: TimeEntry[], days: string[]) => {
+  const rowsByTask = new Map<string, Record<string, number>>();
+  const dayTotals: Record<string, number> = Object.fromEntries(days.map((day) => [day, 0]));
+  entries.forEach((entry) => {
+    if (!(entry.date in dayTotals)) return;
+    const row = rowsByTask.get(entry.taskId) ?? {};
+    row[entry.date] = (row[entry.date] ?? 0) + entry.hours;
+    rowsByTask.set(entry.taskId, row);
+    dayTotals[entry.date] = Math.round((dayTotals[entry.date] + entry.hours) * 100) / 100;
+  });
+  const rows = Array.from(rowsByTask.entries()).map(([taskId, hoursByDay]) => ({
+    taskId,
+    hoursByDay,
+    total: sumHours(Object.values(hoursByDay).map((hours) => ({ hours }))),
+  }));
+  const total = sumHours(Object.values(dayTotals).map((hours) => ({ hours })));
+  return { rows, dayTotals, total };
+};
@@ -0,0 +1,224 @@
+import {
+  Assignee,
+  Customer,
+  GroupMode,
+  MemberGroup,
+  Project,
+  Status,
+  Tag,
+  Task,
+  TaskType,
+} from '@/features/planner/types/planner';
+import { formatProjectLabel } from '@/shared/lib/projectLabels';
+import { formatStatusLabel } from '@/shared/lib/statusLabels';
+
+/** Row for tasks that match none of the group rows (no assignee, no project, no tags...). */
+export const UNGROUPED_ROW_ID = 'unassigned';
+
+const NO_PARENT_ID = 'none';
+
+export interface TimelineGroupItem {
+  id: string;
+  name: string;
+  color?: string;
+  /** Header the row is nested under in two-level group modes. */
+  parentId?: string;
+}
+
+export interface TimelineGroupHeader {
+  id: string;
+  name: string;
+}
+
+export interface TimelineGroupSources {
+  /** Already filtered and ordered for display. */
+  assignees: Assignee[];
+  projects: Project[];
+  customers: Customer[];
+  statuses: Status[];
+  taskTypes: TaskType[];
+  tags: Tag[];
+  memberGroups: MemberGroup[];
+  /** assigneeId -> member group id */
+  assigneeGroupMap: Map<string, string>;
+}
+
+/** Two-level modes: rows are nested under collapsible headers. */
+export const isNestedGroupMode = (mode: GroupMode) => mode === 'customer_project' || mode === 'group_assignee';
+
+/** Modes whose rows are assignees, so they carry workload and member filters. */
+export const isAssigneeGroupMode = (mode: GroupMode) => mode === 'assignee' || mode === 'group_assignee';
+
+/** Modes where dragging a bar to another row changes a task field. */
+export const canMoveBetweenGroups = (mode: GroupMode) => mode !== 'customer' && mode !== 'group';
+
+export const getHeaderRowId = (parentId: string) => `group:${parentId}`;
+
+export const getUngroupedRowName = (mode: GroupMode) => {
+  switch (mode) {
+    case 'assignee':
+    case 'group_assignee':
+      return 'Unassigned';
+    case 'project':
+    case 'customer_project':
+      return 'No Project';
+    case 'status':
+      return 'No status';
+    case 'type':
+      return 'No type';
+    case 'tag':
+      return 'No tags';
+    case 'customer':
+      return 'No customer';
+    case 'group':
+      return 'No group';
+  }
+};
+
+const toProjectItem = (project: Project): TimelineGroupItem => ({
+  id: project.id,
+  name: formatProjectLabel(project.name, project.code),
+  color: project.color,
+});
+
+const buildHeaders = (parents: Array<{ id: string; name: string }>, items: TimelineGroupItem[]) => {
+  const usedParentIds = new Set(items.map((item) => item.parentId));
+  return parents
+    .filter((parent) => usedParentIds.has(parent.id))
+    .map((parent) => ({ id: parent.id, name: parent.name }));
+};
+
+/**
+ * Rows for the group mode, plus parent headers for two-level modes.
+ * Headers keep the order of their source list, the ones without children are dropped.
+ */
+export const buildGroupItems = (
+  mode: GroupMode,
+  sources: TimelineGroupSources,
+): { items: TimelineGroupItem[]; headers: TimelineGroupHeader[] } => {
+  switch (mode) {
+    case 'assignee':
+      return { items: sources.assignees.map((assignee) => ({ id: assignee.id, name: assignee.name })), headers: [] };
+    case 'project':
+      return { items: sources.projects.map(toProjectItem), headers: [] };
+    case 'status':
+      return {
+        items: sources.statuses.map((status) => ({
+          id: status.id,
+          name: formatStatusLabel(status.name, status.emoji),
+          color: status.color,
+        })),
+        headers: [],
+      };
+    case 'type':
+      return { items: sources.taskTypes.map((type) => ({ id: type.id, name: type.name })), headers: [] };
+    case 'tag':
+      return { items: sources.tags.map((tag) => ({ id: tag.id, name: tag.name, color: tag.color })), headers: [] };
+    case 'customer':
+      return { items: sources.customers.map((customer) => ({ id: customer.id, name: customer.name })), headers: [] };
+    case 'group':
+      return { items: sources.memberGroups.map((group) => ({ id: group.id, name: group.name })), headers: [] };
+    case 'customer_project': {
+      const customerIds = new Set(sources.customers.map((customer) => customer.id));
+      const items = sources.projects.map((project) => ({
+        ...toProjectItem(project),
+        parentId: project.customerId && customerIds.has(project.customerId) ? project.customerId : NO_PARENT_ID,
+      }));
+      const parents = [...sources.customers, { id: NO_PARENT_ID, name: 'No customer' }];
+      return { items, headers: buildHeaders(parents, items) };
+    }
+    case 'group_assignee': {
+      const groupIds = new Set(sources.memberGroups.map((group) => group.id));
+      const items = sources.assignees.map((assignee) => {
+        const groupId = sources.assigneeGroupMap.get(assignee.id);
+        return {
+          id: assignee.id,
+          name: assignee.name,
+          parentId: groupId && groupIds.has(groupId) ? groupId : NO_PARENT_ID,
+        };
+      });
+      const parents = [...sources.memberGroups, { id: NO_PARENT_ID, name: 'No group' }];
+      return { items, headers: buildHeaders(parents, items) };
+    }
+  }
+};
+
+/**
+ * Rows the task is drawn in. A task shows up in every matching row (several assignees or tags);
+ * an empty list means the ungrouped row.
+ */
+export const getTaskRowIds = (
+  task: Task,
+  mode: GroupMode,
+  rowIds: Set<string>,
+  projectById: Map<string, Project>,
+  assigneeGroupMap: Map<string, string>,
+): string[] => {
+  let ids: string[];
+  switch (mode) {
+    case 'assignee':
+    case 'group_assignee':
+      ids = task.assigneeIds;
+      break;
+    case 'project':
+    case 'customer_project':
+      ids = task.projectId ? [task.projectId] : [];
+      break;
+    case 'status':
+      ids = [task.statusId];
+      break;
+    case 'type':
+      ids = [task.typeId];
+      break;
+    case 'tag':
+      ids = task.tagIds;
+      break;
+    case 'customer': {
+      const customerId = task.projectId ? projectById.get(task.projectId)?.customerId : null;
+      ids = customerId ? [customerId] : [];
+      break;
+    }
+    case 'group':
+      ids = task.assigneeIds.flatMap((assigneeId) => {
+        const groupId = assigneeGroupMap.get(assigneeId);
+        return groupId ? [groupId] : [];
+      });
+      break;
+  }
+  return Array.from(new Set(ids)).filter((id) => rowIds.has(id));
+};
+
+const replaceId = (ids: string[], fromId: string, toId: string) => {
+  const next = ids.filter((id) => id !== fromId);
+  if (toId !== UNGROUPED_ROW_ID && !next.includes(toId)) next.push(toId);
+  return next;
+};
+
+/**
+ * Task fields to change when its bar is dragged from one row to another.
+ * Returns null when the move changes nothing or the grouping is derived (customer, member group).
+ */
+export const getGroupMoveUpdates = (
+  task: Task,
+  mode: GroupMode,
+  fromRowId: string,
+  toRowId: string,
+): Partial<Task> | null => {
+  if (fromRowId === toRowId || !canMoveBetweenGroups(mode)) return null;
+  switch (mode) {
+    case 'assignee':
+    case 'group_assignee':
+      return { assigneeIds: replaceId(task.assigneeIds, fromRowId, toRowId) };
+    case 'tag':
+      return { tagIds: replaceId(task.tagIds, fromRowId, toRowId) };
+    case 'project':
+    case 'customer_project':
+      return { projectId: toRowId === UNGROUPED_ROW_ID ? null : toRowId };
+    case 'status':
+      return toRowId === UNGROUPED_ROW_ID ? null : { statusId: toRowId };
+    case 'type':
+      return toRowId === UNGROUPED_ROW_ID ? null : { typeId: toRowId };
+    default:
+      return null;
+  }
+};
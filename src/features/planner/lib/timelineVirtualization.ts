@@ -0,0 +1,69 @@
+/** Half-open index range `[start, end)` of mounted rows or days. */
+export interface VirtualRange {
+  start: number;
+  end: number;
+}
+
+/** Extra pixels mounted beyond each edge of the viewport, so fast scrolling does not show gaps. */
+export const ROW_OVERSCAN_PX = 480;
+export const DAY_OVERSCAN_PX = 720;
+
+/** Top offset of every row plus the total height as the last element. */
+export const buildRowOffsets = (heights: number[]) => {
+  const offsets = new Array<number>(heights.length + 1);
+  offsets[0] = 0;
+  heights.forEach((height, index) => {
+    offsets[index + 1] = offsets[index] + height;
+  });
+  return offsets;
+};
+
+// First index whose offset is greater than `value`.
+const upperBound = (offsets: number[], value: number) => {
+  let low = 0;
+  let high = offsets.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (offsets[middle] <= value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+export const getRowRange = (
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan = ROW_OVERSCAN_PX,
+): VirtualRange => {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+  const top = Math.max(0, scrollTop - overscan);
+  const bottom = scrollTop + viewportHeight + overscan;
+  const start = Math.min(count - 1, Math.max(0, upperBound(offsets, top) - 1));
+  const end = Math.min(count, Math.max(start + 1, upperBound(offsets, bottom - 1)));
+  return { start, end };
+};
+
+export const getDayRange = (
+  scrollLeft: number,
+  viewportWidth: number,
+  dayWidth: number,
+  totalDays: number,
+  overscan = DAY_OVERSCAN_PX,
+): VirtualRange => {
+  if (totalDays <= 0 || dayWidth <= 0) return { start: 0, end: 0 };
+  const start = Math.max(0, Math.floor((scrollLeft - overscan) / dayWidth));
+  const end = Math.min(totalDays, Math.ceil((scrollLeft + viewportWidth + overscan) / dayWidth));
+  return { start: Math.min(start, totalDays - 1), end: Math.max(end, start + 1) };
+};
+
+/** Whether a bar spanning `[left, left + width]` pixels overlaps the mounted days. */
+export const isBarInDayRange = (
+  position: { left: number; width: number },
+  range: VirtualRange,
+  dayWidth: number,
+) => position.left + position.width >= range.start * dayWidth && position.left <= range.end * dayWidth;
@@ -0,0 +1,44 @@
+import { format } from 'date-fns';
+import { getPresetHolidays } from '@/features/planner/lib/holidayPresets';
+import { WorkingCalendar } from '@/features/planner/types/planner';
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  countryCode: 'RU',
+  weekendDays: [0, 6],
+  days: [],
+  keepWorkingDuration: false,
+};
+
+export interface WorkingCalendarResolver {
+  isWorkingDay: (date: Date) => boolean;
+  getHolidayNames: (date: Date) => string[];
+}
+
+/**
+ * Resolves days against the workspace calendar.
+ * Custom days win over preset holidays, which win over the weekly days off.
+ */
+export const createCalendarResolver = (calendar: WorkingCalendar): WorkingCalendarResolver => {
+  const customByDate = new Map(calendar.days.map((day) => [day.date, day]));
+  const weekendDays = new Set(calendar.weekendDays);
+
+  const getHolidayNames = (date: Date) => {
+    const key = format(date, 'yyyy-MM-dd');
+    const custom = customByDate.get(key);
+    if (custom?.kind === 'workday') return [];
+    const presetNames = getPresetHolidays(calendar.countryCode, date.getFullYear()).get(key) ?? [];
+    if (custom?.kind === 'holiday') {
+      return [custom.name || 'Holiday', ...presetNames.filter((name) => name !== custom.name)];
+    }
+    return presetNames;
+  };
+
+  const isWorkingDay = (date: Date) => {
+    const custom = customByDate.get(format(date, 'yyyy-MM-dd'));
+    if (custom) return custom.kind === 'workday';
+    if (weekendDays.has(date.getDay())) return false;
+    return getHolidayNames(date).length === 0;
+  };
+
+  return { isWorkingDay, getHolidayNames };
+};
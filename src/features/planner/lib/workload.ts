@@ -0,0 +1,92 @@
+import { addDays, format, isWeekend, parseISO } from 'date-fns';
+import { Assignee, Task } from '@/features/planner/types/planner';
+
+export const DEFAULT_CAPACITY_HOURS = 8;
+
+export interface WorkloadTaskShare {
+  taskId: string;
+  title: string;
+  hours: number;
+}
+
+export interface WorkloadDay {
+  date: string;
+  capacity: number;
+  load: number;
+  tasks: WorkloadTaskShare[];
+}
+
+const defaultIsWorkingDay = (date: Date) => !isWeekend(date);
+
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+const getWorkingDates = (startDate: string, endDate: string, isWorkingDay: (date: Date) => boolean) => {
+  const dates: string[] = [];
+  const end = parseISO(endDate);
+  for (let cursor = parseISO(startDate); cursor <= end; cursor = addDays(cursor, 1)) {
+    if (isWorkingDay(cursor)) {
+      dates.push(format(cursor, 'yyyy-MM-dd'));
+    }
+  }
+  return dates;
+};
+
+/**
+ * Per-day load of each assignee over the visible days.
+ * An estimate is split between the task's assignees and spread evenly over its working days;
+ * a task without an estimate takes the assignee's full capacity on each of its working days.
+ */
+export const buildWorkload = (
+  tasks: Task[],
+  assignees: Assignee[],
+  visibleDays: Date[],
+  isWorkingDay: (date: Date) => boolean = defaultIsWorkingDay,
+) => {
+  const result = new Map<string, WorkloadDay[]>();
+  const dayIndexByDate = new Map<string, number>();
+  // Dates are formatted once and shared by every assignee: a quarter view of a large team is 100k+ cells.
+  const dates = visibleDays.map((day) => format(day, 'yyyy-MM-dd'));
+  const working = visibleDays.map((day) => isWorkingDay(day));
+  dates.forEach((date, index) => {
+    dayIndexByDate.set(date, index);
+  });
+
+  assignees.forEach((assignee) => {
+    result.set(assignee.id, dates.map((date, index) => ({
+      date,
+      capacity: working[index] ? assignee.capacityHours : 0,
+      load: 0,
+      tasks: [],
+    })));
+  });
+
+  if (visibleDays.length === 0) return result;
+  const rangeStart = format(visibleDays[0], 'yyyy-MM-dd');
+  const rangeEnd = format(visibleDays[visibleDays.length - 1], 'yyyy-MM-dd');
+
+  tasks.forEach((task) => {
+    if (task.assigneeIds.length === 0) return;
+    if (task.endDate < rangeStart || task.startDate > rangeEnd) return;
+    const workingDates = getWorkingDates(task.startDate, task.endDate, isWorkingDay);
+    if (workingDates.length === 0) return;
+
+    task.assigneeIds.forEach((assigneeId) => {
+      const days = result.get(assigneeId);
+      if (!days) return;
+      const dailyHours = task.estimateHours !== null
+        ? task.estimateHours / task.assigneeIds.length / workingDates.length
+        : null;
+      workingDates.forEach((date) => {
+        const index = dayIndexByDate.get(date);
+        if (index === undefined) return;
+        const day = days[index];
+        const hours = roundHours(dailyHours ?? day.capacity);
+        if (hours <= 0) return;
+        day.load = roundHours(day.load + hours);
+        day.tasks.push({ taskId: task.id, title: task.title, hours });
+      });
+    });
+  });
+
+  return result;
+};
@@ -4,39 +4,28 @@ import { CalendarTimeline } from '@/features/planner/components/timeline/Calenda
 import { TimelineControls } from '@/features/planner/components/timeline/TimelineControls';
 import { FilterPanel } from '@/features/planner/components/FilterPanel';
 import { TaskDetailPanel } from '@/features/planner/components/TaskDetailPanel';
+import { BulkTaskToolbar } from '@/features/planner/components/BulkTaskToolbar';
+import { WorkspaceSearch } from '@/features/planner/components/WorkspaceSearch';
 import { SettingsPanel } from '@/features/workspace/components/SettingsPanel';
 import { AccountSettingsDialog } from '@/features/auth/components/AccountSettingsDialog';
 import { AddTaskDialog } from '@/features/planner/components/AddTaskDialog';
 import { Button } from '@/shared/ui/button';
-import { Plus, Settings, User } from 'lucide-react';
+import { CloudOff, Plus, Settings, User } from 'lucide-react';
 import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { usePlannerRealtime } from '@/features/planner/hooks/usePlannerRealtime';
+import { usePlannerHistory } from '@/features/planner/hooks/usePlannerHistory';
+import { usePlannerShortcuts } from '@/features/planner/hooks/usePlannerShortcuts';
+import { useCommandStore } from '@/features/command/store/commandStore';
+import { useMutationQueueSync } from '@/features/planner/hooks/useMutationQueueSync';
+import { usePlannerUrlSync } from '@/features/planner/hooks/usePlannerUrlSync';
 import { useAuthStore } from '@/features/auth/store/authStore';
 import { WorkspaceSwitcher } from '@/features/workspace/components/WorkspaceSwitcher';
 import { WorkspaceNav } from '@/features/workspace/components/WorkspaceNav';
-import { Filters } from '@/features/planner/types/planner';
+import { normalizeFilters } from '@/features/planner/lib/plannerViews';
 import { format } from 'date-fns';
 import { Navigate } from 'react-router-dom';
 import { t } from '@lingui/macro';
 
-const normalizeFilterIds = (value: unknown) => (
-  Array.isArray(value)
-    ? value.filter((item): item is string => typeof item === 'string')
-    : []
-);
-
-const normalizeFilters = (value: unknown): Filters => {
-  const candidate = value && typeof value === 'object' ? (value as Partial<Filters>) : {};
-  return {
-    projectIds: normalizeFilterIds(candidate.projectIds),
-    assigneeIds: normalizeFilterIds(candidate.assigneeIds),
-    groupIds: normalizeFilterIds(candidate.groupIds),
-    statusIds: normalizeFilterIds(candidate.statusIds),
-    typeIds: normalizeFilterIds(candidate.typeIds),
-    tagIds: normalizeFilterIds(candidate.tagIds),
-    hideUnassigned: typeof candidate.hideUnassigned === 'boolean' ? candidate.hideUnassigned : false,
-  };
-};
-
 const PlannerPage = () => {
   const [filterCollapsed, setFilterCollapsed] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
@@ -93,21 +82,28 @@ const PlannerPage = () => {
     || tags.length > 0
     || milestones.length > 0;
   const showLoadingOverlay = plannerLoading && (!loadedRange || loadedRange.workspaceId !== currentWorkspaceId) && !hasInitialData;
+  const urlState = usePlannerUrlSync(currentWorkspaceId);
+  const urlFiltersRef = useRef(urlState?.filters ?? null);
 
+  // Re-run on viewMode too: zooming out to month or quarter needs a wider loaded window.
   useEffect(() => {
     if (currentWorkspaceId) {
       loadWorkspaceData(currentWorkspaceId);
     }
-  }, [currentWorkspaceId, loadWorkspaceData]);
+  }, [currentWorkspaceId, loadWorkspaceData, viewMode]);
+
+  usePlannerRealtime(currentWorkspaceId);
+  usePlannerHistory(canEdit);
+  const { pendingMutations } = useMutationQueueSync();
 
   useEffect(() => {
     if (centeredOnLoadRef.current) return;
     if (viewMode === 'calendar') return;
-    const initialDate = scrollTargetDate ?? format(new Date(), 'yyyy-MM-dd');
+    const initialDate = urlState?.currentDate ?? scrollTargetDate ?? format(new Date(), 'yyyy-MM-dd');
     setCurrentDate(initialDate);
     requestScrollToDate(initialDate);
     centeredOnLoadRef.current = true;
-  }, [requestScrollToDate, scrollTargetDate, setCurrentDate, viewMode]);
+  }, [requestScrollToDate, scrollTargetDate, setCurrentDate, urlState, viewMode]);
 
   useEffect(() => {
     if (!highlightedTaskId) return;
@@ -121,6 +117,13 @@ const PlannerPage = () => {
   useEffect(() => {
     filtersHydratedRef.current = false;
     if (!user?.id || typeof window === 'undefined') return;
+    // Filters from an opened link win over the locally saved ones.
+    if (urlFiltersRef.current) {
+      setFilters(urlFiltersRef.current);
+      urlFiltersRef.current = null;
+      filtersHydratedRef.current = true;
+      return;
+    }
     const storageKey = `planner-filters-${user.id}`;
     const raw = window.localStorage.getItem(storageKey);
     if (!raw) {
@@ -163,6 +166,21 @@ const PlannerPage = () => {
     }
   }, []);
 
+  const handleCreateTaskShortcut = useCallback(() => {
+    setAddTaskDefaults(null);
+    setShowAddTask(true);
+  }, []);
+
+  usePlannerShortcuts(!isSuperAdmin, canEdit, { onCreateTask: handleCreateTaskShortcut });
+
+  const createTaskPending = useCommandStore((state) => state.createTaskPending);
+  const clearCreateTaskRequest = useCommandStore((state) => state.clearCreateTaskRequest);
+  useEffect(() => {
+    if (!createTaskPending) return;
+    clearCreateTaskRequest();
+    if (canEdit) handleCreateTaskShortcut();
+  }, [canEdit, clearCreateTaskRequest, createTaskPending, handleCreateTaskShortcut]);
+
   if (isSuperAdmin) {
     return <Navigate to="/admin/users" replace />;
   }
@@ -177,6 +195,16 @@ const PlannerPage = () => {
         </div>
         
         <div className="flex items-center gap-2">
+          <WorkspaceSearch />
+          {pendingMutations > 0 && (
+            <span
+              className="flex items-center gap-1 rounded-md bg-amber-50 px-2 py-1 text-xs text-amber-700"
+              title={t`Changes are saved on this device and will be sent when the connection returns.`}
+            >
+              <CloudOff className="h-3.5 w-3.5" />
+              {t`${pendingMutations} unsynced`}
+            </span>
+          )}
           {userLabel && (
             <span className="max-w-[220px] truncate text-xs text-muted-foreground" title={userLabel}>
               {userLabel}
@@ -244,6 +272,7 @@ const PlannerPage = () => {
               ? <CalendarTimeline />
               : <TimelineGrid onCreateTask={handleCreateTaskRequest} />
             }
+            {viewMode !== 'calendar' && <BulkTaskToolbar />}
             {showLoadingOverlay && (
               <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground bg-background/60">
                 {t`Loading workspace...`}
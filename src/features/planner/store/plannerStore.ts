@@ -3,7 +3,6 @@ import { persist } from 'zustand/middleware';
 import {
   addDays,
   addMonths,
-  addWeeks,
   addYears,
   differenceInDays,
   format,
@@ -16,6 +15,11 @@ import { reserveAdminEmail } from '@/shared/lib/adminConfig';
 import { getStatusEmoji, splitStatusLabel } from '@/shared/lib/statusLabels';
 import {
   Task,
+  TaskSeries,
+  TaskSeriesScope,
+  TaskDependency,
+  TaskDependencyType,
+  ChecklistItem,
   Milestone,
   Project,
   Customer,
@@ -25,12 +29,60 @@ import {
   Status,
   TaskType,
   Tag,
+  CalendarDay,
+  CalendarDayKind,
+  WorkingCalendar,
   TaskPriority,
   ViewMode,
   GroupMode,
   Filters,
+  PlannerRowOrder,
   PlannerState,
+  RowOrderMode,
+  PlannerRealtimeChange,
 } from '@/features/planner/types/planner';
+import { TaskDateChange, wouldCreateDependencyCycle } from '@/features/planner/lib/taskDependencies';
+import { TaskUpdateChange } from '@/features/planner/lib/bulkTaskActions';
+import {
+  MutationMatch,
+  MutationOutcome,
+  PlannerMutation,
+  countQueuedMutations,
+  enqueueMutation,
+  isRetryableFailure,
+  readQueuedMutations,
+  removeQueuedMutation,
+} from '@/features/planner/lib/mutationQueue';
+import {
+  PlannerHistoryEntry,
+  HistorySide,
+  HistorySnapshot,
+  SeriesExdates,
+  createHistoryEntry,
+  getHistoryTargets,
+  getNextHistoryEntryId,
+  mergeHistoryEntries,
+  pushHistoryEntry,
+} from '@/features/planner/lib/plannerHistory';
+import { DEFAULT_CAPACITY_HOURS } from '@/features/planner/lib/workload';
+import type { ProjectPlan } from '@/features/planner/lib/projectTemplates';
+import { DEFAULT_WORKING_CALENDAR } from '@/features/planner/lib/workingCalendar';
+import {
+  applyTaskSeriesEdit,
+  createOccurrenceTask,
+  expandRecurrence,
+  expandTaskSeries,
+  formatRRule,
+  getSeriesTemplate,
+  getTaskSeriesEdit,
+  isEmptyTaskSeriesEdit,
+  isOccurrenceId,
+  parseOccurrenceId,
+  parseRRule,
+  shiftTaskDates,
+  splitTaskSeries,
+  truncateTaskSeries,
+} from '@/features/planner/lib/recurrence';
 
 type TaskRow = {
   id: string;
@@ -47,6 +99,45 @@ type TaskRow = {
   tag_ids: string[] | null;
   description: string | null;
   repeat_id: string | null;
+  estimate_hours: number | null;
+  milestone_id: string | null;
+};
+
+type TaskSeriesRow = {
+  id: string;
+  workspace_id: string;
+  rrule: string;
+  start_date: string;
+  duration_days: number | null;
+  exdates: string[] | null;
+  title: string;
+  project_id: string | null;
+  assignee_ids: string[] | null;
+  status_id: string;
+  type_id: string;
+  priority: TaskPriority | null;
+  tag_ids: string[] | null;
+  description: string | null;
+  estimate_hours: number | null;
+};
+
+type TaskDependencyRow = {
+  id: string;
+  workspace_id: string;
+  predecessor_id: string;
+  successor_id: string;
+  type: TaskDependencyType;
+};
+
+type ChecklistItemRow = {
+  id: string;
+  workspace_id: string;
+  task_id: string;
+  title: string;
+  is_done: boolean;
+  assignee_id: string | null;
+  due_date: string | null;
+  position: number;
 };
 
 type ProjectRow = {
@@ -63,6 +154,12 @@ type ProjectTrackingRow = {
   project_id: string;
 };
 
+type PlannerRowOrderRow = {
+  group_mode: RowOrderMode;
+  row_ids: string[] | null;
+  pinned_ids: string[] | null;
+};
+
 type CustomerRow = {
   id: string;
   workspace_id: string;
@@ -75,6 +172,22 @@ type AssigneeRow = {
   name: string;
   user_id: string | null;
   is_active: boolean;
+  capacity_hours: number | string | null;
+};
+
+type WorkspaceCalendarRow = {
+  workspace_id: string;
+  country_code: string | null;
+  weekend_days: number[] | null;
+  keep_working_duration: boolean | null;
+};
+
+type CalendarDayRow = {
+  id: string;
+  workspace_id: string;
+  date: string;
+  kind: CalendarDayKind;
+  name: string | null;
 };
 
 type MemberGroupRow = {
@@ -148,6 +261,13 @@ interface PlannerStore extends PlannerState {
   assigneeCountsWorkspaceId: string | null;
   scrollRequestId: number;
   scrollTargetDate: string | null;
+  remoteTaskUpdates: Record<string, number>;
+  undoStack: PlannerHistoryEntry[];
+  redoStack: PlannerHistoryEntry[];
+  historyBusy: boolean;
+  pendingMutations: number;
+  syncRejection: { id: number; message: string } | null;
+  selectionDragOffset: number;
   setWorkspaceId: (id: string | null) => void;
   loadWorkspaceData: (workspaceId: string) => Promise<void>;
   refreshAssignees: () => Promise<void>;
@@ -159,15 +279,33 @@ interface PlannerStore extends PlannerState {
   deleteTask: (id: string) => Promise<void>;
   deleteTasks: (ids: string[]) => Promise<{ error?: string }>;
   duplicateTask: (id: string) => Promise<void>;
-  createRepeats: (id: string, options: { frequency: 'daily' | 'weekly' | 'monthly' | 'yearly'; ends: 'never' | 'on' | 'after'; untilDate?: string; count?: number }) => Promise<{ error?: string; created?: number }>;
+  saveTaskRecurrence: (id: string, rrule: string) => Promise<{ error?: string }>;
   moveTask: (id: string, startDate: string, endDate: string) => Promise<void>;
+  rescheduleTasks: (changes: TaskDateChange[]) => Promise<void>;
+  updateTasks: (changes: TaskUpdateChange[]) => Promise<{ error?: string }>;
   reassignTask: (id: string, assigneeId: string | null, projectId?: string | null) => Promise<void>;
   deleteTaskSeries: (repeatId: string, fromDate: string) => Promise<void>;
+  updateTaskSeries: (id: string, before: Task, after: Task, scope: TaskSeriesScope) => Promise<{ error?: string }>;
+
+  addTaskDependency: (predecessorId: string, successorId: string, type: TaskDependencyType) => Promise<{ error?: string }>;
+  deleteTaskDependency: (id: string) => Promise<void>;
+
+  addChecklistItem: (taskId: string, item: Pick<ChecklistItem, 'title'> & Partial<Pick<ChecklistItem, 'done' | 'assigneeId' | 'dueDate'>>) => Promise<void>;
+  updateChecklistItem: (id: string, updates: Partial<Omit<ChecklistItem, 'id' | 'taskId'>>) => Promise<void>;
+  deleteChecklistItem: (id: string) => Promise<void>;
+  promoteChecklistItem: (id: string) => Promise<Task | null>;
 
   addProject: (project: Omit<Project, 'id'>) => Promise<void>;
+  createProjectFromPlan: (
+    project: Omit<Project, 'id' | 'archived'>,
+    plan: ProjectPlan,
+  ) => Promise<{ projectId?: string; error?: string }>;
   updateProject: (id: string, updates: Partial<Project>) => Promise<void>;
   deleteProject: (id: string) => Promise<void>;
   toggleTrackedProject: (projectId: string, isTracked?: boolean) => Promise<void>;
+  setRowOrder: (mode: RowOrderMode, rowIds: string[], pinnedIds?: string[]) => Promise<void>;
+  togglePinnedRow: (mode: RowOrderMode, rowId: string) => Promise<void>;
+  resetRowOrder: (mode: RowOrderMode) => Promise<void>;
 
   addCustomer: (customer: Omit<Customer, 'id'>) => Promise<Customer | null>;
   updateCustomer: (id: string, updates: Partial<Customer>) => Promise<void>;
@@ -189,19 +327,35 @@ interface PlannerStore extends PlannerState {
   updateTag: (id: string, updates: Partial<Tag>) => Promise<void>;
   deleteTag: (id: string) => Promise<void>;
 
+  updateWorkingCalendar: (
+    updates: Partial<Pick<WorkingCalendar, 'countryCode' | 'weekendDays' | 'keepWorkingDuration'>>,
+  ) => Promise<{ error?: string }>;
+  addCalendarDay: (day: Omit<CalendarDay, 'id'>) => Promise<{ error?: string }>;
+  deleteCalendarDay: (id: string) => Promise<void>;
+
   addMilestone: (milestone: Omit<Milestone, 'id'>) => Promise<void>;
   updateMilestone: (id: string, updates: Partial<Milestone>) => Promise<void>;
   deleteMilestone: (id: string) => Promise<void>;
 
   setViewMode: (mode: ViewMode) => void;
   setGroupMode: (mode: GroupMode) => void;
+  setActiveViewId: (id: string | null) => void;
   setCurrentDate: (date: string) => void;
   requestScrollToDate: (date: string) => void;
   setFilters: (filters: Partial<Filters>) => void;
   clearFilterCriteria: () => void;
   clearFilters: () => void;
   setSelectedTaskId: (id: string | null) => void;
+  setSelectedTaskIds: (ids: string[]) => void;
+  toggleTaskSelection: (id: string) => void;
+  setSelectionDragOffset: (offset: number) => void;
   setHighlightedTaskId: (id: string | null) => void;
+  revealTask: (id: string) => Promise<{ error?: string }>;
+  applyRealtimeChange: (change: PlannerRealtimeChange) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  commitMutation: (mutation: PlannerMutation) => Promise<MutationOutcome>;
+  flushMutationQueue: () => Promise<void>;
 }
 
 const initialFilters: Filters = {
@@ -215,6 +369,9 @@ const initialFilters: Filters = {
 };
 
 const LOAD_WINDOW_MONTHS = 6;
+// Месяц и квартал показывают почти год на экране, поэтому грузим окно шире.
+const MONTH_LOAD_WINDOW_MONTHS = 12;
+const QUARTER_LOAD_WINDOW_MONTHS = 24;
 
 const buildTaskRange = (currentDate: string, viewMode: ViewMode) => {
   const anchor = parseISO(currentDate);
@@ -224,6 +381,16 @@ const buildTaskRange = (currentDate: string, viewMode: ViewMode) => {
       const end = addMonths(anchor, LOAD_WINDOW_MONTHS);
       return { start: format(start, 'yyyy-MM-dd'), end: format(end, 'yyyy-MM-dd') };
     }
+    case 'month': {
+      const start = subMonths(anchor, MONTH_LOAD_WINDOW_MONTHS);
+      const end = addMonths(anchor, MONTH_LOAD_WINDOW_MONTHS);
+      return { start: format(start, 'yyyy-MM-dd'), end: format(end, 'yyyy-MM-dd') };
+    }
+    case 'quarter': {
+      const start = subMonths(anchor, QUARTER_LOAD_WINDOW_MONTHS);
+      const end = addMonths(anchor, QUARTER_LOAD_WINDOW_MONTHS);
+      return { start: format(start, 'yyyy-MM-dd'), end: format(end, 'yyyy-MM-dd') };
+    }
     case 'calendar': {
       const start = subYears(anchor, 1);
       const end = addYears(anchor, 1);
@@ -242,6 +409,46 @@ const isDateWithinRange = (date: string, start: string, end: string) => {
   return target >= parseISO(start) && target <= parseISO(end);
 };
 
+const rangesOverlap = (start: string, end: string, rangeStart: string, rangeEnd: string) => (
+  start <= rangeEnd && end >= rangeStart
+);
+
+const upsertById = <T extends { id: string }>(items: T[], item: T) => {
+  const index = items.findIndex((current) => current.id === item.id);
+  if (index === -1) return [...items, item];
+  const next = [...items];
+  next[index] = item;
+  return next;
+};
+
+// Задачи, по которым сейчас идёт наш собственный запрос: их эхо из Realtime не считаем чужим изменением.
+const pendingTaskWrites = new Map<string, number>();
+
+const markTaskWrite = (id: string, delta: 1 | -1) => {
+  const next = (pendingTaskWrites.get(id) ?? 0) + delta;
+  if (next > 0) {
+    pendingTaskWrites.set(id, next);
+  } else {
+    pendingTaskWrites.delete(id);
+  }
+};
+
+const isSameTask = (left: Task, right: Task) => (
+  left.title === right.title
+  && left.projectId === right.projectId
+  && left.startDate === right.startDate
+  && left.endDate === right.endDate
+  && left.statusId === right.statusId
+  && left.typeId === right.typeId
+  && left.priority === right.priority
+  && left.description === right.description
+  && left.repeatId === right.repeatId
+  && left.estimateHours === right.estimateHours
+  && left.milestoneId === right.milestoneId
+  && left.assigneeIds.join(',') === right.assigneeIds.join(',')
+  && left.tagIds.join(',') === right.tagIds.join(',')
+);
+
 const normalizeAssigneeIds = (assigneeIds: string[] | null | undefined, legacyId: string | null | undefined) => {
   const combined = [
     ...(assigneeIds ?? []),
@@ -267,6 +474,44 @@ const mapTaskRow = (row: TaskRow): Task => ({
   tagIds: row.tag_ids ?? [],
   description: row.description,
   repeatId: row.repeat_id ?? null,
+  estimateHours: row.estimate_hours === null || row.estimate_hours === undefined ? null : Number(row.estimate_hours),
+  milestoneId: row.milestone_id ?? null,
+});
+
+const mapTaskSeriesRow = (row: TaskSeriesRow): TaskSeries => ({
+  id: row.id,
+  rrule: row.rrule,
+  startDate: row.start_date,
+  durationDays: row.duration_days ?? 0,
+  exdates: row.exdates ?? [],
+  template: {
+    title: row.title,
+    projectId: row.project_id,
+    assigneeIds: uniqueAssigneeIds(row.assignee_ids),
+    statusId: row.status_id,
+    typeId: row.type_id,
+    priority: row.priority ?? null,
+    tagIds: row.tag_ids ?? [],
+    description: row.description,
+    estimateHours: row.estimate_hours === null || row.estimate_hours === undefined ? null : Number(row.estimate_hours),
+  },
+});
+
+const mapTaskDependencyRow = (row: TaskDependencyRow): TaskDependency => ({
+  id: row.id,
+  predecessorId: row.predecessor_id,
+  successorId: row.successor_id,
+  type: row.type === 'start_to_start' ? 'start_to_start' : 'finish_to_start',
+});
+
+const mapChecklistItemRow = (row: ChecklistItemRow): ChecklistItem => ({
+  id: row.id,
+  taskId: row.task_id,
+  title: row.title,
+  done: Boolean(row.is_done),
+  assigneeId: row.assignee_id ?? null,
+  dueDate: row.due_date ?? null,
+  position: row.position ?? 0,
 });
 
 const mapProjectRow = (row: ProjectRow): Project => ({
@@ -283,13 +528,31 @@ const mapCustomerRow = (row: CustomerRow): Customer => ({
   name: row.name,
 });
 
+const mapPlannerRowOrderRow = (row: PlannerRowOrderRow): PlannerRowOrder => ({
+  groupMode: row.group_mode,
+  rowIds: row.row_ids ?? [],
+  pinnedIds: row.pinned_ids ?? [],
+});
+
 const mapAssigneeRow = (row: AssigneeRow): Assignee => ({
   id: row.id,
   name: row.name,
   userId: row.user_id,
   isActive: row.is_active ?? true,
+  capacityHours: row.capacity_hours === null || row.capacity_hours === undefined
+    ? DEFAULT_CAPACITY_HOURS
+    : Number(row.capacity_hours),
+});
+
+const mapCalendarDayRow = (row: CalendarDayRow): CalendarDay => ({
+  id: row.id,
+  date: row.date,
+  kind: row.kind,
+  name: row.name,
 });
 
+const sortCalendarDays = (days: CalendarDay[]) => [...days].sort((left, right) => left.date.localeCompare(right.date));
+
 const mapStatusRow = (row: StatusRow): Status => {
   const { name: cleanedName, emoji: inlineEmoji } = splitStatusLabel(row.name);
   const hasEmojiField = Object.prototype.hasOwnProperty.call(row, 'emoji');
@@ -345,16 +608,658 @@ const mapTaskUpdates = (updates: Partial<Task>) => {
   if ('tagIds' in updates) payload.tag_ids = updates.tagIds;
   if ('description' in updates) payload.description = updates.description;
   if ('repeatId' in updates) payload.repeat_id = updates.repeatId;
+  if ('estimateHours' in updates) payload.estimate_hours = updates.estimateHours;
+  if ('milestoneId' in updates) payload.milestone_id = updates.milestoneId;
   return payload;
 };
 
+// Веха принадлежит проекту: задача, перенесённая в другой проект, отвязывается от вехи старого.
+const withProjectMilestone = (task: Task | null | undefined, updates: Partial<Task>): Partial<Task> => (
+  task?.milestoneId && 'projectId' in updates && !('milestoneId' in updates) && updates.projectId !== task.projectId
+    ? { ...updates, milestoneId: null }
+    : updates
+);
+
+const buildTaskRecord = (workspaceId: string, task: Task) => ({
+  id: task.id,
+  workspace_id: workspaceId,
+  ...mapTaskUpdates(task),
+});
+
+const buildTaskSeriesRecord = (workspaceId: string, series: TaskSeries) => ({
+  id: series.id,
+  workspace_id: workspaceId,
+  rrule: series.rrule,
+  start_date: series.startDate,
+  duration_days: series.durationDays,
+  exdates: series.exdates,
+  title: series.template.title,
+  project_id: series.template.projectId,
+  assignee_ids: uniqueAssigneeIds(series.template.assigneeIds),
+  status_id: series.template.statusId,
+  type_id: series.template.typeId,
+  priority: series.template.priority,
+  tag_ids: series.template.tagIds,
+  description: series.template.description,
+  estimate_hours: series.template.estimateHours,
+});
+
+const buildMilestoneRecord = (workspaceId: string, milestone: Milestone) => ({
+  id: milestone.id,
+  workspace_id: workspaceId,
+  project_id: milestone.projectId,
+  date: milestone.date,
+  title: milestone.title,
+});
+
+const buildChecklistItemRecord = (workspaceId: string, item: ChecklistItem) => ({
+  id: item.id,
+  workspace_id: workspaceId,
+  task_id: item.taskId,
+  title: item.title,
+  is_done: item.done,
+  assignee_id: item.assigneeId,
+  due_date: item.dueDate,
+  position: item.position,
+});
+
+const buildTaskDependencyRecord = (workspaceId: string, dependency: TaskDependency) => ({
+  id: dependency.id,
+  workspace_id: workspaceId,
+  predecessor_id: dependency.predecessorId,
+  successor_id: dependency.successorId,
+  type: dependency.type,
+});
+
+const buildProjectRecord = (workspaceId: string, project: Project) => ({
+  id: project.id,
+  workspace_id: workspaceId,
+  name: project.name,
+  code: project.code,
+  color: project.color,
+  archived: project.archived,
+  customer_id: project.customerId,
+});
+
+const buildCustomerRecord = (workspaceId: string, customer: Customer) => ({
+  id: customer.id,
+  workspace_id: workspaceId,
+  name: customer.name,
+});
+
+const buildAssigneeRecord = (workspaceId: string, assignee: Assignee) => ({
+  id: assignee.id,
+  workspace_id: workspaceId,
+  name: assignee.name,
+  is_active: assignee.isActive,
+  capacity_hours: assignee.capacityHours,
+});
+
+const buildStatusRecord = (workspaceId: string, status: Status) => ({
+  id: status.id,
+  workspace_id: workspaceId,
+  name: status.name,
+  emoji: status.emoji,
+  color: status.color,
+  is_final: status.isFinal,
+  is_cancelled: status.isCancelled,
+});
+
+const buildTaskTypeRecord = (workspaceId: string, taskType: TaskType) => ({
+  id: taskType.id,
+  workspace_id: workspaceId,
+  name: taskType.name,
+  icon: taskType.icon,
+});
+
+const buildTagRecord = (workspaceId: string, tag: Tag) => ({
+  id: tag.id,
+  workspace_id: workspaceId,
+  name: tag.name,
+  color: tag.color,
+});
+
+const buildCalendarDayRecord = (workspaceId: string, day: CalendarDay) => ({
+  id: day.id,
+  workspace_id: workspaceId,
+  date: day.date,
+  kind: day.kind,
+  name: day.name,
+});
+
+const MUTATION_DENIED_MESSAGE = 'The server did not accept this change. You may not have permission to edit it.';
+
+let syncRejectionId = 0;
+let flushInFlight: Promise<void> | null = null;
+
+const createClientId = () => (
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`
+);
+
+type FilterableQuery<T> = {
+  eq: (column: string, value: string) => T;
+  in: (column: string, values: string[]) => T;
+  gte: (column: string, value: string) => T;
+};
+
+const applyMutationMatch = <T extends FilterableQuery<T>>(query: T, match: MutationMatch[] = []) => (
+  match.reduce<T>((current, item) => {
+    if (item.op === 'in') return current.in(item.column, Array.isArray(item.value) ? item.value : [item.value]);
+    if (item.op === 'gte') return current.gte(item.column, String(item.value));
+    return current.eq(item.column, String(item.value));
+  }, query)
+);
+
+const requestMutation = async (mutation: PlannerMutation) => {
+  if (mutation.operation === 'rpc') {
+    const { data, error, status } = await supabase.rpc(mutation.table, mutation.payload ?? {});
+    const rows = Array.isArray(data) ? data : (data ? [data] : []);
+    return { rows: rows as Record<string, unknown>[], error, status };
+  }
+  const table = supabase.from(mutation.table);
+  switch (mutation.operation) {
+    case 'insert': {
+      if (!Array.isArray(mutation.payload)) {
+        const { data, error, status } = await table.insert(mutation.payload ?? {}).select('*').single();
+        return { rows: data ? [data as Record<string, unknown>] : [], error, status };
+      }
+      const { data, error, status } = await table.insert(mutation.payload).select('*');
+      return { rows: (data ?? []) as Record<string, unknown>[], error, status };
+    }
+    case 'upsert': {
+      const { data, error, status } = await table
+        .upsert(mutation.payload ?? [], mutation.onConflict ? { onConflict: mutation.onConflict } : undefined)
+        .select('*');
+      return { rows: (data ?? []) as Record<string, unknown>[], error, status };
+    }
+    case 'update': {
+      const { data, error, status } = await applyMutationMatch(
+        table.update(mutation.payload as Record<string, unknown>).eq('workspace_id', mutation.workspaceId),
+        mutation.match,
+      ).select('*');
+      return { rows: (data ?? []) as Record<string, unknown>[], error, status };
+    }
+    default: {
+      const { data, error, status } = await applyMutationMatch(
+        table.delete().eq('workspace_id', mutation.workspaceId),
+        mutation.match,
+      ).select('*');
+      return { rows: (data ?? []) as Record<string, unknown>[], error, status };
+    }
+  }
+};
+
+const getMutationTaskIds = (mutation: PlannerMutation) => {
+  if (mutation.table === 'bulk_update_tasks' && !Array.isArray(mutation.payload)) {
+    const changes = (mutation.payload?.p_changes ?? []) as Array<{ id: string }>;
+    return changes.map((change) => change.id);
+  }
+  if (mutation.table !== 'tasks') return [];
+  const matchIds = (mutation.match ?? [])
+    .filter((item) => item.column === 'id')
+    .flatMap((item) => (Array.isArray(item.value) ? item.value : [item.value]));
+  const payloadIds = (Array.isArray(mutation.payload) ? mutation.payload : [mutation.payload])
+    .map((row) => row?.id)
+    .filter((id): id is string => typeof id === 'string');
+  return [...matchIds, ...payloadIds];
+};
+
+/**
+ * Send a mutation to Supabase. `retry` means the request did not reach a working server
+ * and the mutation should wait in the offline queue.
+ */
+const executeMutation = async (mutation: PlannerMutation): Promise<MutationOutcome | { status: 'retry' }> => {
+  const taskIds = getMutationTaskIds(mutation);
+  taskIds.forEach((id) => markTaskWrite(id, 1));
+  try {
+    const { rows, error, status } = await requestMutation(mutation);
+    if (error) {
+      if (isRetryableFailure(status ?? 0, error.message)) return { status: 'retry' };
+      console.error(error);
+      return { status: 'rejected', message: error.message };
+    }
+    // RLS silently filters UPDATE/DELETE down to zero rows instead of raising an error; write RPCs return what they changed.
+    if (mutation.operation !== 'insert' && mutation.operation !== 'upsert' && rows.length === 0) {
+      return { status: 'rejected', message: MUTATION_DENIED_MESSAGE };
+    }
+    return { status: 'applied', rows };
+  } catch (error) {
+    console.error(error);
+    return { status: 'retry' };
+  } finally {
+    taskIds.forEach((id) => markTaskWrite(id, -1));
+  }
+};
+
+const applyTaskUpdates = (task: Task, updates: Partial<Task>): Task => ({
+  ...task,
+  ...updates,
+  id: task.id,
+  assigneeIds: 'assigneeIds' in updates ? uniqueAssigneeIds(updates.assigneeIds) : task.assigneeIds,
+});
+
+const removeTasksFromState = (state: PlannerStore, ids: Set<string>) => ({
+  tasks: state.tasks.filter((task) => !ids.has(task.id)),
+  dependencies: state.dependencies.filter((dependency) => (
+    !ids.has(dependency.predecessorId) && !ids.has(dependency.successorId)
+  )),
+  checklistItems: state.checklistItems.filter((item) => !ids.has(item.taskId)),
+  selectedTaskId: state.selectedTaskId && ids.has(state.selectedTaskId) ? null : state.selectedTaskId,
+  selectedTaskIds: state.selectedTaskIds.filter((id) => !ids.has(id)),
+});
+
+/**
+ * Writes that bring the records of a history entry back to one of its sides:
+ * restore or revert records and remove the ones that did not exist on that side.
+ */
+const buildHistoryMutations = (workspaceId: string, entry: PlannerHistoryEntry, side: HistorySide) => {
+  const targets = getHistoryTargets(entry, side);
+  const mutations: PlannerMutation[] = [];
+
+  // Серии — раньше задач: повторы, которые на этой стороне снова виртуальные, появятся только после правки exdates.
+  if (targets.deleteTaskSeriesIds.length > 0) {
+    mutations.push({
+      workspaceId,
+      table: 'task_series',
+      operation: 'delete',
+      match: [{ column: 'id', op: 'in', value: targets.deleteTaskSeriesIds }],
+    });
+  }
+  if (targets.upsertTaskSeries.length > 0) {
+    mutations.push({
+      workspaceId,
+      table: 'task_series',
+      operation: 'upsert',
+      payload: targets.upsertTaskSeries.map((series) => buildTaskSeriesRecord(workspaceId, series)),
+    });
+  }
+  const exdateChanges = new Map<string, { add: string[]; remove: string[] }>();
+  targets.addExdates.forEach((item) => {
+    const change = exdateChanges.get(item.seriesId) ?? { add: [], remove: [] };
+    exdateChanges.set(item.seriesId, { ...change, add: [...change.add, ...item.dates] });
+  });
+  targets.removeExdates.forEach((item) => {
+    const change = exdateChanges.get(item.seriesId) ?? { add: [], remove: [] };
+    exdateChanges.set(item.seriesId, { ...change, remove: [...change.remove, ...item.dates] });
+  });
+  exdateChanges.forEach((change, seriesId) => {
+    mutations.push({
+      workspaceId,
+      table: 'update_task_series_exdates',
+      operation: 'rpc',
+      payload: { p_workspace_id: workspaceId, p_series_id: seriesId, p_add: change.add, p_remove: change.remove },
+    });
+  });
+
+  if (targets.deleteTaskIds.length > 0) {
+    mutations.push({
+      workspaceId,
+      table: 'tasks',
+      operation: 'delete',
+      match: [{ column: 'id', op: 'in', value: targets.deleteTaskIds }],
+    });
+  }
+  if (targets.upsertTasks.length > 0) {
+    mutations.push({
+      workspaceId,
+      table: 'tasks',
+      operation: 'upsert',
+      payload: targets.upsertTasks.map((task) => buildTaskRecord(workspaceId, task)),
+    });
+  }
+  if (targets.restoreDependencies.length > 0) {
+    mutations.push({
+      workspaceId,
+      table: 'task_dependencies',
+      operation: 'upsert',
+      payload: targets.restoreDependencies.map((dependency) => buildTaskDependencyRecord(workspaceId, dependency)),
+    });
+  }
+  if (targets.deleteMilestoneIds.length > 0) {
+    mutations.push({
+      workspaceId,
+      table: 'milestones',
+      operation: 'delete',
+      match: [{ column: 'id', op: 'in', value: targets.deleteMilestoneIds }],
+    });
+  }
+  if (targets.upsertMilestones.length > 0) {
+    mutations.push({
+      workspaceId,
+      table: 'milestones',
+      operation: 'upsert',
+      payload: targets.upsertMilestones.map((milestone) => buildMilestoneRecord(workspaceId, milestone)),
+    });
+  }
+  // Ссылки задач на веху база обнулила при её удалении; возвращаем только их, не трогая остальные поля.
+  targets.restoreMilestoneLinks.forEach((link) => {
+    if (link.taskIds.length === 0) return;
+    mutations.push({
+      workspaceId,
+      table: 'tasks',
+      operation: 'update',
+      payload: { milestone_id: link.milestoneId },
+      match: [{ column: 'id', op: 'in', value: link.taskIds }],
+    });
+  });
+
+  return mutations;
+};
+
+const applyHistorySide = (current: PlannerStore, entry: PlannerHistoryEntry, side: HistorySide) => {
+  const targets = getHistoryTargets(entry, side);
+  let state = current;
+  targets.deleteTaskSeriesIds.forEach((id) => {
+    state = { ...state, ...withSeriesOccurrences(state, id, null) };
+  });
+  targets.upsertTaskSeries.forEach((series) => {
+    state = { ...state, ...withSeriesOccurrences(state, series.id, series) };
+  });
+  [...targets.addExdates, ...targets.removeExdates].forEach((item) => {
+    const series = state.taskSeries.find((candidate) => candidate.id === item.seriesId);
+    if (!series) return;
+    const exdates = targets.addExdates.includes(item)
+      ? Array.from(new Set([...series.exdates, ...item.dates])).sort()
+      : series.exdates.filter((date) => !item.dates.includes(date));
+    state = { ...state, ...withSeriesOccurrences(state, series.id, { ...series, exdates }) };
+  });
+  const deletedTaskIds = new Set(targets.deleteTaskIds);
+  const deletedMilestoneIds = new Set(targets.deleteMilestoneIds);
+  const linkedMilestoneById = new Map(
+    targets.restoreMilestoneLinks.flatMap((link) => link.taskIds.map((taskId) => [taskId, link.milestoneId])),
+  );
+
+  return {
+    taskSeries: state.taskSeries,
+    tasks: targets.upsertTasks.reduce(
+      upsertById,
+      state.tasks.filter((task) => !deletedTaskIds.has(task.id)),
+    ).map((task) => {
+      const milestoneId = linkedMilestoneById.get(task.id);
+      if (milestoneId) return { ...task, milestoneId };
+      if (task.milestoneId && deletedMilestoneIds.has(task.milestoneId)) return { ...task, milestoneId: null };
+      return task;
+    }),
+    dependencies: targets.restoreDependencies.reduce(
+      upsertById,
+      state.dependencies.filter((dependency) => (
+        !deletedTaskIds.has(dependency.predecessorId) && !deletedTaskIds.has(dependency.successorId)
+      )),
+    ),
+    checklistItems: targets.restoreChecklistItems.reduce(
+      upsertById,
+      state.checklistItems.filter((item) => !deletedTaskIds.has(item.taskId)),
+    ),
+    milestones: targets.upsertMilestones.reduce(
+      upsertById,
+      state.milestones.filter((milestone) => !deletedMilestoneIds.has(milestone.id)),
+    ),
+    selectedTaskId: state.selectedTaskId && deletedTaskIds.has(state.selectedTaskId)
+      ? null
+      : state.selectedTaskId,
+    selectedTaskIds: state.selectedTaskIds.filter((id) => !deletedTaskIds.has(id)),
+  };
+};
+
+const recordHistory = (state: PlannerStore, entry: PlannerHistoryEntry) => ({
+  undoStack: pushHistoryEntry(state.undoStack, entry),
+  redoStack: [],
+});
+
+/**
+ * Сводит шаги, записанные начиная с `sinceId`, и `entry` в один шаг истории:
+ * сохранение повтора, правка серии и правки её задач отменяются одним Ctrl+Z.
+ */
+const recordHistorySince = (state: PlannerStore, sinceId: number, entry?: PlannerHistoryEntry) => {
+  const steps = [...state.undoStack.filter((item) => item.id >= sinceId), ...(entry ? [entry] : [])];
+  if (steps.length === 0) return {};
+  return {
+    undoStack: pushHistoryEntry(state.undoStack.filter((item) => item.id < sinceId), steps.reduce(mergeHistoryEntries)),
+    redoStack: [],
+  };
+};
+
+const collectTaskDependencies = (dependencies: TaskDependency[], taskIds: Set<string>) => (
+  dependencies.filter((dependency) => (
+    taskIds.has(dependency.predecessorId) || taskIds.has(dependency.successorId)
+  ))
+);
+
+type PlannerSet = (
+  partial: Partial<PlannerStore> | ((state: PlannerStore) => Partial<PlannerStore>),
+) => void;
+
+// Виртуальные повторы серии пересобираются целиком после правки правила или exdates.
+const withSeriesOccurrences = (state: PlannerStore, seriesId: string, series: TaskSeries | null) => {
+  const range = state.loadedRange;
+  const occurrences = series && range ? expandTaskSeries(series, range.start, range.end) : [];
+  const occurrenceIds = new Set(occurrences.map((task) => task.id));
+  const isStale = (id: string) => (
+    isOccurrenceId(id) && parseOccurrenceId(id)?.seriesId === seriesId && !occurrenceIds.has(id)
+  );
+  return {
+    taskSeries: series
+      ? upsertById(state.taskSeries, series)
+      : state.taskSeries.filter((item) => item.id !== seriesId),
+    tasks: [
+      ...state.tasks.filter((task) => !(isOccurrenceId(task.id) && task.repeatId === seriesId)),
+      ...occurrences,
+    ],
+    selectedTaskId: state.selectedTaskId && isStale(state.selectedTaskId) ? null : state.selectedTaskId,
+    selectedTaskIds: state.selectedTaskIds.filter((id) => !isStale(id)),
+  };
+};
+
+// Повторы, которые сейчас сохраняются как обычные задачи. Ключи — id виртуального повтора и id новой задачи:
+// правки, пришедшие до конца вставки, ждут её, иначе update опередит insert.
+const occurrenceWrites = new Map<string, Promise<string | null>>();
+
+/**
+ * Сохраняет виртуальный повтор как задачу (сразу с правкой `updates`) и исключает его дату из серии.
+ * Возвращает id новой задачи или null, если сервер изменение не принял.
+ */
+const materializeOccurrence = (
+  get: () => PlannerStore,
+  set: PlannerSet,
+  id: string,
+  updates: Partial<Task> = {},
+): Promise<string | null> => {
+  const { workspaceId, tasks, taskSeries } = get();
+  const occurrence = tasks.find((task) => task.id === id);
+  const parsed = parseOccurrenceId(id);
+  const series = parsed ? taskSeries.find((item) => item.id === parsed.seriesId) : null;
+  if (!workspaceId || !occurrence || !parsed || !series) return Promise.resolve(null);
+
+  const task = applyTaskUpdates({ ...occurrence, id: createClientId() }, updates);
+  const nextSeries: TaskSeries = { ...series, exdates: [...series.exdates, parsed.date] };
+  const remapId = (from: string, to: string) => (state: PlannerStore) => ({
+    selectedTaskId: state.selectedTaskId === from ? to : state.selectedTaskId,
+    selectedTaskIds: state.selectedTaskIds.map((item) => (item === from ? to : item)),
+    highlightedTaskId: state.highlightedTaskId === from ? to : state.highlightedTaskId,
+  });
+  set((state) => ({
+    taskSeries: upsertById(state.taskSeries, nextSeries),
+    tasks: state.tasks.map((item) => (item.id === id ? task : item)),
+    ...remapId(id, task.id)(state),
+  }));
+
+  const revert = () => {
+    occurrenceWrites.delete(id);
+    set((state) => ({
+      taskSeries: state.taskSeries.map((item) => (
+        item.id === series.id
+          ? { ...item, exdates: item.exdates.filter((date) => date !== parsed.date) }
+          : item
+      )),
+      tasks: state.tasks.map((item) => (item.id === task.id ? occurrence : item)),
+      ...remapId(task.id, id)(state),
+    }));
+  };
+
+  const write = (async () => {
+    try {
+      // Дата уходит в exdates и строка вставляется одной транзакцией; если повтор уже сохранил кто-то другой, сервер ничего не пишет.
+      const outcome = await get().commitMutation({
+        workspaceId,
+        table: 'materialize_task_occurrence',
+        operation: 'rpc',
+        payload: { p_workspace_id: workspaceId, p_date: parsed.date, p_task: buildTaskRecord(workspaceId, task) },
+      });
+      if (outcome.status === 'rejected') {
+        revert();
+        return null;
+      }
+      const inserted = outcome.status === 'applied' && outcome.rows[0]
+        ? mapTaskRow(outcome.rows[0] as TaskRow)
+        : task;
+      // Отмена удаляет сохранённую задачу и возвращает дату в серию — повтор снова становится виртуальным.
+      set((state) => ({
+        tasks: state.tasks.map((item) => (item === task ? inserted : item)),
+        ...recordHistory(state, createHistoryEntry('updateTasks', {
+          tasks: [{ id: task.id, before: null, after: inserted }],
+          exdates: [{ seriesId: series.id, dates: [parsed.date] }],
+        })),
+      }));
+      return task.id;
+    } finally {
+      occurrenceWrites.delete(task.id);
+    }
+  })();
+  occurrenceWrites.set(id, write);
+  occurrenceWrites.set(task.id, write);
+  return write;
+};
+
+/** Id to write against: waits for a pending occurrence insert and saves unedited occurrences first. */
+const persistTaskId = async (get: () => PlannerStore, set: PlannerSet, id: string) => {
+  const pending = occurrenceWrites.get(id);
+  if (pending) return pending;
+  if (isOccurrenceId(id)) return materializeOccurrence(get, set, id);
+  return id;
+};
+
+// Сервер добавляет и убирает даты в своём массиве exdates, а не перезаписывает его копией клиента:
+// исключения, которые параллельно сделал другой пользователь, не теряются. Возвращает даты, которые правка добавила.
+const changeSeriesExdates = async (
+  get: () => PlannerStore,
+  set: PlannerSet,
+  workspaceId: string,
+  seriesId: string,
+  add: string[],
+  remove: string[],
+) => {
+  const withDates = (series: TaskSeries, added: string[], removed: string[]): TaskSeries => ({
+    ...series,
+    exdates: Array.from(new Set([...series.exdates, ...added])).filter((date) => !removed.includes(date)).sort(),
+  });
+  const applyLocal = (added: string[], removed: string[]) => {
+    const series = get().taskSeries.find((item) => item.id === seriesId);
+    if (series) set((state) => withSeriesOccurrences(state, seriesId, withDates(series, added, removed)));
+  };
+  // Откат возвращает только то, что эта правка действительно поменяла.
+  const current = get().taskSeries.find((item) => item.id === seriesId)?.exdates ?? [];
+  const added = add.filter((date) => !current.includes(date));
+  const removed = remove.filter((date) => current.includes(date));
+  applyLocal(add, remove);
+
+  const outcome = await get().commitMutation({
+    workspaceId,
+    table: 'update_task_series_exdates',
+    operation: 'rpc',
+    payload: { p_workspace_id: workspaceId, p_series_id: seriesId, p_add: add, p_remove: remove },
+  });
+  if (outcome.status === 'rejected') {
+    applyLocal(removed, added);
+    return { error: outcome.message };
+  }
+  if (outcome.status === 'applied' && outcome.rows[0]) {
+    const saved = mapTaskSeriesRow(outcome.rows[0] as TaskSeriesRow);
+    set((state) => withSeriesOccurrences(state, seriesId, saved));
+  }
+  return { added };
+};
+
+// Удалённый повтор серии — это ещё одна дата в exdates, строк в tasks у него нет.
+const excludeOccurrences = async (
+  get: () => PlannerStore,
+  set: PlannerSet,
+  ids: string[],
+): Promise<{ error?: string; exdates: SeriesExdates[] }> => {
+  const workspaceId = get().workspaceId;
+  const exdates: SeriesExdates[] = [];
+  if (!workspaceId) return { exdates };
+
+  const datesBySeries = new Map<string, string[]>();
+  ids.forEach((id) => {
+    const parsed = parseOccurrenceId(id);
+    if (!parsed) return;
+    datesBySeries.set(parsed.seriesId, [...(datesBySeries.get(parsed.seriesId) ?? []), parsed.date]);
+  });
+
+  for (const [seriesId, dates] of datesBySeries) {
+    const result = await changeSeriesExdates(get, set, workspaceId, seriesId, dates, []);
+    if (result.error) return { error: result.error, exdates };
+    if (result.added && result.added.length > 0) exdates.push({ seriesId, dates: result.added });
+  }
+  return { exdates };
+};
+
+// Сессия читается из локального хранилища, так что личные настройки сохраняются и без сети.
+const getSessionUserId = async () => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+};
+
+const replaceRowOrder = (orders: PlannerRowOrder[], mode: RowOrderMode, order: PlannerRowOrder | undefined) => [
+  ...orders.filter((item) => item.groupMode !== mode),
+  ...(order ? [order] : []),
+];
+
+// Порядок строк сохраняется сразу в стор, отказ сервера возвращает прежний.
+const saveRowOrder = async (
+  get: () => PlannerStore,
+  set: (partial: Partial<PlannerStore>) => void,
+  order: PlannerRowOrder,
+) => {
+  const workspaceId = get().workspaceId;
+  if (!workspaceId) return;
+
+  const userId = await getSessionUserId();
+  if (!userId) return;
+
+  const previous = get().rowOrders.find((item) => item.groupMode === order.groupMode);
+  set({ rowOrders: replaceRowOrder(get().rowOrders, order.groupMode, order) });
+  const outcome = await get().commitMutation({
+    workspaceId,
+    table: 'planner_row_orders',
+    operation: 'upsert',
+    payload: {
+      workspace_id: workspaceId,
+      user_id: userId,
+      group_mode: order.groupMode,
+      row_ids: order.rowIds,
+      pinned_ids: order.pinnedIds,
+    },
+    onConflict: 'workspace_id,user_id,group_mode',
+  });
+  if (outcome.status === 'rejected') {
+    set({ rowOrders: replaceRowOrder(get().rowOrders, order.groupMode, previous) });
+  }
+};
+
 export const usePlannerStore = create<PlannerStore>()(
   persist(
     (set, get) => ({
       tasks: [],
+      taskSeries: [],
+      dependencies: [],
+      checklistItems: [],
       milestones: [],
       projects: [],
       trackedProjectIds: [],
+      rowOrders: [],
       customers: [],
       assignees: [],
       memberGroups: [],
@@ -362,12 +1267,15 @@ export const usePlannerStore = create<PlannerStore>()(
       statuses: [],
       taskTypes: [],
       tags: [],
+      workingCalendar: DEFAULT_WORKING_CALENDAR,
       viewMode: 'week',
       groupMode: 'assignee',
       currentDate: format(new Date(), 'yyyy-MM-dd'),
       filters: initialFilters,
       selectedTaskId: null,
+      selectedTaskIds: [],
       highlightedTaskId: null,
+      activeViewId: null,
       workspaceId: null,
       loading: false,
       error: null,
@@ -378,13 +1286,34 @@ export const usePlannerStore = create<PlannerStore>()(
       assigneeCountsWorkspaceId: null,
       scrollRequestId: 0,
       scrollTargetDate: null,
-
-      setWorkspaceId: (id) => set({ workspaceId: id }),
+      remoteTaskUpdates: {},
+      undoStack: [],
+      redoStack: [],
+      historyBusy: false,
+      pendingMutations: 0,
+      syncRejection: null,
+      selectionDragOffset: 0,
+
+      setWorkspaceId: (id) => set((state) => (
+        state.workspaceId === id
+          ? { workspaceId: id }
+          : {
+            workspaceId: id,
+            undoStack: [],
+            redoStack: [],
+            // Сохранённые виды принадлежат пространству, при переключении активный вид сбрасывается
+            activeViewId: state.workspaceId ? null : state.activeViewId,
+          }
+      )),
       reset: () => set({
         tasks: [],
+        taskSeries: [],
+        dependencies: [],
+        checklistItems: [],
         milestones: [],
         projects: [],
         trackedProjectIds: [],
+        rowOrders: [],
         customers: [],
         assignees: [],
         memberGroups: [],
@@ -392,8 +1321,11 @@ export const usePlannerStore = create<PlannerStore>()(
         statuses: [],
         taskTypes: [],
         tags: [],
+        workingCalendar: DEFAULT_WORKING_CALENDAR,
         selectedTaskId: null,
+        selectedTaskIds: [],
         highlightedTaskId: null,
+        activeViewId: null,
         workspaceId: null,
         loading: false,
         error: null,
@@ -404,15 +1336,24 @@ export const usePlannerStore = create<PlannerStore>()(
         assigneeCountsWorkspaceId: null,
         scrollRequestId: 0,
         scrollTargetDate: null,
+        remoteTaskUpdates: {},
+        undoStack: [],
+        redoStack: [],
+        historyBusy: false,
       }),
 
       loadWorkspaceData: async (workspaceId) => {
         const { currentDate, viewMode, loadedRange } = get();
+        const requiredRange = buildTaskRange(currentDate, viewMode);
         if (
           loadedRange
           && loadedRange.workspaceId === workspaceId
-          && loadedRange.viewMode === viewMode
           && isDateWithinRange(currentDate, loadedRange.start, loadedRange.end)
+          && (
+            loadedRange.viewMode === viewMode
+            // Переход на более крупный масштаб, не покрытый загруженным окном, требует перезагрузки.
+            || (loadedRange.start <= requiredRange.start && loadedRange.end >= requiredRange.end)
+          )
         ) {
           return;
         }
@@ -423,11 +1364,12 @@ export const usePlannerStore = create<PlannerStore>()(
           error: null,
           workspaceId,
           selectedTaskId: null,
+          selectedTaskIds: [],
           highlightedTaskId: null,
           dataRequestId: requestId,
         });
 
-        const { start, end } = buildTaskRange(currentDate, viewMode);
+        const { start, end } = requiredRange;
         const today = format(new Date(), 'yyyy-MM-dd');
         const countsEnd = format(addYears(parseISO(today), 10), 'yyyy-MM-dd');
         const { assigneeCountsDate, assigneeCountsWorkspaceId } = get();
@@ -450,9 +1392,19 @@ export const usePlannerStore = create<PlannerStore>()(
             .eq('workspace_id', workspaceId)
             .eq('user_id', userId)
           : Promise.resolve({ data: [], error: null });
+        const rowOrdersPromise = userId
+          ? supabase
+            .from('planner_row_orders')
+            .select('group_mode, row_ids, pinned_ids')
+            .eq('workspace_id', workspaceId)
+            .eq('user_id', userId)
+          : Promise.resolve({ data: [], error: null });
 
         const [
           tasksRes,
+          taskSeriesRes,
+          dependenciesRes,
+          checklistRes,
           projectsRes,
           customersRes,
           assigneesRes,
@@ -462,8 +1414,11 @@ export const usePlannerStore = create<PlannerStore>()(
           taskTypesRes,
           tagsRes,
           milestonesRes,
+          calendarRes,
+          calendarDaysRes,
           countsRes,
           trackedRes,
+          rowOrdersRes,
         ] = await Promise.all([
           supabase
             .from('tasks')
@@ -471,6 +1426,19 @@ export const usePlannerStore = create<PlannerStore>()(
             .eq('workspace_id', workspaceId)
             .gte('end_date', start)
             .lte('start_date', end),
+          supabase
+            .from('task_series')
+            .select('*')
+            .eq('workspace_id', workspaceId)
+            .lte('start_date', end),
+          supabase.from('task_dependencies').select('*').eq('workspace_id', workspaceId),
+          supabase
+            .from('task_checklist_items')
+            .select('*, tasks!inner(id)')
+            .eq('workspace_id', workspaceId)
+            .gte('tasks.end_date', start)
+            .lte('tasks.start_date', end)
+            .order('position', { ascending: true }),
           supabase.from('projects').select('*').eq('workspace_id', workspaceId),
           supabase.from('customers').select('*').eq('workspace_id', workspaceId),
           supabase.from('assignees').select('*').eq('workspace_id', workspaceId),
@@ -485,14 +1453,20 @@ export const usePlannerStore = create<PlannerStore>()(
             .eq('workspace_id', workspaceId)
             .gte('date', start)
             .lte('date', end),
+          supabase.from('workspace_calendars').select('*').eq('workspace_id', workspaceId).maybeSingle(),
+          supabase.from('workspace_calendar_days').select('*').eq('workspace_id', workspaceId),
           countsPromise,
           trackedPromise,
+          rowOrdersPromise,
         ]);
 
         if (get().dataRequestId !== requestId) return;
 
         if (
           tasksRes.error
+          || taskSeriesRes.error
+          || dependenciesRes.error
+          || checklistRes.error
           || projectsRes.error
           || customersRes.error
           || assigneesRes.error
@@ -502,10 +1476,16 @@ export const usePlannerStore = create<PlannerStore>()(
           || taskTypesRes.error
           || tagsRes.error
           || milestonesRes.error
+          || calendarRes.error
+          || calendarDaysRes.error
           || trackedRes.error
+          || rowOrdersRes.error
         ) {
           set({
             error: tasksRes.error?.message
+              || taskSeriesRes.error?.message
+              || dependenciesRes.error?.message
+              || checklistRes.error?.message
               || projectsRes.error?.message
               || customersRes.error?.message
               || assigneesRes.error?.message
@@ -515,7 +1495,10 @@ export const usePlannerStore = create<PlannerStore>()(
               || taskTypesRes.error?.message
               || tagsRes.error?.message
               || milestonesRes.error?.message
+              || calendarRes.error?.message
+              || calendarDaysRes.error?.message
               || trackedRes.error?.message
+              || rowOrdersRes.error?.message
               || 'Failed to load workspace data.',
             loading: false,
           });
@@ -525,6 +1508,7 @@ export const usePlannerStore = create<PlannerStore>()(
         if (get().dataRequestId !== requestId) return;
 
         const taskRows = (tasksRes.data ?? []) as TaskRow[];
+        const nextTaskSeries = (taskSeriesRes.data ?? []).map((row) => mapTaskSeriesRow(row as TaskSeriesRow));
         const assigneeRows = (assigneesRes.data ?? []) as AssigneeRow[];
         const taskAssigneeIds = new Set(
           taskRows.flatMap((row) => normalizeAssigneeIds(row.assignee_ids, row.assignee_id)),
@@ -567,6 +1551,13 @@ export const usePlannerStore = create<PlannerStore>()(
         }));
 
         const nextProjects = (projectsRes.data ?? []).map(mapProjectRow);
+        const calendarRow = calendarRes.data as WorkspaceCalendarRow | null;
+        const nextWorkingCalendar: WorkingCalendar = {
+          countryCode: calendarRow ? calendarRow.country_code : DEFAULT_WORKING_CALENDAR.countryCode,
+          weekendDays: calendarRow?.weekend_days ?? DEFAULT_WORKING_CALENDAR.weekendDays,
+          days: sortCalendarDays((calendarDaysRes.data ?? []).map((row) => mapCalendarDayRow(row as CalendarDayRow))),
+          keepWorkingDuration: calendarRow?.keep_working_duration ?? DEFAULT_WORKING_CALENDAR.keepWorkingDuration,
+        };
         const nextCustomers = (customersRes.data ?? []).map(mapCustomerRow).sort((left, right) => (
           left.name.localeCompare(right.name)
         ));
@@ -597,10 +1588,18 @@ export const usePlannerStore = create<PlannerStore>()(
         if (get().dataRequestId !== requestId) return;
 
         set((state) => ({
-          tasks: taskRows.map(mapTaskRow),
+          // Неотредактированные повторы серий в строках tasks не хранятся — разворачиваем их на загруженное окно.
+          tasks: [
+            ...taskRows.map(mapTaskRow),
+            ...nextTaskSeries.flatMap((series) => expandTaskSeries(series, start, end)),
+          ],
+          taskSeries: nextTaskSeries,
+          dependencies: (dependenciesRes.data ?? []).map((row) => mapTaskDependencyRow(row as TaskDependencyRow)),
+          checklistItems: (checklistRes.data ?? []).map((row) => mapChecklistItemRow(row as ChecklistItemRow)),
           milestones: (milestonesRes.data ?? []).map(mapMilestoneRow),
           projects: nextProjects,
           trackedProjectIds: nextTrackedProjectIds,
+          rowOrders: (rowOrdersRes.data ?? []).map((row) => mapPlannerRowOrderRow(row as PlannerRowOrderRow)),
           customers: nextCustomers,
           assignees,
           memberGroups,
@@ -608,6 +1607,7 @@ export const usePlannerStore = create<PlannerStore>()(
           statuses: (statusesRes.data ?? []).map(mapStatusRow),
           taskTypes: (taskTypesRes.data ?? []).map(mapTaskTypeRow),
           tags: (tagsRes.data ?? []).map(mapTagRow),
+          workingCalendar: nextWorkingCalendar,
           loadedRange: { start, end, viewMode, workspaceId },
           assigneeTaskCounts: nextAssigneeCounts,
           assigneeCountsDate: nextAssigneeCountsDate,
@@ -706,35 +1706,30 @@ export const usePlannerStore = create<PlannerStore>()(
         const workspaceId = get().workspaceId;
         if (!workspaceId) return null;
 
-        const assigneeIds = uniqueAssigneeIds(task.assigneeIds);
+        const optimistic: Task = {
+          ...task,
+          id: createClientId(),
+          assigneeIds: uniqueAssigneeIds(task.assigneeIds),
+        };
+        set((state) => ({ tasks: upsertById(state.tasks, optimistic) }));
 
-        const { data, error } = await supabase
-          .from('tasks')
-          .insert({
-            workspace_id: workspaceId,
-            title: task.title,
-            project_id: task.projectId,
-            assignee_id: assigneeIds[0] ?? null,
-            assignee_ids: assigneeIds,
-            start_date: task.startDate,
-            end_date: task.endDate,
-            status_id: task.statusId,
-            type_id: task.typeId,
-            priority: task.priority,
-            tag_ids: task.tagIds,
-            description: task.description,
-            repeat_id: task.repeatId,
-          })
-          .select('*')
-          .single();
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'tasks',
+          operation: 'insert',
+          payload: buildTaskRecord(workspaceId, optimistic),
+        });
 
-        if (error || !data) {
-          console.error(error);
+        if (outcome.status === 'rejected') {
+          set((state) => ({ tasks: state.tasks.filter((item) => item.id !== optimistic.id) }));
           return null;
         }
+        if (outcome.status === 'queued' || !outcome.rows[0]) return optimistic;
 
-        const mapped = mapTaskRow(data as TaskRow);
-        set((state) => ({ tasks: [...state.tasks, mapped] }));
+        const mapped = mapTaskRow(outcome.rows[0] as TaskRow);
+        set((state) => ({
+          tasks: upsertById(state.tasks.filter((item) => item.id !== optimistic.id), mapped),
+        }));
         return mapped;
       },
 
@@ -742,70 +1737,123 @@ export const usePlannerStore = create<PlannerStore>()(
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const payload = mapTaskUpdates(updates);
-        if (Object.keys(payload).length === 0) return;
-
-        const { data, error } = await supabase
-          .from('tasks')
-          .update(payload)
-          .eq('id', id)
-          .eq('workspace_id', workspaceId)
-          .select('*')
-          .single();
+        if (Object.keys(mapTaskUpdates(updates)).length === 0) return;
 
-        if (error || !data) {
-          console.error(error);
+        const pendingId = occurrenceWrites.get(id);
+        if (pendingId) {
+          const taskId = await pendingId;
+          if (taskId) await get().updateTask(taskId, updates);
+          return;
+        }
+        if (isOccurrenceId(id)) {
+          await materializeOccurrence(get, set, id, updates);
           return;
         }
 
-        const updated = mapTaskRow(data as TaskRow);
-        set((state) => ({
-          tasks: state.tasks.map((task) => (task.id === id ? updated : task)),
-        }));
-      },
-
-      deleteTask: async (id) => {
-        const workspaceId = get().workspaceId;
-        if (!workspaceId) return;
+        const previous = get().tasks.find((task) => task.id === id) ?? null;
+        const taskUpdates = withProjectMilestone(previous, updates);
+        const optimistic = previous ? applyTaskUpdates(previous, taskUpdates) : null;
+        if (optimistic) {
+          set((state) => ({
+            tasks: state.tasks.map((task) => (task.id === id ? optimistic : task)),
+          }));
+        }
 
-        const { error } = await supabase
-          .from('tasks')
-          .delete()
-          .eq('id', id)
-          .eq('workspace_id', workspaceId);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'tasks',
+          operation: 'update',
+          payload: mapTaskUpdates(taskUpdates),
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
 
-        if (error) {
-          console.error(error);
+        if (outcome.status === 'rejected') {
+          if (previous) {
+            set((state) => ({
+              tasks: state.tasks.map((task) => (task.id === id ? previous : task)),
+            }));
+          }
           return;
         }
 
+        const updated = outcome.status === 'applied' && outcome.rows[0]
+          ? mapTaskRow(outcome.rows[0] as TaskRow)
+          : optimistic;
+        if (!updated) return;
+
         set((state) => ({
-          tasks: state.tasks.filter((task) => task.id !== id),
-          selectedTaskId: state.selectedTaskId === id ? null : state.selectedTaskId,
+          // Не перетираем ответом сервера более свежую локальную правку той же задачи.
+          tasks: state.tasks.map((task) => (
+            task.id === id && (task === optimistic || !optimistic) ? updated : task
+          )),
+          ...(previous
+            ? recordHistory(state, createHistoryEntry('updateTasks', {
+              tasks: [{ id, before: previous, after: updated }],
+            }))
+            : {}),
         }));
       },
 
-      deleteTasks: async (ids) => {
+      deleteTask: async (id) => {
+        await get().deleteTasks([id]);
+      },
+
+      deleteTasks: async (requestedIds) => {
         const workspaceId = get().workspaceId;
-        if (!workspaceId || ids.length === 0) return {};
+        if (!workspaceId || requestedIds.length === 0) return {};
+
+        const resolvedIds = await Promise.all(requestedIds.map((id) => occurrenceWrites.get(id) ?? id));
+        const occurrenceIds = resolvedIds.filter((id): id is string => id !== null && isOccurrenceId(id));
+        const { error: excludeError, exdates } = await excludeOccurrences(get, set, occurrenceIds);
+        // Уже исключённые даты остаются в истории, чтобы их можно было вернуть, даже если дальше что-то не удалось.
+        const recordExcluded = () => {
+          if (exdates.length === 0) return;
+          set((state) => recordHistory(state, createHistoryEntry('deleteTasks', { exdates })));
+        };
+        if (excludeError) {
+          recordExcluded();
+          return { error: excludeError };
+        }
+        const ids = resolvedIds.filter((id): id is string => id !== null && !isOccurrenceId(id));
+        if (ids.length === 0) {
+          recordExcluded();
+          return {};
+        }
 
-        const { error } = await supabase
-          .from('tasks')
-          .delete()
-          .eq('workspace_id', workspaceId)
-          .in('id', ids);
+        const idSet = new Set(ids);
+        const removedTasks = get().tasks.filter((task) => idSet.has(task.id));
+        const removedDependencies = collectTaskDependencies(get().dependencies, idSet);
+        const removedChecklistItems = get().checklistItems.filter((item) => idSet.has(item.taskId));
+        set((state) => removeTasksFromState(state, idSet));
 
-        if (error) {
-          console.error(error);
-          return { error: error.message };
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'tasks',
+          operation: 'delete',
+          match: [{ column: 'id', op: 'in', value: ids }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            tasks: removedTasks.reduce(upsertById, state.tasks),
+            dependencies: removedDependencies.reduce(upsertById, state.dependencies),
+            checklistItems: removedChecklistItems.reduce(upsertById, state.checklistItems),
+          }));
+          recordExcluded();
+          return { error: outcome.message };
         }
 
-        set((state) => ({
-          tasks: state.tasks.filter((task) => !ids.includes(task.id)),
-          selectedTaskId: state.selectedTaskId && ids.includes(state.selectedTaskId)
-            ? null
-            : state.selectedTaskId,
-        }));
+        const deleted = outcome.status === 'applied'
+          ? outcome.rows.map((row) => mapTaskRow(row as TaskRow))
+          : removedTasks;
+        if (deleted.length > 0 || exdates.length > 0) {
+          set((state) => recordHistory(state, createHistoryEntry('deleteTasks', {
+            tasks: deleted.map((task) => ({ id: task.id, before: task, after: null })),
+            dependencies: removedDependencies,
+            checklistItems: removedChecklistItems,
+            exdates,
+          })));
+        }
 
         return {};
       },
@@ -820,7 +1868,7 @@ export const usePlannerStore = create<PlannerStore>()(
         const newStart = addDays(end, 1);
         const newEnd = addDays(newStart, Math.max(0, duration - 1));
 
-        await get().addTask({
+        const created = await get().addTask({
           title: task.title,
           projectId: task.projectId,
           assigneeIds: [...task.assigneeIds],
@@ -832,220 +1880,734 @@ export const usePlannerStore = create<PlannerStore>()(
           tagIds: [...task.tagIds],
           description: task.description,
           repeatId: null,
+          estimateHours: task.estimateHours,
+          milestoneId: task.milestoneId,
         });
+        if (!created) return;
+
+        set((state) => recordHistory(state, createHistoryEntry('createTasks', {
+          tasks: [{ id: created.id, before: null, after: created }],
+        })));
       },
 
-      createRepeats: async (id, options) => {
+      saveTaskRecurrence: async (id, rrule) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return { error: 'Workspace not selected.' };
-        let task = get().tasks.find((item) => item.id === id);
-        if (!task) {
+        const rule = parseRRule(rrule);
+        if (!rule) return { error: 'This repeat rule is not supported.' };
+        const task = get().tasks.find((item) => item.id === id);
+        if (!task) return { error: 'Task not found.' };
+
+        const existing = task.repeatId
+          ? get().taskSeries.find((item) => item.id === task.repeatId) ?? null
+          : null;
+        if (existing) {
+          const nextSeries: TaskSeries = { ...existing, rrule: formatRRule(rule) };
+          set((state) => withSeriesOccurrences(state, existing.id, nextSeries));
+          const outcome = await get().commitMutation({
+            workspaceId,
+            table: 'task_series',
+            operation: 'update',
+            payload: { rrule: nextSeries.rrule },
+            match: [{ column: 'id', op: 'eq', value: existing.id }],
+          });
+          if (outcome.status === 'rejected') {
+            set((state) => withSeriesOccurrences(state, existing.id, existing));
+            return { error: outcome.message };
+          }
+          set((state) => recordHistory(state, createHistoryEntry('updateTaskSeries', {
+            taskSeries: [{ id: existing.id, before: existing, after: nextSeries }],
+          })));
+          return {};
+        }
+
+        // Повторы, созданные копиями до появления серий, остаются задачами: их даты сразу исключаем.
+        const legacyDates: string[] = [];
+        if (task.repeatId) {
           const { data, error } = await supabase
             .from('tasks')
-            .select('*')
-            .eq('id', id)
+            .select('start_date')
             .eq('workspace_id', workspaceId)
-            .single();
+            .eq('repeat_id', task.repeatId);
+          if (error) {
+            console.error(error);
+          }
+          (data ?? []).forEach((row: { start_date: string }) => legacyDates.push(row.start_date));
+        }
 
-          if (error || !data) {
-            return { error: error?.message ?? 'Task not found.' };
+        // Сама задача становится первым повтором серии и хранится обычной строкой.
+        const series: TaskSeries = {
+          id: task.repeatId ?? createClientId(),
+          rrule: formatRRule(rule),
+          startDate: task.startDate,
+          durationDays: Math.max(0, differenceInDays(parseISO(task.endDate), parseISO(task.startDate))),
+          exdates: Array.from(new Set([task.startDate, ...legacyDates])),
+          template: getSeriesTemplate(task),
+        };
+        set((state) => withSeriesOccurrences(state, series.id, series));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'task_series',
+          operation: 'insert',
+          payload: buildTaskSeriesRecord(workspaceId, series),
+        });
+        if (outcome.status === 'rejected') {
+          set((state) => withSeriesOccurrences(state, series.id, null));
+          return { error: outcome.message };
+        }
+        // Отмена удаляет серию и отвязывает от неё задачу — одним шагом.
+        const historySince = getNextHistoryEntryId();
+        if (!task.repeatId) {
+          await get().updateTask(task.id, { repeatId: series.id });
+        }
+        set((state) => recordHistorySince(state, historySince, createHistoryEntry('updateTaskSeries', {
+          taskSeries: [{ id: series.id, before: null, after: series }],
+        })));
+        return {};
+      },
+
+      moveTask: async (id, startDate, endDate) => {
+        await get().updateTask(id, { startDate, endDate });
+      },
+
+      rescheduleTasks: async (changes) => {
+        await get().updateTasks(changes.map((change) => ({
+          id: change.id,
+          updates: { startDate: change.startDate, endDate: change.endDate },
+        })));
+      },
+
+      updateTasks: async (requestedChanges) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId || requestedChanges.length === 0) return {};
+
+        // Виртуальные повторы сохраняются отдельными вставками уже с правкой, остальное — одним bulk_update_tasks.
+        const historySince = getNextHistoryEntryId();
+        const resolvedChanges = await Promise.all(requestedChanges.map(async (change) => {
+          const pendingId = occurrenceWrites.get(change.id);
+          if (pendingId) {
+            const id = await pendingId;
+            return id ? { ...change, id } : null;
           }
+          if (isOccurrenceId(change.id)) {
+            await materializeOccurrence(get, set, change.id, change.updates);
+            return null;
+          }
+          return change;
+        }));
+        const changes = resolvedChanges.filter((change): change is TaskUpdateChange => change !== null);
+        // Сохранённые повторы и правка остальных задач — один шаг истории.
+        const collapseHistory = () => set((state) => recordHistorySince(state, historySince));
+
+        // Правки одной задачи сливаются в один патч.
+        const updatesById = new Map<string, Partial<Task>>();
+        changes.forEach((change) => {
+          updatesById.set(change.id, { ...updatesById.get(change.id), ...change.updates });
+        });
 
-          const fetchedTask = mapTaskRow(data as TaskRow);
-          task = fetchedTask;
-          set((state) => (
-            state.tasks.some((item) => item.id === fetchedTask.id)
-              ? state
-              : { tasks: [...state.tasks, fetchedTask] }
-          ));
+        const previousById = new Map(get().tasks.map((task) => [task.id, task]));
+        const optimisticById = new Map<string, Task>();
+        updatesById.forEach((updates, id) => {
+          const base = previousById.get(id);
+          if (base) {
+            const taskUpdates = withProjectMilestone(base, updates);
+            updatesById.set(id, taskUpdates);
+            optimisticById.set(id, applyTaskUpdates(base, taskUpdates));
+          }
+        });
+        if (optimisticById.size === 0) {
+          collapseHistory();
+          return {};
         }
+        set((state) => ({
+          tasks: state.tasks.map((task) => optimisticById.get(task.id) ?? task),
+        }));
 
-        const repeatId = task.repeatId ?? (typeof crypto !== 'undefined' && crypto.randomUUID
-          ? crypto.randomUUID()
-          : `${Date.now()}-${Math.random().toString(16).slice(2)}`);
+        // Вся пачка — один вызов bulk_update_tasks в одной транзакции: либо меняются все задачи, либо ни одна.
+        // Пишутся только изменённые колонки, теги добавляются и убираются по одному, а не перезаписываются списком.
+        const payloadChanges = Array.from(optimisticById.keys()).flatMap((id) => {
+          const { tagIds, ...updates } = updatesById.get(id) ?? {};
+          const fields = mapTaskUpdates(updates);
+          const previousTagIds = previousById.get(id)?.tagIds ?? [];
+          const addTagIds = tagIds ? tagIds.filter((tagId) => !previousTagIds.includes(tagId)) : [];
+          const removeTagIds = tagIds ? previousTagIds.filter((tagId) => !tagIds.includes(tagId)) : [];
+          if (Object.keys(fields).length === 0 && addTagIds.length === 0 && removeTagIds.length === 0) return [];
+          return [{ id, fields, add_tag_ids: addTagIds, remove_tag_ids: removeTagIds }];
+        });
+        if (payloadChanges.length === 0) {
+          collapseHistory();
+          return {};
+        }
 
-        if (!task.repeatId) {
-          const { data: repeatData, error: repeatError } = await supabase
-            .from('tasks')
-            .update({ repeat_id: repeatId })
-            .eq('id', task.id)
-            .eq('workspace_id', workspaceId)
-            .select('*')
-            .single();
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'bulk_update_tasks',
+          operation: 'rpc',
+          payload: { p_workspace_id: workspaceId, p_changes: payloadChanges },
+        });
+
+        const rejected = outcome.status === 'rejected';
+        const error = outcome.status === 'rejected' ? outcome.message : undefined;
+        const updatedById = rejected ? new Map<string, Task>() : new Map(optimisticById);
+        if (outcome.status === 'applied') {
+          outcome.rows.forEach((row) => {
+            const task = mapTaskRow(row as TaskRow);
+            if (updatedById.has(task.id)) updatedById.set(task.id, task);
+          });
+        }
+
+        set((state) => ({
+          // Не перетираем ответом сервера более свежие локальные правки тех же задач.
+          tasks: state.tasks.map((task) => {
+            if (task !== optimisticById.get(task.id)) return task;
+            if (rejected) return previousById.get(task.id) ?? task;
+            return updatedById.get(task.id) ?? task;
+          }),
+          ...recordHistorySince(state, historySince, updatedById.size > 0
+            ? createHistoryEntry('updateTasks', {
+              tasks: Array.from(updatedById.keys()).map((id) => ({
+                id,
+                before: previousById.get(id)!,
+                after: updatedById.get(id)!,
+              })),
+            })
+            : undefined),
+        }));
+
+        return error ? { error } : {};
+      },
 
-          if (repeatError || !repeatData) {
-            return { error: repeatError?.message ?? 'Failed to link repeat series.' };
+      reassignTask: async (id, assigneeId, projectId) => {
+        await get().updateTask(id, {
+          assigneeIds: assigneeId ? [assigneeId] : [],
+          ...(projectId !== undefined ? { projectId } : {}),
+        });
+      },
+
+      deleteTaskSeries: async (repeatId, fromDate) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return;
+
+        const series = get().taskSeries.find((item) => item.id === repeatId);
+        const seriesSnapshots: HistorySnapshot<TaskSeries>[] = [];
+        // Отмена возвращает серию целиком вместе с удалёнными повторами.
+        const recordSeriesHistory = (changes: Partial<PlannerHistoryEntry> = {}) => {
+          if (seriesSnapshots.length === 0 && !changes.tasks?.length) return;
+          set((state) => recordHistory(state, createHistoryEntry('deleteTaskSeries', {
+            ...changes,
+            taskSeries: seriesSnapshots,
+          })));
+        };
+        if (series) {
+          // Серия заканчивается накануне fromDate; если до него повторов нет, удаляется целиком.
+          const nextSeries = truncateTaskSeries(series, fromDate);
+          set((state) => withSeriesOccurrences(state, series.id, nextSeries));
+
+          const outcome = await get().commitMutation(nextSeries
+            ? {
+              workspaceId,
+              table: 'task_series',
+              operation: 'update',
+              payload: { rrule: nextSeries.rrule, exdates: nextSeries.exdates },
+              match: [{ column: 'id', op: 'eq', value: series.id }],
+            }
+            : {
+              workspaceId,
+              table: 'task_series',
+              operation: 'delete',
+              match: [{ column: 'id', op: 'eq', value: series.id }],
+            });
+          if (outcome.status === 'rejected') {
+            set((state) => withSeriesOccurrences(state, series.id, series));
+            return;
           }
+          seriesSnapshots.push({ id: series.id, before: series, after: nextSeries });
+        }
+
+        const removedTasks = get().tasks.filter((item) => (
+          item.repeatId === repeatId && item.startDate >= fromDate && !isOccurrenceId(item.id)
+        ));
+        // У серии без отредактированных повторов строк в tasks нет, а пустой DELETE считается отказом RLS.
+        if (series && removedTasks.length === 0) {
+          recordSeriesHistory();
+          return;
+        }
+        const removedIds = new Set(removedTasks.map((item) => item.id));
+        const removedDependencies = collectTaskDependencies(get().dependencies, removedIds);
+        const removedChecklistItems = get().checklistItems.filter((item) => removedIds.has(item.taskId));
+        set((state) => removeTasksFromState(state, removedIds));
 
-          const updatedTask = mapTaskRow(repeatData as TaskRow);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'tasks',
+          operation: 'delete',
+          match: [
+            { column: 'repeat_id', op: 'eq', value: repeatId },
+            { column: 'start_date', op: 'gte', value: fromDate },
+          ],
+        });
+
+        if (outcome.status === 'rejected') {
           set((state) => ({
-            tasks: state.tasks.map((item) => (item.id === task.id ? updatedTask : item)),
+            tasks: removedTasks.reduce(upsertById, state.tasks),
+            dependencies: removedDependencies.reduce(upsertById, state.dependencies),
+            checklistItems: removedChecklistItems.reduce(upsertById, state.checklistItems),
           }));
+          recordSeriesHistory();
+          return;
         }
 
-        const baseStart = parseISO(task.startDate);
-        const baseEnd = parseISO(task.endDate);
-        const duration = differenceInDays(baseEnd, baseStart) + 1;
-        const assigneeIds = uniqueAssigneeIds(task.assigneeIds);
-        const { data: existingRepeats, error: existingRepeatsError } = await supabase
-          .from('tasks')
-          .select('start_date')
-          .eq('workspace_id', workspaceId)
-          .eq('repeat_id', repeatId);
-        if (existingRepeatsError) {
-          console.error(existingRepeatsError);
+        const deleted = outcome.status === 'applied'
+          ? outcome.rows.map((row) => mapTaskRow(row as TaskRow))
+          : removedTasks;
+        // Сервер мог удалить и повторы за пределами загруженного диапазона.
+        set((state) => removeTasksFromState(state, new Set(deleted.map((task) => task.id))));
+        recordSeriesHistory({
+          tasks: deleted.map((task) => ({ id: task.id, before: task, after: null })),
+          dependencies: removedDependencies,
+          checklistItems: removedChecklistItems,
+        });
+      },
+
+      updateTaskSeries: async (id, before, after, scope) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return { error: 'Workspace not selected.' };
+
+        // Правка повтора, серии и её задач отменяется одним шагом вместе с шаблоном серии.
+        const historySince = getNextHistoryEntryId();
+        const seriesSnapshots: HistorySnapshot<TaskSeries>[] = [];
+        const recordSeriesHistory = () => set((state) => recordHistorySince(
+          state,
+          historySince,
+          createHistoryEntry('updateTaskSeries', { taskSeries: seriesSnapshots }),
+        ));
+
+        // Сам повтор получает правку как есть; виртуальный при этом сохраняется задачей.
+        const current = get().tasks.find((task) => task.id === id);
+        const ownUpdates: Partial<Task> = {};
+        if (current) {
+          (Object.keys(after) as Array<keyof Task>).forEach((key) => {
+            if (key !== 'id' && JSON.stringify(current[key]) !== JSON.stringify(after[key])) {
+              Object.assign(ownUpdates, { [key]: after[key] });
+            }
+          });
+        }
+        if (Object.keys(ownUpdates).length > 0) {
+          await get().updateTask(id, ownUpdates);
         }
-        const existingRepeatDates = new Set(
-          (existingRepeats ?? []).map((item: { start_date: string }) => item.start_date),
-        );
-        const endsMode = options.ends;
-        const targetCount = options.count && options.count > 0 ? options.count : 0;
-        const untilDate = options.untilDate ? parseISO(options.untilDate) : null;
-        const neverHorizon = addYears(baseStart, 1);
-
-        const addInterval = (date: Date, step: number) => {
-          switch (options.frequency) {
-            case 'daily':
-              return addDays(date, step);
-            case 'weekly':
-              return addWeeks(date, step);
-            case 'monthly':
-              return addMonths(date, step);
-            case 'yearly':
-              return addYears(date, step);
-            default:
-              return addWeeks(date, step);
-          }
-        };
 
-        const newTasks: Array<{
-          workspace_id: string;
-          title: string;
-          project_id: string | null;
-          assignee_id: string | null;
-          assignee_ids: string[];
-          start_date: string;
-          end_date: string;
-          status_id: string;
-          type_id: string;
-          priority: TaskPriority | null;
-          tag_ids: string[];
-          description: string | null;
-          repeat_id: string;
-        }> = [];
-
-        for (let index = 1; index <= 500; index += 1) {
-          if (endsMode === 'after' && index > targetCount) break;
-          const nextStart = addInterval(baseStart, index);
-          if (endsMode === 'on' && untilDate && nextStart > untilDate) break;
-          if (endsMode === 'never' && nextStart > neverHorizon) break;
-
-          const startDate = format(nextStart, 'yyyy-MM-dd');
-          if (existingRepeatDates.has(startDate)) {
-            continue;
+        const repeatId = before.repeatId;
+        const edit = getTaskSeriesEdit(before, after);
+        if (scope === 'this' || !repeatId || isEmptyTaskSeriesEdit(edit)) return {};
+        const taskId = await persistTaskId(get, set, id);
+        if (!taskId) return { error: 'Could not save this repeat.' };
+
+        const fromDate = before.startDate;
+        const series = get().taskSeries.find((item) => item.id === repeatId) ?? null;
+        let tailId: string | null = null;
+        if (series && (scope === 'all' || fromDate <= series.startDate)) {
+          const nextSeries = applyTaskSeriesEdit(series, edit);
+          set((state) => withSeriesOccurrences(state, series.id, nextSeries));
+          const outcome = await get().commitMutation({
+            workspaceId,
+            table: 'task_series',
+            operation: 'update',
+            payload: buildTaskSeriesRecord(workspaceId, nextSeries),
+            match: [{ column: 'id', op: 'eq', value: series.id }],
+          });
+          if (outcome.status === 'rejected') {
+            set((state) => withSeriesOccurrences(state, series.id, series));
+            return { error: outcome.message };
           }
-          existingRepeatDates.add(startDate);
-          const nextEnd = addDays(nextStart, Math.max(0, duration - 1));
-          newTasks.push({
-            workspace_id: workspaceId,
-            title: task.title,
-            project_id: task.projectId,
-            assignee_id: assigneeIds[0] ?? null,
-            assignee_ids: [...assigneeIds],
-            start_date: startDate,
-            end_date: format(nextEnd, 'yyyy-MM-dd'),
-            status_id: task.statusId,
-            type_id: task.typeId,
-            priority: task.priority,
-            tag_ids: [...task.tagIds],
-            description: task.description,
-            repeat_id: repeatId,
+          seriesSnapshots.push({ id: series.id, before: series, after: nextSeries });
+        } else if (series) {
+          // «Этот и следующие»: серия заканчивается накануне повтора, дальше идёт новая серия уже с правкой.
+          const { head, tail } = splitTaskSeries(series, fromDate, createClientId());
+          const nextTail = tail ? applyTaskSeriesEdit(tail, edit) : null;
+          const revert = () => set((state) => {
+            const restored = { ...state, ...withSeriesOccurrences(state, series.id, series) };
+            return nextTail ? { ...restored, ...withSeriesOccurrences(restored, nextTail.id, null) } : restored;
+          });
+          set((state) => {
+            const truncated = { ...state, ...withSeriesOccurrences(state, series.id, head) };
+            return nextTail ? { ...truncated, ...withSeriesOccurrences(truncated, nextTail.id, nextTail) } : truncated;
           });
-        }
 
-        if (newTasks.length === 0) {
-          return { error: 'No repeats created for the selected range.' };
+          if (nextTail) {
+            const outcome = await get().commitMutation({
+              workspaceId,
+              table: 'task_series',
+              operation: 'insert',
+              payload: buildTaskSeriesRecord(workspaceId, nextTail),
+            });
+            if (outcome.status === 'rejected') {
+              revert();
+              return { error: outcome.message };
+            }
+          }
+          const outcome = await get().commitMutation(head
+            ? {
+              workspaceId,
+              table: 'task_series',
+              operation: 'update',
+              payload: { rrule: head.rrule, exdates: head.exdates },
+              match: [{ column: 'id', op: 'eq', value: series.id }],
+            }
+            : {
+              workspaceId,
+              table: 'task_series',
+              operation: 'delete',
+              match: [{ column: 'id', op: 'eq', value: series.id }],
+            });
+          if (outcome.status === 'rejected') {
+            revert();
+            if (nextTail) {
+              await get().commitMutation({
+                workspaceId,
+                table: 'task_series',
+                operation: 'delete',
+                match: [{ column: 'id', op: 'eq', value: nextTail.id }],
+              });
+            }
+            return { error: outcome.message };
+          }
+          tailId = nextTail?.id ?? null;
+          seriesSnapshots.push({ id: series.id, before: series, after: head });
+          if (nextTail) seriesSnapshots.push({ id: nextTail.id, before: null, after: nextTail });
         }
 
-        const { data, error } = await supabase
+        // Отредактированные повторы и копии старого формата — строки tasks, часть из них вне загруженного диапазона.
+        let query = supabase
           .from('tasks')
-          .insert(newTasks)
-          .select('*');
-
+          .select('*')
+          .eq('workspace_id', workspaceId)
+          .eq('repeat_id', repeatId);
+        if (scope === 'following') {
+          query = query.gte('start_date', fromDate);
+        }
+        const { data, error } = await query;
         if (error) {
+          console.error(error);
+          recordSeriesHistory();
           return { error: error.message };
         }
+        const knownIds = new Set(get().tasks.map((task) => task.id));
+        const fetched = ((data ?? []) as TaskRow[]).map(mapTaskRow).filter((task) => !knownIds.has(task.id));
+        if (fetched.length > 0) {
+          set((state) => ({ tasks: fetched.reduce(upsertById, state.tasks) }));
+        }
 
+        const changes: TaskUpdateChange[] = get().tasks
+          .filter((task) => (
+            !isOccurrenceId(task.id)
+            && task.repeatId === repeatId
+            && (scope === 'all' || task.startDate >= fromDate || task.id === taskId)
+          ))
+          .map((task) => ({
+            id: task.id,
+            updates: {
+              ...(task.id === taskId ? {} : { ...edit.updates, ...shiftTaskDates(task, edit) }),
+              ...(tailId ? { repeatId: tailId } : {}),
+            },
+          }))
+          .filter((change) => Object.keys(change.updates).length > 0);
+        const result = changes.length > 0 ? await get().updateTasks(changes) : {};
+        recordSeriesHistory();
+        return result;
+      },
+
+      addTaskDependency: async (requestedPredecessorId, requestedSuccessorId, type) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return { error: 'Workspace not selected.' };
+
+        const [predecessorId, successorId] = await Promise.all([
+          persistTaskId(get, set, requestedPredecessorId),
+          persistTaskId(get, set, requestedSuccessorId),
+        ]);
+        if (!predecessorId || !successorId) return { error: 'Failed to save the repeated task.' };
+
+        const { dependencies } = get();
+        if (dependencies.some((item) => item.predecessorId === predecessorId && item.successorId === successorId)) {
+          return { error: 'These tasks are already linked.' };
+        }
+        if (wouldCreateDependencyCycle(dependencies, predecessorId, successorId)) {
+          return { error: 'This link would create a dependency loop.' };
+        }
+
+        const optimistic: TaskDependency = {
+          id: createClientId(),
+          predecessorId,
+          successorId,
+          type,
+        };
+        set((state) => ({ dependencies: upsertById(state.dependencies, optimistic) }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'task_dependencies',
+          operation: 'insert',
+          payload: buildTaskDependencyRecord(workspaceId, optimistic),
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            dependencies: state.dependencies.filter((item) => item.id !== optimistic.id),
+          }));
+          return { error: outcome.message };
+        }
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          const created = mapTaskDependencyRow(outcome.rows[0] as TaskDependencyRow);
+          set((state) => ({
+            dependencies: upsertById(state.dependencies.filter((item) => item.id !== optimistic.id), created),
+          }));
+        }
+        return {};
+      },
+
+      deleteTaskDependency: async (id) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return;
+
+        const removed = get().dependencies.find((item) => item.id === id);
         set((state) => ({
-          tasks: [...state.tasks, ...((data ?? []) as TaskRow[]).map(mapTaskRow)],
+          dependencies: state.dependencies.filter((item) => item.id !== id),
         }));
 
-        return { created: newTasks.length };
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'task_dependencies',
+          operation: 'delete',
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected' && removed) {
+          set((state) => ({ dependencies: upsertById(state.dependencies, removed) }));
+        }
       },
 
-      moveTask: async (id, startDate, endDate) => {
-        await get().updateTask(id, { startDate, endDate });
+      addChecklistItem: async (requestedTaskId, item) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return;
+
+        const title = item.title.trim();
+        if (!title) return;
+        const taskId = await persistTaskId(get, set, requestedTaskId);
+        if (!taskId) return;
+        const siblings = get().checklistItems.filter((current) => current.taskId === taskId);
+        const optimistic: ChecklistItem = {
+          id: createClientId(),
+          taskId,
+          title,
+          done: item.done ?? false,
+          assigneeId: item.assigneeId ?? null,
+          dueDate: item.dueDate ?? null,
+          position: siblings.reduce((max, current) => Math.max(max, current.position + 1), 0),
+        };
+        set((state) => ({ checklistItems: upsertById(state.checklistItems, optimistic) }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'task_checklist_items',
+          operation: 'insert',
+          payload: buildChecklistItemRecord(workspaceId, optimistic),
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            checklistItems: state.checklistItems.filter((current) => current.id !== optimistic.id),
+          }));
+        }
       },
 
-      reassignTask: async (id, assigneeId, projectId) => {
-        await get().updateTask(id, {
-          assigneeIds: assigneeId ? [assigneeId] : [],
-          ...(projectId !== undefined ? { projectId } : {}),
+      updateChecklistItem: async (id, updates) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return;
+
+        const payload: Record<string, unknown> = {};
+        if ('title' in updates) payload.title = updates.title;
+        if ('done' in updates) payload.is_done = updates.done;
+        if ('assigneeId' in updates) payload.assignee_id = updates.assigneeId;
+        if ('dueDate' in updates) payload.due_date = updates.dueDate;
+        if ('position' in updates) payload.position = updates.position;
+        if (Object.keys(payload).length === 0) return;
+
+        const previous = get().checklistItems.find((item) => item.id === id);
+        if (!previous) return;
+        set((state) => ({
+          checklistItems: state.checklistItems.map((item) => (item.id === id ? { ...item, ...updates } : item)),
+        }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'task_checklist_items',
+          operation: 'update',
+          payload,
+          match: [{ column: 'id', op: 'eq', value: id }],
         });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            checklistItems: state.checklistItems.map((item) => (item.id === id ? previous : item)),
+          }));
+        }
       },
 
-      deleteTaskSeries: async (repeatId, fromDate) => {
+      deleteChecklistItem: async (id) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { error } = await supabase
-          .from('tasks')
-          .delete()
-          .eq('workspace_id', workspaceId)
-          .eq('repeat_id', repeatId)
-          .gte('start_date', fromDate);
+        const removed = get().checklistItems.find((item) => item.id === id);
+        if (!removed) return;
+        set((state) => ({
+          checklistItems: state.checklistItems.filter((item) => item.id !== id),
+        }));
 
-        if (error) {
-          console.error(error);
-          return;
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'task_checklist_items',
+          operation: 'delete',
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({ checklistItems: upsertById(state.checklistItems, removed) }));
         }
+      },
 
-        set((state) => {
-          const deletedIds = new Set(
-            state.tasks
-              .filter((item) => item.repeatId === repeatId && item.startDate >= fromDate)
-              .map((item) => item.id)
-          );
-          return {
-            tasks: state.tasks.filter((item) => !(item.repeatId === repeatId && item.startDate >= fromDate)),
-            selectedTaskId: state.selectedTaskId && deletedIds.has(state.selectedTaskId) ? null : state.selectedTaskId,
-          };
+      promoteChecklistItem: async (id) => {
+        const item = get().checklistItems.find((current) => current.id === id);
+        const parent = item ? get().tasks.find((task) => task.id === item.taskId) : null;
+        if (!item || !parent) return null;
+
+        // Пункт без срока становится задачей на даты родителя; со сроком — однодневной задачей.
+        const startDate = item.dueDate ?? parent.startDate;
+        const endDate = item.dueDate ?? parent.endDate;
+        const created = await get().addTask({
+          title: item.title,
+          projectId: parent.projectId,
+          assigneeIds: item.assigneeId ? [...parent.assigneeIds, item.assigneeId] : [...parent.assigneeIds],
+          startDate,
+          endDate,
+          statusId: parent.statusId,
+          typeId: parent.typeId,
+          priority: parent.priority,
+          tagIds: [...parent.tagIds],
+          description: null,
+          repeatId: null,
+          estimateHours: null,
+          milestoneId: parent.milestoneId,
         });
+        if (!created) return null;
+
+        await get().deleteChecklistItem(id);
+        return created;
       },
 
       addProject: async (project) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { data, error } = await supabase
-          .from('projects')
-          .insert({
-            workspace_id: workspaceId,
+        const optimistic: Project = {
+          id: createClientId(),
+          name: project.name,
+          code: project.code ?? null,
+          color: project.color,
+          archived: project.archived ?? false,
+          customerId: project.customerId ?? null,
+        };
+        set((state) => ({ projects: upsertById(state.projects, optimistic) }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'projects',
+          operation: 'insert',
+          payload: buildProjectRecord(workspaceId, optimistic),
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({ projects: state.projects.filter((item) => item.id !== optimistic.id) }));
+          return;
+        }
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          const created = mapProjectRow(outcome.rows[0] as ProjectRow);
+          set((state) => ({ projects: upsertById(state.projects, created) }));
+        }
+      },
+
+      createProjectFromPlan: async (project, plan) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return { error: 'Workspace not selected.' };
+
+        // Проект, задачи и вехи создаются одной транзакцией на сервере: либо всё, либо ничего.
+        const { data, error } = await supabase.rpc('create_project_with_plan', {
+          target_workspace_id: workspaceId,
+          project: {
             name: project.name,
             code: project.code ?? null,
             color: project.color,
-            archived: project.archived ?? false,
             customer_id: project.customerId ?? null,
-          })
-          .select('*')
-          .single();
-
+          },
+          tasks: plan.tasks.map((task) => ({
+            title: task.title,
+            start_date: task.startDate,
+            end_date: task.endDate,
+            status_id: task.statusId,
+            type_id: task.typeId,
+            priority: task.priority,
+            tag_ids: task.tagIds,
+            description: task.description,
+            estimate_hours: task.estimateHours,
+            assignee_ids: uniqueAssigneeIds(task.assigneeIds),
+          })),
+          milestones: plan.milestones,
+        });
         if (error || !data) {
           console.error(error);
-          return;
+          return { error: error?.message ?? 'Failed to create project.' };
         }
+        const projectId = data as string;
 
-        set((state) => ({ projects: [...state.projects, mapProjectRow(data as ProjectRow)] }));
+        const { data: projectRow, error: projectError } = await supabase
+          .from('projects')
+          .select('*')
+          .eq('id', projectId)
+          .single();
+        if (projectError || !projectRow) {
+          console.error(projectError);
+          return { projectId };
+        }
+        set((state) => ({ projects: upsertById(state.projects, mapProjectRow(projectRow as ProjectRow)) }));
+
+        const range = get().loadedRange;
+        if (!range || range.workspaceId !== workspaceId) return { projectId };
+        const [tasksResult, milestonesResult] = await Promise.all([
+          supabase
+            .from('tasks')
+            .select('*')
+            .eq('workspace_id', workspaceId)
+            .eq('project_id', projectId)
+            .gte('end_date', range.start)
+            .lte('start_date', range.end),
+          supabase
+            .from('milestones')
+            .select('*')
+            .eq('workspace_id', workspaceId)
+            .eq('project_id', projectId)
+            .gte('date', range.start)
+            .lte('date', range.end),
+        ]);
+        if (tasksResult.error || milestonesResult.error) {
+          console.error(tasksResult.error ?? milestonesResult.error);
+          return { projectId };
+        }
+        set((state) => ({
+          tasks: (tasksResult.data ?? []).map((row) => mapTaskRow(row as TaskRow)).reduce(upsertById, state.tasks),
+          milestones: (milestonesResult.data ?? [])
+            .map((row) => mapMilestoneRow(row as MilestoneRow))
+            .reduce(upsertById, state.milestones),
+        }));
+        return { projectId };
       },
 
       updateProject: async (id, updates) => {
@@ -1060,23 +2622,12 @@ export const usePlannerStore = create<PlannerStore>()(
         if ('customerId' in updates) payload.customer_id = updates.customerId;
         if (Object.keys(payload).length === 0) return;
 
-        const { data, error } = await supabase
-          .from('projects')
-          .update(payload)
-          .eq('id', id)
-          .eq('workspace_id', workspaceId)
-          .select('*')
-          .single();
-
-        if (error || !data) {
-          console.error(error);
-          return;
-        }
-
-        const updated = mapProjectRow(data as ProjectRow);
+        const previous = get().projects.find((project) => project.id === id);
+        if (!previous) return;
+        const optimistic: Project = { ...previous, ...updates, id };
         set((state) => {
-          const projects = state.projects.map((project) => (project.id === id ? updated : project));
-          if (!updated.archived) {
+          const projects = state.projects.map((project) => (project.id === id ? optimistic : project));
+          if (!optimistic.archived) {
             return { projects };
           }
           return {
@@ -1087,23 +2638,37 @@ export const usePlannerStore = create<PlannerStore>()(
             },
           };
         });
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'projects',
+          operation: 'update',
+          payload,
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            projects: state.projects.map((project) => (project.id === id ? previous : project)),
+          }));
+          return;
+        }
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          const updated = mapProjectRow(outcome.rows[0] as ProjectRow);
+          set((state) => ({
+            projects: state.projects.map((project) => (project.id === id ? updated : project)),
+          }));
+        }
       },
 
       deleteProject: async (id) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { error } = await supabase
-          .from('projects')
-          .delete()
-          .eq('id', id)
-          .eq('workspace_id', workspaceId);
-
-        if (error) {
-          console.error(error);
-          return;
-        }
-
+        const removed = get().projects.find((project) => project.id === id);
+        if (!removed) return;
+        const detachedTaskIds = new Set(get().tasks.filter((task) => task.projectId === id).map((task) => task.id));
+        const wasTracked = get().trackedProjectIds.includes(id);
         set((state) => ({
           projects: state.projects.filter((project) => project.id !== id),
           tasks: state.tasks.map((task) => task.projectId === id ? { ...task, projectId: null } : task),
@@ -1113,74 +2678,135 @@ export const usePlannerStore = create<PlannerStore>()(
             projectIds: state.filters.projectIds.filter((projectId) => projectId !== id),
           },
         }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'projects',
+          operation: 'delete',
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            projects: upsertById(state.projects, removed),
+            tasks: state.tasks.map((task) => (
+              detachedTaskIds.has(task.id) && task.projectId === null ? { ...task, projectId: id } : task
+            )),
+            trackedProjectIds: wasTracked && !state.trackedProjectIds.includes(id)
+              ? [...state.trackedProjectIds, id]
+              : state.trackedProjectIds,
+          }));
+        }
       },
 
       toggleTrackedProject: async (projectId, isTracked) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { data: authData } = await supabase.auth.getUser();
-        const userId = authData?.user?.id ?? null;
+        const userId = await getSessionUserId();
         if (!userId) return;
 
         const isAlreadyTracked = get().trackedProjectIds.includes(projectId);
         const nextTracked = typeof isTracked === 'boolean' ? isTracked : !isAlreadyTracked;
         if (nextTracked === isAlreadyTracked) return;
 
-        if (nextTracked) {
-          const { error } = await supabase
-            .from('project_tracking')
-            .insert({
-              workspace_id: workspaceId,
-              project_id: projectId,
-              user_id: userId,
-            });
-          if (error) {
-            console.error(error);
-            return;
+        const applyTracked = (tracked: boolean) => set((state) => ({
+          trackedProjectIds: tracked
+            ? [...state.trackedProjectIds.filter((id) => id !== projectId), projectId]
+            : state.trackedProjectIds.filter((id) => id !== projectId),
+        }));
+        applyTracked(nextTracked);
+
+        const outcome = await get().commitMutation(nextTracked
+          ? {
+            workspaceId,
+            table: 'project_tracking',
+            operation: 'insert',
+            payload: { workspace_id: workspaceId, project_id: projectId, user_id: userId },
           }
-          set((state) => ({ trackedProjectIds: [...state.trackedProjectIds, projectId] }));
-          return;
+          : {
+            workspaceId,
+            table: 'project_tracking',
+            operation: 'delete',
+            match: [
+              { column: 'project_id', op: 'eq', value: projectId },
+              { column: 'user_id', op: 'eq', value: userId },
+            ],
+          });
+
+        if (outcome.status === 'rejected') {
+          applyTracked(isAlreadyTracked);
         }
+      },
 
-        const { error } = await supabase
-          .from('project_tracking')
-          .delete()
-          .eq('workspace_id', workspaceId)
-          .eq('project_id', projectId)
-          .eq('user_id', userId);
-        if (error) {
-          console.error(error);
-          return;
+      setRowOrder: async (mode, rowIds, pinnedIds) => {
+        const current = get().rowOrders.find((order) => order.groupMode === mode);
+        await saveRowOrder(get, set, { groupMode: mode, rowIds, pinnedIds: pinnedIds ?? current?.pinnedIds ?? [] });
+      },
+
+      togglePinnedRow: async (mode, rowId) => {
+        const current = get().rowOrders.find((order) => order.groupMode === mode);
+        const pinnedIds = current?.pinnedIds ?? [];
+        await saveRowOrder(get, set, {
+          groupMode: mode,
+          rowIds: current?.rowIds ?? [],
+          pinnedIds: pinnedIds.includes(rowId)
+            ? pinnedIds.filter((id) => id !== rowId)
+            : [...pinnedIds, rowId],
+        });
+      },
+
+      resetRowOrder: async (mode) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return;
+
+        const userId = await getSessionUserId();
+        if (!userId) return;
+
+        const previous = get().rowOrders.find((order) => order.groupMode === mode);
+        if (!previous) return;
+        set((state) => ({ rowOrders: replaceRowOrder(state.rowOrders, mode, undefined) }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'planner_row_orders',
+          operation: 'delete',
+          match: [
+            { column: 'user_id', op: 'eq', value: userId },
+            { column: 'group_mode', op: 'eq', value: mode },
+          ],
+        });
+        if (outcome.status === 'rejected') {
+          set((state) => ({ rowOrders: replaceRowOrder(state.rowOrders, mode, previous) }));
         }
-        set((state) => ({
-          trackedProjectIds: state.trackedProjectIds.filter((id) => id !== projectId),
-        }));
       },
 
       addCustomer: async (customer) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return null;
 
-        const { data, error } = await supabase
-          .from('customers')
-          .insert({
-            workspace_id: workspaceId,
-            name: customer.name,
-          })
-          .select('*')
-          .single();
+        const optimistic: Customer = { id: createClientId(), name: customer.name };
+        set((state) => ({
+          customers: [...state.customers, optimistic].sort((left, right) => left.name.localeCompare(right.name)),
+        }));
 
-        if (error || !data) {
-          console.error(error);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'customers',
+          operation: 'insert',
+          payload: buildCustomerRecord(workspaceId, optimistic),
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({ customers: state.customers.filter((item) => item.id !== optimistic.id) }));
           return null;
         }
 
-        const mapped = mapCustomerRow(data as CustomerRow);
-        set((state) => ({
-          customers: [...state.customers, mapped].sort((left, right) => left.name.localeCompare(right.name)),
-        }));
-        return mapped;
+        const created = outcome.status === 'applied' && outcome.rows[0]
+          ? mapCustomerRow(outcome.rows[0] as CustomerRow)
+          : optimistic;
+        set((state) => ({ customers: upsertById(state.customers, created) }));
+        return created;
       },
 
       updateCustomer: async (id, updates) => {
@@ -1191,70 +2817,94 @@ export const usePlannerStore = create<PlannerStore>()(
         if ('name' in updates) payload.name = updates.name;
         if (Object.keys(payload).length === 0) return;
 
-        const { data, error } = await supabase
-          .from('customers')
-          .update(payload)
-          .eq('id', id)
-          .eq('workspace_id', workspaceId)
-          .select('*')
-          .single();
-
-        if (error || !data) {
-          console.error(error);
-          return;
-        }
-
-        const updated = mapCustomerRow(data as CustomerRow);
-        set((state) => ({
+        const previous = get().customers.find((customer) => customer.id === id);
+        if (!previous) return;
+        const replaceCustomer = (customer: Customer) => set((state) => ({
           customers: state.customers
-            .map((customer) => (customer.id === id ? updated : customer))
+            .map((item) => (item.id === id ? customer : item))
             .sort((left, right) => left.name.localeCompare(right.name)),
         }));
+        replaceCustomer({ ...previous, ...updates, id });
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'customers',
+          operation: 'update',
+          payload,
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          replaceCustomer(previous);
+          return;
+        }
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          replaceCustomer(mapCustomerRow(outcome.rows[0] as CustomerRow));
+        }
       },
 
       deleteCustomer: async (id) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { error } = await supabase
-          .from('customers')
-          .delete()
-          .eq('id', id)
-          .eq('workspace_id', workspaceId);
-
-        if (error) {
-          console.error(error);
-          return;
-        }
-
+        const removed = get().customers.find((customer) => customer.id === id);
+        if (!removed) return;
+        const detachedProjectIds = new Set(
+          get().projects.filter((project) => project.customerId === id).map((project) => project.id),
+        );
         set((state) => ({
           customers: state.customers.filter((customer) => customer.id !== id),
           projects: state.projects.map((project) => (
             project.customerId === id ? { ...project, customerId: null } : project
           )),
         }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'customers',
+          operation: 'delete',
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            customers: [...state.customers.filter((customer) => customer.id !== id), removed]
+              .sort((left, right) => left.name.localeCompare(right.name)),
+            projects: state.projects.map((project) => (
+              detachedProjectIds.has(project.id) && project.customerId === null ? { ...project, customerId: id } : project
+            )),
+          }));
+        }
       },
 
       addAssignee: async (assignee) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { data, error } = await supabase
-          .from('assignees')
-          .insert({
-            workspace_id: workspaceId,
-            name: assignee.name,
-            is_active: assignee.isActive ?? true,
-          })
-          .select('*')
-          .single();
+        const optimistic: Assignee = {
+          id: createClientId(),
+          name: assignee.name,
+          userId: null,
+          isActive: assignee.isActive ?? true,
+          capacityHours: assignee.capacityHours ?? DEFAULT_CAPACITY_HOURS,
+        };
+        set((state) => ({ assignees: [...state.assignees, optimistic] }));
 
-        if (error || !data) {
-          console.error(error);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'assignees',
+          operation: 'insert',
+          payload: buildAssigneeRecord(workspaceId, optimistic),
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({ assignees: state.assignees.filter((item) => item.id !== optimistic.id) }));
           return;
         }
-
-        set((state) => ({ assignees: [...state.assignees, mapAssigneeRow(data as AssigneeRow)] }));
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          const created = mapAssigneeRow(outcome.rows[0] as AssigneeRow);
+          set((state) => ({ assignees: upsertById(state.assignees, created) }));
+        }
       },
 
       updateAssignee: async (id, updates) => {
@@ -1264,42 +2914,47 @@ export const usePlannerStore = create<PlannerStore>()(
         const payload: Record<string, unknown> = {};
         if ('name' in updates) payload.name = updates.name;
         if ('isActive' in updates) payload.is_active = updates.isActive;
+        if ('capacityHours' in updates) payload.capacity_hours = updates.capacityHours;
         if (Object.keys(payload).length === 0) return;
 
-        const { data, error } = await supabase
-          .from('assignees')
-          .update(payload)
-          .eq('id', id)
-          .eq('workspace_id', workspaceId)
-          .select('*')
-          .single();
+        const previous = get().assignees.find((assignee) => assignee.id === id);
+        if (!previous) return;
+        const optimistic: Assignee = { ...previous, ...updates, id };
+        set((state) => ({
+          assignees: state.assignees.map((assignee) => (assignee.id === id ? optimistic : assignee)),
+        }));
 
-        if (error || !data) {
-          console.error(error);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'assignees',
+          operation: 'update',
+          payload,
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            assignees: state.assignees.map((assignee) => (assignee.id === id ? previous : assignee)),
+          }));
           return;
         }
-
-        const updated = mapAssigneeRow(data as AssigneeRow);
-        set((state) => ({
-          assignees: state.assignees.map((assignee) => (assignee.id === id ? updated : assignee)),
-        }));
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          const updated = mapAssigneeRow(outcome.rows[0] as AssigneeRow);
+          set((state) => ({
+            assignees: state.assignees.map((assignee) => (assignee.id === id ? updated : assignee)),
+          }));
+        }
       },
 
       deleteAssignee: async (id) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { error } = await supabase
-          .from('assignees')
-          .delete()
-          .eq('id', id)
-          .eq('workspace_id', workspaceId);
-
-        if (error) {
-          console.error(error);
-          return;
-        }
-
+        const removed = get().assignees.find((assignee) => assignee.id === id);
+        if (!removed) return;
+        const unassignedTaskIds = new Set(
+          get().tasks.filter((task) => task.assigneeIds.includes(id)).map((task) => task.id),
+        );
         set((state) => ({
           assignees: state.assignees.filter((assignee) => assignee.id !== id),
           tasks: state.tasks.map((task) => (
@@ -1308,6 +2963,24 @@ export const usePlannerStore = create<PlannerStore>()(
               : task
           )),
         }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'assignees',
+          operation: 'delete',
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            assignees: upsertById(state.assignees, removed),
+            tasks: state.tasks.map((task) => (
+              unassignedTaskIds.has(task.id) && !task.assigneeIds.includes(id)
+                ? { ...task, assigneeIds: [...task.assigneeIds, id] }
+                : task
+            )),
+          }));
+        }
       },
 
       addStatus: async (status) => {
@@ -1323,26 +2996,31 @@ export const usePlannerStore = create<PlannerStore>()(
         if (hasDuplicate) return;
         const emoji = typeof status.emoji === 'string' ? status.emoji.trim() : status.emoji;
         const isCancelled = Boolean(status.isCancelled);
-        const isFinal = Boolean(status.isFinal) && !isCancelled;
-        const { data, error } = await supabase
-          .from('statuses')
-          .insert({
-            workspace_id: workspaceId,
-            name: cleanedName,
-            emoji: emoji || null,
-            color: status.color,
-            is_final: isFinal,
-            is_cancelled: isCancelled,
-          })
-          .select('*')
-          .single();
+        const optimistic: Status = {
+          id: createClientId(),
+          name: cleanedName,
+          emoji: emoji || null,
+          color: status.color,
+          isFinal: Boolean(status.isFinal) && !isCancelled,
+          isCancelled,
+        };
+        set((state) => ({ statuses: upsertById(state.statuses, optimistic) }));
 
-        if (error || !data) {
-          console.error(error);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'statuses',
+          operation: 'insert',
+          payload: buildStatusRecord(workspaceId, optimistic),
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({ statuses: state.statuses.filter((item) => item.id !== optimistic.id) }));
           return;
         }
-
-        set((state) => ({ statuses: [...state.statuses, mapStatusRow(data as StatusRow)] }));
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          const created = mapStatusRow(outcome.rows[0] as StatusRow);
+          set((state) => ({ statuses: upsertById(state.statuses, created) }));
+        }
       },
 
       updateStatus: async (id, updates) => {
@@ -1375,65 +3053,80 @@ export const usePlannerStore = create<PlannerStore>()(
         }
         if (Object.keys(payload).length === 0) return;
 
-        const { data, error } = await supabase
-          .from('statuses')
-          .update(payload)
-          .eq('id', id)
-          .eq('workspace_id', workspaceId)
-          .select('*')
-          .single();
+        const previous = get().statuses.find((status) => status.id === id);
+        if (!previous) return;
+        // Флаги финального и отменённого статуса взаимоисключающие — собираем их так же, как при чтении строки.
+        const optimistic = mapStatusRow({ ...buildStatusRecord(workspaceId, previous), ...payload } as StatusRow);
+        set((state) => ({
+          statuses: state.statuses.map((status) => (status.id === id ? optimistic : status)),
+        }));
 
-        if (error || !data) {
-          console.error(error);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'statuses',
+          operation: 'update',
+          payload,
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            statuses: state.statuses.map((status) => (status.id === id ? previous : status)),
+          }));
           return;
         }
-
-        const updated = mapStatusRow(data as StatusRow);
-        set((state) => ({
-          statuses: state.statuses.map((status) => (status.id === id ? updated : status)),
-        }));
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          const updated = mapStatusRow(outcome.rows[0] as StatusRow);
+          set((state) => ({
+            statuses: state.statuses.map((status) => (status.id === id ? updated : status)),
+          }));
+        }
       },
 
       deleteStatus: async (id) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { error } = await supabase
-          .from('statuses')
-          .delete()
-          .eq('id', id)
-          .eq('workspace_id', workspaceId);
-
-        if (error) {
-          console.error(error);
-          return;
-        }
-
+        const removed = get().statuses.find((status) => status.id === id);
+        if (!removed) return;
         set((state) => ({
           statuses: state.statuses.filter((status) => status.id !== id),
         }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'statuses',
+          operation: 'delete',
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({ statuses: upsertById(state.statuses, removed) }));
+        }
       },
 
       addTaskType: async (taskType) => {
-        const workspaceId = get().workspaceId;
-        if (!workspaceId) return;
-
-        const { data, error } = await supabase
-          .from('task_types')
-          .insert({
-            workspace_id: workspaceId,
-            name: taskType.name,
-            icon: taskType.icon,
-          })
-          .select('*')
-          .single();
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return;
 
-        if (error || !data) {
-          console.error(error);
+        const optimistic: TaskType = { id: createClientId(), name: taskType.name, icon: taskType.icon };
+        set((state) => ({ taskTypes: [...state.taskTypes, optimistic] }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'task_types',
+          operation: 'insert',
+          payload: buildTaskTypeRecord(workspaceId, optimistic),
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({ taskTypes: state.taskTypes.filter((item) => item.id !== optimistic.id) }));
           return;
         }
-
-        set((state) => ({ taskTypes: [...state.taskTypes, mapTaskTypeRow(data as TaskTypeRow)] }));
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          const created = mapTaskTypeRow(outcome.rows[0] as TaskTypeRow);
+          set((state) => ({ taskTypes: upsertById(state.taskTypes, created) }));
+        }
       },
 
       updateTaskType: async (id, updates) => {
@@ -1445,65 +3138,79 @@ export const usePlannerStore = create<PlannerStore>()(
         if ('icon' in updates) payload.icon = updates.icon;
         if (Object.keys(payload).length === 0) return;
 
-        const { data, error } = await supabase
-          .from('task_types')
-          .update(payload)
-          .eq('id', id)
-          .eq('workspace_id', workspaceId)
-          .select('*')
-          .single();
+        const previous = get().taskTypes.find((taskType) => taskType.id === id);
+        if (!previous) return;
+        const optimistic: TaskType = { ...previous, ...updates, id };
+        set((state) => ({
+          taskTypes: state.taskTypes.map((taskType) => (taskType.id === id ? optimistic : taskType)),
+        }));
 
-        if (error || !data) {
-          console.error(error);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'task_types',
+          operation: 'update',
+          payload,
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            taskTypes: state.taskTypes.map((taskType) => (taskType.id === id ? previous : taskType)),
+          }));
           return;
         }
-
-        const updated = mapTaskTypeRow(data as TaskTypeRow);
-        set((state) => ({
-          taskTypes: state.taskTypes.map((taskType) => (taskType.id === id ? updated : taskType)),
-        }));
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          const updated = mapTaskTypeRow(outcome.rows[0] as TaskTypeRow);
+          set((state) => ({
+            taskTypes: state.taskTypes.map((taskType) => (taskType.id === id ? updated : taskType)),
+          }));
+        }
       },
 
       deleteTaskType: async (id) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { error } = await supabase
-          .from('task_types')
-          .delete()
-          .eq('id', id)
-          .eq('workspace_id', workspaceId);
-
-        if (error) {
-          console.error(error);
-          return;
-        }
-
+        const removed = get().taskTypes.find((taskType) => taskType.id === id);
+        if (!removed) return;
         set((state) => ({
           taskTypes: state.taskTypes.filter((taskType) => taskType.id !== id),
         }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'task_types',
+          operation: 'delete',
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({ taskTypes: upsertById(state.taskTypes, removed) }));
+        }
       },
 
       addTag: async (tag) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { data, error } = await supabase
-          .from('tags')
-          .insert({
-            workspace_id: workspaceId,
-            name: tag.name,
-            color: tag.color,
-          })
-          .select('*')
-          .single();
+        const optimistic: Tag = { id: createClientId(), name: tag.name, color: tag.color };
+        set((state) => ({ tags: upsertById(state.tags, optimistic) }));
 
-        if (error || !data) {
-          console.error(error);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'tags',
+          operation: 'insert',
+          payload: buildTagRecord(workspaceId, optimistic),
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({ tags: state.tags.filter((item) => item.id !== optimistic.id) }));
           return;
         }
-
-        set((state) => ({ tags: [...state.tags, mapTagRow(data as TagRow)] }));
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          const created = mapTagRow(outcome.rows[0] as TagRow);
+          set((state) => ({ tags: upsertById(state.tags, created) }));
+        }
       },
 
       updateTag: async (id, updates) => {
@@ -1515,40 +3222,42 @@ export const usePlannerStore = create<PlannerStore>()(
         if ('color' in updates) payload.color = updates.color;
         if (Object.keys(payload).length === 0) return;
 
-        const { data, error } = await supabase
-          .from('tags')
-          .update(payload)
-          .eq('id', id)
-          .eq('workspace_id', workspaceId)
-          .select('*')
-          .single();
+        const previous = get().tags.find((tag) => tag.id === id);
+        if (!previous) return;
+        const optimistic: Tag = { ...previous, ...updates, id };
+        set((state) => ({
+          tags: state.tags.map((tag) => (tag.id === id ? optimistic : tag)),
+        }));
 
-        if (error || !data) {
-          console.error(error);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'tags',
+          operation: 'update',
+          payload,
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            tags: state.tags.map((tag) => (tag.id === id ? previous : tag)),
+          }));
           return;
         }
-
-        const updated = mapTagRow(data as TagRow);
-        set((state) => ({
-          tags: state.tags.map((tag) => (tag.id === id ? updated : tag)),
-        }));
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          const updated = mapTagRow(outcome.rows[0] as TagRow);
+          set((state) => ({
+            tags: state.tags.map((tag) => (tag.id === id ? updated : tag)),
+          }));
+        }
       },
 
       deleteTag: async (id) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { error } = await supabase
-          .from('tags')
-          .delete()
-          .eq('id', id)
-          .eq('workspace_id', workspaceId);
-
-        if (error) {
-          console.error(error);
-          return;
-        }
-
+        const removed = get().tags.find((tag) => tag.id === id);
+        if (!removed) return;
+        const taggedTaskIds = new Set(get().tasks.filter((task) => task.tagIds.includes(id)).map((task) => task.id));
         set((state) => ({
           tags: state.tags.filter((tag) => tag.id !== id),
           tasks: state.tasks.map((task) => ({
@@ -1556,29 +3265,158 @@ export const usePlannerStore = create<PlannerStore>()(
             tagIds: task.tagIds.filter((tagId) => tagId !== id),
           })),
         }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'tags',
+          operation: 'delete',
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            tags: upsertById(state.tags, removed),
+            tasks: state.tasks.map((task) => (
+              taggedTaskIds.has(task.id) && !task.tagIds.includes(id)
+                ? { ...task, tagIds: [...task.tagIds, id] }
+                : task
+            )),
+          }));
+        }
+      },
+
+      updateWorkingCalendar: async (updates) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return { error: 'Workspace not selected.' };
+
+        const previous = get().workingCalendar;
+        const next = { ...previous, ...updates };
+        set({ workingCalendar: next });
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'workspace_calendars',
+          operation: 'upsert',
+          payload: {
+            workspace_id: workspaceId,
+            country_code: next.countryCode,
+            weekend_days: next.weekendDays,
+            keep_working_duration: next.keepWorkingDuration,
+          },
+        });
+
+        if (outcome.status === 'rejected') {
+          // Дни календаря правятся отдельно, поэтому возвращаем только настройки.
+          set((state) => ({
+            workingCalendar: {
+              ...state.workingCalendar,
+              countryCode: previous.countryCode,
+              weekendDays: previous.weekendDays,
+              keepWorkingDuration: previous.keepWorkingDuration,
+            },
+          }));
+          return { error: outcome.message };
+        }
+        return {};
+      },
+
+      addCalendarDay: async (day) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return { error: 'Workspace not selected.' };
+
+        // Один день — одна запись: повторное добавление заменяет тип и название.
+        const replaced = get().workingCalendar.days.find((item) => item.date === day.date);
+        const optimistic: CalendarDay = { ...day, id: replaced?.id ?? createClientId() };
+        const replaceDay = (removedId: string, next: CalendarDay | undefined) => set((state) => ({
+          workingCalendar: {
+            ...state.workingCalendar,
+            days: sortCalendarDays([
+              ...state.workingCalendar.days.filter((item) => item.id !== removedId && item.date !== day.date),
+              ...(next ? [next] : []),
+            ]),
+          },
+        }));
+        replaceDay(optimistic.id, optimistic);
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'workspace_calendar_days',
+          operation: 'upsert',
+          payload: buildCalendarDayRecord(workspaceId, optimistic),
+          onConflict: 'workspace_id,date',
+        });
+
+        if (outcome.status === 'rejected') {
+          replaceDay(optimistic.id, replaced);
+          return { error: outcome.message };
+        }
+        if (outcome.status === 'applied' && outcome.rows[0]) {
+          replaceDay(optimistic.id, mapCalendarDayRow(outcome.rows[0] as CalendarDayRow));
+        }
+        return {};
+      },
+
+      deleteCalendarDay: async (id) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return;
+
+        const removed = get().workingCalendar.days.find((item) => item.id === id);
+        if (!removed) return;
+        set((state) => ({
+          workingCalendar: {
+            ...state.workingCalendar,
+            days: state.workingCalendar.days.filter((item) => item.id !== id),
+          },
+        }));
+
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'workspace_calendar_days',
+          operation: 'delete',
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({
+            workingCalendar: {
+              ...state.workingCalendar,
+              days: sortCalendarDays([
+                ...state.workingCalendar.days.filter((item) => item.date !== removed.date),
+                removed,
+              ]),
+            },
+          }));
+        }
       },
 
       addMilestone: async (milestone) => {
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { data, error } = await supabase
-          .from('milestones')
-          .insert({
-            workspace_id: workspaceId,
-            project_id: milestone.projectId,
-            date: milestone.date,
-            title: milestone.title,
-          })
-          .select('*')
-          .single();
+        const optimistic: Milestone = { ...milestone, id: createClientId() };
+        set((state) => ({ milestones: upsertById(state.milestones, optimistic) }));
 
-        if (error || !data) {
-          console.error(error);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'milestones',
+          operation: 'insert',
+          payload: buildMilestoneRecord(workspaceId, optimistic),
+        });
+
+        if (outcome.status === 'rejected') {
+          set((state) => ({ milestones: state.milestones.filter((item) => item.id !== optimistic.id) }));
           return;
         }
 
-        set((state) => ({ milestones: [...state.milestones, mapMilestoneRow(data as MilestoneRow)] }));
+        const created = outcome.status === 'applied' && outcome.rows[0]
+          ? mapMilestoneRow(outcome.rows[0] as MilestoneRow)
+          : optimistic;
+        set((state) => ({
+          milestones: upsertById(state.milestones.filter((item) => item.id !== optimistic.id), created),
+          ...recordHistory(state, createHistoryEntry('createMilestone', {
+            milestones: [{ id: created.id, before: null, after: created }],
+          })),
+        }));
       },
 
       updateMilestone: async (id, updates) => {
@@ -1591,22 +3429,47 @@ export const usePlannerStore = create<PlannerStore>()(
         if ('date' in updates) payload.date = updates.date;
         if (Object.keys(payload).length === 0) return;
 
-        const { data, error } = await supabase
-          .from('milestones')
-          .update(payload)
-          .eq('id', id)
-          .eq('workspace_id', workspaceId)
-          .select('*')
-          .single();
+        const previous = get().milestones.find((item) => item.id === id) ?? null;
+        const optimistic = previous ? { ...previous, ...updates, id } : null;
+        if (optimistic) {
+          set((state) => ({
+            milestones: state.milestones.map((item) => (item.id === id ? optimistic : item)),
+          }));
+        }
 
-        if (error || !data) {
-          console.error(error);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'milestones',
+          operation: 'update',
+          payload,
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          if (previous) {
+            set((state) => ({
+              milestones: state.milestones.map((item) => (item.id === id ? previous : item)),
+            }));
+          }
           return;
         }
 
-        const updated = mapMilestoneRow(data as MilestoneRow);
+        const updated = outcome.status === 'applied' && outcome.rows[0]
+          ? mapMilestoneRow(outcome.rows[0] as MilestoneRow)
+          : optimistic;
+        if (!updated) return;
+
         set((state) => ({
           milestones: state.milestones.map((item) => (item.id === id ? updated : item)),
+          // Задачи старого проекта сервер от перенесённой вехи отвязал.
+          tasks: state.tasks.map((task) => (
+            task.milestoneId === id && task.projectId !== updated.projectId ? { ...task, milestoneId: null } : task
+          )),
+          ...(previous
+            ? recordHistory(state, createHistoryEntry('updateMilestone', {
+              milestones: [{ id, before: previous, after: updated }],
+            }))
+            : {}),
         }));
       },
 
@@ -1614,24 +3477,55 @@ export const usePlannerStore = create<PlannerStore>()(
         const workspaceId = get().workspaceId;
         if (!workspaceId) return;
 
-        const { error } = await supabase
-          .from('milestones')
-          .delete()
-          .eq('id', id)
-          .eq('workspace_id', workspaceId);
+        const removed = get().milestones.find((item) => item.id === id) ?? null;
+        // Связанные задачи запоминаем до удаления, чтобы отмена вернула ссылки и вне загруженного диапазона.
+        const { data: linkedRows, error: linkedError } = await supabase
+          .from('tasks')
+          .select('id')
+          .eq('workspace_id', workspaceId)
+          .eq('milestone_id', id);
+        if (linkedError) console.error(linkedError);
+        const linkedTaskIds = Array.from(new Set([
+          ...(linkedRows ?? []).map((row) => row.id as string),
+          ...get().tasks.filter((task) => task.milestoneId === id && !isOccurrenceId(task.id)).map((task) => task.id),
+        ]));
+        set((state) => ({
+          milestones: state.milestones.filter((item) => item.id !== id),
+        }));
 
-        if (error) {
-          console.error(error);
+        const outcome = await get().commitMutation({
+          workspaceId,
+          table: 'milestones',
+          operation: 'delete',
+          match: [{ column: 'id', op: 'eq', value: id }],
+        });
+
+        if (outcome.status === 'rejected') {
+          if (removed) {
+            set((state) => ({ milestones: upsertById(state.milestones, removed) }));
+          }
           return;
         }
 
+        // В базе ссылка обнуляется каскадом (on delete set null); повторяем это локально.
         set((state) => ({
-          milestones: state.milestones.filter((item) => item.id !== id),
+          tasks: state.tasks.map((task) => (task.milestoneId === id ? { ...task, milestoneId: null } : task)),
         }));
+
+        const deleted = outcome.status === 'applied'
+          ? outcome.rows.map((row) => mapMilestoneRow(row as MilestoneRow))
+          : (removed ? [removed] : []);
+        if (deleted.length > 0) {
+          set((state) => recordHistory(state, createHistoryEntry('deleteMilestone', {
+            milestones: deleted.map((milestone) => ({ id: milestone.id, before: milestone, after: null })),
+            milestoneLinks: linkedTaskIds.length > 0 ? [{ milestoneId: id, taskIds: linkedTaskIds }] : [],
+          })));
+        }
       },
 
       setViewMode: (mode) => set({ viewMode: mode }),
       setGroupMode: (mode) => set({ groupMode: mode }),
+      setActiveViewId: (id) => set({ activeViewId: id }),
       setCurrentDate: (date) => set({ currentDate: date }),
       requestScrollToDate: (date) => set((state) => ({
         scrollTargetDate: date,
@@ -1653,7 +3547,290 @@ export const usePlannerStore = create<PlannerStore>()(
       })),
       clearFilters: () => set({ filters: initialFilters }),
       setSelectedTaskId: (id) => set({ selectedTaskId: id }),
+      setSelectedTaskIds: (ids) => set({ selectedTaskIds: Array.from(new Set(ids)) }),
+      toggleTaskSelection: (id) => set((state) => ({
+        selectedTaskIds: state.selectedTaskIds.includes(id)
+          ? state.selectedTaskIds.filter((item) => item !== id)
+          : [...state.selectedTaskIds, id],
+      })),
+      setSelectionDragOffset: (offset) => set({ selectionDragOffset: offset }),
       setHighlightedTaskId: (id) => set({ highlightedTaskId: id }),
+      revealTask: async (id) => {
+        const workspaceId = get().workspaceId;
+        if (!workspaceId) return { error: 'Workspace not selected.' };
+
+        let task = get().tasks.find((item) => item.id === id) ?? null;
+        const occurrence = parseOccurrenceId(id);
+        if (!task && occurrence) {
+          // Повтор вне загруженного окна разворачиваем из его серии.
+          const series = get().taskSeries.find((item) => item.id === occurrence.seriesId);
+          if (!series || series.exdates.includes(occurrence.date)) return { error: 'Task not found.' };
+          task = createOccurrenceTask(series, occurrence.date);
+        }
+        if (!task) {
+          // Задача вне загруженного диапазона: догружаем её, чтобы открыть панель и показать на таймлайне.
+          const { data, error } = await supabase
+            .from('tasks')
+            .select('*')
+            .eq('workspace_id', workspaceId)
+            .eq('id', id)
+            .maybeSingle();
+          if (error) {
+            console.error(error);
+            return { error: error.message };
+          }
+          if (!data) return { error: 'Task not found.' };
+          task = mapTaskRow(data as TaskRow);
+        }
+
+        const revealed = task;
+        set((state) => ({
+          tasks: upsertById(state.tasks, revealed),
+          currentDate: revealed.startDate,
+          scrollTargetDate: revealed.startDate,
+          scrollRequestId: state.scrollRequestId + 1,
+          selectedTaskId: revealed.id,
+        }));
+        return {};
+      },
+
+      undo: async () => {
+        const { workspaceId, undoStack, historyBusy } = get();
+        const entry = undoStack[undoStack.length - 1];
+        if (!workspaceId || historyBusy || !entry) return;
+
+        set({ historyBusy: true });
+        for (const mutation of buildHistoryMutations(workspaceId, entry, 'before')) {
+          const outcome = await get().commitMutation(mutation);
+          if (outcome.status === 'rejected') {
+            set({ historyBusy: false });
+            return;
+          }
+        }
+
+        set((state) => ({
+          ...applyHistorySide(state, entry, 'before'),
+          undoStack: state.undoStack.filter((item) => item.id !== entry.id),
+          redoStack: [...state.redoStack, entry],
+          historyBusy: false,
+        }));
+      },
+
+      redo: async () => {
+        const { workspaceId, redoStack, historyBusy } = get();
+        const entry = redoStack[redoStack.length - 1];
+        if (!workspaceId || historyBusy || !entry) return;
+
+        set({ historyBusy: true });
+        for (const mutation of buildHistoryMutations(workspaceId, entry, 'after')) {
+          const outcome = await get().commitMutation(mutation);
+          if (outcome.status === 'rejected') {
+            set({ historyBusy: false });
+            return;
+          }
+        }
+
+        set((state) => ({
+          ...applyHistorySide(state, entry, 'after'),
+          redoStack: state.redoStack.filter((item) => item.id !== entry.id),
+          undoStack: [...state.undoStack, entry],
+          historyBusy: false,
+        }));
+      },
+
+      commitMutation: async (mutation) => {
+        const queued = { ...mutation, createdAt: Date.now() };
+        const enqueue = async (): Promise<MutationOutcome> => {
+          try {
+            await enqueueMutation(queued);
+          } catch (error) {
+            console.error(error);
+            const message = 'The change could not be saved offline.';
+            set({ syncRejection: { id: ++syncRejectionId, message } });
+            return { status: 'rejected', message };
+          }
+          set((state) => ({ pendingMutations: state.pendingMutations + 1 }));
+          return { status: 'queued' };
+        };
+
+        // Пока в очереди что-то есть, новые изменения встают за ними, чтобы сохранить порядок.
+        if (get().pendingMutations > 0) return enqueue();
+
+        const outcome = await executeMutation(queued);
+        if (outcome.status === 'retry') return enqueue();
+        if (outcome.status === 'rejected') {
+          set({ syncRejection: { id: ++syncRejectionId, message: outcome.message } });
+        }
+        return outcome;
+      },
+
+      flushMutationQueue: async () => {
+        if (flushInFlight) return flushInFlight;
+
+        flushInFlight = (async () => {
+          let hasRejections = false;
+          try {
+            for (;;) {
+              const [next] = await readQueuedMutations();
+              if (!next || next.id === undefined) break;
+              const outcome = await executeMutation(next);
+              if (outcome.status === 'retry') break;
+              await removeQueuedMutation(next.id);
+              if (outcome.status === 'rejected') {
+                hasRejections = true;
+                set({ syncRejection: { id: ++syncRejectionId, message: outcome.message } });
+              }
+            }
+            set({ pendingMutations: await countQueuedMutations() });
+          } catch (error) {
+            console.error(error);
+          }
+
+          // Откатить отдельную правку из очереди уже нельзя — перечитываем данные с сервера.
+          const workspaceId = get().workspaceId;
+          if (hasRejections && workspaceId) {
+            set({ loadedRange: null });
+            await get().loadWorkspaceData(workspaceId);
+          }
+        })().finally(() => {
+          flushInFlight = null;
+        });
+
+        return flushInFlight;
+      },
+
+      applyRealtimeChange: ({ table, eventType, newRow, oldRow }) => {
+        const { workspaceId, loadedRange } = get();
+        if (!workspaceId) return;
+
+        if (eventType === 'DELETE') {
+          // Для DELETE Realtime присылает только первичный ключ, поэтому сверяем по id.
+          const id = typeof oldRow?.id === 'string' ? oldRow.id : null;
+          if (!id) return;
+          switch (table) {
+            case 'tasks':
+              set((state) => removeTasksFromState(state, new Set([id])));
+              return;
+            case 'task_series':
+              set((state) => (
+                state.taskSeries.some((item) => item.id === id) ? withSeriesOccurrences(state, id, null) : {}
+              ));
+              return;
+            case 'task_dependencies':
+              set((state) => ({ dependencies: state.dependencies.filter((item) => item.id !== id) }));
+              return;
+            case 'task_checklist_items':
+              set((state) => ({ checklistItems: state.checklistItems.filter((item) => item.id !== id) }));
+              return;
+            case 'milestones':
+              set((state) => ({ milestones: state.milestones.filter((item) => item.id !== id) }));
+              return;
+            case 'projects':
+              set((state) => ({
+                projects: state.projects.filter((project) => project.id !== id),
+                tasks: state.tasks.map((task) => task.projectId === id ? { ...task, projectId: null } : task),
+                trackedProjectIds: state.trackedProjectIds.filter((projectId) => projectId !== id),
+              }));
+              return;
+            case 'statuses':
+              set((state) => ({ statuses: state.statuses.filter((status) => status.id !== id) }));
+              return;
+            case 'tags':
+              set((state) => ({
+                tags: state.tags.filter((tag) => tag.id !== id),
+                tasks: state.tasks.map((task) => (
+                  task.tagIds.includes(id)
+                    ? { ...task, tagIds: task.tagIds.filter((tagId) => tagId !== id) }
+                    : task
+                )),
+              }));
+              return;
+            case 'assignees':
+              void get().refreshAssignees();
+              return;
+            default:
+              return;
+          }
+        }
+
+        if (!newRow || newRow.workspace_id !== workspaceId) return;
+        const range = loadedRange?.workspaceId === workspaceId
+          ? { start: loadedRange.start, end: loadedRange.end }
+          : null;
+
+        switch (table) {
+          case 'tasks': {
+            if (!range) return;
+            const { start, end } = range;
+            const task = mapTaskRow(newRow as TaskRow);
+            const inRange = rangesOverlap(task.startDate, task.endDate, start, end);
+            set((state) => {
+              const existing = state.tasks.find((item) => item.id === task.id);
+              if (!inRange) {
+                return existing ? { tasks: state.tasks.filter((item) => item.id !== task.id) } : {};
+              }
+              if (existing && isSameTask(existing, task)) return {};
+              const isRemoteEdit = eventType === 'UPDATE' && !pendingTaskWrites.has(task.id);
+              return {
+                tasks: upsertById(state.tasks, task),
+                remoteTaskUpdates: isRemoteEdit
+                  ? { ...state.remoteTaskUpdates, [task.id]: Date.now() }
+                  : state.remoteTaskUpdates,
+              };
+            });
+            return;
+          }
+          case 'task_series': {
+            // Повторы разворачиваются заново, только если серия действительно изменилась.
+            const series = mapTaskSeriesRow(newRow as TaskSeriesRow);
+            set((state) => {
+              const existing = state.taskSeries.find((item) => item.id === series.id);
+              if (existing && JSON.stringify(existing) === JSON.stringify(series)) return {};
+              return withSeriesOccurrences(state, series.id, series);
+            });
+            return;
+          }
+          case 'task_dependencies':
+            set((state) => ({
+              dependencies: upsertById(state.dependencies, mapTaskDependencyRow(newRow as TaskDependencyRow)),
+            }));
+            return;
+          case 'task_checklist_items': {
+            const item = mapChecklistItemRow(newRow as ChecklistItemRow);
+            set((state) => (
+              state.tasks.some((task) => task.id === item.taskId)
+                ? { checklistItems: upsertById(state.checklistItems, item) }
+                : {}
+            ));
+            return;
+          }
+          case 'milestones': {
+            if (!range) return;
+            const { start, end } = range;
+            const milestone = mapMilestoneRow(newRow as MilestoneRow);
+            set((state) => (
+              isDateWithinRange(milestone.date, start, end)
+                ? { milestones: upsertById(state.milestones, milestone) }
+                : { milestones: state.milestones.filter((item) => item.id !== milestone.id) }
+            ));
+            return;
+          }
+          case 'projects':
+            set((state) => ({ projects: upsertById(state.projects, mapProjectRow(newRow as ProjectRow)) }));
+            return;
+          case 'statuses':
+            set((state) => ({ statuses: upsertById(state.statuses, mapStatusRow(newRow as StatusRow)) }));
+            return;
+          case 'tags':
+            set((state) => ({ tags: upsertById(state.tags, mapTagRow(newRow as TagRow)) }));
+            return;
+          case 'assignees':
+            void get().refreshAssignees();
+            return;
+          default:
+            return;
+        }
+      },
     }),
     {
       name: 'planner-storage',
@@ -1661,6 +3838,7 @@ export const usePlannerStore = create<PlannerStore>()(
         viewMode: state.viewMode,
         groupMode: state.groupMode,
         currentDate: state.currentDate,
+        activeViewId: state.activeViewId,
       }),
     }
   )
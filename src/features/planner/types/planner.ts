@@ -13,6 +13,83 @@ export interface Task {
   tagIds: string[];
   description: string | null;
   repeatId: string | null;
+  estimateHours: number | null;
+  milestoneId: string | null;
+}
+
+/**
+ * Recurring task: occurrences are expanded from the RRULE on read.
+ * An edited occurrence is stored as a regular task with `repeatId` = series id, and its date goes to `exdates`.
+ */
+export interface TaskSeries {
+  id: string;
+  rrule: string; // iCalendar RRULE without the "RRULE:" prefix
+  startDate: string; // ISO date, DTSTART
+  durationDays: number; // end date - start date of every occurrence
+  exdates: string[]; // ISO dates
+  template: Omit<Task, 'id' | 'startDate' | 'endDate' | 'repeatId' | 'milestoneId'>;
+}
+
+/** Which occurrences of a repeating task an edit applies to. */
+export type TaskSeriesScope = 'this' | 'following' | 'all';
+
+export type TaskDependencyType = 'finish_to_start' | 'start_to_start';
+
+export interface TaskDependency {
+  id: string;
+  predecessorId: string;
+  successorId: string;
+  type: TaskDependencyType;
+}
+
+export interface ChecklistItem {
+  id: string;
+  taskId: string;
+  title: string;
+  done: boolean;
+  assigneeId: string | null;
+  dueDate: string | null; // ISO date
+  position: number;
+}
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  assigneeId: string;
+  date: string; // ISO date
+  hours: number;
+  note: string | null;
+}
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  authorId: string;
+  body: string; // sanitized rich text
+  mentionIds: string[]; // user ids
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TaskActivityField =
+  | 'created'
+  | 'status'
+  | 'dates'
+  | 'assignees'
+  | 'project'
+  | 'priority'
+  | 'tags'
+  | 'title'
+  | 'description';
+
+export interface TaskActivity {
+  id: string;
+  taskId: string;
+  actorId: string | null;
+  field: TaskActivityField;
+  oldValue: unknown;
+  newValue: unknown;
+  createdAt: string;
 }
 
 export interface Project {
@@ -35,6 +112,7 @@ export interface Assignee {
   avatar?: string;
   userId?: string | null;
   isActive: boolean;
+  capacityHours: number;
 }
 
 export interface MemberGroup {
@@ -42,6 +120,22 @@ export interface MemberGroup {
   name: string;
 }
 
+export type CalendarDayKind = 'holiday' | 'workday';
+
+export interface CalendarDay {
+  id: string;
+  date: string; // ISO date
+  kind: CalendarDayKind;
+  name: string | null;
+}
+
+export interface WorkingCalendar {
+  countryCode: string | null;
+  weekendDays: number[]; // Date#getDay values
+  days: CalendarDay[];
+  keepWorkingDuration: boolean; // moving a task keeps its number of working days
+}
+
 export interface MemberGroupAssignment {
   userId: string;
   groupId: string | null;
@@ -75,8 +169,17 @@ export interface Milestone {
   date: string; // ISO date
 }
 
-export type ViewMode = 'day' | 'week' | 'calendar';
-export type GroupMode = 'assignee' | 'project';
+export type ViewMode = 'day' | 'week' | 'month' | 'quarter' | 'calendar';
+export type GroupMode =
+  | 'assignee'
+  | 'project'
+  | 'status'
+  | 'type'
+  | 'tag'
+  | 'customer'
+  | 'group'
+  | 'customer_project' // customer -> project
+  | 'group_assignee'; // member group -> assignee
 
 export interface Filters {
   projectIds: string[];
@@ -88,11 +191,98 @@ export interface Filters {
   hideUnassigned: boolean;
 }
 
+export interface PlannerView {
+  id: string;
+  ownerId: string;
+  name: string;
+  filters: Filters;
+  viewMode: ViewMode;
+  groupMode: GroupMode;
+  anchorDate: string | null;
+  isShared: boolean;
+}
+
+/** Preset for new tasks. Dates are relative to the start date picked when the template is used. */
+export interface TaskTemplate {
+  id: string;
+  ownerId: string;
+  name: string;
+  isShared: boolean;
+  title: string;
+  projectId: string | null;
+  assigneeIds: string[];
+  statusId: string | null;
+  typeId: string | null;
+  priority: TaskPriority | null;
+  tagIds: string[];
+  description: string | null;
+  estimateHours: number | null;
+  durationDays: number; // end date - start date
+  rrule: string | null; // without UNTIL, see toRelativeRule
+}
+
+/** Task of a project template; dates are days from the project start. */
+export interface ProjectTemplateTask {
+  title: string;
+  offsetDays: number;
+  durationDays: number; // end date - start date
+  typeId: string | null;
+  priority: TaskPriority | null;
+  tagIds: string[];
+  description: string | null;
+  estimateHours: number | null;
+  roles: string[]; // placeholders mapped to assignees when the template is used
+}
+
+export interface ProjectTemplateMilestone {
+  title: string;
+  offsetDays: number;
+}
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  color: string;
+  tasks: ProjectTemplateTask[];
+  milestones: ProjectTemplateMilestone[];
+}
+
+/** Group modes whose rows can be ordered by hand. */
+export type RowOrderMode = 'assignee' | 'project';
+
+export interface PlannerRowOrder {
+  groupMode: RowOrderMode;
+  rowIds: string[]; // manual order; rows missing here follow in alphabetical order
+  pinnedIds: string[]; // kept on top, in pin order
+}
+
+export type PlannerRealtimeTable =
+  | 'tasks'
+  | 'task_series'
+  | 'task_dependencies'
+  | 'task_checklist_items'
+  | 'milestones'
+  | 'projects'
+  | 'statuses'
+  | 'tags'
+  | 'assignees';
+
+export interface PlannerRealtimeChange {
+  table: PlannerRealtimeTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  newRow: Record<string, unknown> | null;
+  oldRow: Record<string, unknown> | null;
+}
+
 export interface PlannerState {
   tasks: Task[];
+  taskSeries: TaskSeries[];
+  dependencies: TaskDependency[];
+  checklistItems: ChecklistItem[];
   milestones: Milestone[];
   projects: Project[];
   trackedProjectIds: string[];
+  rowOrders: PlannerRowOrder[];
   customers: Customer[];
   assignees: Assignee[];
   memberGroups: MemberGroup[];
@@ -100,10 +290,13 @@ export interface PlannerState {
   statuses: Status[];
   taskTypes: TaskType[];
   tags: Tag[];
+  workingCalendar: WorkingCalendar;
   viewMode: ViewMode;
   groupMode: GroupMode;
   currentDate: string;
   filters: Filters;
   selectedTaskId: string | null;
+  selectedTaskIds: string[];
   highlightedTaskId: string | null;
+  activeViewId: string | null;
 }
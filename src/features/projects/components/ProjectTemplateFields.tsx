@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { t } from '@lingui/macro';
+import { Trash2 } from 'lucide-react';
+import { getProjectTemplateRoles } from '@/features/planner/lib/projectTemplates';
+import type { Assignee, ProjectTemplate } from '@/features/planner/types/planner';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/ui/alert-dialog';
+
+interface ProjectTemplateFieldsProps {
+  templates: ProjectTemplate[];
+  templateId: string | null;
+  onTemplateChange: (template: ProjectTemplate | null) => void;
+  startDate: string;
+  onStartDateChange: (value: string) => void;
+  roleAssignees: Record<string, string | null>;
+  onRoleAssigneesChange: (value: Record<string, string | null>) => void;
+  assignees: Assignee[];
+  onDeleteTemplate: (id: string) => Promise<{ error?: string }>;
+  disabled?: boolean;
+}
+
+export const ProjectTemplateFields: React.FC<ProjectTemplateFieldsProps> = ({
+  templates,
+  templateId,
+  onTemplateChange,
+  startDate,
+  onStartDateChange,
+  roleAssignees,
+  onRoleAssigneesChange,
+  assignees,
+  onDeleteTemplate,
+  disabled = false,
+}) => {
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [error, setError] = useState('');
+  const template = templates.find((item) => item.id === templateId) ?? null;
+  const roles = useMemo(() => (template ? getProjectTemplateRoles(template) : []), [template]);
+  const activeAssignees = useMemo(() => assignees.filter((assignee) => assignee.isActive), [assignees]);
+  const taskCount = template?.tasks.length ?? 0;
+  const milestoneCount = template?.milestones.length ?? 0;
+
+  const handleDelete = async () => {
+    if (!template) return;
+    const result = await onDeleteTemplate(template.id);
+    setDeleteOpen(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setError('');
+    onTemplateChange(null);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-border p-3">
+      <div className="space-y-1">
+        <Label>{t`Template`}</Label>
+        <div className="flex items-center gap-1">
+          <Select
+            value={templateId ?? 'none'}
+            onValueChange={(value) => onTemplateChange(templates.find((item) => item.id === value) ?? null)}
+            disabled={disabled}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">{t`Empty project`}</SelectItem>
+              {templates.map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {template && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9"
+              onClick={() => setDeleteOpen(true)}
+              disabled={disabled}
+              aria-label={t`Delete template`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        {error && <div className="text-xs text-destructive">{error}</div>}
+      </div>
+
+      {template && (
+        <>
+          <div className="text-xs text-muted-foreground">
+            {t`Creates ${taskCount} task(s) and ${milestoneCount} milestone(s) from the start date.`}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-project-start">{t`Start date`}</Label>
+            <Input
+              id="new-project-start"
+              type="date"
+              value={startDate}
+              onChange={(event) => onStartDateChange(event.target.value)}
+              disabled={disabled}
+            />
+          </div>
+          {roles.length > 0 && (
+            <div className="space-y-2">
+              <Label>{t`Roles`}</Label>
+              {roles.map((role) => (
+                <div key={role} className="grid grid-cols-2 items-center gap-2">
+                  <span className="truncate text-sm">{role}</span>
+                  <Select
+                    value={roleAssignees[role] ?? 'none'}
+                    onValueChange={(value) => onRoleAssigneesChange({
+                      ...roleAssignees,
+                      [role]: value === 'none' ? null : value,
+                    })}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">{t`Unassigned`}</SelectItem>
+                      {activeAssignees.map((assignee) => (
+                        <SelectItem key={assignee.id} value={assignee.id}>{assignee.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t`Delete template?`}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t`The template will be removed for everyone in the workspace.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t`Cancel`}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                void handleDelete();
+              }}
+            >
+              {t`Delete`}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -1,11 +1,19 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { Navigate, useNavigate } from 'react-router-dom';
+import { Navigate, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { usePlannerStore } from '@/features/planner/store/plannerStore';
 import { useAuthStore } from '@/features/auth/store/authStore';
 import { WorkspaceSwitcher } from '@/features/workspace/components/WorkspaceSwitcher';
 import { WorkspaceNav } from '@/features/workspace/components/WorkspaceNav';
 import { SettingsPanel } from '@/features/workspace/components/SettingsPanel';
 import { AccountSettingsDialog } from '@/features/auth/components/AccountSettingsDialog';
+import { ProjectTemplateFields } from '@/features/projects/components/ProjectTemplateFields';
+import { useProjectTemplates } from '@/features/planner/hooks/useProjectTemplates';
+import {
+  buildProjectPlan,
+  buildProjectTemplatePlan,
+  getDefaultRoleAssignees,
+  getProjectTemplateRoles,
+} from '@/features/planner/lib/projectTemplates';
 import { Button } from '@/shared/ui/button';
 import { Input } from '@/shared/ui/input';
 import { Label } from '@/shared/ui/label';
@@ -44,8 +52,8 @@ import {
   RefreshCcw,
   Star,
 } from 'lucide-react';
-import { Customer, Project, Task } from '@/features/planner/types/planner';
-import DOMPurify from 'dompurify';
+import { Customer, Milestone, Project, ProjectTemplate, Task } from '@/features/planner/types/planner';
+import { hasRichTags, sanitizeRichText } from '@/shared/lib/richText';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -77,6 +85,15 @@ type TaskRow = {
   tag_ids: string[] | null;
   description: string | null;
   repeat_id: string | null;
+  estimate_hours: number | null;
+  milestone_id: string | null;
+};
+
+type MilestoneRow = {
+  id: string;
+  project_id: string;
+  date: string;
+  title: string;
 };
 
 const normalizeAssigneeIds = (assigneeIds: string[] | null | undefined, legacyId: string | null | undefined) => {
@@ -100,37 +117,10 @@ const mapTaskRow = (row: TaskRow): Task => ({
   tagIds: row.tag_ids ?? [],
   description: row.description,
   repeatId: row.repeat_id ?? null,
+  estimateHours: row.estimate_hours === null || row.estimate_hours === undefined ? null : Number(row.estimate_hours),
+  milestoneId: row.milestone_id ?? null,
 });
 
-const hasRichTags = (value: string) => (
-  /<\/?(b|strong|i|em|u|s|strike|ul|ol|li|blockquote|br|div|p|span|img)\b/i.test(value)
-);
-
-const sanitizeDescription = (value: string) => (
-  DOMPurify.sanitize(value, {
-    ALLOWED_TAGS: [
-      'b',
-      'strong',
-      'i',
-      'em',
-      'u',
-      's',
-      'strike',
-      'ul',
-      'ol',
-      'li',
-      'blockquote',
-      'br',
-      'div',
-      'p',
-      'span',
-      'img',
-    ],
-    ALLOWED_ATTR: ['src', 'alt', 'style', 'width', 'height'],
-    ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto|data:image\/)|[^a-z]|[a-z+.-]+(?:[^a-z+.-:]|$))/i,
-  })
-);
-
 const CustomerCombobox: React.FC<{
   value: string | null;
   customers: Customer[];
@@ -244,10 +234,14 @@ const CustomerCombobox: React.FC<{
 };
 
 const ProjectsPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [showSettings, setShowSettings] = useState(false);
   const [showAccountSettings, setShowAccountSettings] = useState(false);
-  const [tab, setTab] = useState<'active' | 'archived'>('active');
+  const [tab, setTab] = useState<'active' | 'archived'>(
+    () => (searchParams.get('tab') === 'archived' ? 'archived' : 'active'),
+  );
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+  const [linkedProjectId, setLinkedProjectId] = useState<string | null>(() => searchParams.get('project'));
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const [projectTasks, setProjectTasks] = useState<Task[]>([]);
   const [tasksLoading, setTasksLoading] = useState(false);
@@ -270,6 +264,15 @@ const ProjectsPage = () => {
   const [newProjectCode, setNewProjectCode] = useState('');
   const [newProjectColor, setNewProjectColor] = useState('#3b82f6');
   const [newProjectCustomerId, setNewProjectCustomerId] = useState<string | null>(null);
+  const [newProjectTemplateId, setNewProjectTemplateId] = useState<string | null>(null);
+  const [newProjectStartDate, setNewProjectStartDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [newProjectRoleAssignees, setNewProjectRoleAssignees] = useState<Record<string, string | null>>({});
+  const [createProjectBusy, setCreateProjectBusy] = useState(false);
+  const [createProjectError, setCreateProjectError] = useState('');
+  const [templateSourceProject, setTemplateSourceProject] = useState<Project | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [templateSaving, setTemplateSaving] = useState(false);
+  const [templateError, setTemplateError] = useState('');
   const [projectSettingsName, setProjectSettingsName] = useState('');
   const [projectSettingsCode, setProjectSettingsCode] = useState('');
   const [projectSettingsColor, setProjectSettingsColor] = useState('#3b82f6');
@@ -298,6 +301,7 @@ const ProjectsPage = () => {
     tags,
     loadWorkspaceData,
     addProject,
+    createProjectFromPlan,
     addCustomer,
     updateProject,
     updateCustomer,
@@ -320,6 +324,12 @@ const ProjectsPage = () => {
   } = useAuthStore();
 
   const canEdit = currentWorkspaceRole === 'editor' || currentWorkspaceRole === 'admin';
+  const {
+    templates: projectTemplates,
+    createTemplate: createProjectTemplate,
+    deleteTemplate: deleteProjectTemplate,
+  } = useProjectTemplates(currentWorkspaceId);
+  const newProjectTemplate = projectTemplates.find((template) => template.id === newProjectTemplateId) ?? null;
   const userLabel = profileDisplayName || user?.email || user?.id || '';
 
   useEffect(() => {
@@ -450,10 +460,9 @@ const ProjectsPage = () => {
     if (!currentWorkspaceId) return;
     setTasksLoading(true);
     setTasksError('');
+    // Вместе с ещё не изменёнными повторами серий проекта.
     const { data, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('workspace_id', currentWorkspaceId)
+      .rpc('workspace_tasks', { p_workspace_id: currentWorkspaceId })
       .eq('project_id', projectId)
       .order('start_date', { ascending: true });
     if (error) {
@@ -512,10 +521,11 @@ const ProjectsPage = () => {
   const selectedTaskDescription = useMemo(() => {
     if (!selectedTask?.description) return '';
     if (!hasRichTags(selectedTask.description)) return selectedTask.description;
-    return sanitizeDescription(selectedTask.description);
+    return sanitizeRichText(selectedTask.description);
   }, [selectedTask?.description]);
 
   const navigate = useNavigate();
+  const location = useLocation();
 
   const handleOpenTaskInTimeline = useCallback(() => {
     if (!selectedTask) return;
@@ -653,31 +663,127 @@ const ProjectsPage = () => {
     setNewProjectCode('');
     setNewProjectColor('#3b82f6');
     setNewProjectCustomerId(null);
+    setNewProjectTemplateId(null);
+    setNewProjectStartDate(format(new Date(), 'yyyy-MM-dd'));
+    setNewProjectRoleAssignees({});
+    setCreateProjectError('');
     setEditingCustomerId(null);
     setEditingCustomerName('');
   }, []);
 
+  const handleNewProjectTemplateChange = useCallback((template: ProjectTemplate | null) => {
+    setNewProjectTemplateId(template?.id ?? null);
+    setCreateProjectError('');
+    if (!template) {
+      setNewProjectRoleAssignees({});
+      return;
+    }
+    setNewProjectColor(template.color);
+    setNewProjectRoleAssignees(getDefaultRoleAssignees(getProjectTemplateRoles(template), assignees));
+  }, [assignees]);
+
   const handleCreateProject = useCallback(async () => {
-    if (!canEdit || !newProjectName.trim()) return;
-    await addProject({
+    if (!canEdit || !newProjectName.trim() || createProjectBusy) return;
+    const project = {
       name: newProjectName.trim(),
       code: newProjectCode.trim() ? newProjectCode.trim() : null,
       color: newProjectColor,
-      archived: false,
       customerId: newProjectCustomerId,
-    });
+    };
+    if (!newProjectTemplate) {
+      await addProject({ ...project, archived: false });
+      setCreateProjectOpen(false);
+      resetCreateProjectForm();
+      return;
+    }
+
+    const statusId = statuses[0]?.id;
+    if (!statusId || taskTypes.length === 0 || !newProjectStartDate) {
+      setCreateProjectError(t`Pick a start date. The workspace needs at least one status and task type.`);
+      return;
+    }
+    setCreateProjectBusy(true);
+    const result = await createProjectFromPlan(project, buildProjectPlan(
+      newProjectTemplate,
+      newProjectStartDate,
+      newProjectRoleAssignees,
+      { statusId, typeIds: taskTypes.map((taskType) => taskType.id) },
+    ));
+    setCreateProjectBusy(false);
+    if (result.error) {
+      setCreateProjectError(result.error);
+      return;
+    }
+    if (result.projectId) {
+      setSelectedProjectId(result.projectId);
+    }
     setCreateProjectOpen(false);
     resetCreateProjectForm();
   }, [
     addProject,
     canEdit,
+    createProjectBusy,
+    createProjectFromPlan,
     newProjectCode,
     newProjectColor,
     newProjectCustomerId,
     newProjectName,
+    newProjectRoleAssignees,
+    newProjectStartDate,
+    newProjectTemplate,
     resetCreateProjectForm,
+    statuses,
+    taskTypes,
   ]);
 
+  const openSaveProjectTemplate = useCallback((project: Project) => {
+    setTemplateSourceProject(project);
+    setTemplateName(project.name);
+    setTemplateError('');
+  }, []);
+
+  const handleSaveProjectTemplate = useCallback(async () => {
+    const trimmed = templateName.trim();
+    if (!templateSourceProject || !currentWorkspaceId || !trimmed) return;
+    setTemplateSaving(true);
+    // Берём весь проект, а не только загруженный на таймлайне диапазон.
+    const [tasksResult, milestonesResult] = await Promise.all([
+      supabase
+        .rpc('workspace_tasks', { p_workspace_id: currentWorkspaceId })
+        .eq('project_id', templateSourceProject.id),
+      supabase
+        .from('milestones')
+        .select('*')
+        .eq('workspace_id', currentWorkspaceId)
+        .eq('project_id', templateSourceProject.id),
+    ]);
+    const loadError = tasksResult.error ?? milestonesResult.error;
+    if (loadError) {
+      setTemplateSaving(false);
+      setTemplateError(loadError.message);
+      return;
+    }
+    const milestones: Milestone[] = (milestonesResult.data ?? []).map((row) => {
+      const milestone = row as MilestoneRow;
+      return { id: milestone.id, title: milestone.title, projectId: milestone.project_id, date: milestone.date };
+    });
+    const result = await createProjectTemplate({
+      name: trimmed,
+      color: templateSourceProject.color,
+      ...buildProjectTemplatePlan(
+        (tasksResult.data ?? []).map((row) => mapTaskRow(row as TaskRow)),
+        milestones,
+        assignees,
+      ),
+    });
+    setTemplateSaving(false);
+    if (result.error) {
+      setTemplateError(result.error);
+      return;
+    }
+    setTemplateSourceProject(null);
+  }, [assignees, createProjectTemplate, currentWorkspaceId, templateName, templateSourceProject]);
+
   const createCustomerByName = useCallback(async (name: string) => {
     const trimmed = name.trim();
     if (!canEdit || !trimmed) return null;
@@ -874,6 +980,41 @@ const ProjectsPage = () => {
     setSelectedProjectId(project.id);
   }, []);
 
+  // Проект, открытый из палитры команд или по ссылке: выбираем его, когда проекты загрузятся.
+  const requestedProjectId = (location.state as { projectId?: string } | null)?.projectId ?? linkedProjectId;
+  useEffect(() => {
+    if (!requestedProjectId) return;
+    const project = projects.find((item) => item.id === requestedProjectId);
+    if (!project) {
+      // Проект из ссылки удалён или недоступен — оставляем выбор по умолчанию.
+      if (projects.length > 0) setLinkedProjectId(null);
+      return;
+    }
+    handleOpenProjectFromCustomer(project);
+    setLinkedProjectId(null);
+    if (location.state) {
+      navigate({ pathname: location.pathname, search: location.search }, { replace: true, state: null });
+    }
+  }, [
+    handleOpenProjectFromCustomer,
+    location.pathname,
+    location.search,
+    location.state,
+    navigate,
+    projects,
+    requestedProjectId,
+  ]);
+
+  // Выбранный проект и вкладка живут в query-параметрах, чтобы ссылкой можно было поделиться.
+  useEffect(() => {
+    if (requestedProjectId) return;
+    const next = new URLSearchParams();
+    if (selectedProjectId) next.set('project', selectedProjectId);
+    if (tab !== 'active') next.set('tab', tab);
+    if (next.toString() === searchParams.toString()) return;
+    setSearchParams(next, { replace: true });
+  }, [requestedProjectId, searchParams, selectedProjectId, setSearchParams, tab]);
+
   if (isSuperAdmin) {
     return <Navigate to="/admin/users" replace />;
   }
@@ -926,6 +1067,9 @@ const ProjectsPage = () => {
           <ContextMenuItem disabled={!canEdit} onSelect={() => openProjectSettings(project)}>
             {t`Edit`}
           </ContextMenuItem>
+          <ContextMenuItem disabled={!canEdit} onSelect={() => openSaveProjectTemplate(project)}>
+            {t`Save as template`}
+          </ContextMenuItem>
           <ContextMenuItem
             disabled={!canEdit}
             onSelect={() => updateProject(project.id, { archived: !project.archived })}
@@ -1667,17 +1811,73 @@ const ProjectsPage = () => {
                 disabled={!canEdit}
               />
             </div>
+            {projectTemplates.length > 0 && (
+              <ProjectTemplateFields
+                templates={projectTemplates}
+                templateId={newProjectTemplateId}
+                onTemplateChange={handleNewProjectTemplateChange}
+                startDate={newProjectStartDate}
+                onStartDateChange={setNewProjectStartDate}
+                roleAssignees={newProjectRoleAssignees}
+                onRoleAssigneesChange={setNewProjectRoleAssignees}
+                assignees={assignees}
+                onDeleteTemplate={deleteProjectTemplate}
+                disabled={!canEdit}
+              />
+            )}
+            {createProjectError && <div className="text-sm text-destructive">{createProjectError}</div>}
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={() => setCreateProjectOpen(false)}>
                 {t`Cancel`}
               </Button>
-              <Button onClick={handleCreateProject} disabled={!canEdit || !newProjectName.trim()}>
+              <Button onClick={handleCreateProject} disabled={!canEdit || !newProjectName.trim() || createProjectBusy}>
                 {t`Create project`}
               </Button>
             </div>
           </div>
         </DialogContent>
       </Dialog>
+      <Dialog
+        open={Boolean(templateSourceProject)}
+        onOpenChange={(open) => {
+          if (!open) setTemplateSourceProject(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>{t`Save project as template`}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="project-template-name">{t`Name`}</Label>
+              <Input
+                id="project-template-name"
+                value={templateName}
+                onChange={(event) => setTemplateName(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    event.preventDefault();
+                    void handleSaveProjectTemplate();
+                  }
+                }}
+                autoFocus
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t`Tasks and milestones are saved with days from the project start. Assignees become roles you map when creating a project.`}
+            </p>
+            {templateError && <div className="text-sm text-destructive">{templateError}</div>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateSourceProject(null)}>
+              {t`Cancel`}
+            </Button>
+            <Button onClick={handleSaveProjectTemplate} disabled={templateSaving || !templateName.trim()}>
+              {t`Save`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
       <Dialog open={projectSettingsOpen} onOpenChange={setProjectSettingsOpen}>
         <DialogContent className="w-[95vw] max-w-xl">
           <DialogHeader>
@@ -25,6 +25,7 @@ import { EmojiPicker } from '@/shared/ui/emoji-picker';
 import { splitStatusLabel, stripStatusEmoji } from '@/shared/lib/statusLabels';
 import { Textarea } from '@/shared/ui/textarea';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/shared/ui/tooltip';
+import { WorkingCalendarSettings } from '@/features/workspace/components/WorkingCalendarSettings';
 import { t } from '@lingui/macro';
 
 interface SettingsPanelProps {
@@ -311,6 +312,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ open, onOpenChange
             <TabsList className="flex flex-wrap w-full h-auto items-start justify-start gap-2 mb-4">
               <TabsTrigger value="general" className="whitespace-nowrap">{t`General`}</TabsTrigger>
               <TabsTrigger value="workflow" className="whitespace-nowrap">{t`Workflow`}</TabsTrigger>
+              <TabsTrigger value="calendar" className="whitespace-nowrap">{t`Calendar`}</TabsTrigger>
             </TabsList>
 
             <div className="flex-1 space-y-4">
@@ -641,6 +643,13 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ open, onOpenChange
                   </AccordionItem>
                 </Accordion>
               </TabsContent>
+
+              {/* Calendar */}
+              <TabsContent value="calendar" className="m-0">
+                <SectionCard title={t`Working calendar`}>
+                  <WorkingCalendarSettings canEdit={isAdmin} />
+                </SectionCard>
+              </TabsContent>
             </div>
           </Tabs>
         </DialogContent>
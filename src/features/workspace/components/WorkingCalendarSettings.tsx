@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { t } from '@lingui/macro';
+import { Plus, Trash2 } from 'lucide-react';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { HOLIDAY_PRESETS } from '@/features/planner/lib/holidayPresets';
+import { CalendarDayKind } from '@/features/planner/types/planner';
+import { Badge } from '@/shared/ui/badge';
+import { Button } from '@/shared/ui/button';
+import { Checkbox } from '@/shared/ui/checkbox';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import { Switch } from '@/shared/ui/switch';
+
+interface WorkingCalendarSettingsProps {
+  canEdit: boolean;
+}
+
+const NO_PRESET_VALUE = 'none';
+
+export const WorkingCalendarSettings: React.FC<WorkingCalendarSettingsProps> = ({ canEdit }) => {
+  const {
+    workingCalendar,
+    updateWorkingCalendar,
+    addCalendarDay,
+    deleteCalendarDay,
+  } = usePlannerStore();
+  const [dayDate, setDayDate] = useState('');
+  const [dayKind, setDayKind] = useState<CalendarDayKind>('holiday');
+  const [dayName, setDayName] = useState('');
+  const [error, setError] = useState('');
+
+  const presetLabels: Record<string, string> = {
+    RU: t`Russia`,
+    US: t`United States`,
+    GB: t`United Kingdom`,
+    DE: t`Germany`,
+  };
+  // Порядок с понедельника; значения — как у Date#getDay.
+  const weekdays = [
+    { value: 1, label: t`Mon` },
+    { value: 2, label: t`Tue` },
+    { value: 3, label: t`Wed` },
+    { value: 4, label: t`Thu` },
+    { value: 5, label: t`Fri` },
+    { value: 6, label: t`Sat` },
+    { value: 0, label: t`Sun` },
+  ];
+
+  const handlePresetChange = async (value: string) => {
+    setError('');
+    const result = await updateWorkingCalendar({ countryCode: value === NO_PRESET_VALUE ? null : value });
+    if (result.error) setError(result.error);
+  };
+
+  const handleWeekdayToggle = async (weekday: number, checked: boolean) => {
+    const next = checked
+      ? [...workingCalendar.weekendDays, weekday]
+      : workingCalendar.weekendDays.filter((value) => value !== weekday);
+    if (next.length === 7) {
+      setError(t`At least one day of the week must be a workday.`);
+      return;
+    }
+    setError('');
+    const weekendDays = Array.from(new Set(next)).sort((left, right) => left - right);
+    const result = await updateWorkingCalendar({ weekendDays });
+    if (result.error) setError(result.error);
+  };
+
+  const handleKeepDurationChange = async (checked: boolean) => {
+    setError('');
+    const result = await updateWorkingCalendar({ keepWorkingDuration: checked });
+    if (result.error) setError(result.error);
+  };
+
+  const handleAddDay = async () => {
+    if (!dayDate) {
+      setError(t`Pick a date.`);
+      return;
+    }
+    setError('');
+    const result = await addCalendarDay({
+      date: dayDate,
+      kind: dayKind,
+      name: dayName.trim() || null,
+    });
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setDayDate('');
+    setDayName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>{t`Public holidays`}</Label>
+        <Select
+          value={workingCalendar.countryCode ?? NO_PRESET_VALUE}
+          onValueChange={handlePresetChange}
+          disabled={!canEdit}
+        >
+          <SelectTrigger className="w-[240px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PRESET_VALUE}>{t`No preset`}</SelectItem>
+            {HOLIDAY_PRESETS.map((preset) => (
+              <SelectItem key={preset.code} value={preset.code}>
+                {presetLabels[preset.code] ?? preset.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {t`Holidays are bundled with the app. Add transferred days off below.`}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t`Weekly days off`}</Label>
+        <div className="flex flex-wrap gap-3">
+          {weekdays.map((weekday) => (
+            <label key={weekday.value} className="flex items-center gap-1.5 text-sm">
+              <Checkbox
+                checked={workingCalendar.weekendDays.includes(weekday.value)}
+                onCheckedChange={(checked) => handleWeekdayToggle(weekday.value, checked === true)}
+                disabled={!canEdit}
+              />
+              {weekday.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-start gap-3">
+        <Switch
+          id="keep-working-duration"
+          checked={workingCalendar.keepWorkingDuration}
+          onCheckedChange={handleKeepDurationChange}
+          disabled={!canEdit}
+        />
+        <div className="space-y-1">
+          <Label htmlFor="keep-working-duration">{t`Keep working days when moving tasks`}</Label>
+          <p className="text-xs text-muted-foreground">
+            {t`Dragged tasks skip days off and start on a working day.`}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t`Custom days`}</Label>
+        {workingCalendar.days.length === 0 && (
+          <p className="text-xs text-muted-foreground">{t`No custom holidays or workdays yet.`}</p>
+        )}
+        <div className="space-y-1">
+          {workingCalendar.days.map((day) => (
+            <div key={day.id} className="flex items-center gap-2 text-sm">
+              <span className="w-28 flex-shrink-0">{format(parseISO(day.date), 'dd MMM yyyy')}</span>
+              <Badge variant={day.kind === 'holiday' ? 'secondary' : 'outline'} className="text-[10px]">
+                {day.kind === 'holiday' ? t`Holiday` : t`Workday`}
+              </Badge>
+              <span className="min-w-0 flex-1 truncate text-muted-foreground">{day.name}</span>
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteCalendarDay(day.id)}
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+        {canEdit && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="date"
+              value={dayDate}
+              onChange={(event) => setDayDate(event.target.value)}
+              className="h-8 w-40"
+              aria-label={t`Date`}
+            />
+            <Select value={dayKind} onValueChange={(value) => setDayKind(value as CalendarDayKind)}>
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="holiday">{t`Holiday`}</SelectItem>
+                <SelectItem value="workday">{t`Extra workday`}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={dayName}
+              onChange={(event) => setDayName(event.target.value)}
+              placeholder={t`Name (optional)`}
+              className="h-8 flex-1 min-w-[160px]"
+            />
+            <Button size="sm" onClick={handleAddDay}>
+              <Plus className="w-4 h-4 mr-1" />
+              {t`Add`}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+    </div>
+  );
+};
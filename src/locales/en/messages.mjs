@@ -1 +1 @@
-/*eslint-disable*/export const messages=JSON.parse("{\"+0B+ue\":[\"Projects\"],\"+84Y5U\":[\"Manage roles, groups, and status.\"],\"+8Nek/\":[\"Monthly\"],\"+FjWgX\":[\"Thu\"],\"+X4ual\":[\"No priority\"],\"+zy2Nq\":[\"Type\"],\"/GUIS4\":[\"You have unsaved changes. Close without creating the task?\"],\"/IDuiW\":[\"Dashboard name\"],\"/K2CvV\":[\"Template\"],\"/QVnEn\":[\"Select dashboard\"],\"/mEufC\":[\"Pie chart (Donut)\"],\"/nT6AE\":[\"New password\"],\"/svvXZ\":[\"Loading backups...\"],\"/v4YhC\":[\"No project\"],\"0I9LZT\":[\"Group by group\"],\"0Sx8TJ\":[\"No group\"],\"0byfLZ\":[\"(disabled)\"],\"0f7U0k\":[\"Wed\"],\"12wKrZ\":[\"No members found.\"],\"1H+2P6\":[\"Start date ↑\"],\"1TNIig\":[\"Open\"],\"1hKEom\":[\"Priority\"],\"1hMWR6\":[\"Create account\"],\"1kovRK\":[\"Select project\"],\"1wdjme\":[\"People\"],\"23oLDW\":[\"New tag name...\"],\"2BBAbc\":[\"List\"],\"2fTTOh\":[\"Stop tracking\"],\"2wxgft\":[\"Rename\"],\"3/y5Zc\":[\"Invite created\"],\"38TX4h\":[\"Archived projects are hidden from filters.\"],\"3iKq8V\":[\"Add your name\"],\"3kkSWn\":[\"No customers yet.\"],\"3sSLRe\":[\"You are not signed in.\"],\"44/aYX\":[\"This will remove \\\"\",[\"0\"],\"\\\". Widgets and layouts will be lost.\"],\"4OjqAQ\":[\"Keep editing\"],\"4Q6lF1\":[\"(you)\"],\"4TwsNi\":[\"Apply template\"],\"4XSc4l\":[\"Weekly\"],\"4eEuSq\":[\"Expand filters\"],\"4eNw4A\":[\"Delete customer?\"],\"50yymi\":[\"Holiday:\"],\"5BUMjT\":[\"Cancelled status\"],\"5IXWmO\":[\"Check your inbox\"],\"5NNSvG\":[\"No active projects.\"],\"5OCSFz\":[\"Only super admins can access this page.\"],\"5dVjYt\":[\"Save template\"],\"5lWFkC\":[\"Sign in\"],\"5ywtDz\":[\"Remove image\"],\"63Xm5q\":[\"No advanced filters. Add a group to build custom rules.\"],\"63niL6\":[\"Unknown user\"],\"6Q2qjr\":[\"Search customers...\"],\"6fseMC\":[\"Loading dashboard...\"],\"6iB5W9\":[\"Show tasks without an assignee.\"],\"6jfS51\":[\"Welcome\"],\"6pSHJ5\":[\"Read-only\"],\"72c5Qo\":[\"Total\"],\"76RY0u\":[\"Milestones\"],\"7L01XJ\":[\"Actions\"],\"7PzzBU\":[\"User\"],\"7hJlfK\":[\"No active members.\"],\"7n29tp\":[[\"0\"],\" assignees\"],\"7p5kLi\":[\"Dashboard\"],\"7rdVIR\":[\"No archived projects.\"],\"7xJ6D1\":[\"Does not repeat\"],\"85dukA\":[\"Workspace limit reached (5).\"],\"876pfE\":[\"Customer\"],\"8G8M0u\":[\"Loading data...\"],\"8OUgug\":[\"No groups yet.\"],\"8Tg/JR\":[\"Custom\"],\"8ZsakT\":[\"Password\"],\"8rZVt4\":[\"Current month\"],\"8sZiWP\":[\"Add widget\"],\"9/rZz2\":[\"Area chart\"],\"9FrY/b\":[\"Template applied.\"],\"9T3tJZ\":[\"Manage invites, roles, and access.\"],\"9nlFZ6\":[\"New status name...\"],\"9ojBxJ\":[\"No assignees on this project.\"],\"9wUifz\":[\"Dashboard settings\"],\"AHXN2z\":[\"Widget\"],\"ALoP4W\":[\"Group by\"],\"AbTjF3\":[\"Workspace not selected.\"],\"AjVXBS\":[\"Calendar\"],\"Ay7JCw\":[\"Loading super admins...\"],\"B+IqUq\":[\"Open fullscreen\"],\"B495Gs\":[\"Archive\"],\"B6cT7m\":[\"Enter dashboard name...\"],\"B9eBJW\":[\"You have unsaved changes. Close without saving?\"],\"BHsrDx\":[\"Invites\"],\"BTJUWP\":[\"Dashboard limit reached (10).\"],\"BwAt3T\":[\"No customers found.\"],\"BwJKBw\":[\"of\"],\"BwWIp2\":[\"Repeat\"],\"CozWO1\":[\"Workspace name\"],\"CqCbnX\":[\"File is too large\"],\"D3iCkb\":[\"Start Date\"],\"D87pha\":[\"Closed\"],\"D89zck\":[\"Sun\"],\"DPfwMq\":[\"Done\"],\"DWJ5IQ\":[\"No template saved yet.\"],\"Db4W3/\":[\"Statuses\"],\"DhNqxD\":[\"Oops! Page not found\"],\"DmmfDE\":[\"Disable member\"],\"E/QGRL\":[\"Disabled\"],\"E0ypLG\":[\"The super admin will lose access to the admin panel. The account will remain.\"],\"E1nkD4\":[\"Filter customers\"],\"ECkIjM\":[\"New dashboard\"],\"ER3Vvj\":[[\"projectCount\"],\" projects\"],\"EWPtMO\":[\"Code\"],\"EbMPZJ\":[\"Unassigned\"],\"EbZwx+\":[\"No workspaces.\"],\"EdQY6l\":[\"None\"],\"Ef7StM\":[\"Unknown\"],\"EgzBur\":[\"Search tasks...\"],\"Em6MEy\":[\"Loading groups...\"],\"F6pfE9\":[\"Active\"],\"F74i8b\":[\"Select workspace\"],\"FFp/Jv\":[[\"0\"],\" customers\"],\"FIetkb\":[\"You have view access and cannot manage members.\"],\"FYgCVU\":[\"User workspaces\"],\"FdtSNC\":[\"Create workspace\"],\"Ff0Dor\":[\"Past\"],\"GDvlUT\":[\"Role\"],\"GSsifZ\":[\"No members in this group.\"],\"GrxizQ\":[\"No assignees yet.\"],\"GtycJ/\":[\"Tasks\"],\"H4oSSd\":[\"The user will be deleted permanently. This action cannot be undone.\"],\"H7OUPr\":[\"Day\"],\"HCAqqL\":[\"No assignees available.\"],\"HajiZl\":[\"Month\"],\"Hp1l6f\":[\"Current\"],\"Hvnq/n\":[\"Send invite\"],\"Hz+sxK\":[\"No options\"],\"I0we25\":[\"No customer\"],\"I61bCO\":[\"Right-click to add your first widget.\"],\"IHYezQ\":[\"Loading members...\"],\"IO2KC3\":[\"Invite link created\"],\"IrI9pg\":[\"End date\"],\"IyBivX\":[\"Search members...\"],\"J2ZTMa\":[\"Track\"],\"JD9x0S\":[\"No tags\"],\"JPtndf\":[\"Discard task?\"],\"JRQitQ\":[\"Confirm new password\"],\"JUce1S\":[\"Assignees\"],\"JXpNuP\":[\"Bar chart\"],\"JldzxA\":[\"By user\"],\"Jrq91G\":[\"Status filter\"],\"K+xzMc\":[\"You have view access and cannot edit this workspace.\"],\"KYHbvn\":[\"Invite people and share access.\"],\"Knd6gz\":[\"Workspace settings\"],\"Kt/Lzz\":[\"Line chart\"],\"L8fEEm\":[\"Group\"],\"LMAbqB\":[\"View tasks\"],\"LQTgjH\":[\"Project not found.\"],\"LW1RJD\":[\"You cannot remove yourself.\"],\"LlVAMY\":[\"The database will be replaced with backup \",[\"name\"],\".\"],\"LuXP9q\":[\"Access\"],\"M/TIv1\":[\"Viewer\"],\"MHrjPM\":[\"Title\"],\"MN92z2\":[\"Select task \",[\"0\"]],\"Ma4JKC\":[\"Match all rules (AND)\"],\"N40H+G\":[\"All\"],\"NXtPPX\":[\"this customer\"],\"NihQNk\":[\"Customers\"],\"NtQvjo\":[\"Period\"],\"Nu4oKW\":[\"Description\"],\"O3oNi5\":[\"Email\"],\"O8tK4v\":[\"Add rule\"],\"OUmHSD\":[\"No widgets yet.\"],\"OVd/ej\":[\"Loading template...\"],\"OYF21c\":[\"+\",[\"0\"],\" more milestones\"],\"OYHzN1\":[\"Tags\"],\"OYOJop\":[\"Return to Home\"],\"OfhWJH\":[\"Reset\"],\"OjdqcQ\":[\"Group \",[\"0\"]],\"Osuxpg\":[\"Loading workspace...\"],\"OvoEq7\":[\"Member\"],\"OxFMYZ\":[\"Select a group to see members.\"],\"OyIC0Q\":[\"Project name\"],\"P+8wL8\":[\"Select an end date.\"],\"PCIlOO\":[\"Add member\"],\"PS2QWT\":[\"No milestones\"],\"PiK6Ld\":[\"Sat\"],\"PvprFB\":[\"Prev\"],\"Q0sdUu\":[\"All current data will be lost.\"],\"Q3MPWA\":[\"Update password\"],\"Q3P/4s\":[\"Task\"],\"Q7h9s/\":[\"Create project\"],\"Qhr1KX\":[\"Enable member\"],\"Qof3ks\":[\"Email is required.\"],\"QxKmbU\":[\"Find or add customer...\"],\"R0keVi\":[\"KPI\"],\"RVZJWQ\":[\"Search projects...\"],\"Rb38iB\":[\"Password updated. Please sign in again.\"],\"Rjn+u/\":[\"Filter: \",[\"0\"]],\"Rkg5R1\":[\"Remove widget\"],\"RuEWFx\":[\"On date\"],\"S2Rr8h\":[\"Access denied\"],\"SJuq4U\":[\"Final\"],\"SWBVB3\":[\"Enter project name...\"],\"SlfejT\":[\"Error\"],\"Szx1tT\":[\"Authentication error\"],\"T3FM0r\":[\"Account settings\"],\"TFzrLh\":[\"this dashboard\"],\"TOHIGv\":[\"Task not found.\"],\"TdfEV7\":[\"Archived\"],\"TiJTB7\":[\"Tasks from today\"],\"Tyqmz3\":[\"New password for\"],\"U0sC6H\":[\"Daily\"],\"U3pytU\":[\"Admin\"],\"UCDKbC\":[\"The workspace and all its data will be deleted permanently.\"],\"UDI8Ls\":[\"Dates\"],\"UGLwm7\":[\"Select priority\"],\"UNMVei\":[\"Forgot password?\"],\"URmyfc\":[\"Details\"],\"VFv2ZC\":[\"End Date\"],\"W+lvFC\":[\"This will permanently delete \\\"\",[\"0\"],\"\\\" and all its data.\"],\"W2rpNA\":[\"Search groups...\"],\"W45LgB\":[\"Delete project?\"],\"WAjFYI\":[\"Start date\"],\"WJiwPf\":[\"By project\"],\"WMhcJi\":[\"Show unassigned\"],\"WQIXjZ\":[\"Go to task\"],\"Wa5Itd\":[\"End date ↑\"],\"WcF1uL\":[\"Group name\"],\"WcgzjF\":[\"name@example.com\"],\"Wda7yA\":[\"Workspace template\"],\"Weq9zb\":[\"General\"],\"Wg1YwO\":[\"Failed to create task.\"],\"WtTYSX\":[\"Types\"],\"XBr+Qj\":[\"No statuses found.\"],\"XLNmUf\":[\"New type name...\"],\"XvjC4F\":[\"Saving...\"],\"Y8D/84\":[\"Edit project\"],\"YDqSKm\":[\"Enter how many repeats to create.\"],\"YY+68R\":[\"Chart palette\"],\"Yah+aZ\":[\"All assignees\"],\"Z+6PPA\":[\"Create task\"],\"Z5HWHd\":[\"On\"],\"Z67txc\":[\"Create or select a dashboard to get started.\"],\"ZNQ9nq\":[\"Title Z–A\"],\"Zz6Cxn\":[\"Danger zone\"],\"aF2MfG\":[\"Edit widget\"],\"aHOBr6\":[\"No projects match the current filters.\"],\"aJlCCf\":[\"No rules yet.\"],\"aMIDAa\":[\"Select a member to view details.\"],\"aaLte5\":[\"End date ↓\"],\"ab3wto\":[\"All groups\"],\"aeGLaK\":[\"By status\"],\"agPptk\":[\"Medium\"],\"az8lvo\":[\"Off\"],\"bHSMxn\":[\"Maximum image size is 5 MB.\"],\"bLt/0J\":[\"Workflow\"],\"bm8pgG\":[\"Add group\"],\"byXCTu\":[\"Occurrences\"],\"bzSI52\":[\"Discard\"],\"c0acMS\":[\"Advanced filters\"],\"cI2+WX\":[\"Tasks count loading...\"],\"cSev+j\":[\"Filters\"],\"cklVjM\":[\"Timeline\"],\"cnGeoo\":[\"Delete\"],\"dEgA5A\":[\"Cancel\"],\"dG9RXq\":[\"Back to today\"],\"dXDGEe\":[\"Include unassigned\"],\"e+kdBE\":[\"Delete workspace?\"],\"e0NrBM\":[\"Project\"],\"e7myb+\":[\"No tags available yet.\"],\"ePK91l\":[\"Edit\"],\"eaUTwS\":[\"Send reset link\"],\"ecUA8p\":[\"Today\"],\"ei7OAG\":[\"No projects assigned to this customer.\"],\"f9yJNM\":[\"Equals\"],\"fDGOiR\":[\"Passwords do not match.\"],\"fcWrnU\":[\"Sign out\"],\"fcttMb\":[\"Check your email to confirm your account.\"],\"fgLNSM\":[\"Register\"],\"flc1WF\":[\"No groups created yet.\"],\"fn12iD\":[\"Template is used for all new workspaces.\"],\"fpMgHS\":[\"Mon\"],\"fvImQM\":[[\"0\"],\" selected\"],\"g0CK1k\":[\"My team workspace\"],\"gKi+a/\":[\"New project\"],\"gNPK7I\":[\"This will remove \\\"\",[\"deleteCustomerLabel\"],\"\\\". Projects will remain, but the customer will be cleared from them.\"],\"gOEoi0\":[\"New customer name...\"],\"goZDZD\":[\"Delete dashboard?\"],\"h4fqW+\":[\"Selected statuses\"],\"hAjDQy\":[\"Select status\"],\"hFaby8\":[\"New customer\"],\"hWkQMS\":[\"Add task\"],\"hXzOVo\":[\"Next\"],\"hYgDIe\":[\"Create\"],\"hcwvhj\":[\"Task types\"],\"iWf0Zj\":[\"Select value\"],\"icM4hl\":[\"Select all tasks\"],\"ikGfT5\":[\"Delete dashboard\"],\"immW6+\":[\"Calendar range\"],\"j8JRpm\":[\"A-Z\"],\"jBtpMP\":[\"All statuses\"],\"jFggGL\":[\"Failed to upload image\"],\"jJSIAs\":[\"This will remove \\\"\",[\"deleteProjectLabel\"],\"\\\". Tasks will remain, but the project will be cleared from them.\"],\"jZlrte\":[\"Color\"],\"jaIcYO\":[\"Group by customer\"],\"jd8ll3\":[\"Action failed\"],\"jl/cnN\":[\"Create \\\"\",[\"normalizedQuery\"],\"\\\"\"],\"k+LZc0\":[\"New group\"],\"k/sb6z\":[\"Select language\"],\"k1fybU\":[\"Password is required.\"],\"kYu0eF\":[\"Delete workspace\"],\"kd2ncf\":[\"Match any rule (OR)\"],\"kl4UPr\":[\"Copy this link if the email did not send:\"],\"l96s/G\":[\"Delete selected (\",[\"selectedCount\"],\")\"],\"lCF0wC\":[\"Refresh\"],\"lICawy\":[\"Select a customer\"],\"m+7bNi\":[\"Password updated. Share it with the user.\"],\"m0YQ/l\":[\"Month from current week\"],\"m16xKo\":[\"Add\"],\"mQ4nwB\":[\"Deleting a workspace is permanent. Type the workspace name to enable deletion.\"],\"mSuhYn\":[\"this workspace\"],\"mmYVfA\":[\"Saved.\"],\"mvvo2w\":[\"Rename dashboard\"],\"nJ5/A6\":[\"All changes saved\"],\"nLtYVs\":[\"Customer name\"],\"nTWWCZ\":[\"Low\"],\"o52yfV\":[\"No projects for this member.\"],\"o7e5M5\":[\"Task details\"],\"oRqIUw\":[[\"0\"],\" milestones\"],\"oSrMRT\":[\"Mine\"],\"oTL31E\":[\"Loading tasks...\"],\"oZKhxM\":[\"Page \",[\"pageIndex\"],\" / \",[\"totalPages\"]],\"onE/Ut\":[\"After count\"],\"pZIqot\":[\"Edit name\"],\"piHcHp\":[\"You do not have access to this workspace.\"],\"plhHQt\":[\"No data\"],\"pmt7u4\":[\"Workspaces\"],\"q2udR3\":[\"Create new task\"],\"qaPHTc\":[\"Checking invite...\"],\"qqeAJM\":[\"Never\"],\"qwhTW4\":[\"Filter settings\"],\"rtir7c\":[\"unknown\"],\"ry0RbG\":[\"No description.\"],\"sCTlv5\":[\"Unsaved changes\"],\"sCvXV4\":[\"No tasks match the current filters.\"],\"sZUsQi\":[\"Enter task title...\"],\"stsBDF\":[\"Start date ↓\"],\"t/YqKh\":[\"Remove\"],\"tKlWWY\":[\"Emoji\"],\"tWfKc7\":[\"Add a description...\"],\"tXQ9KI\":[\"Select type\"],\"tfDRzk\":[\"Save\"],\"toP9/B\":[\"Choose a customer to see their projects.\"],\"u5q2CN\":[\"Select a project to view details.\"],\"u8JHrO\":[\"Clear filters\"],\"uAQUqI\":[\"Status\"],\"uBAxNB\":[\"Editor\"],\"uO5PCe\":[\"Hide unassigned\"],\"ux170F\":[\"this project\"],\"v2SRl4\":[\"Calendar (month)\"],\"vFTb3n\":[[\"0\"],\" projects\"],\"vLFwJP\":[\"Z-A\"],\"vP/AOl\":[\"No disabled members.\"],\"vRAxcb\":[\"Loading users...\"],\"vXIe7J\":[\"Language\"],\"vam7Jz\":[\"New widget\"],\"vhzgFU\":[\"Filter applied\"],\"vq2WxD\":[\"Tue\"],\"vv7PeG\":[\"Loading workspaces...\"],\"vv7kpg\":[\"Cancelled\"],\"w6+Ivx\":[\"Customer:\"],\"w6iIMm\":[\"Dashboards\"],\"wRVdmx\":[\"We sent a password reset link to your email.\"],\"wW08QA\":[\"Not equals\"],\"wlQNTg\":[\"Members\"],\"wtxjAY\":[\"Workspace members\"],\"wubeCO\":[\"Members & roles\"],\"x/6eQ0\":[\"Ends\"],\"x754jJ\":[\"Apply your saved template to this workspace (adds missing items by name).\"],\"x7c5EG\":[\"Title A–Z\"],\"xCJdfg\":[\"Clear\"],\"xVhQZV\":[\"Fri\"],\"xnWESi\":[\"Confirm password\"],\"xqZQ1B\":[\"Use current workspace\"],\"yH5z+9\":[\"Sign in or create an account to continue.\"],\"yISXE9\":[\"Milestone view\"],\"yKu/3Y\":[\"Restore\"],\"ybwQma\":[\"Failed to apply template.\"],\"yhmpF8\":[\"Final status\"],\"yx/fMc\":[\"High\"],\"yz7wBu\":[\"Close\"],\"z0t9bb\":[\"Login\"],\"zG6Ooi\":[\"All projects\"],\"zK9qfk\":[\"Template saved.\"],\"zb+qUh\":[\"Rename customer\"],\"zhrjek\":[\"Groups\"],\"ziAjHi\":[\"Generate\"],\"zkWmBh\":[\"Yearly\"],\"zm+TUi\":[\"Enter customer name...\"],\"zx4BuL\":[\"Week\"]}");
\ No newline at end of file
+/*eslint-disable*/export const messages=JSON.parse("{\"++lIxB\":[\"Blocked by\"],\"+0B+ue\":[\"Projects\"],\"+5kO8P\":[\"Saturday\"],\"+84Y5U\":[\"Manage roles, groups, and status.\"],\"+8Nek/\":[\"Monthly\"],\"+CiGLN\":[\"Select at least one weekday.\"],\"+FjWgX\":[\"Thu\"],\"+X4ual\":[\"No priority\"],\"+tsFvM\":[\"No checklist items.\"],\"+zy2Nq\":[\"Type\"],\"/4ESsa\":[\"Clear the selection\"],\"/8quCH\":[\"From template\"],\"/GUIS4\":[\"You have unsaved changes. Close without creating the task?\"],\"/IDuiW\":[\"Dashboard name\"],\"/K2CvV\":[\"Template\"],\"/QVnEn\":[\"Select dashboard\"],\"/mEufC\":[\"Pie chart (Donut)\"],\"/nT6AE\":[\"New password\"],\"/svvXZ\":[\"Loading backups...\"],\"/v4YhC\":[\"No project\"],\"0Gd0NU\":[\"Shared\"],\"0I9LZT\":[\"Group by group\"],\"0QRWSx\":[\"Customers → Projects\"],\"0Sx8TJ\":[\"No group\"],\"0byfLZ\":[\"(disabled)\"],\"0caMy7\":[\"History\"],\"0f7U0k\":[\"Wed\"],\"1+P9RR\":[\"Switch to \",[\"0\"]],\"12wKrZ\":[\"No members found.\"],\"1H+2P6\":[\"Start date ↑\"],\"1I6UoR\":[\"Views\"],\"1QtDkC\":[\"The template will be removed for everyone in the workspace.\"],\"1TNIig\":[\"Open\"],\"1hKEom\":[\"Priority\"],\"1hMWR6\":[\"Create account\"],\"1hxId5\":[\"fourth\"],\"1kovRK\":[\"Select project\"],\"1wdjme\":[\"People\"],\"23oLDW\":[\"New tag name...\"],\"2BBAbc\":[\"List\"],\"2SBQiY\":[\"Save as new\"],\"2fTTOh\":[\"Stop tracking\"],\"2vudsu\":[\"Quarter\"],\"2wxgft\":[\"Rename\"],\"3/y5Zc\":[\"Invite created\"],\"38TX4h\":[\"Archived projects are hidden from filters.\"],\"39y5bn\":[\"Friday\"],\"3Sdni6\":[\"Mark as done\"],\"3Xx0TS\":[\"Nothing found.\"],\"3bInSa\":[\"Group by customers and projects\"],\"3iKq8V\":[\"Add your name\"],\"3kkSWn\":[\"No customers yet.\"],\"3sSLRe\":[\"You are not signed in.\"],\"44/aYX\":[\"This will remove \\\"\",[\"0\"],\"\\\". Widgets and layouts will be lost.\"],\"4OjqAQ\":[\"Keep editing\"],\"4Q6lF1\":[\"(you)\"],\"4TwsNi\":[\"Apply template\"],\"4XSc4l\":[\"Weekly\"],\"4eEuSq\":[\"Expand filters\"],\"4eNw4A\":[\"Delete customer?\"],\"50yymi\":[\"Holiday:\"],\"5BUMjT\":[\"Cancelled status\"],\"5IXWmO\":[\"Check your inbox\"],\"5KES2w\":[\"Assign to\"],\"5NNSvG\":[\"No active projects.\"],\"5OCSFz\":[\"Only super admins can access this page.\"],\"5VRFih\":[\"Group by member groups and people\"],\"5WhN8Q\":[\"Note (optional)\"],\"5dJK4M\":[\"Roles\"],\"5dVjYt\":[\"Save template\"],\"5lWFkC\":[\"Sign in\"],\"5sUvLg\":[\"± days\"],\"5ywtDz\":[\"Remove image\"],\"63Xm5q\":[\"No advanced filters. Add a group to build custom rules.\"],\"63niL6\":[\"Unknown user\"],\"6PH+Mn\":[\"At risk\"],\"6Q2qjr\":[\"Search customers...\"],\"6YtxFj\":[\"Name\"],\"6eTv/D\":[\"Description updated\"],\"6fseMC\":[\"Loading dashboard...\"],\"6iB5W9\":[\"Show tasks without an assignee.\"],\"6jfS51\":[\"Welcome\"],\"6pSHJ5\":[\"Read-only\"],\"6rRkpS\":[\"Month view\"],\"72c5Qo\":[\"Total\"],\"76RY0u\":[\"Milestones\"],\"77Emn0\":[\"Keyboard shortcuts\"],\"7L01XJ\":[\"Actions\"],\"7MuXko\":[\"Personal\"],\"7PzzBU\":[\"User\"],\"7br4un\":[[\"count\"],\" tasks deleted\"],\"7hJlfK\":[\"No active members.\"],\"7n29tp\":[[\"0\"],\" assignees\"],\"7p5kLi\":[\"Dashboard\"],\"7rdVIR\":[\"No archived projects.\"],\"7s3WlU\":[\"Blocks\"],\"7vKYqp\":[\"(edited)\"],\"7xJ6D1\":[\"Does not repeat\"],\"80siY0\":[\"year(s)\"],\"85dukA\":[\"Workspace limit reached (5).\"],\"876pfE\":[\"Customer\"],\"8G8M0u\":[\"Loading data...\"],\"8OUgug\":[\"No groups yet.\"],\"8Tg/JR\":[\"Custom\"],\"8ZsakT\":[\"Password\"],\"8mILnH\":[[\"count\"],\" selected\"],\"8rZVt4\":[\"Current month\"],\"8sZiWP\":[\"Add widget\"],\"9/rZz2\":[\"Area chart\"],\"9849R0\":[\"Convert to task\"],\"9FrY/b\":[\"Template applied.\"],\"9ItHLu\":[\"third\"],\"9S2hOE\":[\"Creates \",[\"taskCount\"],\" task(s) and \",[\"milestoneCount\"],\" milestone(s) from the start date.\"],\"9T3tJZ\":[\"Manage invites, roles, and access.\"],\"9iKJnh\":[\"No custom holidays or workdays yet.\"],\"9nlFZ6\":[\"New status name...\"],\"9ojBxJ\":[\"No assignees on this project.\"],\"9uI/rE\":[\"Undo\"],\"9wUifz\":[\"Dashboard settings\"],\"9wyvvf\":[\"Group by projects\"],\"A1taO8\":[\"Search\"],\"AFUVqE\":[\"Estimated hours\"],\"AHXN2z\":[\"Widget\"],\"ALoP4W\":[\"Group by\"],\"ANtE4t\":[\"Checklist\"],\"AbTjF3\":[\"Workspace not selected.\"],\"AjVXBS\":[\"Calendar\"],\"Ay7JCw\":[\"Loading super admins...\"],\"B+IqUq\":[\"Open fullscreen\"],\"B495Gs\":[\"Archive\"],\"B6cT7m\":[\"Enter dashboard name...\"],\"B9eBJW\":[\"You have unsaved changes. Close without saving?\"],\"BHsrDx\":[\"Invites\"],\"BTJUWP\":[\"Dashboard limit reached (10).\"],\"BTzFVC\":[\"Deleted task\"],\"BnmEvM\":[\"Save as template\"],\"BwAt3T\":[\"No customers found.\"],\"BwJKBw\":[\"of\"],\"BwWIp2\":[\"Repeat\"],\"C79ELK\":[\"Show keyboard shortcuts\"],\"CBtQ6A\":[\"Pick a start date. The workspace needs at least one status and task type.\"],\"CM081v\":[\"Write a comment. Type @ to mention someone.\"],\"CRsuq4\":[\"Every\"],\"CdPmsK\":[\"Working calendar\"],\"CjVkbV\":[\"Former member\"],\"CozWO1\":[\"Workspace name\"],\"CqCbnX\":[\"File is too large\"],\"D+GxfY\":[\"Change was rolled back\"],\"D+NlUC\":[\"System\"],\"D/thhz\":[\"Delete \",[\"count\"],\" tasks?\"],\"D3iCkb\":[\"Start Date\"],\"D87pha\":[\"Closed\"],\"D89zck\":[\"Sun\"],\"DBC3t5\":[\"Sunday\"],\"DFjdv0\":[\"Delete template\"],\"DPfwMq\":[\"Done\"],\"DWJ5IQ\":[\"No template saved yet.\"],\"Db4W3/\":[\"Statuses\"],\"DhNqxD\":[\"Oops! Page not found\"],\"DkT0ig\":[\"The template will be removed.\"],\"DmmfDE\":[\"Disable member\"],\"DpbTPi\":[\"Search tasks, projects, people\"],\"Du+zn+\":[\"Searching...\"],\"E/QGRL\":[\"Disabled\"],\"E0ypLG\":[\"The super admin will lose access to the admin panel. The account will remain.\"],\"E1nkD4\":[\"Filter customers\"],\"ECkIjM\":[\"New dashboard\"],\"ER3Vvj\":[[\"projectCount\"],\" projects\"],\"ETIA+r\":[\"Group by type\"],\"EWPtMO\":[\"Code\"],\"EbMPZJ\":[\"Unassigned\"],\"EbZwx+\":[\"No workspaces.\"],\"EdQY6l\":[\"None\"],\"Ef7StM\":[\"Unknown\"],\"EgzBur\":[\"Search tasks...\"],\"Eh7Dql\":[\"United Kingdom\"],\"Em6MEy\":[\"Loading groups...\"],\"F6pfE9\":[\"Active\"],\"F74i8b\":[\"Select workspace\"],\"FBIuPX\":[\"Clear selection\"],\"FFp/Jv\":[[\"0\"],\" customers\"],\"FIetkb\":[\"You have view access and cannot manage members.\"],\"FYgCVU\":[\"User workspaces\"],\"FdtSNC\":[\"Create workspace\"],\"Ff0Dor\":[\"Past\"],\"G3myU+\":[\"Tuesday\"],\"GDvlUT\":[\"Role\"],\"GSsifZ\":[\"No members in this group.\"],\"GfHe9f\":[\"Delete the selected tasks\"],\"GrxizQ\":[\"No assignees yet.\"],\"GtycJ/\":[\"Tasks\"],\"H3oH0g\":[\"Redo\"],\"H4oSSd\":[\"The user will be deleted permanently. This action cannot be undone.\"],\"H7OUPr\":[\"Day\"],\"HCAqqL\":[\"No assignees available.\"],\"HG/edS\":[\"Open the command palette\"],\"HQXknN\":[\"Holidays are bundled with the app. Add transferred days off below.\"],\"HajiZl\":[\"Month\"],\"Hp1l6f\":[\"Current\"],\"HrHQ6I\":[\"Remember current date\"],\"HuYaAo\":[\"Task count\"],\"Hvnq/n\":[\"Send invite\"],\"Hz+sxK\":[\"No options\"],\"I0we25\":[\"No customer\"],\"I61bCO\":[\"Right-click to add your first widget.\"],\"IHYezQ\":[\"Loading members...\"],\"IO2KC3\":[\"Invite link created\"],\"IT903p\":[\"Next week\"],\"Ih5jBC\":[\"On the \",[\"ordinal\"],\" \",[\"weekdayName\"]],\"IrI9pg\":[\"End date\"],\"ItGWKp\":[\"Open the selected task\"],\"IyBivX\":[\"Search members...\"],\"J+R6cp\":[\"Capacity, h/day\"],\"J2ZTMa\":[\"Track\"],\"JD9x0S\":[\"No tags\"],\"JPtndf\":[\"Discard task?\"],\"JQUYU4\":[\"Workday\"],\"JRQitQ\":[\"Confirm new password\"],\"JUce1S\":[\"Assignees\"],\"JXpNuP\":[\"Bar chart\"],\"JldzxA\":[\"By user\"],\"Jrq91G\":[\"Status filter\"],\"K+xzMc\":[\"You have view access and cannot edit this workspace.\"],\"K16/cB\":[\"Timesheet\"],\"KK+APf\":[\"Choose a view\"],\"KR6sNP\":[\"Repeat on\"],\"KYHbvn\":[\"Invite people and share access.\"],\"Knd6gz\":[\"Workspace settings\"],\"Kt/Lzz\":[\"Line chart\"],\"Ktrk4m\":[\"Another user just updated this task\"],\"L8fEEm\":[\"Group\"],\"LMAbqB\":[\"View tasks\"],\"LQTgjH\":[\"Project not found.\"],\"LW1RJD\":[\"You cannot remove yourself.\"],\"LlVAMY\":[\"The database will be replaced with backup \",[\"name\"],\".\"],\"LuXP9q\":[\"Access\"],\"M/TIv1\":[\"Viewer\"],\"M5mfAe\":[\"Add tag\"],\"MHrjPM\":[\"Title\"],\"MN92z2\":[\"Select task \",[\"0\"]],\"Ma4JKC\":[\"Match all rules (AND)\"],\"Mqy/Zy\":[\"United States\"],\"N0Ub0y\":[\"Dates conflict\"],\"N40H+G\":[\"All\"],\"NBdIgR\":[\"Comment\"],\"NFz9Z0\":[\"Task outside the loaded range\"],\"NXtPPX\":[\"this customer\"],\"Nc8D27\":[\"Remove tag\"],\"NihQNk\":[\"Customers\"],\"NtQvjo\":[\"Period\"],\"Nu4oKW\":[\"Description\"],\"O3oNi5\":[\"Email\"],\"O8tK4v\":[\"Add rule\"],\"O95Hht\":[\"No preset\"],\"OCn/j9\":[\"Remove time entry\"],\"OUmHSD\":[\"No widgets yet.\"],\"OVd/ej\":[\"Loading template...\"],\"OYF21c\":[\"+\",[\"0\"],\" more milestones\"],\"OYHzN1\":[\"Tags\"],\"OYOJop\":[\"Return to Home\"],\"OfhWJH\":[\"Reset\"],\"OjdqcQ\":[\"Group \",[\"0\"]],\"Oqk4Jq\":[\"Changes are saved on this device and will be sent when the connection returns.\"],\"Osuxpg\":[\"Loading workspace...\"],\"OtQ0+6\":[\"Save project as template\"],\"OvoEq7\":[\"Member\"],\"OxFMYZ\":[\"Select a group to see members.\"],\"OyIC0Q\":[\"Project name\"],\"P+8wL8\":[\"Select an end date.\"],\"PCIlOO\":[\"Add member\"],\"PGetcZ\":[\"Shift\"],\"PS2QWT\":[\"No milestones\"],\"PYrnE8\":[\"Dates are saved as a duration and applied from the start date of the new task.\"],\"PiK6Ld\":[\"Sat\"],\"PvprFB\":[\"Prev\"],\"Q0sdUu\":[\"All current data will be lost.\"],\"Q2De2V\":[\"Start → Start\"],\"Q3MPWA\":[\"Update password\"],\"Q3P/4s\":[\"Task\"],\"Q7h9s/\":[\"Create project\"],\"Q8eIK/\":[\"No comments yet.\"],\"QEazml\":[\"Delete selected\"],\"Qhr1KX\":[\"Enable member\"],\"QljSVW\":[\"The view will be removed for everyone in the workspace.\"],\"Qof3ks\":[\"Email is required.\"],\"QxKmbU\":[\"Find or add customer...\"],\"R0keVi\":[\"KPI\"],\"RRpjeA\":[\"Enter a non-zero number of days.\"],\"RVZJWQ\":[\"Search projects...\"],\"Rb38iB\":[\"Password updated. Please sign in again.\"],\"Rjn+u/\":[\"Filter: \",[\"0\"]],\"Rkg5R1\":[\"Remove widget\"],\"RuEWFx\":[\"On date\"],\"S2Rr8h\":[\"Access denied\"],\"S8nGMU\":[\"week(s)\"],\"SJuq4U\":[\"Final\"],\"SWBVB3\":[\"Enter project name...\"],\"SlfejT\":[\"Error\"],\"Szx1tT\":[\"Authentication error\"],\"T2hcAa\":[\"Day view\"],\"T3FM0r\":[\"Account settings\"],\"TF9cGE\":[\"Finish → Start\"],\"TFzrLh\":[\"this dashboard\"],\"TLX9Bn\":[\"No saved views\"],\"TOHIGv\":[\"Task not found.\"],\"TdfEV7\":[\"Archived\"],\"TiJTB7\":[\"Tasks from today\"],\"TmPN06\":[\"Weekly days off\"],\"Tyqmz3\":[\"New password for\"],\"U0sC6H\":[\"Daily\"],\"U2MUUD\":[\"Custom days\"],\"U3pytU\":[\"Admin\"],\"UCDKbC\":[\"The workspace and all its data will be deleted permanently.\"],\"UDI8Ls\":[\"Dates\"],\"UG8DCt\":[\"Holiday\"],\"UGLwm7\":[\"Select priority\"],\"UNMVei\":[\"Forgot password?\"],\"UNXPZE\":[\"Repeats deleted\"],\"URmyfc\":[\"Details\"],\"VAcXNz\":[\"Wednesday\"],\"VFv2ZC\":[\"End Date\"],\"VWsqtU\":[\"Logged\"],\"VbyRUy\":[\"Comments\"],\"Vp09G0\":[\"Group by customers\"],\"W+lvFC\":[\"This will permanently delete \\\"\",[\"0\"],\"\\\" and all its data.\"],\"W2rpNA\":[\"Search groups...\"],\"W45LgB\":[\"Delete project?\"],\"WAjFYI\":[\"Start date\"],\"WJiwPf\":[\"By project\"],\"WMhcJi\":[\"Show unassigned\"],\"WQIXjZ\":[\"Go to task\"],\"Wa5Itd\":[\"End date ↑\"],\"WcF1uL\":[\"Group name\"],\"WcgzjF\":[\"name@example.com\"],\"Wda7yA\":[\"Workspace template\"],\"Weq9zb\":[\"General\"],\"Wg1YwO\":[\"Failed to create task.\"],\"WtTYSX\":[\"Types\"],\"X2/NjG\":[\"Russia\"],\"XBr+Qj\":[\"No statuses found.\"],\"XLNmUf\":[\"New type name...\"],\"XTtR6a\":[\"Germany\"],\"XicmhT\":[\"Due date\"],\"XpDeOw\":[\"Loading comments...\"],\"XvjC4F\":[\"Saving...\"],\"XybBRC\":[\"Go to today\"],\"Y8D/84\":[\"Edit project\"],\"YDqSKm\":[\"Enter how many repeats to create.\"],\"YY+68R\":[\"Chart palette\"],\"Yah+aZ\":[\"All assignees\"],\"Z+6PPA\":[\"Create task\"],\"Z/3wU7\":[\"Log time\"],\"Z3FXyt\":[\"Loading...\"],\"Z5HWHd\":[\"On\"],\"Z67txc\":[\"Create or select a dashboard to get started.\"],\"ZKRCiS\":[\"day(s)\"],\"ZNQ9nq\":[\"Title Z–A\"],\"ZuduiH\":[\"second\"],\"Zz6Cxn\":[\"Danger zone\"],\"aF2MfG\":[\"Edit widget\"],\"aHOBr6\":[\"No projects match the current filters.\"],\"aJlCCf\":[\"No rules yet.\"],\"aMIDAa\":[\"Select a member to view details.\"],\"aRG49z\":[\"Delete view\"],\"aaLte5\":[\"End date ↓\"],\"ab3wto\":[\"All groups\"],\"aeGLaK\":[\"By status\"],\"agPptk\":[\"Medium\"],\"alkXJ5\":[\"Calendar view\"],\"az8lvo\":[\"Off\"],\"azzTar\":[\"Estimate (hours)\"],\"bHSMxn\":[\"Maximum image size is 5 MB.\"],\"bK+j3W\":[\"No dependencies yet.\"],\"bLt/0J\":[\"Workflow\"],\"bM7Rp3\":[\"Share with workspace\"],\"bXRxew\":[\"Type a command, a name or a date...\"],\"bYIuoV\":[\"On day \",[\"dayOfMonth\"]],\"bm8pgG\":[\"Add group\"],\"byXCTu\":[\"Occurrences\"],\"bzSI52\":[\"Discard\"],\"c0acMS\":[\"Advanced filters\"],\"cI2+WX\":[\"Tasks count loading...\"],\"cI8fS/\":[\"Task created\"],\"cM2Wen\":[\"Extra workday\"],\"cSev+j\":[\"Filters\"],\"cUur1T\":[\"Dragged tasks skip days off and start on a working day.\"],\"cVcsOk\":[\"Delete view?\"],\"cklVjM\":[\"Timeline\"],\"cnGeoo\":[\"Delete\"],\"d+F6q9\":[\"Created\"],\"dDEDBw\":[\"Select task\"],\"dEgA5A\":[\"Cancel\"],\"dG9RXq\":[\"Back to today\"],\"dRWIfB\":[\"Loading history...\"],\"dXDGEe\":[\"Include unassigned\"],\"dlaTfR\":[\"Pick a date.\"],\"e+kdBE\":[\"Delete workspace?\"],\"e0NrBM\":[\"Project\"],\"e7myb+\":[\"No tags available yet.\"],\"e8GyQg\":[\"Metric\"],\"ePK91l\":[\"Edit\"],\"eaUTwS\":[\"Send reset link\"],\"ecUA8p\":[\"Today\"],\"ei7OAG\":[\"No projects assigned to this customer.\"],\"f9yJNM\":[\"Equals\"],\"fDGOiR\":[\"Passwords do not match.\"],\"fDWegJ\":[\"Group by tags\"],\"fYqwBM\":[\"Keep working days when moving tasks\"],\"fcWrnU\":[\"Sign out\"],\"fcttMb\":[\"Check your email to confirm your account.\"],\"fgLNSM\":[\"Register\"],\"flc1WF\":[\"No groups created yet.\"],\"fn12iD\":[\"Template is used for all new workspaces.\"],\"fpMgHS\":[\"Mon\"],\"fpcbQ/\":[\"Group by people\"],\"fvImQM\":[[\"0\"],\" selected\"],\"g0CK1k\":[\"My team workspace\"],\"gKi+a/\":[\"New project\"],\"gNPK7I\":[\"This will remove \\\"\",[\"deleteCustomerLabel\"],\"\\\". Projects will remain, but the customer will be cleared from them.\"],\"gOEoi0\":[\"New customer name...\"],\"goZDZD\":[\"Delete dashboard?\"],\"h4fqW+\":[\"Selected statuses\"],\"hAjDQy\":[\"Select status\"],\"hFaby8\":[\"New customer\"],\"hQDrYd\":[\"Choose a template\"],\"hS9Gks\":[\"Group by member groups\"],\"hWkQMS\":[\"Add task\"],\"hXzOVo\":[\"Next\"],\"hYgDIe\":[\"Create\"],\"hcwvhj\":[\"Task types\"],\"hq5VvQ\":[\"Anywhere\"],\"hty0d5\":[\"Monday\"],\"hy+Mfg\":[\"first\"],\"iMG0cT\":[\"Not estimated\"],\"iTgN2s\":[[\"0\"],\"/\",[\"1\"],\" tasks done\"],\"iWf0Zj\":[\"Select value\"],\"icM4hl\":[\"Select all tasks\"],\"ifwNVS\":[\"Save view\"],\"ikGfT5\":[\"Delete dashboard\"],\"immW6+\":[\"Calendar range\"],\"ivfuD8\":[\"Add a task to the selection\"],\"j8JRpm\":[\"A-Z\"],\"jBtpMP\":[\"All statuses\"],\"jFggGL\":[\"Failed to upload image\"],\"jJSIAs\":[\"This will remove \\\"\",[\"deleteProjectLabel\"],\"\\\". Tasks will remain, but the project will be cleared from them.\"],\"jYBjQN\":[\"Empty project\"],\"jZlrte\":[\"Color\"],\"jaIcYO\":[\"Group by customer\"],\"jd8ll3\":[\"Action failed\"],\"jjqrzI\":[\"Groups → People\"],\"jl/cnN\":[\"Create \\\"\",[\"normalizedQuery\"],\"\\\"\"],\"jpctdh\":[\"View\"],\"k+LZc0\":[\"New group\"],\"k/sb6z\":[\"Select language\"],\"k1fybU\":[\"Password is required.\"],\"k7hZId\":[\"Nested\"],\"kSP5M3\":[\"Pick a member, a date and the hours spent.\"],\"kYu0eF\":[\"Delete workspace\"],\"kd2ncf\":[\"Match any rule (OR)\"],\"kkDQ8m\":[\"Thursday\"],\"kl4UPr\":[\"Copy this link if the email did not send:\"],\"l7Kem3\":[[\"pendingMutations\"],\" unsynced\"],\"l96s/G\":[\"Delete selected (\",[\"selectedCount\"],\")\"],\"lCF0wC\":[\"Refresh\"],\"lICawy\":[\"Select a customer\"],\"m+7bNi\":[\"Password updated. Share it with the user.\"],\"m0YQ/l\":[\"Month from current week\"],\"m16xKo\":[\"Add\"],\"mQ4nwB\":[\"Deleting a workspace is permanent. Type the workspace name to enable deletion.\"],\"mSuhYn\":[\"this workspace\"],\"mYGY3B\":[\"Date\"],\"mhiBTV\":[\"Public holidays\"],\"mmShHA\":[\"Previous week\"],\"mmYVfA\":[\"Saved.\"],\"mvvo2w\":[\"Rename dashboard\"],\"mzOBy/\":[\"The view will be removed.\"],\"n2/NzK\":[\"Member not found.\"],\"nJ5/A6\":[\"All changes saved\"],\"nK1HzU\":[\"Remove dependency\"],\"nLtYVs\":[\"Customer name\"],\"nTWWCZ\":[\"Low\"],\"njJFtc\":[\"Delete comment\"],\"o52yfV\":[\"No projects for this member.\"],\"o7e5M5\":[\"Task details\"],\"oBTjaY\":[\"Select member\"],\"oRqIUw\":[[\"0\"],\" milestones\"],\"oSrMRT\":[\"Mine\"],\"oTL31E\":[\"Loading tasks...\"],\"oZKhxM\":[\"Page \",[\"pageIndex\"],\" / \",[\"totalPages\"]],\"onE/Ut\":[\"After count\"],\"oqevae\":[\"No changes recorded yet.\"],\"pZIqot\":[\"Edit name\"],\"piHcHp\":[\"You do not have access to this workspace.\"],\"plhHQt\":[\"No data\"],\"pmt7u4\":[\"Workspaces\"],\"q2udR3\":[\"Create new task\"],\"qAYNvm\":[\"Previous / next period\"],\"qCLeIo\":[\"Delete template?\"],\"qaPHTc\":[\"Checking invite...\"],\"qqeAJM\":[\"Never\"],\"qtE5nt\":[\"Add an item...\"],\"qwhTW4\":[\"Filter settings\"],\"qzdS9F\":[\"Quarter view\"],\"rF8SEQ\":[\"Edit comment\"],\"rtir7c\":[\"unknown\"],\"ry0RbG\":[\"No description.\"],\"sCTlv5\":[\"Unsaved changes\"],\"sCvXV4\":[\"No tasks match the current filters.\"],\"sZUsQi\":[\"Enter task title...\"],\"stsBDF\":[\"Start date ↓\"],\"t/YqKh\":[\"Remove\"],\"t4wRj6\":[\"Shift by days\"],\"tCkQlx\":[\"On the last \",[\"weekdayName\"]],\"tKlWWY\":[\"Emoji\"],\"tWfKc7\":[\"Add a description...\"],\"tXQ9KI\":[\"Select type\"],\"tZD6lH\":[\"Group by status\"],\"tfDRzk\":[\"Save\"],\"tgWuMB\":[\"Modified\"],\"toP9/B\":[\"Choose a customer to see their projects.\"],\"u4glAf\":[\"The selected tasks will be deleted. You can undo this right after.\"],\"u5q2CN\":[\"Select a project to view details.\"],\"u8+PAt\":[\"Go to \",[\"0\"]],\"u8JHrO\":[\"Clear filters\"],\"uAQUqI\":[\"Status\"],\"uBAxNB\":[\"Editor\"],\"uO5PCe\":[\"Hide unassigned\"],\"uUEzqZ\":[\"Week view\"],\"uwXLtD\":[\"At least one day of the week must be a workday.\"],\"ux170F\":[\"this project\"],\"v2SRl4\":[\"Calendar (month)\"],\"vFTb3n\":[[\"0\"],\" projects\"],\"vLFwJP\":[\"Z-A\"],\"vP/AOl\":[\"No disabled members.\"],\"vRAxcb\":[\"Loading users...\"],\"vXIe7J\":[\"Language\"],\"vam7Jz\":[\"New widget\"],\"vhzgFU\":[\"Filter applied\"],\"vop1s3\":[\"Remove item\"],\"vq2WxD\":[\"Tue\"],\"vs6MsH\":[\"Milestone deleted\"],\"vv7PeG\":[\"Loading workspaces...\"],\"vv7kpg\":[\"Cancelled\"],\"w6+Ivx\":[\"Customer:\"],\"w6iIMm\":[\"Dashboards\"],\"wJAhPZ\":[\"Name (optional)\"],\"wRR604\":[\"Pages\"],\"wRVdmx\":[\"We sent a password reset link to your email.\"],\"wTG79B\":[\"Tasks and milestones are saved with days from the project start. Assignees become roles you map when creating a project.\"],\"wW08QA\":[\"Not equals\"],\"wlQNTg\":[\"Members\"],\"wtxjAY\":[\"Workspace members\"],\"wubeCO\":[\"Members & roles\"],\"x/6eQ0\":[\"Ends\"],\"x754jJ\":[\"Apply your saved template to this workspace (adds missing items by name).\"],\"x7c5EG\":[\"Title A–Z\"],\"xCJdfg\":[\"Clear\"],\"xHe/7h\":[\"Dependencies\"],\"xIvJiR\":[\"No time logged this week.\"],\"xVhQZV\":[\"Fri\"],\"xnWESi\":[\"Confirm password\"],\"xqZQ1B\":[\"Use current workspace\"],\"y4l/qI\":[\"Logged hours\"],\"yByRxz\":[\"This week\"],\"yH5z+9\":[\"Sign in or create an account to continue.\"],\"yISXE9\":[\"Milestone view\"],\"yKu/3Y\":[\"Restore\"],\"yY8wAv\":[\"Hours\"],\"ybwQma\":[\"Failed to apply template.\"],\"yhmpF8\":[\"Final status\"],\"ymnvxu\":[\"month(s)\"],\"yx/fMc\":[\"High\"],\"yz7wBu\":[\"Close\"],\"yzF66j\":[\"Link\"],\"z0t9bb\":[\"Login\"],\"zG6Ooi\":[\"All projects\"],\"zK9qfk\":[\"Template saved.\"],\"zb+aRg\":[\"Task deleted\"],\"zb+qUh\":[\"Rename customer\"],\"zhrjek\":[\"Groups\"],\"ziAjHi\":[\"Generate\"],\"zkWmBh\":[\"Yearly\"],\"zm+TUi\":[\"Enter customer name...\"],\"zx4BuL\":[\"Week\"]}");
\ No newline at end of file
@@ -1 +1 @@
-/*eslint-disable*/export const messages=JSON.parse("{\"+0B+ue\":[\"Проекты\"],\"+84Y5U\":[\"Управляйте ролями, группами и статусом.\"],\"+8Nek/\":[\"Ежемесячно\"],\"+FjWgX\":[\"Чт\"],\"+X4ual\":[\"Без приоритета\"],\"+zy2Nq\":[\"Тип\"],\"/GUIS4\":[\"У вас есть несохраненные изменения. Закрыть без создания задачи?\"],\"/IDuiW\":[\"Название дашборда\"],\"/K2CvV\":[\"Шаблон\"],\"/QVnEn\":[\"Выберите дашборд\"],\"/mEufC\":[\"Круговая диаграмма (пончик)\"],\"/nT6AE\":[\"Новый пароль\"],\"/svvXZ\":[\"Загрузка бэкапов...\"],\"/v4YhC\":[\"Нет проекта\"],\"0I9LZT\":[\"Группировать по группе\"],\"0Sx8TJ\":[\"Без группы\"],\"0byfLZ\":[\"(отключен)\"],\"0f7U0k\":[\"Ср\"],\"12wKrZ\":[\"Участники не найдены.\"],\"1H+2P6\":[\"Дата начала ↑\"],\"1TNIig\":[\"Открытые\"],\"1hKEom\":[\"Приоритет\"],\"1hMWR6\":[\"Создать аккаунт\"],\"1kovRK\":[\"Выберите проект\"],\"1wdjme\":[\"Люди\"],\"23oLDW\":[\"Название нового тега...\"],\"2BBAbc\":[\"Список\"],\"2fTTOh\":[\"Перестать отслеживать\"],\"2wxgft\":[\"Переименовать\"],\"3/y5Zc\":[\"Приглашение создано\"],\"38TX4h\":[\"Архивные проекты скрыты в фильтрах.\"],\"3iKq8V\":[\"Добавьте имя\"],\"3kkSWn\":[\"Клиентов пока нет.\"],\"3sSLRe\":[\"Вы не вошли в систему.\"],\"44/aYX\":[\"Это удалит «\",[\"0\"],\"». Виджеты и раскладки будут потеряны.\"],\"4OjqAQ\":[\"Продолжить редактирование\"],\"4Q6lF1\":[\"(вы)\"],\"4TwsNi\":[\"Применить шаблон\"],\"4XSc4l\":[\"Еженедельно\"],\"4eEuSq\":[\"Развернуть фильтры\"],\"4eNw4A\":[\"Удалить клиента?\"],\"50yymi\":[\"Праздник:\"],\"5BUMjT\":[\"Отмененный статус\"],\"5IXWmO\":[\"Проверьте почту\"],\"5NNSvG\":[\"Нет активных проектов.\"],\"5OCSFz\":[\"Доступ к админке есть только у супер-администратора.\"],\"5dVjYt\":[\"Сохранить шаблон\"],\"5lWFkC\":[\"Войти\"],\"5ywtDz\":[\"Удалить изображение\"],\"63Xm5q\":[\"Нет расширенных фильтров. Добавьте группу, чтобы создать правила.\"],\"63niL6\":[\"Неизвестный пользователь\"],\"6Q2qjr\":[\"Поиск клиентов...\"],\"6fseMC\":[\"Загрузка дашборда...\"],\"6iB5W9\":[\"Показывать задачи без исполнителя.\"],\"6jfS51\":[\"Добро пожаловать\"],\"6pSHJ5\":[\"Только чтение\"],\"72c5Qo\":[\"Всего\"],\"76RY0u\":[\"Вехи\"],\"7L01XJ\":[\"Действия\"],\"7PzzBU\":[\"Пользователь\"],\"7hJlfK\":[\"Нет активных участников.\"],\"7n29tp\":[[\"0\"],\" исполнителей\"],\"7p5kLi\":[\"Дашборд\"],\"7rdVIR\":[\"Нет архивных проектов.\"],\"7xJ6D1\":[\"Не повторяется\"],\"85dukA\":[\"Достигнут лимит рабочих пространств (5).\"],\"876pfE\":[\"Клиент\"],\"8G8M0u\":[\"Загрузка данных...\"],\"8OUgug\":[\"Групп пока нет.\"],\"8Tg/JR\":[\"Пользовательские\"],\"8ZsakT\":[\"Пароль\"],\"8rZVt4\":[\"Текущий месяц\"],\"8sZiWP\":[\"Добавить виджет\"],\"9/rZz2\":[\"Площадная диаграмма\"],\"9FrY/b\":[\"Шаблон применен.\"],\"9T3tJZ\":[\"Управляйте приглашениями, ролями и доступом.\"],\"9nlFZ6\":[\"Название нового статуса...\"],\"9ojBxJ\":[\"Нет исполнителей в этом проекте.\"],\"9wUifz\":[\"Настройки дашборда\"],\"AHXN2z\":[\"Виджет\"],\"ALoP4W\":[\"Группировать по\"],\"AbTjF3\":[\"Рабочее пространство не выбрано.\"],\"AjVXBS\":[\"Календарь\"],\"Ay7JCw\":[\"Загрузка супер-админов...\"],\"B+IqUq\":[\"Открыть во весь экран\"],\"B495Gs\":[\"Архивировать\"],\"B6cT7m\":[\"Введите название дашборда...\"],\"B9eBJW\":[\"У вас есть несохраненные изменения. Закрыть без сохранения?\"],\"BHsrDx\":[\"Приглашения\"],\"BTJUWP\":[\"Достигнут лимит дашбордов (10).\"],\"BwAt3T\":[\"Клиенты не найдены.\"],\"BwJKBw\":[\"из\"],\"BwWIp2\":[\"Повтор\"],\"CozWO1\":[\"Название рабочего пространства\"],\"CqCbnX\":[\"Файл слишком большой\"],\"D3iCkb\":[\"Дата начала\"],\"D87pha\":[\"Закрытые\"],\"D89zck\":[\"Вс\"],\"DPfwMq\":[\"Завершено\"],\"DWJ5IQ\":[\"Шаблон еще не сохранен.\"],\"Db4W3/\":[\"Статусы\"],\"DhNqxD\":[\"Страница не найдена\"],\"DmmfDE\":[\"Отключить участника\"],\"E/QGRL\":[\"Отключен\"],\"E0ypLG\":[\"Супер-админ потеряет доступ к админке. Аккаунт останется в системе.\"],\"E1nkD4\":[\"Фильтр клиентов\"],\"ECkIjM\":[\"Новый дашборд\"],\"ER3Vvj\":[[\"projectCount\"],\" проектов\"],\"EWPtMO\":[\"Код\"],\"EbMPZJ\":[\"Без назнач.\"],\"EbZwx+\":[\"Нет воркспейсов.\"],\"EdQY6l\":[\"Нет\"],\"Ef7StM\":[\"Неизвестно\"],\"EgzBur\":[\"Поиск задач...\"],\"Em6MEy\":[\"Загрузка групп...\"],\"F6pfE9\":[\"Активен\"],\"F74i8b\":[\"Выберите рабочее пространство\"],\"FFp/Jv\":[[\"0\"],\" клиентов\"],\"FIetkb\":[\"У вас доступ только для просмотра, и вы не можете управлять участниками.\"],\"FYgCVU\":[\"Воркспейсы пользователя\"],\"FdtSNC\":[\"Создать рабочее пространство\"],\"Ff0Dor\":[\"Прошлые\"],\"GDvlUT\":[\"Роль\"],\"GSsifZ\":[\"В этой группе нет участников.\"],\"GrxizQ\":[\"Исполнителей пока нет.\"],\"GtycJ/\":[\"Задачи\"],\"H4oSSd\":[\"Пользователь будет удалён навсегда. Это действие нельзя отменить.\"],\"H7OUPr\":[\"День\"],\"HCAqqL\":[\"Нет доступных исполнителей.\"],\"HajiZl\":[\"Месяц\"],\"Hp1l6f\":[\"Текущие\"],\"Hvnq/n\":[\"Отправить приглашение\"],\"Hz+sxK\":[\"Нет вариантов\"],\"I0we25\":[\"Нет клиента\"],\"I61bCO\":[\"Щелкните правой кнопкой, чтобы добавить первый виджет.\"],\"IHYezQ\":[\"Загрузка участников...\"],\"IO2KC3\":[\"Ссылка-приглашение создана\"],\"IrI9pg\":[\"Дата окончания\"],\"IyBivX\":[\"Поиск участников...\"],\"J2ZTMa\":[\"Отслеживать\"],\"JD9x0S\":[\"Нет тегов\"],\"JPtndf\":[\"Отменить задачу?\"],\"JRQitQ\":[\"Подтвердите новый пароль\"],\"JUce1S\":[\"Исполнители\"],\"JXpNuP\":[\"Столбчатая диаграмма\"],\"JldzxA\":[\"По пользователю\"],\"Jrq91G\":[\"Фильтр статусов\"],\"K+xzMc\":[\"У вас доступ только для просмотра, и вы не можете редактировать это рабочее пространство.\"],\"KYHbvn\":[\"Приглашайте людей и делитесь доступом.\"],\"Knd6gz\":[\"Настройки рабочего пространства\"],\"Kt/Lzz\":[\"Линейный график\"],\"L8fEEm\":[\"Группа\"],\"LMAbqB\":[\"Просмотреть задачи\"],\"LQTgjH\":[\"Проект не найден.\"],\"LW1RJD\":[\"Вы не можете удалить себя.\"],\"LlVAMY\":[\"База данных будет заменена содержимым бэкапа \",[\"name\"],\".\"],\"LuXP9q\":[\"Доступ\"],\"M/TIv1\":[\"Просмотр\"],\"MHrjPM\":[\"Название\"],\"MN92z2\":[\"Выбрать задачу \",[\"0\"]],\"Ma4JKC\":[\"Совпадают все правила (И)\"],\"N40H+G\":[\"Все\"],\"NXtPPX\":[\"этот клиент\"],\"NihQNk\":[\"Клиенты\"],\"NtQvjo\":[\"Период\"],\"Nu4oKW\":[\"Описание\"],\"O3oNi5\":[\"Email\"],\"O8tK4v\":[\"Добавить правило\"],\"OUmHSD\":[\"Пока нет виджетов.\"],\"OVd/ej\":[\"Загрузка шаблона...\"],\"OYF21c\":[\"+\",[\"0\"],\" ещё этапов\"],\"OYHzN1\":[\"Теги\"],\"OYOJop\":[\"Вернуться на главную\"],\"OfhWJH\":[\"Сброс\"],\"OjdqcQ\":[\"Группа \",[\"0\"]],\"Osuxpg\":[\"Загрузка воркспейса...\"],\"OvoEq7\":[\"Участник\"],\"OxFMYZ\":[\"Выберите группу, чтобы увидеть участников.\"],\"OyIC0Q\":[\"Название проекта\"],\"P+8wL8\":[\"Выберите дату окончания.\"],\"PCIlOO\":[\"Добавить участника\"],\"PS2QWT\":[\"Нет этапов\"],\"PiK6Ld\":[\"Сб\"],\"PvprFB\":[\"Назад\"],\"Q0sdUu\":[\"Все текущие данные будут потеряны.\"],\"Q3MPWA\":[\"Обновить пароль\"],\"Q3P/4s\":[\"Задача\"],\"Q7h9s/\":[\"Создать проект\"],\"Qhr1KX\":[\"Включить участника\"],\"Qof3ks\":[\"Email обязателен.\"],\"QxKmbU\":[\"Найти или добавить клиента...\"],\"R0keVi\":[\"KPI\"],\"RVZJWQ\":[\"Поиск проектов...\"],\"Rb38iB\":[\"Пароль обновлён. Пожалуйста, войдите снова.\"],\"Rjn+u/\":[\"Фильтр: \",[\"0\"]],\"Rkg5R1\":[\"Удалить виджет\"],\"RuEWFx\":[\"На дату\"],\"S2Rr8h\":[\"Нет доступа\"],\"SJuq4U\":[\"Финальный\"],\"SWBVB3\":[\"Введите название проекта...\"],\"SlfejT\":[\"Ошибка\"],\"Szx1tT\":[\"Ошибка аутентификации\"],\"T3FM0r\":[\"Настройки аккаунта\"],\"TFzrLh\":[\"этот дашборд\"],\"TOHIGv\":[\"Задача не найдена.\"],\"TdfEV7\":[\"Архивирован\"],\"TiJTB7\":[\"Задачи с сегодняшнего дня\"],\"Tyqmz3\":[\"Новый пароль для\"],\"U0sC6H\":[\"Ежедневно\"],\"U3pytU\":[\"Администратор\"],\"UCDKbC\":[\"Воркспейс и все его данные будут удалены без возможности восстановления.\"],\"UDI8Ls\":[\"Даты\"],\"UGLwm7\":[\"Выберите приоритет\"],\"UNMVei\":[\"Забыли пароль?\"],\"URmyfc\":[\"Подробнее\"],\"VFv2ZC\":[\"Дата окончания\"],\"W+lvFC\":[\"Это навсегда удалит «\",[\"0\"],\"» и все его данные.\"],\"W2rpNA\":[\"Поиск групп...\"],\"W45LgB\":[\"Удалить проект?\"],\"WAjFYI\":[\"Дата начала\"],\"WJiwPf\":[\"По проекту\"],\"WMhcJi\":[\"Показывать без назначения\"],\"WQIXjZ\":[\"Перейти к задаче\"],\"Wa5Itd\":[\"Дата окончания ↑\"],\"WcF1uL\":[\"Название группы\"],\"WcgzjF\":[\"name@example.com\"],\"Wda7yA\":[\"Шаблон рабочего пространства\"],\"Weq9zb\":[\"Общие\"],\"Wg1YwO\":[\"Не удалось создать задачу.\"],\"WtTYSX\":[\"Типы\"],\"XBr+Qj\":[\"Статусы не найдены.\"],\"XLNmUf\":[\"Название нового типа...\"],\"XvjC4F\":[\"Сохранение...\"],\"Y8D/84\":[\"Редактировать проект\"],\"YDqSKm\":[\"Укажите, сколько повторов создать.\"],\"YY+68R\":[\"Палитра графика\"],\"Yah+aZ\":[\"Все исполнители\"],\"Z+6PPA\":[\"Создать задачу\"],\"Z5HWHd\":[\"Вкл.\"],\"Z67txc\":[\"Создайте или выберите дашборд, чтобы начать.\"],\"ZNQ9nq\":[\"Название Я–А\"],\"Zz6Cxn\":[\"Опасная зона\"],\"aF2MfG\":[\"Редактировать виджет\"],\"aHOBr6\":[\"Нет проектов, соответствующих фильтрам.\"],\"aJlCCf\":[\"Правил пока нет.\"],\"aMIDAa\":[\"Выберите участника, чтобы увидеть детали.\"],\"aaLte5\":[\"Дата окончания ↓\"],\"ab3wto\":[\"Все группы\"],\"aeGLaK\":[\"По статусу\"],\"agPptk\":[\"Средний\"],\"az8lvo\":[\"Выкл.\"],\"bHSMxn\":[\"Максимальный размер изображения — 5 МБ.\"],\"bLt/0J\":[\"Процесс\"],\"bm8pgG\":[\"Добавить группу\"],\"byXCTu\":[\"Количество\"],\"bzSI52\":[\"Сбросить\"],\"c0acMS\":[\"Расширенные фильтры\"],\"cI2+WX\":[\"Загрузка количества задач...\"],\"cSev+j\":[\"Фильтры\"],\"cklVjM\":[\"Таймлайн\"],\"cnGeoo\":[\"Удалить\"],\"dEgA5A\":[\"Отмена\"],\"dG9RXq\":[\"Вернуться к сегодняшней дате\"],\"dXDGEe\":[\"Включить без исполнителя\"],\"e+kdBE\":[\"Удалить рабочее пространство?\"],\"e0NrBM\":[\"Проект\"],\"e7myb+\":[\"Тегов пока нет.\"],\"ePK91l\":[\"Редактировать\"],\"eaUTwS\":[\"Отправить ссылку\"],\"ecUA8p\":[\"Сегодня\"],\"ei7OAG\":[\"Нет проектов у этого клиента.\"],\"f9yJNM\":[\"Равно\"],\"fDGOiR\":[\"Пароли не совпадают.\"],\"fcWrnU\":[\"Выйти\"],\"fcttMb\":[\"Проверьте почту, чтобы подтвердить аккаунт.\"],\"fgLNSM\":[\"Регистрация\"],\"flc1WF\":[\"Группы еще не созданы.\"],\"fn12iD\":[\"Шаблон используется для всех новых рабочих пространств.\"],\"fpMgHS\":[\"Пн\"],\"fvImQM\":[[\"0\"],\" выбрано\"],\"g0CK1k\":[\"Рабочее пространство моей команды\"],\"gKi+a/\":[\"Новый проект\"],\"gNPK7I\":[\"Это удалит «\",[\"deleteCustomerLabel\"],\"». Проекты останутся, но клиент будет удален из них.\"],\"gOEoi0\":[\"Название нового клиента...\"],\"goZDZD\":[\"Удалить дашборд?\"],\"h4fqW+\":[\"Выбранные статусы\"],\"hAjDQy\":[\"Выберите статус\"],\"hFaby8\":[\"Новый клиент\"],\"hWkQMS\":[\"Добавить задачу\"],\"hXzOVo\":[\"Далее\"],\"hYgDIe\":[\"Создать\"],\"hcwvhj\":[\"Типы задач\"],\"iWf0Zj\":[\"Выберите значение\"],\"icM4hl\":[\"Выбрать все задачи\"],\"ikGfT5\":[\"Удалить дашборд\"],\"immW6+\":[\"Диапазон календаря\"],\"j8JRpm\":[\"А-Я\"],\"jBtpMP\":[\"Все статусы\"],\"jFggGL\":[\"Не удалось загрузить изображение\"],\"jJSIAs\":[\"Это удалит «\",[\"deleteProjectLabel\"],\"». Задачи останутся, но проект будет удален из них.\"],\"jZlrte\":[\"Цвет\"],\"jaIcYO\":[\"Группировать по клиенту\"],\"jd8ll3\":[\"Действие не выполнено\"],\"jl/cnN\":[\"Создать \\\"\",[\"normalizedQuery\"],\"\\\"\"],\"k+LZc0\":[\"Новая группа\"],\"k/sb6z\":[\"Выберите язык\"],\"k1fybU\":[\"Пароль обязателен.\"],\"kYu0eF\":[\"Удалить рабочее пространство\"],\"kd2ncf\":[\"Совпадает любое правило (ИЛИ)\"],\"kl4UPr\":[\"Скопируйте эту ссылку, если письмо не пришло:\"],\"l96s/G\":[\"Удалить выбранные (\",[\"selectedCount\"],\")\"],\"lCF0wC\":[\"Обновить\"],\"lICawy\":[\"Выберите клиента\"],\"m+7bNi\":[\"Пароль обновлён. Сообщите его пользователю.\"],\"m0YQ/l\":[\"Месяц от текущей недели\"],\"m16xKo\":[\"Добавить\"],\"mQ4nwB\":[\"Удаление рабочего пространства необратимо. Введите его имя, чтобы включить удаление.\"],\"mSuhYn\":[\"это рабочее пространство\"],\"mmYVfA\":[\"Сохранено.\"],\"mvvo2w\":[\"Переименовать дашборд\"],\"nJ5/A6\":[\"Все изменения сохранены\"],\"nLtYVs\":[\"Название клиента\"],\"nTWWCZ\":[\"Низкий\"],\"o52yfV\":[\"Нет проектов у этого участника.\"],\"o7e5M5\":[\"Детали задачи\"],\"oRqIUw\":[[\"0\"],\" этапов\"],\"oSrMRT\":[\"Мои\"],\"oTL31E\":[\"Загрузка задач...\"],\"oZKhxM\":[\"Страница \",[\"pageIndex\"],\" / \",[\"totalPages\"]],\"onE/Ut\":[\"После количества\"],\"pZIqot\":[\"Редактировать имя\"],\"piHcHp\":[\"У вас нет доступа к этому воркспейсу.\"],\"plhHQt\":[\"Нет данных\"],\"pmt7u4\":[\"Рабочие пространства\"],\"q2udR3\":[\"Создать новую задачу\"],\"qaPHTc\":[\"Проверяем приглашение...\"],\"qqeAJM\":[\"Никогда\"],\"qwhTW4\":[\"Настройки фильтра\"],\"rtir7c\":[\"неизвестно\"],\"ry0RbG\":[\"Нет описания.\"],\"sCTlv5\":[\"Несохраненные изменения\"],\"sCvXV4\":[\"Нет задач, соответствующих фильтрам.\"],\"sZUsQi\":[\"Введите название задачи...\"],\"stsBDF\":[\"Дата начала ↓\"],\"t/YqKh\":[\"Удалить\"],\"tKlWWY\":[\"Эмодзи\"],\"tWfKc7\":[\"Добавьте описание...\"],\"tXQ9KI\":[\"Выберите тип\"],\"tfDRzk\":[\"Сохранить\"],\"toP9/B\":[\"Выберите клиента, чтобы увидеть его проекты.\"],\"u5q2CN\":[\"Выберите проект, чтобы увидеть детали.\"],\"u8JHrO\":[\"Очистить фильтры\"],\"uAQUqI\":[\"Статус\"],\"uBAxNB\":[\"Редактор\"],\"uO5PCe\":[\"Скрыть неназначенные\"],\"ux170F\":[\"этот проект\"],\"v2SRl4\":[\"Календарь (месяц)\"],\"vFTb3n\":[[\"0\"],\" проектов\"],\"vLFwJP\":[\"Я-А\"],\"vP/AOl\":[\"Нет отключенных участников.\"],\"vRAxcb\":[\"Загрузка пользователей...\"],\"vXIe7J\":[\"Язык\"],\"vam7Jz\":[\"Новый виджет\"],\"vhzgFU\":[\"Применён фильтр\"],\"vq2WxD\":[\"Вт\"],\"vv7PeG\":[\"Загрузка воркспейсов...\"],\"vv7kpg\":[\"Отменен\"],\"w6+Ivx\":[\"Клиент:\"],\"w6iIMm\":[\"Дашборды\"],\"wRVdmx\":[\"Мы отправили ссылку для сброса пароля на вашу почту.\"],\"wW08QA\":[\"Не равно\"],\"wlQNTg\":[\"Участники\"],\"wtxjAY\":[\"Участники рабочего пространства\"],\"wubeCO\":[\"Участники и роли\"],\"x/6eQ0\":[\"Окончание\"],\"x754jJ\":[\"Применить сохраненный шаблон к этому рабочему пространству (добавит отсутствующие элементы по имени).\"],\"x7c5EG\":[\"Название А–Я\"],\"xCJdfg\":[\"Очистить\"],\"xVhQZV\":[\"Пт\"],\"xnWESi\":[\"Подтвердите пароль\"],\"xqZQ1B\":[\"Использовать текущее пространство\"],\"yH5z+9\":[\"Войдите или создайте аккаунт, чтобы продолжить.\"],\"yISXE9\":[\"Вид этапов\"],\"yKu/3Y\":[\"Восстановить\"],\"ybwQma\":[\"Не удалось применить шаблон.\"],\"yhmpF8\":[\"Финальный статус\"],\"yx/fMc\":[\"Высокий\"],\"yz7wBu\":[\"Закрыть\"],\"z0t9bb\":[\"Вход\"],\"zG6Ooi\":[\"Все проекты\"],\"zK9qfk\":[\"Шаблон сохранен.\"],\"zb+qUh\":[\"Переименовать клиента\"],\"zhrjek\":[\"Группы\"],\"ziAjHi\":[\"Сгенерировать\"],\"zkWmBh\":[\"Ежегодно\"],\"zm+TUi\":[\"Введите название клиента...\"],\"zx4BuL\":[\"Неделя\"]}");
\ No newline at end of file
+/*eslint-disable*/export const messages=JSON.parse("{\"++lIxB\":[\"Зависит от\"],\"+0B+ue\":[\"Проекты\"],\"+5kO8P\":[\"суббота\"],\"+84Y5U\":[\"Управляйте ролями, группами и статусом.\"],\"+8Nek/\":[\"Ежемесячно\"],\"+CiGLN\":[\"Выберите хотя бы один день недели.\"],\"+FjWgX\":[\"Чт\"],\"+X4ual\":[\"Без приоритета\"],\"+tsFvM\":[\"Пунктов нет.\"],\"+zy2Nq\":[\"Тип\"],\"/4ESsa\":[\"Снять выделение\"],\"/8quCH\":[\"Из шаблона\"],\"/GUIS4\":[\"У вас есть несохраненные изменения. Закрыть без создания задачи?\"],\"/IDuiW\":[\"Название дашборда\"],\"/K2CvV\":[\"Шаблон\"],\"/QVnEn\":[\"Выберите дашборд\"],\"/mEufC\":[\"Круговая диаграмма (пончик)\"],\"/nT6AE\":[\"Новый пароль\"],\"/svvXZ\":[\"Загрузка бэкапов...\"],\"/v4YhC\":[\"Нет проекта\"],\"0Gd0NU\":[\"Общие\"],\"0I9LZT\":[\"Группировать по группе\"],\"0QRWSx\":[\"Заказчики → Проекты\"],\"0Sx8TJ\":[\"Без группы\"],\"0byfLZ\":[\"(отключен)\"],\"0caMy7\":[\"История\"],\"0f7U0k\":[\"Ср\"],\"1+P9RR\":[\"Перейти в \",[\"0\"]],\"12wKrZ\":[\"Участники не найдены.\"],\"1H+2P6\":[\"Дата начала ↑\"],\"1I6UoR\":[\"Виды\"],\"1QtDkC\":[\"Шаблон будет удалён для всех участников пространства.\"],\"1TNIig\":[\"Открытые\"],\"1hKEom\":[\"Приоритет\"],\"1hMWR6\":[\"Создать аккаунт\"],\"1hxId5\":[\"4-й\"],\"1kovRK\":[\"Выберите проект\"],\"1wdjme\":[\"Люди\"],\"23oLDW\":[\"Название нового тега...\"],\"2BBAbc\":[\"Список\"],\"2SBQiY\":[\"Сохранить как новый\"],\"2fTTOh\":[\"Перестать отслеживать\"],\"2vudsu\":[\"Квартал\"],\"2wxgft\":[\"Переименовать\"],\"3/y5Zc\":[\"Приглашение создано\"],\"38TX4h\":[\"Архивные проекты скрыты в фильтрах.\"],\"39y5bn\":[\"пятница\"],\"3Sdni6\":[\"Отметить выполненным\"],\"3Xx0TS\":[\"Ничего не найдено.\"],\"3bInSa\":[\"Группировать по заказчикам и проектам\"],\"3iKq8V\":[\"Добавьте имя\"],\"3kkSWn\":[\"Клиентов пока нет.\"],\"3sSLRe\":[\"Вы не вошли в систему.\"],\"44/aYX\":[\"Это удалит «\",[\"0\"],\"». Виджеты и раскладки будут потеряны.\"],\"4OjqAQ\":[\"Продолжить редактирование\"],\"4Q6lF1\":[\"(вы)\"],\"4TwsNi\":[\"Применить шаблон\"],\"4XSc4l\":[\"Еженедельно\"],\"4eEuSq\":[\"Развернуть фильтры\"],\"4eNw4A\":[\"Удалить клиента?\"],\"50yymi\":[\"Праздник:\"],\"5BUMjT\":[\"Отмененный статус\"],\"5IXWmO\":[\"Проверьте почту\"],\"5KES2w\":[\"Назначить\"],\"5NNSvG\":[\"Нет активных проектов.\"],\"5OCSFz\":[\"Доступ к админке есть только у супер-администратора.\"],\"5VRFih\":[\"Группировать по группам и людям\"],\"5WhN8Q\":[\"Заметка (необязательно)\"],\"5dJK4M\":[\"Роли\"],\"5dVjYt\":[\"Сохранить шаблон\"],\"5lWFkC\":[\"Войти\"],\"5sUvLg\":[\"± дней\"],\"5ywtDz\":[\"Удалить изображение\"],\"63Xm5q\":[\"Нет расширенных фильтров. Добавьте группу, чтобы создать правила.\"],\"63niL6\":[\"Неизвестный пользователь\"],\"6PH+Mn\":[\"Под угрозой\"],\"6Q2qjr\":[\"Поиск клиентов...\"],\"6YtxFj\":[\"Название\"],\"6eTv/D\":[\"Описание изменено\"],\"6fseMC\":[\"Загрузка дашборда...\"],\"6iB5W9\":[\"Показывать задачи без исполнителя.\"],\"6jfS51\":[\"Добро пожаловать\"],\"6pSHJ5\":[\"Только чтение\"],\"6rRkpS\":[\"Вид по месяцам\"],\"72c5Qo\":[\"Всего\"],\"76RY0u\":[\"Вехи\"],\"77Emn0\":[\"Горячие клавиши\"],\"7L01XJ\":[\"Действия\"],\"7MuXko\":[\"Личные\"],\"7PzzBU\":[\"Пользователь\"],\"7br4un\":[\"Удалено задач: \",[\"count\"]],\"7hJlfK\":[\"Нет активных участников.\"],\"7n29tp\":[[\"0\"],\" исполнителей\"],\"7p5kLi\":[\"Дашборд\"],\"7rdVIR\":[\"Нет архивных проектов.\"],\"7s3WlU\":[\"Блокирует\"],\"7vKYqp\":[\"(изменено)\"],\"7xJ6D1\":[\"Не повторяется\"],\"80siY0\":[\"г.\"],\"85dukA\":[\"Достигнут лимит рабочих пространств (5).\"],\"876pfE\":[\"Клиент\"],\"8G8M0u\":[\"Загрузка данных...\"],\"8OUgug\":[\"Групп пока нет.\"],\"8Tg/JR\":[\"Пользовательские\"],\"8ZsakT\":[\"Пароль\"],\"8mILnH\":[\"Выбрано: \",[\"count\"]],\"8rZVt4\":[\"Текущий месяц\"],\"8sZiWP\":[\"Добавить виджет\"],\"9/rZz2\":[\"Площадная диаграмма\"],\"9849R0\":[\"Превратить в задачу\"],\"9FrY/b\":[\"Шаблон применен.\"],\"9ItHLu\":[\"3-й\"],\"9S2hOE\":[\"Будет создано задач: \",[\"taskCount\"],\", вех: \",[\"milestoneCount\"],\" от даты начала.\"],\"9T3tJZ\":[\"Управляйте приглашениями, ролями и доступом.\"],\"9iKJnh\":[\"Особых праздников и рабочих дней пока нет.\"],\"9nlFZ6\":[\"Название нового статуса...\"],\"9ojBxJ\":[\"Нет исполнителей в этом проекте.\"],\"9uI/rE\":[\"Отменить\"],\"9wUifz\":[\"Настройки дашборда\"],\"9wyvvf\":[\"Группировать по проектам\"],\"A1taO8\":[\"Поиск\"],\"AFUVqE\":[\"Оценка в часах\"],\"AHXN2z\":[\"Виджет\"],\"ALoP4W\":[\"Группировать по\"],\"ANtE4t\":[\"Чек-лист\"],\"AbTjF3\":[\"Рабочее пространство не выбрано.\"],\"AjVXBS\":[\"Календарь\"],\"Ay7JCw\":[\"Загрузка супер-админов...\"],\"B+IqUq\":[\"Открыть во весь экран\"],\"B495Gs\":[\"Архивировать\"],\"B6cT7m\":[\"Введите название дашборда...\"],\"B9eBJW\":[\"У вас есть несохраненные изменения. Закрыть без сохранения?\"],\"BHsrDx\":[\"Приглашения\"],\"BTJUWP\":[\"Достигнут лимит дашбордов (10).\"],\"BTzFVC\":[\"Удалённая задача\"],\"BnmEvM\":[\"Сохранить как шаблон\"],\"BwAt3T\":[\"Клиенты не найдены.\"],\"BwJKBw\":[\"из\"],\"BwWIp2\":[\"Повтор\"],\"C79ELK\":[\"Показать горячие клавиши\"],\"CBtQ6A\":[\"Выберите дату начала. В пространстве должны быть хотя бы один статус и один тип задач.\"],\"CM081v\":[\"Напишите комментарий. Введите @, чтобы упомянуть участника.\"],\"CRsuq4\":[\"Каждые\"],\"CdPmsK\":[\"Рабочий календарь\"],\"CjVkbV\":[\"Бывший участник\"],\"CozWO1\":[\"Название рабочего пространства\"],\"CqCbnX\":[\"Файл слишком большой\"],\"D+GxfY\":[\"Изменение отменено\"],\"D+NlUC\":[\"Система\"],\"D/thhz\":[\"Удалить задачи (\",[\"count\"],\")?\"],\"D3iCkb\":[\"Дата начала\"],\"D87pha\":[\"Закрытые\"],\"D89zck\":[\"Вс\"],\"DBC3t5\":[\"воскресенье\"],\"DFjdv0\":[\"Удалить шаблон\"],\"DPfwMq\":[\"Завершено\"],\"DWJ5IQ\":[\"Шаблон еще не сохранен.\"],\"Db4W3/\":[\"Статусы\"],\"DhNqxD\":[\"Страница не найдена\"],\"DkT0ig\":[\"Шаблон будет удалён.\"],\"DmmfDE\":[\"Отключить участника\"],\"DpbTPi\":[\"Поиск задач, проектов, людей\"],\"Du+zn+\":[\"Ищем...\"],\"E/QGRL\":[\"Отключен\"],\"E0ypLG\":[\"Супер-админ потеряет доступ к админке. Аккаунт останется в системе.\"],\"E1nkD4\":[\"Фильтр клиентов\"],\"ECkIjM\":[\"Новый дашборд\"],\"ER3Vvj\":[[\"projectCount\"],\" проектов\"],\"ETIA+r\":[\"Группировать по типу\"],\"EWPtMO\":[\"Код\"],\"EbMPZJ\":[\"Без назнач.\"],\"EbZwx+\":[\"Нет воркспейсов.\"],\"EdQY6l\":[\"Нет\"],\"Ef7StM\":[\"Неизвестно\"],\"EgzBur\":[\"Поиск задач...\"],\"Eh7Dql\":[\"Великобритания\"],\"Em6MEy\":[\"Загрузка групп...\"],\"F6pfE9\":[\"Активен\"],\"F74i8b\":[\"Выберите рабочее пространство\"],\"FBIuPX\":[\"Снять выделение\"],\"FFp/Jv\":[[\"0\"],\" клиентов\"],\"FIetkb\":[\"У вас доступ только для просмотра, и вы не можете управлять участниками.\"],\"FYgCVU\":[\"Воркспейсы пользователя\"],\"FdtSNC\":[\"Создать рабочее пространство\"],\"Ff0Dor\":[\"Прошлые\"],\"G3myU+\":[\"вторник\"],\"GDvlUT\":[\"Роль\"],\"GSsifZ\":[\"В этой группе нет участников.\"],\"GfHe9f\":[\"Удалить выделенные задачи\"],\"GrxizQ\":[\"Исполнителей пока нет.\"],\"GtycJ/\":[\"Задачи\"],\"H3oH0g\":[\"Повторить\"],\"H4oSSd\":[\"Пользователь будет удалён навсегда. Это действие нельзя отменить.\"],\"H7OUPr\":[\"День\"],\"HCAqqL\":[\"Нет доступных исполнителей.\"],\"HG/edS\":[\"Открыть палитру команд\"],\"HQXknN\":[\"Праздники встроены в приложение. Перенесённые выходные добавьте ниже.\"],\"HajiZl\":[\"Месяц\"],\"Hp1l6f\":[\"Текущие\"],\"HrHQ6I\":[\"Запомнить текущую дату\"],\"HuYaAo\":[\"Количество задач\"],\"Hvnq/n\":[\"Отправить приглашение\"],\"Hz+sxK\":[\"Нет вариантов\"],\"I0we25\":[\"Нет клиента\"],\"I61bCO\":[\"Щелкните правой кнопкой, чтобы добавить первый виджет.\"],\"IHYezQ\":[\"Загрузка участников...\"],\"IO2KC3\":[\"Ссылка-приглашение создана\"],\"IT903p\":[\"Следующая неделя\"],\"Ih5jBC\":[[\"ordinal\"],\" день недели: \",[\"weekdayName\"]],\"IrI9pg\":[\"Дата окончания\"],\"ItGWKp\":[\"Открыть выделенную задачу\"],\"IyBivX\":[\"Поиск участников...\"],\"J+R6cp\":[\"Часов в день\"],\"J2ZTMa\":[\"Отслеживать\"],\"JD9x0S\":[\"Нет тегов\"],\"JPtndf\":[\"Отменить задачу?\"],\"JQUYU4\":[\"Рабочий день\"],\"JRQitQ\":[\"Подтвердите новый пароль\"],\"JUce1S\":[\"Исполнители\"],\"JXpNuP\":[\"Столбчатая диаграмма\"],\"JldzxA\":[\"По пользователю\"],\"Jrq91G\":[\"Фильтр статусов\"],\"K+xzMc\":[\"У вас доступ только для просмотра, и вы не можете редактировать это рабочее пространство.\"],\"K16/cB\":[\"Табель\"],\"KK+APf\":[\"Выберите вид\"],\"KR6sNP\":[\"Повторять по\"],\"KYHbvn\":[\"Приглашайте людей и делитесь доступом.\"],\"Knd6gz\":[\"Настройки рабочего пространства\"],\"Kt/Lzz\":[\"Линейный график\"],\"Ktrk4m\":[\"Другой пользователь только что изменил эту задачу\"],\"L8fEEm\":[\"Группа\"],\"LMAbqB\":[\"Просмотреть задачи\"],\"LQTgjH\":[\"Проект не найден.\"],\"LW1RJD\":[\"Вы не можете удалить себя.\"],\"LlVAMY\":[\"База данных будет заменена содержимым бэкапа \",[\"name\"],\".\"],\"LuXP9q\":[\"Доступ\"],\"M/TIv1\":[\"Просмотр\"],\"M5mfAe\":[\"Добавить тег\"],\"MHrjPM\":[\"Название\"],\"MN92z2\":[\"Выбрать задачу \",[\"0\"]],\"Ma4JKC\":[\"Совпадают все правила (И)\"],\"Mqy/Zy\":[\"США\"],\"N0Ub0y\":[\"Конфликт дат\"],\"N40H+G\":[\"Все\"],\"NBdIgR\":[\"Комментировать\"],\"NFz9Z0\":[\"Задача вне загруженного периода\"],\"NXtPPX\":[\"этот клиент\"],\"Nc8D27\":[\"Убрать тег\"],\"NihQNk\":[\"Клиенты\"],\"NtQvjo\":[\"Период\"],\"Nu4oKW\":[\"Описание\"],\"O3oNi5\":[\"Email\"],\"O8tK4v\":[\"Добавить правило\"],\"O95Hht\":[\"Без пресета\"],\"OCn/j9\":[\"Удалить запись времени\"],\"OUmHSD\":[\"Пока нет виджетов.\"],\"OVd/ej\":[\"Загрузка шаблона...\"],\"OYF21c\":[\"+\",[\"0\"],\" ещё этапов\"],\"OYHzN1\":[\"Теги\"],\"OYOJop\":[\"Вернуться на главную\"],\"OfhWJH\":[\"Сброс\"],\"OjdqcQ\":[\"Группа \",[\"0\"]],\"Oqk4Jq\":[\"Изменения сохранены на этом устройстве и будут отправлены, когда появится соединение.\"],\"Osuxpg\":[\"Загрузка воркспейса...\"],\"OtQ0+6\":[\"Сохранить проект как шаблон\"],\"OvoEq7\":[\"Участник\"],\"OxFMYZ\":[\"Выберите группу, чтобы увидеть участников.\"],\"OyIC0Q\":[\"Название проекта\"],\"P+8wL8\":[\"Выберите дату окончания.\"],\"PCIlOO\":[\"Добавить участника\"],\"PGetcZ\":[\"Сдвинуть\"],\"PS2QWT\":[\"Нет этапов\"],\"PYrnE8\":[\"Даты сохраняются как длительность и отсчитываются от даты начала новой задачи.\"],\"PiK6Ld\":[\"Сб\"],\"PvprFB\":[\"Назад\"],\"Q0sdUu\":[\"Все текущие данные будут потеряны.\"],\"Q2De2V\":[\"Начало → начало\"],\"Q3MPWA\":[\"Обновить пароль\"],\"Q3P/4s\":[\"Задача\"],\"Q7h9s/\":[\"Создать проект\"],\"Q8eIK/\":[\"Комментариев пока нет.\"],\"QEazml\":[\"Удалить выбранные\"],\"Qhr1KX\":[\"Включить участника\"],\"QljSVW\":[\"Вид будет удалён для всех участников пространства.\"],\"Qof3ks\":[\"Email обязателен.\"],\"QxKmbU\":[\"Найти или добавить клиента...\"],\"R0keVi\":[\"KPI\"],\"RRpjeA\":[\"Введите ненулевое число дней.\"],\"RVZJWQ\":[\"Поиск проектов...\"],\"Rb38iB\":[\"Пароль обновлён. Пожалуйста, войдите снова.\"],\"Rjn+u/\":[\"Фильтр: \",[\"0\"]],\"Rkg5R1\":[\"Удалить виджет\"],\"RuEWFx\":[\"На дату\"],\"S2Rr8h\":[\"Нет доступа\"],\"S8nGMU\":[\"нед.\"],\"SJuq4U\":[\"Финальный\"],\"SWBVB3\":[\"Введите название проекта...\"],\"SlfejT\":[\"Ошибка\"],\"Szx1tT\":[\"Ошибка аутентификации\"],\"T2hcAa\":[\"Вид по дням\"],\"T3FM0r\":[\"Настройки аккаунта\"],\"TF9cGE\":[\"Окончание → начало\"],\"TFzrLh\":[\"этот дашборд\"],\"TLX9Bn\":[\"Нет сохранённых видов\"],\"TOHIGv\":[\"Задача не найдена.\"],\"TdfEV7\":[\"Архивирован\"],\"TiJTB7\":[\"Задачи с сегодняшнего дня\"],\"TmPN06\":[\"Выходные дни недели\"],\"Tyqmz3\":[\"Новый пароль для\"],\"U0sC6H\":[\"Ежедневно\"],\"U2MUUD\":[\"Особые дни\"],\"U3pytU\":[\"Администратор\"],\"UCDKbC\":[\"Воркспейс и все его данные будут удалены без возможности восстановления.\"],\"UDI8Ls\":[\"Даты\"],\"UG8DCt\":[\"Праздник\"],\"UGLwm7\":[\"Выберите приоритет\"],\"UNMVei\":[\"Забыли пароль?\"],\"UNXPZE\":[\"Повторы удалены\"],\"URmyfc\":[\"Подробнее\"],\"VAcXNz\":[\"среда\"],\"VFv2ZC\":[\"Дата окончания\"],\"VWsqtU\":[\"Списано\"],\"VbyRUy\":[\"Комментарии\"],\"Vp09G0\":[\"Группировать по заказчикам\"],\"W+lvFC\":[\"Это навсегда удалит «\",[\"0\"],\"» и все его данные.\"],\"W2rpNA\":[\"Поиск групп...\"],\"W45LgB\":[\"Удалить проект?\"],\"WAjFYI\":[\"Дата начала\"],\"WJiwPf\":[\"По проекту\"],\"WMhcJi\":[\"Показывать без назначения\"],\"WQIXjZ\":[\"Перейти к задаче\"],\"Wa5Itd\":[\"Дата окончания ↑\"],\"WcF1uL\":[\"Название группы\"],\"WcgzjF\":[\"name@example.com\"],\"Wda7yA\":[\"Шаблон рабочего пространства\"],\"Weq9zb\":[\"Общие\"],\"Wg1YwO\":[\"Не удалось создать задачу.\"],\"WtTYSX\":[\"Типы\"],\"X2/NjG\":[\"Россия\"],\"XBr+Qj\":[\"Статусы не найдены.\"],\"XLNmUf\":[\"Название нового типа...\"],\"XTtR6a\":[\"Германия\"],\"XicmhT\":[\"Срок\"],\"XpDeOw\":[\"Загрузка комментариев...\"],\"XvjC4F\":[\"Сохранение...\"],\"XybBRC\":[\"Перейти к сегодня\"],\"Y8D/84\":[\"Редактировать проект\"],\"YDqSKm\":[\"Укажите, сколько повторов создать.\"],\"YY+68R\":[\"Палитра графика\"],\"Yah+aZ\":[\"Все исполнители\"],\"Z+6PPA\":[\"Создать задачу\"],\"Z/3wU7\":[\"Списать время\"],\"Z3FXyt\":[\"Загрузка...\"],\"Z5HWHd\":[\"Вкл.\"],\"Z67txc\":[\"Создайте или выберите дашборд, чтобы начать.\"],\"ZKRCiS\":[\"дн.\"],\"ZNQ9nq\":[\"Название Я–А\"],\"ZuduiH\":[\"2-й\"],\"Zz6Cxn\":[\"Опасная зона\"],\"aF2MfG\":[\"Редактировать виджет\"],\"aHOBr6\":[\"Нет проектов, соответствующих фильтрам.\"],\"aJlCCf\":[\"Правил пока нет.\"],\"aMIDAa\":[\"Выберите участника, чтобы увидеть детали.\"],\"aRG49z\":[\"Удалить вид\"],\"aaLte5\":[\"Дата окончания ↓\"],\"ab3wto\":[\"Все группы\"],\"aeGLaK\":[\"По статусу\"],\"agPptk\":[\"Средний\"],\"alkXJ5\":[\"Календарь\"],\"az8lvo\":[\"Выкл.\"],\"azzTar\":[\"Оценка (часы)\"],\"bHSMxn\":[\"Максимальный размер изображения — 5 МБ.\"],\"bK+j3W\":[\"Зависимостей пока нет.\"],\"bLt/0J\":[\"Процесс\"],\"bM7Rp3\":[\"Открыть для пространства\"],\"bXRxew\":[\"Команда, название или дата...\"],\"bYIuoV\":[[\"dayOfMonth\"],\"-го числа\"],\"bm8pgG\":[\"Добавить группу\"],\"byXCTu\":[\"Количество\"],\"bzSI52\":[\"Сбросить\"],\"c0acMS\":[\"Расширенные фильтры\"],\"cI2+WX\":[\"Загрузка количества задач...\"],\"cI8fS/\":[\"Задача создана\"],\"cM2Wen\":[\"Дополнительный рабочий день\"],\"cSev+j\":[\"Фильтры\"],\"cUur1T\":[\"Перетаскиваемые задачи пропускают выходные и начинаются в рабочий день.\"],\"cVcsOk\":[\"Удалить вид?\"],\"cklVjM\":[\"Таймлайн\"],\"cnGeoo\":[\"Удалить\"],\"d+F6q9\":[\"Создано\"],\"dDEDBw\":[\"Выберите задачу\"],\"dEgA5A\":[\"Отмена\"],\"dG9RXq\":[\"Вернуться к сегодняшней дате\"],\"dRWIfB\":[\"Загрузка истории...\"],\"dXDGEe\":[\"Включить без исполнителя\"],\"dlaTfR\":[\"Выберите дату.\"],\"e+kdBE\":[\"Удалить рабочее пространство?\"],\"e0NrBM\":[\"Проект\"],\"e7myb+\":[\"Тегов пока нет.\"],\"e8GyQg\":[\"Показатель\"],\"ePK91l\":[\"Редактировать\"],\"eaUTwS\":[\"Отправить ссылку\"],\"ecUA8p\":[\"Сегодня\"],\"ei7OAG\":[\"Нет проектов у этого клиента.\"],\"f9yJNM\":[\"Равно\"],\"fDGOiR\":[\"Пароли не совпадают.\"],\"fDWegJ\":[\"Группировать по тегам\"],\"fYqwBM\":[\"Сохранять число рабочих дней при переносе задач\"],\"fcWrnU\":[\"Выйти\"],\"fcttMb\":[\"Проверьте почту, чтобы подтвердить аккаунт.\"],\"fgLNSM\":[\"Регистрация\"],\"flc1WF\":[\"Группы еще не созданы.\"],\"fn12iD\":[\"Шаблон используется для всех новых рабочих пространств.\"],\"fpMgHS\":[\"Пн\"],\"fpcbQ/\":[\"Группировать по людям\"],\"fvImQM\":[[\"0\"],\" выбрано\"],\"g0CK1k\":[\"Рабочее пространство моей команды\"],\"gKi+a/\":[\"Новый проект\"],\"gNPK7I\":[\"Это удалит «\",[\"deleteCustomerLabel\"],\"». Проекты останутся, но клиент будет удален из них.\"],\"gOEoi0\":[\"Название нового клиента...\"],\"goZDZD\":[\"Удалить дашборд?\"],\"h4fqW+\":[\"Выбранные статусы\"],\"hAjDQy\":[\"Выберите статус\"],\"hFaby8\":[\"Новый клиент\"],\"hQDrYd\":[\"Выберите шаблон\"],\"hS9Gks\":[\"Группировать по группам участников\"],\"hWkQMS\":[\"Добавить задачу\"],\"hXzOVo\":[\"Далее\"],\"hYgDIe\":[\"Создать\"],\"hcwvhj\":[\"Типы задач\"],\"hq5VvQ\":[\"Везде\"],\"hty0d5\":[\"понедельник\"],\"hy+Mfg\":[\"1-й\"],\"iMG0cT\":[\"Без оценки\"],\"iTgN2s\":[\"Выполнено задач: \",[\"0\"],\"/\",[\"1\"]],\"iWf0Zj\":[\"Выберите значение\"],\"icM4hl\":[\"Выбрать все задачи\"],\"ifwNVS\":[\"Сохранить вид\"],\"ikGfT5\":[\"Удалить дашборд\"],\"immW6+\":[\"Диапазон календаря\"],\"ivfuD8\":[\"Добавить задачу в выделение\"],\"j8JRpm\":[\"А-Я\"],\"jBtpMP\":[\"Все статусы\"],\"jFggGL\":[\"Не удалось загрузить изображение\"],\"jJSIAs\":[\"Это удалит «\",[\"deleteProjectLabel\"],\"». Задачи останутся, но проект будет удален из них.\"],\"jYBjQN\":[\"Пустой проект\"],\"jZlrte\":[\"Цвет\"],\"jaIcYO\":[\"Группировать по клиенту\"],\"jd8ll3\":[\"Действие не выполнено\"],\"jjqrzI\":[\"Группы → Люди\"],\"jl/cnN\":[\"Создать \\\"\",[\"normalizedQuery\"],\"\\\"\"],\"jpctdh\":[\"Вид\"],\"k+LZc0\":[\"Новая группа\"],\"k/sb6z\":[\"Выберите язык\"],\"k1fybU\":[\"Пароль обязателен.\"],\"k7hZId\":[\"Вложенная\"],\"kSP5M3\":[\"Выберите участника, дату и затраченные часы.\"],\"kYu0eF\":[\"Удалить рабочее пространство\"],\"kd2ncf\":[\"Совпадает любое правило (ИЛИ)\"],\"kkDQ8m\":[\"четверг\"],\"kl4UPr\":[\"Скопируйте эту ссылку, если письмо не пришло:\"],\"l7Kem3\":[\"Не синхронизировано: \",[\"pendingMutations\"]],\"l96s/G\":[\"Удалить выбранные (\",[\"selectedCount\"],\")\"],\"lCF0wC\":[\"Обновить\"],\"lICawy\":[\"Выберите клиента\"],\"m+7bNi\":[\"Пароль обновлён. Сообщите его пользователю.\"],\"m0YQ/l\":[\"Месяц от текущей недели\"],\"m16xKo\":[\"Добавить\"],\"mQ4nwB\":[\"Удаление рабочего пространства необратимо. Введите его имя, чтобы включить удаление.\"],\"mSuhYn\":[\"это рабочее пространство\"],\"mYGY3B\":[\"Дата\"],\"mhiBTV\":[\"Государственные праздники\"],\"mmShHA\":[\"Предыдущая неделя\"],\"mmYVfA\":[\"Сохранено.\"],\"mvvo2w\":[\"Переименовать дашборд\"],\"mzOBy/\":[\"Вид будет удалён.\"],\"n2/NzK\":[\"Участник не найден.\"],\"nJ5/A6\":[\"Все изменения сохранены\"],\"nK1HzU\":[\"Удалить зависимость\"],\"nLtYVs\":[\"Название клиента\"],\"nTWWCZ\":[\"Низкий\"],\"njJFtc\":[\"Удалить комментарий\"],\"o52yfV\":[\"Нет проектов у этого участника.\"],\"o7e5M5\":[\"Детали задачи\"],\"oBTjaY\":[\"Выберите участника\"],\"oRqIUw\":[[\"0\"],\" этапов\"],\"oSrMRT\":[\"Мои\"],\"oTL31E\":[\"Загрузка задач...\"],\"oZKhxM\":[\"Страница \",[\"pageIndex\"],\" / \",[\"totalPages\"]],\"onE/Ut\":[\"После количества\"],\"oqevae\":[\"Изменений пока нет.\"],\"pZIqot\":[\"Редактировать имя\"],\"piHcHp\":[\"У вас нет доступа к этому воркспейсу.\"],\"plhHQt\":[\"Нет данных\"],\"pmt7u4\":[\"Рабочие пространства\"],\"q2udR3\":[\"Создать новую задачу\"],\"qAYNvm\":[\"Предыдущий / следующий период\"],\"qCLeIo\":[\"Удалить шаблон?\"],\"qaPHTc\":[\"Проверяем приглашение...\"],\"qqeAJM\":[\"Никогда\"],\"qtE5nt\":[\"Добавить пункт...\"],\"qwhTW4\":[\"Настройки фильтра\"],\"qzdS9F\":[\"Вид по кварталам\"],\"rF8SEQ\":[\"Редактировать комментарий\"],\"rtir7c\":[\"неизвестно\"],\"ry0RbG\":[\"Нет описания.\"],\"sCTlv5\":[\"Несохраненные изменения\"],\"sCvXV4\":[\"Нет задач, соответствующих фильтрам.\"],\"sZUsQi\":[\"Введите название задачи...\"],\"stsBDF\":[\"Дата начала ↓\"],\"t/YqKh\":[\"Удалить\"],\"t4wRj6\":[\"Сдвинуть на дни\"],\"tCkQlx\":[\"Последний день недели: \",[\"weekdayName\"]],\"tKlWWY\":[\"Эмодзи\"],\"tWfKc7\":[\"Добавьте описание...\"],\"tXQ9KI\":[\"Выберите тип\"],\"tZD6lH\":[\"Группировать по статусу\"],\"tfDRzk\":[\"Сохранить\"],\"tgWuMB\":[\"Изменён\"],\"toP9/B\":[\"Выберите клиента, чтобы увидеть его проекты.\"],\"u4glAf\":[\"Выбранные задачи будут удалены. Сразу после этого действие можно отменить.\"],\"u5q2CN\":[\"Выберите проект, чтобы увидеть детали.\"],\"u8+PAt\":[\"Перейти к \",[\"0\"]],\"u8JHrO\":[\"Очистить фильтры\"],\"uAQUqI\":[\"Статус\"],\"uBAxNB\":[\"Редактор\"],\"uO5PCe\":[\"Скрыть неназначенные\"],\"uUEzqZ\":[\"Вид по неделям\"],\"uwXLtD\":[\"Хотя бы один день недели должен быть рабочим.\"],\"ux170F\":[\"этот проект\"],\"v2SRl4\":[\"Календарь (месяц)\"],\"vFTb3n\":[[\"0\"],\" проектов\"],\"vLFwJP\":[\"Я-А\"],\"vP/AOl\":[\"Нет отключенных участников.\"],\"vRAxcb\":[\"Загрузка пользователей...\"],\"vXIe7J\":[\"Язык\"],\"vam7Jz\":[\"Новый виджет\"],\"vhzgFU\":[\"Применён фильтр\"],\"vop1s3\":[\"Удалить пункт\"],\"vq2WxD\":[\"Вт\"],\"vs6MsH\":[\"Веха удалена\"],\"vv7PeG\":[\"Загрузка воркспейсов...\"],\"vv7kpg\":[\"Отменен\"],\"w6+Ivx\":[\"Клиент:\"],\"w6iIMm\":[\"Дашборды\"],\"wJAhPZ\":[\"Название (необязательно)\"],\"wRR604\":[\"Страницы\"],\"wRVdmx\":[\"Мы отправили ссылку для сброса пароля на вашу почту.\"],\"wTG79B\":[\"Задачи и вехи сохраняются со смещением в днях от начала проекта. Исполнители становятся ролями, которые назначаются при создании проекта.\"],\"wW08QA\":[\"Не равно\"],\"wlQNTg\":[\"Участники\"],\"wtxjAY\":[\"Участники рабочего пространства\"],\"wubeCO\":[\"Участники и роли\"],\"x/6eQ0\":[\"Окончание\"],\"x754jJ\":[\"Применить сохраненный шаблон к этому рабочему пространству (добавит отсутствующие элементы по имени).\"],\"x7c5EG\":[\"Название А–Я\"],\"xCJdfg\":[\"Очистить\"],\"xHe/7h\":[\"Зависимости\"],\"xIvJiR\":[\"На этой неделе время не списано.\"],\"xVhQZV\":[\"Пт\"],\"xnWESi\":[\"Подтвердите пароль\"],\"xqZQ1B\":[\"Использовать текущее пространство\"],\"y4l/qI\":[\"Списанные часы\"],\"yByRxz\":[\"Эта неделя\"],\"yH5z+9\":[\"Войдите или создайте аккаунт, чтобы продолжить.\"],\"yISXE9\":[\"Вид этапов\"],\"yKu/3Y\":[\"Восстановить\"],\"yY8wAv\":[\"Часы\"],\"ybwQma\":[\"Не удалось применить шаблон.\"],\"yhmpF8\":[\"Финальный статус\"],\"ymnvxu\":[\"мес.\"],\"yx/fMc\":[\"Высокий\"],\"yz7wBu\":[\"Закрыть\"],\"yzF66j\":[\"Связать\"],\"z0t9bb\":[\"Вход\"],\"zG6Ooi\":[\"Все проекты\"],\"zK9qfk\":[\"Шаблон сохранен.\"],\"zb+aRg\":[\"Задача удалена\"],\"zb+qUh\":[\"Переименовать клиента\"],\"zhrjek\":[\"Группы\"],\"ziAjHi\":[\"Сгенерировать\"],\"zkWmBh\":[\"Ежегодно\"],\"zm+TUi\":[\"Введите название клиента...\"],\"zx4BuL\":[\"Неделя\"]}");
\ No newline at end of file
@@ -0,0 +1,15 @@
+export const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  return Boolean(target.closest('input, textarea, select, [contenteditable="true"]'));
+};
+
+/** Single-key shortcuts stay off while typing, inside dialogs and menus, and when a modifier is held. */
+export const isPlainShortcutEvent = (event: KeyboardEvent) => {
+  if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return false;
+  if (isEditableTarget(event.target)) return false;
+  if (event.target instanceof Element && event.target.closest('[role="dialog"], [role="alertdialog"], [role="menu"], [role="listbox"]')) {
+    return false;
+  }
+  return true;
+};
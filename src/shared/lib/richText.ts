@@ -0,0 +1,35 @@
+import DOMPurify from 'dompurify';
+
+export const hasRichTags = (value: string) => (
+  /<\/?(b|strong|i|em|u|s|strike|ul|ol|li|blockquote|br|div|p|span|img)\b/i.test(value)
+);
+
+/**
+ * Sanitizes HTML produced by the rich-text editor before it is rendered or saved.
+ * `data-*` attributes are kept, so mentions (`data-mention-id`) survive.
+ */
+export const sanitizeRichText = (value: string) => {
+  if (typeof window === 'undefined') return value;
+  return DOMPurify.sanitize(value, {
+    ALLOWED_TAGS: [
+      'b',
+      'strong',
+      'i',
+      'em',
+      'u',
+      's',
+      'strike',
+      'ul',
+      'ol',
+      'li',
+      'blockquote',
+      'br',
+      'div',
+      'p',
+      'span',
+      'img',
+    ],
+    ALLOWED_ATTR: ['src', 'alt', 'style', 'width', 'height'],
+    ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto|data:image\/)|[^a-z]|[a-z+.-]+(?:[^a-z+.-:]|$))/i,
+  });
+};
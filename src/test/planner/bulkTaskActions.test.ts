@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { isWeekend } from 'date-fns';
+import { buildBulkTaskChanges } from '@/features/planner/lib/bulkTaskActions';
+import { Task } from '@/features/planner/types/planner';
+
+const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  projectId: null,
+  assigneeIds: ['a1'],
+  startDate: '2024-03-07',
+  endDate: '2024-03-08',
+  statusId: 'status-1',
+  typeId: 'type-1',
+  priority: null,
+  tagIds: [],
+  description: null,
+  repeatId: null,
+  estimateHours: null,
+  milestoneId: null,
+  ...overrides,
+});
+
+describe('bulkTaskActions', () => {
+  it('skips tasks the action does not change', () => {
+    const tasks = [
+      createTask('t1'),
+      createTask('t2', { statusId: 'status-2', tagIds: ['tag-1'] }),
+    ];
+
+    expect(buildBulkTaskChanges(tasks, { type: 'status', statusId: 'status-2' })).toEqual([
+      { id: 't1', updates: { statusId: 'status-2' } },
+    ]);
+    expect(buildBulkTaskChanges(tasks, { type: 'addTag', tagId: 'tag-1' })).toEqual([
+      { id: 't1', updates: { tagIds: ['tag-1'] } },
+    ]);
+    expect(buildBulkTaskChanges(tasks, { type: 'removeTag', tagId: 'tag-1' })).toEqual([
+      { id: 't2', updates: { tagIds: [] } },
+    ]);
+    expect(buildBulkTaskChanges(tasks, { type: 'assign', assigneeId: 'a1' })).toEqual([]);
+    expect(buildBulkTaskChanges(tasks, { type: 'assign', assigneeId: null })).toHaveLength(2);
+  });
+
+  it('shifts dates by calendar or working days', () => {
+    const tasks = [createTask('t1')];
+
+    expect(buildBulkTaskChanges(tasks, { type: 'shift', days: 2 })).toEqual([
+      { id: 't1', updates: { startDate: '2024-03-09', endDate: '2024-03-10' } },
+    ]);
+    expect(buildBulkTaskChanges(tasks, {
+      type: 'shift',
+      days: 2,
+      isWorkingDay: (date) => !isWeekend(date),
+    })).toEqual([
+      { id: 't1', updates: { startDate: '2024-03-11', endDate: '2024-03-12' } },
+    ]);
+  });
+});
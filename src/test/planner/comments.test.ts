@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { getMentionIds } from '@/features/planner/lib/comments';
+import { sanitizeRichText } from '@/shared/lib/richText';
+
+describe('comment mentions', () => {
+  it('keeps mentions of workspace members once', () => {
+    const body = [
+      '<p>Hi <span data-mention-id="user-1">@Anna</span>',
+      ' and <span data-mention-id="user-1">@Anna</span>',
+      ' and <span data-mention-id="user-9">@Gone</span></p>',
+    ].join('');
+    expect(getMentionIds(body, ['user-1', 'user-2'])).toEqual(['user-1']);
+  });
+
+  it('survives sanitizing while scripts do not', () => {
+    const html = sanitizeRichText(
+      '<span data-mention-id="user-1" onclick="alert(1)">@Anna</span><script>alert(1)</script>',
+    );
+    expect(html).toBe('<span data-mention-id="user-1">@Anna</span>');
+    expect(getMentionIds(html, ['user-1'])).toEqual(['user-1']);
+  });
+});
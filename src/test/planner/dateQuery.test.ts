@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { parseDateQuery } from '@/features/command/lib/dateQuery';
+
+const reference = new Date(2024, 2, 7);
+
+describe('dateQuery', () => {
+  it('reads ISO and dotted dates', () => {
+    expect(parseDateQuery('2024-05-01', reference)).toBe('2024-05-01');
+    expect(parseDateQuery('01.05.2024', reference)).toBe('2024-05-01');
+    expect(parseDateQuery('1.5', reference)).toBe('2024-05-01');
+  });
+
+  it('ignores text and impossible dates', () => {
+    expect(parseDateQuery('launch', reference)).toBeNull();
+    expect(parseDateQuery('31.02.2024', reference)).toBeNull();
+    expect(parseDateQuery('12', reference)).toBeNull();
+  });
+});
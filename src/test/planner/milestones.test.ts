@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getMilestoneProgress, getMilestoneProgressById } from '@/features/planner/lib/milestones';
+import { Milestone, Status, Task } from '@/features/planner/types/planner';
+
+const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  projectId: 'p1',
+  assigneeIds: [],
+  startDate: '2024-03-04',
+  endDate: '2024-03-08',
+  statusId: 'todo',
+  typeId: 'type-1',
+  priority: null,
+  tagIds: [],
+  description: null,
+  repeatId: null,
+  estimateHours: null,
+  milestoneId: 'm1',
+  ...overrides,
+});
+
+const statuses: Status[] = [
+  { id: 'todo', name: 'To do', emoji: null, color: '#94A3B8', isFinal: false, isCancelled: false },
+  { id: 'done', name: 'Done', emoji: null, color: '#22C55E', isFinal: true, isCancelled: false },
+  { id: 'cancelled', name: 'Cancelled', emoji: null, color: '#64748B', isFinal: false, isCancelled: true },
+];
+
+const milestone: Milestone = { id: 'm1', title: 'Release', projectId: 'p1', date: '2024-03-10' };
+
+describe('milestones', () => {
+  it('counts final linked tasks and leaves out cancelled and unlinked ones', () => {
+    const progress = getMilestoneProgress(milestone, [
+      createTask('a', { statusId: 'done' }),
+      createTask('b'),
+      createTask('c', { statusId: 'cancelled', endDate: '2024-03-20' }),
+      createTask('d', { milestoneId: null, endDate: '2024-03-20' }),
+    ], statuses);
+
+    expect(progress).toEqual({ done: 1, total: 2, lateTaskIds: [], atRisk: false });
+  });
+
+  it('flags a milestone when a non-final linked task ends after its date', () => {
+    const progressById = getMilestoneProgressById(
+      [milestone, { id: 'm2', title: 'Beta', projectId: 'p1', date: '2024-03-01' }],
+      [
+        createTask('late', { endDate: '2024-03-11' }),
+        createTask('finished-late', { endDate: '2024-03-12', statusId: 'done' }),
+        createTask('on-date', { endDate: '2024-03-10' }),
+      ],
+      statuses,
+    );
+
+    expect(progressById.get('m1')).toEqual({ done: 1, total: 3, lateTaskIds: ['late'], atRisk: true });
+    expect(progressById.get('m2')).toEqual({ done: 0, total: 0, lateTaskIds: [], atRisk: false });
+  });
+});
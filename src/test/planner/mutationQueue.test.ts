@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countQueuedMutations,
+  enqueueMutation,
+  isRetryableFailure,
+  readQueuedMutations,
+  removeQueuedMutation,
+} from '@/features/planner/lib/mutationQueue';
+
+describe('mutation queue', () => {
+  it('replays mutations in the order they were queued', async () => {
+    await enqueueMutation({ workspaceId: 'ws-1', table: 'tasks', operation: 'insert', payload: { id: 'a' }, createdAt: 1 });
+    await enqueueMutation({
+      workspaceId: 'ws-1',
+      table: 'tasks',
+      operation: 'update',
+      payload: { title: 'Renamed' },
+      match: [{ column: 'id', op: 'eq', value: 'a' }],
+      createdAt: 2,
+    });
+
+    const queued = await readQueuedMutations();
+    expect(queued.map((item) => item.operation)).toEqual(['insert', 'update']);
+
+    await removeQueuedMutation(queued[0].id!);
+    expect(await countQueuedMutations()).toBe(1);
+    await removeQueuedMutation(queued[1].id!);
+    expect(await countQueuedMutations()).toBe(0);
+  });
+
+  it('retries network failures but not server rejections', () => {
+    expect(isRetryableFailure(0, 'TypeError: Failed to fetch')).toBe(true);
+    expect(isRetryableFailure(502, 'Bad Gateway')).toBe(true);
+    expect(isRetryableFailure(403, 'new row violates row-level security policy for table "tasks"')).toBe(false);
+  });
+});
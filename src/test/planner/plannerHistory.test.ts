@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HISTORY_COALESCE_MS,
+  createHistoryEntry,
+  getHistoryTargets,
+  mergeHistoryEntries,
+  pushHistoryEntry,
+} from '@/features/planner/lib/plannerHistory';
+import type { Task, TaskSeries } from '@/features/planner/types/planner';
+
+const baseTask: Task = {
+  id: 'task-1',
+  title: 'Draft',
+  projectId: null,
+  assigneeIds: [],
+  startDate: '2026-03-02',
+  endDate: '2026-03-03',
+  statusId: 'status-1',
+  typeId: 'type-1',
+  priority: null,
+  tagIds: [],
+  description: null,
+  repeatId: null,
+  estimateHours: null,
+  milestoneId: null,
+};
+
+describe('planner history', () => {
+  it('merges rapid edits of the same task into one step', () => {
+    const first = createHistoryEntry('updateTasks', {
+      tasks: [{ id: 'task-1', before: baseTask, after: { ...baseTask, title: 'Dr' } }],
+    });
+    const second = {
+      ...createHistoryEntry('updateTasks', {
+        tasks: [{ id: 'task-1', before: { ...baseTask, title: 'Dr' }, after: { ...baseTask, title: 'Draft 2' } }],
+      }),
+      createdAt: first.createdAt + HISTORY_COALESCE_MS - 1,
+    };
+
+    const stack = pushHistoryEntry(pushHistoryEntry([], first), second);
+
+    expect(stack).toHaveLength(1);
+    expect(stack[0].tasks[0].before?.title).toBe('Draft');
+    expect(stack[0].tasks[0].after?.title).toBe('Draft 2');
+  });
+
+  it('keeps separate steps once the coalesce window has passed', () => {
+    const first = createHistoryEntry('updateTasks', {
+      tasks: [{ id: 'task-1', before: baseTask, after: { ...baseTask, title: 'A' } }],
+    });
+    const second = {
+      ...createHistoryEntry('updateTasks', {
+        tasks: [{ id: 'task-1', before: { ...baseTask, title: 'A' }, after: { ...baseTask, title: 'B' } }],
+      }),
+      createdAt: first.createdAt + HISTORY_COALESCE_MS + 1,
+    };
+
+    expect(pushHistoryEntry(pushHistoryEntry([], first), second)).toHaveLength(2);
+  });
+
+  it('restores deleted tasks together with their links on undo', () => {
+    const dependency = { id: 'dep-1', predecessorId: 'task-1', successorId: 'task-2', type: 'finish_to_start' as const };
+    const entry = createHistoryEntry('deleteTasks', {
+      tasks: [{ id: 'task-1', before: baseTask, after: null }],
+      dependencies: [dependency],
+    });
+
+    expect(getHistoryTargets(entry, 'before')).toEqual({
+      upsertTasks: [baseTask],
+      deleteTaskIds: [],
+      upsertMilestones: [],
+      deleteMilestoneIds: [],
+      restoreDependencies: [dependency],
+      restoreChecklistItems: [],
+      restoreMilestoneLinks: [],
+      upsertTaskSeries: [],
+      deleteTaskSeriesIds: [],
+      addExdates: [],
+      removeExdates: [],
+    });
+    expect(getHistoryTargets(entry, 'after')).toMatchObject({
+      upsertTasks: [],
+      deleteTaskIds: ['task-1'],
+      restoreDependencies: [],
+    });
+  });
+
+  it('brings back task links of a deleted milestone only when the milestone is recreated', () => {
+    const milestone = { id: 'm-1', title: 'Release', projectId: 'p-1', date: '2026-03-10' };
+    const entry = createHistoryEntry('deleteMilestone', {
+      milestones: [{ id: 'm-1', before: milestone, after: null }],
+      milestoneLinks: [{ milestoneId: 'm-1', taskIds: ['task-1'] }],
+    });
+
+    expect(getHistoryTargets(entry, 'before')).toMatchObject({
+      upsertMilestones: [milestone],
+      restoreMilestoneLinks: [{ milestoneId: 'm-1', taskIds: ['task-1'] }],
+    });
+    expect(getHistoryTargets(entry, 'after')).toMatchObject({
+      deleteMilestoneIds: ['m-1'],
+      restoreMilestoneLinks: [],
+    });
+  });
+
+  it('gives deleted repeats back to their series on undo', () => {
+    const entry = createHistoryEntry('deleteTasks', {
+      exdates: [{ seriesId: 'series-1', dates: ['2026-03-09'] }],
+    });
+
+    expect(getHistoryTargets(entry, 'before')).toMatchObject({
+      addExdates: [],
+      removeExdates: [{ seriesId: 'series-1', dates: ['2026-03-09'] }],
+    });
+    expect(getHistoryTargets(entry, 'after')).toMatchObject({
+      addExdates: [{ seriesId: 'series-1', dates: ['2026-03-09'] }],
+      removeExdates: [],
+    });
+  });
+
+  it('undoes a series edit together with the tasks it changed', () => {
+    const series: TaskSeries = {
+      id: 'series-1',
+      rrule: 'FREQ=WEEKLY',
+      startDate: '2026-03-02',
+      durationDays: 1,
+      exdates: [],
+      template: {
+        title: baseTask.title,
+        projectId: null,
+        assigneeIds: [],
+        statusId: 'status-1',
+        typeId: 'type-1',
+        priority: null,
+        tagIds: [],
+        description: null,
+        estimateHours: null,
+      },
+    };
+    const tail: TaskSeries = { ...series, id: 'series-2', startDate: '2026-03-16' };
+    const taskStep = createHistoryEntry('updateTasks', {
+      tasks: [{ id: 'task-1', before: baseTask, after: { ...baseTask, repeatId: 'series-2' } }],
+    });
+    const seriesStep = createHistoryEntry('updateTaskSeries', {
+      taskSeries: [
+        { id: 'series-1', before: series, after: null },
+        { id: 'series-2', before: null, after: tail },
+      ],
+      exdates: [{ seriesId: 'series-1', dates: ['2026-03-16'] }],
+    });
+
+    const merged = mergeHistoryEntries(taskStep, seriesStep);
+
+    expect(merged.kind).toBe('updateTaskSeries');
+    expect(getHistoryTargets(merged, 'before')).toMatchObject({
+      upsertTasks: [baseTask],
+      upsertTaskSeries: [series],
+      deleteTaskSeriesIds: ['series-2'],
+      removeExdates: [{ seriesId: 'series-1', dates: ['2026-03-16'] }],
+    });
+    // The original series is gone after the edit, so there is nothing to add dates to.
+    expect(getHistoryTargets(merged, 'after')).toMatchObject({
+      upsertTaskSeries: [tail],
+      deleteTaskSeriesIds: ['series-1'],
+      addExdates: [],
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { buildPlannerSearchParams, parsePlannerSearchParams } from '@/features/planner/lib/plannerUrl';
+import { normalizeFilters } from '@/features/planner/lib/plannerViews';
+
+describe('plannerUrl', () => {
+  it('round-trips planner state through search params', () => {
+    const state = {
+      viewMode: 'week' as const,
+      groupMode: 'project' as const,
+      currentDate: '2024-03-03',
+      filters: normalizeFilters({ projectIds: ['p1', 'p2'], tagIds: ['t1'], hideUnassigned: true }),
+      selectedTaskId: 'task-1',
+    };
+    const params = buildPlannerSearchParams(state);
+    expect(params.get('projects')).toBe('p1,p2');
+    expect(parsePlannerSearchParams(new URLSearchParams(params.toString()))).toEqual(state);
+  });
+
+  it('ignores unrelated or invalid params', () => {
+    expect(parsePlannerSearchParams(new URLSearchParams('utm_source=chat'))).toBeNull();
+    const parsed = parsePlannerSearchParams(new URLSearchParams('view=year&date=2024-02-31&group=project'));
+    expect(parsed?.viewMode).toBeUndefined();
+    expect(parsed?.currentDate).toBeUndefined();
+    expect(parsed?.groupMode).toBe('project');
+    expect(parsed?.filters?.projectIds).toEqual([]);
+  });
+});
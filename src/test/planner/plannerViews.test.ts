@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { isViewModified, normalizeFilters } from '@/features/planner/lib/plannerViews';
+import type { PlannerView } from '@/features/planner/types/planner';
+
+const view: PlannerView = {
+  id: 'view-1',
+  ownerId: 'user-1',
+  name: 'Design team',
+  filters: normalizeFilters({ projectIds: ['p1', 'p2'], tagIds: ['t1'] }),
+  viewMode: 'week',
+  groupMode: 'project',
+  anchorDate: '2024-03-04',
+  isShared: true,
+};
+
+describe('plannerViews', () => {
+  it('normalizes stored filters', () => {
+    expect(normalizeFilters({ projectIds: ['p1', 3], hideUnassigned: 'yes', extra: true })).toEqual({
+      projectIds: ['p1'],
+      assigneeIds: [],
+      groupIds: [],
+      statusIds: [],
+      typeIds: [],
+      tagIds: [],
+      hideUnassigned: false,
+    });
+    expect(normalizeFilters(null).projectIds).toEqual([]);
+  });
+
+  it('detects drift from a saved view', () => {
+    const current = {
+      filters: normalizeFilters({ projectIds: ['p2', 'p1'], tagIds: ['t1'] }),
+      viewMode: 'week' as const,
+      groupMode: 'project' as const,
+    };
+    expect(isViewModified(view, current)).toBe(false);
+    expect(isViewModified(view, { ...current, groupMode: 'assignee' })).toBe(true);
+    expect(isViewModified(view, {
+      ...current,
+      filters: { ...current.filters, statusIds: ['s1'] },
+    })).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildProjectPlan,
+  buildProjectTemplatePlan,
+  getDefaultRoleAssignees,
+  getProjectTemplateRoles,
+  normalizeProjectTemplatePlan,
+} from '@/features/planner/lib/projectTemplates';
+import { Assignee, Task } from '@/features/planner/types/planner';
+
+const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  projectId: 'p1',
+  assigneeIds: [],
+  startDate: '2024-03-04',
+  endDate: '2024-03-04',
+  statusId: 'status-2',
+  typeId: 'type-1',
+  priority: null,
+  tagIds: [],
+  description: null,
+  repeatId: null,
+  estimateHours: null,
+  milestoneId: null,
+  ...overrides,
+});
+
+const assignees: Assignee[] = [
+  { id: 'a1', name: 'Anna', isActive: true, capacityHours: 8 },
+  { id: 'a2', name: 'Boris', isActive: false, capacityHours: 8 },
+];
+
+describe('projectTemplates', () => {
+  it('saves a project as offsets from its first date with assignees as roles', () => {
+    const plan = buildProjectTemplatePlan(
+      [
+        createTask('review', { startDate: '2024-03-08', endDate: '2024-03-11', assigneeIds: ['a1', 'a2'] }),
+        createTask('kickoff', { assigneeIds: ['a1'] }),
+      ],
+      [{ id: 'm1', title: 'Launch', projectId: 'p1', date: '2024-03-15' }],
+      assignees,
+    );
+
+    expect(plan.tasks.map((task) => [task.title, task.offsetDays, task.durationDays, task.roles])).toEqual([
+      ['kickoff', 0, 0, ['Anna']],
+      ['review', 4, 3, ['Anna', 'Boris']],
+    ]);
+    expect(plan.milestones).toEqual([{ title: 'Launch', offsetDays: 11 }]);
+    expect(getProjectTemplateRoles(plan)).toEqual(['Anna', 'Boris']);
+    expect(getDefaultRoleAssignees(['Anna', 'Boris', 'QA'], assignees)).toEqual({ Anna: 'a1', Boris: null, QA: null });
+  });
+
+  it('builds the plan from a start date and the role mapping', () => {
+    const template = normalizeProjectTemplatePlan(
+      [
+        { title: 'Design', offsetDays: 2, durationDays: 1, typeId: 'removed-type', roles: ['Designer', 'PM'] },
+        { title: '', offsetDays: 0 },
+        'broken',
+      ],
+      [{ title: 'Review', offsetDays: 5 }],
+    );
+    const plan = buildProjectPlan(
+      template,
+      '2024-12-30',
+      { Designer: 'a1', PM: null },
+      { statusId: 'status-1', typeIds: ['type-1'] },
+    );
+
+    expect(plan.tasks).toHaveLength(1);
+    expect(plan.tasks[0]).toMatchObject({
+      title: 'Design',
+      startDate: '2025-01-01',
+      endDate: '2025-01-02',
+      statusId: 'status-1',
+      typeId: 'type-1',
+      assigneeIds: ['a1'],
+    });
+    expect(plan.milestones).toEqual([{ title: 'Review', date: '2025-01-04' }]);
+  });
+});
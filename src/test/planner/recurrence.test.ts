@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyTaskSeriesEdit,
+  buildRecurrenceRule,
+  createRecurrenceDraft,
+  expandRecurrence,
+  expandTaskSeries,
+  formatRRule,
+  getOccurrenceId,
+  getTaskSeriesEdit,
+  parseOccurrenceId,
+  parseRRule,
+  shiftTaskDates,
+  splitTaskSeries,
+} from '@/features/planner/lib/recurrence';
+import { TaskSeries } from '@/features/planner/types/planner';
+
+const createSeries = (rrule: string, overrides: Partial<TaskSeries> = {}): TaskSeries => ({
+  id: 'series-1',
+  rrule,
+  startDate: '2024-03-04',
+  durationDays: 1,
+  exdates: [],
+  template: {
+    title: 'Standup',
+    projectId: null,
+    assigneeIds: ['a1'],
+    statusId: 'status-1',
+    typeId: 'type-1',
+    priority: null,
+    tagIds: [],
+    description: null,
+    estimateHours: null,
+  },
+  ...overrides,
+});
+
+describe('recurrence', () => {
+  it('parses and formats the supported RRULE subset', () => {
+    const rule = parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,MO;UNTIL=20240630T000000Z');
+
+    expect(rule).toMatchObject({ frequency: 'weekly', interval: 2, byWeekday: ['MO', 'TU'], until: '2024-06-30' });
+    expect(formatRRule(rule!)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TU;UNTIL=20240630');
+    expect(formatRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3')!)).toBe('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3');
+    expect(parseRRule('FREQ=HOURLY')).toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;BYSETPOS=2')).toBeNull();
+    expect(parseRRule('FREQ=DAILY;COUNT=2;UNTIL=20240101')).toBeNull();
+  });
+
+  it('expands every second Tuesday and weekdays only', () => {
+    const everyOtherTuesday = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU')!;
+    expect(expandRecurrence(everyOtherTuesday, '2024-03-04', '2024-03-01', '2024-04-10'))
+      .toEqual(['2024-03-05', '2024-03-19', '2024-04-02']);
+
+    const weekdays = parseRRule('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR')!;
+    expect(expandRecurrence(weekdays, '2024-03-07', '2024-03-07', '2024-03-12'))
+      .toEqual(['2024-03-07', '2024-03-08', '2024-03-11', '2024-03-12']);
+  });
+
+  it('expands monthly rules and skips missing days', () => {
+    const lastFriday = parseRRule('FREQ=MONTHLY;BYDAY=-1FR')!;
+    expect(expandRecurrence(lastFriday, '2024-01-01', '2024-01-01', '2024-03-31'))
+      .toEqual(['2024-01-26', '2024-02-23', '2024-03-29']);
+
+    const onThe31st = parseRRule('FREQ=MONTHLY')!;
+    expect(expandRecurrence(onThe31st, '2024-01-31', '2024-01-01', '2024-05-31'))
+      .toEqual(['2024-01-31', '2024-03-31', '2024-05-31']);
+  });
+
+  it('counts COUNT from the start even when the window starts later', () => {
+    const rule = parseRRule('FREQ=DAILY;COUNT=5')!;
+
+    expect(expandRecurrence(rule, '2024-03-01', '2024-03-04', '2024-03-31')).toEqual(['2024-03-04', '2024-03-05']);
+    expect(expandRecurrence(parseRRule('FREQ=DAILY;UNTIL=20240303')!, '2024-03-01', '2024-02-01', '2024-03-31'))
+      .toEqual(['2024-03-01', '2024-03-02', '2024-03-03']);
+  });
+
+  it('builds occurrences without exdates, including ones that start before the window', () => {
+    const series = createSeries('FREQ=WEEKLY', { exdates: ['2024-03-11'] });
+    const tasks = expandTaskSeries(series, '2024-03-05', '2024-03-20');
+
+    expect(tasks.map((task) => [task.startDate, task.endDate])).toEqual([
+      ['2024-03-04', '2024-03-05'],
+      ['2024-03-18', '2024-03-19'],
+    ]);
+    expect(tasks[0]).toMatchObject({ id: getOccurrenceId('series-1', '2024-03-04'), repeatId: 'series-1' });
+    expect(parseOccurrenceId(tasks[0].id)).toEqual({ seriesId: 'series-1', date: '2024-03-04' });
+  });
+
+  it('splits a series so the tail keeps the remaining occurrences', () => {
+    const series = createSeries('FREQ=WEEKLY;COUNT=5', { exdates: ['2024-03-11', '2024-03-25'] });
+    const { head, tail } = splitTaskSeries(series, '2024-03-18', 'series-2');
+
+    expect(head).toMatchObject({ rrule: 'FREQ=WEEKLY;COUNT=2', exdates: ['2024-03-11'] });
+    expect(tail).toMatchObject({
+      id: 'series-2',
+      rrule: 'FREQ=WEEKLY;COUNT=3',
+      startDate: '2024-03-18',
+      exdates: ['2024-03-25'],
+    });
+    expect(splitTaskSeries(createSeries('FREQ=DAILY'), '2024-03-04', 'series-2').head).toBeNull();
+  });
+
+  it('carries field changes and date shifts over to the series', () => {
+    const series = createSeries('FREQ=WEEKLY;BYDAY=MO,SU;UNTIL=20240331', { exdates: ['2024-03-11'] });
+    const occurrence = expandTaskSeries(series, '2024-03-04', '2024-03-04')[0];
+    const edit = getTaskSeriesEdit(occurrence, {
+      ...occurrence,
+      title: 'Planning',
+      startDate: '2024-03-05',
+      endDate: '2024-03-07',
+    });
+
+    expect(edit).toEqual({ updates: { title: 'Planning' }, startShift: 1, endShift: 2 });
+    expect(applyTaskSeriesEdit(series, edit)).toMatchObject({
+      rrule: 'FREQ=WEEKLY;BYDAY=MO,TU;UNTIL=20240401',
+      startDate: '2024-03-05',
+      durationDays: 2,
+      exdates: ['2024-03-12'],
+      template: { title: 'Planning' },
+    });
+    expect(shiftTaskDates({ startDate: '2024-03-11', endDate: '2024-03-11' }, { ...edit, endShift: -1 }))
+      .toEqual({ startDate: '2024-03-12', endDate: '2024-03-12' });
+  });
+
+  it('turns the repeat form into a rule', () => {
+    const draft = { ...createRecurrenceDraft('2024-03-12'), frequency: 'monthly' as const, monthlyMode: 'weekday' as const };
+
+    expect(formatRRule(buildRecurrenceRule(draft, '2024-03-12')!)).toBe('FREQ=MONTHLY;BYDAY=2TU');
+    expect(buildRecurrenceRule(createRecurrenceDraft('2024-03-12'), '2024-03-12')).toBeNull();
+    expect(createRecurrenceDraft('2024-03-12', parseRRule('FREQ=DAILY;COUNT=3'))).toMatchObject({
+      frequency: 'daily',
+      byWeekday: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'],
+      ends: 'after',
+      count: 3,
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { applyRowOrder, getRowOrderMode, moveRowId } from '@/features/planner/lib/rowOrder';
+
+const rows = ['anna', 'boris', 'clara', 'dmitry'].map((id) => ({ id }));
+
+describe('rowOrder', () => {
+  it('puts pinned rows first, then the manual order, then unknown rows', () => {
+    const ordered = applyRowOrder(rows, {
+      groupMode: 'assignee',
+      rowIds: ['clara', 'anna'],
+      pinnedIds: ['dmitry'],
+    });
+
+    expect(ordered.map((row) => row.id)).toEqual(['dmitry', 'clara', 'anna', 'boris']);
+    expect(applyRowOrder(rows, null)).toBe(rows);
+  });
+
+  it('moves a row to the position of the drop target', () => {
+    expect(moveRowId(['a', 'b', 'c', 'd'], 'a', 'c')).toEqual(['b', 'c', 'a', 'd']);
+    expect(moveRowId(['a', 'b', 'c', 'd'], 'd', 'b')).toEqual(['a', 'd', 'b', 'c']);
+    expect(moveRowId(['a', 'b'], 'x', 'b')).toEqual(['a', 'b']);
+  });
+
+  it('shares the order between flat and nested group modes', () => {
+    expect(getRowOrderMode('group_assignee')).toBe('assignee');
+    expect(getRowOrderMode('customer_project')).toBe('project');
+    expect(getRowOrderMode('status')).toBeNull();
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { getActivityDates, getListChanges } from '@/features/planner/lib/taskActivity';
+
+describe('task activity', () => {
+  it('splits list changes into added and removed ids', () => {
+    expect(getListChanges(['a', 'b'], ['b', 'c'])).toEqual({ added: ['c'], removed: ['a'] });
+    expect(getListChanges(null, ['a'])).toEqual({ added: ['a'], removed: [] });
+  });
+
+  it('reads date payloads written by the trigger', () => {
+    expect(getActivityDates({ start: '2024-03-01', end: '2024-03-05' })).toEqual({
+      start: '2024-03-01',
+      end: '2024-03-05',
+    });
+    expect(getActivityDates('2024-03-01')).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getDependentShifts, wouldCreateDependencyCycle } from '@/features/planner/lib/taskDependencies';
+import type { TaskDependency } from '@/features/planner/types/planner';
+
+const tasks = [
+  { id: 'a', startDate: '2026-03-02', endDate: '2026-03-04' },
+  { id: 'b', startDate: '2026-03-05', endDate: '2026-03-06' },
+  { id: 'c', startDate: '2026-03-09', endDate: '2026-03-09' },
+];
+
+const dependencies: TaskDependency[] = [
+  { id: 'ab', predecessorId: 'a', successorId: 'b', type: 'finish_to_start' },
+  { id: 'bc', predecessorId: 'b', successorId: 'c', type: 'finish_to_start' },
+];
+
+describe('task dependencies', () => {
+  it('returns no shifts when the successor still starts after the predecessor', () => {
+    expect(getDependentShifts(tasks, dependencies, { id: 'a', startDate: '2026-03-01', endDate: '2026-03-03' })).toEqual([]);
+  });
+
+  it('shifts the whole finish-to-start chain and keeps durations', () => {
+    const shifts = getDependentShifts(tasks, dependencies, { id: 'a', startDate: '2026-03-04', endDate: '2026-03-08' });
+
+    expect(shifts).toEqual([
+      { id: 'b', startDate: '2026-03-09', endDate: '2026-03-10' },
+      { id: 'c', startDate: '2026-03-11', endDate: '2026-03-11' },
+    ]);
+  });
+
+  it('aligns start-to-start successors with the predecessor start', () => {
+    const shifts = getDependentShifts(
+      tasks,
+      [{ id: 'ab', predecessorId: 'a', successorId: 'b', type: 'start_to_start' }],
+      { id: 'a', startDate: '2026-03-07', endDate: '2026-03-09' },
+    );
+
+    expect(shifts).toEqual([{ id: 'b', startDate: '2026-03-07', endDate: '2026-03-08' }]);
+  });
+
+  it('detects dependency loops', () => {
+    expect(wouldCreateDependencyCycle(dependencies, 'c', 'a')).toBe(true);
+    expect(wouldCreateDependencyCycle(dependencies, 'a', 'c')).toBe(false);
+    expect(wouldCreateDependencyCycle(dependencies, 'a', 'a')).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getTaskTemplateFields, getTemplateEndDate } from '@/features/planner/lib/taskTemplates';
+import { Task } from '@/features/planner/types/planner';
+
+const task: Task = {
+  id: 'task-1',
+  title: 'Release checklist',
+  projectId: 'p1',
+  assigneeIds: ['a1'],
+  startDate: '2024-03-04',
+  endDate: '2024-03-06',
+  statusId: 'status-1',
+  typeId: 'type-1',
+  priority: 'high',
+  tagIds: ['t1'],
+  description: 'Ship it',
+  repeatId: 'series-1',
+  estimateHours: 4,
+  milestoneId: null,
+};
+
+describe('taskTemplates', () => {
+  it('keeps the duration and applies it from a new start date', () => {
+    const fields = getTaskTemplateFields(task, null);
+
+    expect(fields).toMatchObject({ title: 'Release checklist', durationDays: 2, rrule: null, tagIds: ['t1'] });
+    expect(getTemplateEndDate(fields, '2024-05-30')).toBe('2024-06-01');
+  });
+
+  it('turns UNTIL into the number of repeats left', () => {
+    expect(getTaskTemplateFields(task, 'FREQ=WEEKLY;UNTIL=20240325').rrule).toBe('FREQ=WEEKLY;COUNT=4');
+    expect(getTaskTemplateFields(task, 'FREQ=DAILY;BYDAY=MO,WE').rrule).toBe('FREQ=DAILY;BYDAY=MO,WE');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { buildTimesheetGrid, formatHours, parseHours } from '@/features/planner/lib/timeTracking';
+import { TimeEntry } from '@/features/planner/types/planner';
+
+const entry = (id: string, taskId: string, date: string, hours: number): TimeEntry => ({
+  id,
+  taskId,
+  assigneeId: 'assignee-1',
+  date,
+  hours,
+  note: null,
+});
+
+describe('time tracking', () => {
+  it('parses hours input', () => {
+    expect(parseHours('1,5')).toBe(1.5);
+    expect(parseHours(' 2 ')).toBe(2);
+    expect(parseHours('')).toBeNull();
+    expect(parseHours('-1')).toBeNull();
+    expect(parseHours('abc')).toBeNull();
+  });
+
+  it('builds the weekly grid with day and task totals', () => {
+    const days = ['2024-03-04', '2024-03-05'];
+    const grid = buildTimesheetGrid([
+      entry('1', 'task-a', '2024-03-04', 1.5),
+      entry('2', 'task-a', '2024-03-04', 0.1),
+      entry('3', 'task-b', '2024-03-05', 2),
+      entry('4', 'task-b', '2024-03-11', 8),
+    ], days);
+
+    expect(grid.rows).toEqual([
+      { taskId: 'task-a', hoursByDay: { '2024-03-04': 1.6 }, total: 1.6 },
+      { taskId: 'task-b', hoursByDay: { '2024-03-05': 2 }, total: 2 },
+    ]);
+    expect(grid.dayTotals).toEqual({ '2024-03-04': 1.6, '2024-03-05': 2 });
+    expect(grid.total).toBe(3.6);
+    expect(formatHours(grid.total)).toBe('3.6h');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildGroupItems,
+  getGroupMoveUpdates,
+  getTaskRowIds,
+  TimelineGroupSources,
+  UNGROUPED_ROW_ID,
+} from '@/features/planner/lib/timelineGroups';
+import { Project, Task } from '@/features/planner/types/planner';
+
+const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  projectId: null,
+  assigneeIds: ['a1'],
+  startDate: '2024-03-07',
+  endDate: '2024-03-08',
+  statusId: 'status-1',
+  typeId: 'type-1',
+  priority: null,
+  tagIds: [],
+  description: null,
+  repeatId: null,
+  estimateHours: null,
+  milestoneId: null,
+  ...overrides,
+});
+
+const createProject = (id: string, customerId: string | null): Project => ({
+  id,
+  name: id,
+  code: null,
+  color: '#3b82f6',
+  archived: false,
+  customerId,
+});
+
+const projects = [createProject('p1', 'c1'), createProject('p2', null)];
+const sources: TimelineGroupSources = {
+  assignees: [
+    { id: 'a1', name: 'Anna', isActive: true, capacityHours: 8 },
+    { id: 'a2', name: 'Boris', isActive: true, capacityHours: 8 },
+  ],
+  projects,
+  customers: [{ id: 'c1', name: 'Acme' }, { id: 'c2', name: 'Globex' }],
+  statuses: [],
+  taskTypes: [],
+  tags: [],
+  memberGroups: [{ id: 'g1', name: 'Design' }],
+  assigneeGroupMap: new Map([['a1', 'g1']]),
+};
+
+describe('timelineGroups', () => {
+  it('nests rows under headers and drops empty headers', () => {
+    const { items, headers } = buildGroupItems('customer_project', sources);
+
+    expect(headers.map((header) => header.name)).toEqual(['Acme', 'No customer']);
+    expect(items.map((item) => [item.id, item.parentId])).toEqual([['p1', 'c1'], ['p2', 'none']]);
+    expect(buildGroupItems('group_assignee', sources).items.map((item) => item.parentId)).toEqual(['g1', 'none']);
+  });
+
+  it('puts a task into every matching row', () => {
+    const projectById = new Map(projects.map((project) => [project.id, project]));
+    const rowIds = new Set(['t1', 't2', 'c1', 'g1']);
+    const task = createTask('task', { projectId: 'p1', tagIds: ['t1', 't2', 'hidden'], assigneeIds: ['a1', 'a2'] });
+
+    expect(getTaskRowIds(task, 'tag', rowIds, projectById, sources.assigneeGroupMap)).toEqual(['t1', 't2']);
+    expect(getTaskRowIds(task, 'customer', rowIds, projectById, sources.assigneeGroupMap)).toEqual(['c1']);
+    expect(getTaskRowIds(task, 'group', rowIds, projectById, sources.assigneeGroupMap)).toEqual(['g1']);
+    expect(getTaskRowIds(createTask('bare', { tagIds: [] }), 'tag', rowIds, projectById, sources.assigneeGroupMap))
+      .toEqual([]);
+  });
+
+  it('maps a drop on another row to a task field', () => {
+    const task = createTask('task', { assigneeIds: ['a1', 'a2'], tagIds: ['t1'] });
+
+    expect(getGroupMoveUpdates(task, 'assignee', 'a1', 'a3')).toEqual({ assigneeIds: ['a2', 'a3'] });
+    expect(getGroupMoveUpdates(task, 'group_assignee', 'a1', 'a2')).toEqual({ assigneeIds: ['a2'] });
+    expect(getGroupMoveUpdates(task, 'tag', 't1', UNGROUPED_ROW_ID)).toEqual({ tagIds: [] });
+    expect(getGroupMoveUpdates(task, 'customer_project', 'p1', UNGROUPED_ROW_ID)).toEqual({ projectId: null });
+    expect(getGroupMoveUpdates(task, 'status', 'status-1', 'status-2')).toEqual({ statusId: 'status-2' });
+    expect(getGroupMoveUpdates(task, 'status', 'status-1', UNGROUPED_ROW_ID)).toBeNull();
+    expect(getGroupMoveUpdates(task, 'customer', 'c1', 'c2')).toBeNull();
+  });
+});
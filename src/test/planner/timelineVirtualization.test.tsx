@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { render } from '@testing-library/react';
+import { addDays, format } from 'date-fns';
+
+vi.mock('@/shared/lib/supabaseClient', () => ({
+  supabase: {
+    auth: {},
+    from: vi.fn(),
+    rpc: vi.fn(),
+    channel: vi.fn(),
+  },
+}));
+
+vi.mock('@/shared/lib/adminConfig', () => ({
+  getAdminUserId: async () => null,
+}));
+
+import { TimelineGrid } from '@/features/planner/components/timeline/TimelineGrid';
+import { usePlannerStore } from '@/features/planner/store/plannerStore';
+import { buildRowOffsets, getDayRange, getRowRange } from '@/features/planner/lib/timelineVirtualization';
+import type { Assignee, Task } from '@/features/planner/types/planner';
+
+const ASSIGNEE_COUNT = 80;
+const TASK_COUNT = 10_000;
+const VIEWPORT = { width: 1280, height: 720 };
+
+describe('timelineVirtualization', () => {
+  it('picks the rows and days around the viewport', () => {
+    const offsets = buildRowOffsets([100, 100, 100, 100]);
+    expect(offsets).toEqual([0, 100, 200, 300, 400]);
+    expect(getRowRange(offsets, 150, 100, 0)).toEqual({ start: 1, end: 3 });
+    expect(getRowRange(offsets, 0, 50, 0)).toEqual({ start: 0, end: 1 });
+    expect(getRowRange([0], 0, 500)).toEqual({ start: 0, end: 0 });
+    expect(getDayRange(480, 480, 48, 100, 96)).toEqual({ start: 8, end: 22 });
+    expect(getDayRange(0, 480, 48, 5, 96)).toEqual({ start: 0, end: 5 });
+  });
+});
+
+describe('TimelineGrid benchmark', () => {
+  const originalSizes = {
+    width: Object.getOwnPropertyDescriptor(HTMLElement.prototype, 'clientWidth'),
+    height: Object.getOwnPropertyDescriptor(HTMLElement.prototype, 'clientHeight'),
+  };
+
+  beforeAll(() => {
+    Object.defineProperty(HTMLElement.prototype, 'clientWidth', { configurable: true, get: () => VIEWPORT.width });
+    Object.defineProperty(HTMLElement.prototype, 'clientHeight', { configurable: true, get: () => VIEWPORT.height });
+  });
+
+  afterAll(() => {
+    if (originalSizes.width) Object.defineProperty(HTMLElement.prototype, 'clientWidth', originalSizes.width);
+    if (originalSizes.height) Object.defineProperty(HTMLElement.prototype, 'clientHeight', originalSizes.height);
+  });
+
+  it('mounts only the viewport slice of 10k tasks', () => {
+    const anchor = new Date(2024, 0, 1);
+    const assignees: Assignee[] = Array.from({ length: ASSIGNEE_COUNT }, (_, index) => ({
+      id: `assignee-${index}`,
+      name: `Member ${String(index).padStart(2, '0')}`,
+      isActive: true,
+      capacityHours: 8,
+    }));
+    const tasks: Task[] = Array.from({ length: TASK_COUNT }, (_, index) => {
+      const start = addDays(anchor, (index * 7) % 365);
+      return {
+        id: `task-${index}`,
+        title: `Task ${index}`,
+        projectId: null,
+        assigneeIds: [assignees[index % ASSIGNEE_COUNT].id],
+        startDate: format(start, 'yyyy-MM-dd'),
+        endDate: format(addDays(start, index % 5), 'yyyy-MM-dd'),
+        statusId: 'status-1',
+        typeId: 'type-1',
+        priority: null,
+        tagIds: [],
+        description: null,
+        repeatId: null,
+        estimateHours: null,
+        milestoneId: null,
+      };
+    });
+    usePlannerStore.setState({
+      tasks,
+      assignees,
+      viewMode: 'week',
+      groupMode: 'assignee',
+      currentDate: '2024-06-03',
+    });
+
+    const startedAt = performance.now();
+    const { container, unmount } = render(<TimelineGrid />);
+    const elapsed = performance.now() - startedAt;
+
+    const mountedBars = container.querySelectorAll('[data-task-id]').length;
+    const mountedRows = new Set(
+      Array.from(container.querySelectorAll('[data-task-id]')).map((element) => element.closest('.border-b')),
+    ).size;
+
+    expect(mountedBars).toBeGreaterThan(0);
+    expect(mountedBars).toBeLessThan(TASK_COUNT / 10);
+    expect(mountedRows).toBeLessThan(ASSIGNEE_COUNT / 2);
+    // Generous budget for slow CI machines; without virtualization this render takes tens of seconds.
+    expect(elapsed).toBeLessThan(15_000);
+    unmount();
+  }, 60_000);
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { getDay } from 'date-fns';
+import {
+  getDayWidth,
+  getPagedDate,
+  getTaskPosition,
+  getVisibleDays,
+} from '@/features/planner/lib/dateUtils';
+
+describe('timeline zoom levels', () => {
+  it('pages month and quarter views by whole months', () => {
+    expect(getPagedDate('2024-01-31', 'month', 1)).toBe('2024-02-29');
+    expect(getPagedDate('2024-05-15', 'quarter', -1)).toBe('2024-02-15');
+  });
+
+  it('starts zoomed-out ranges on a Monday so weeks line up in the header', () => {
+    const days = getVisibleDays('2024-03-06', 'quarter');
+    expect(getDay(days[0])).toBe(1);
+    expect(days.length % 7).toBe(0);
+    expect(days.length).toBeGreaterThan(4 * 365);
+  });
+
+  it('keeps one-day bars visible at the narrowest zoom', () => {
+    const dayWidth = getDayWidth('quarter');
+    const days = getVisibleDays('2024-03-06', 'quarter');
+    const position = getTaskPosition('2024-03-06', '2024-03-06', days, dayWidth);
+    expect(position?.width).toBeGreaterThan(dayWidth / 2);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { isWeekend, parseISO } from 'date-fns';
+import { calculateNewDates, calculateResizedDates, countWorkingDays } from '@/features/planner/lib/dateUtils';
+import { getEasterSunday, getPresetHolidays } from '@/features/planner/lib/holidayPresets';
+import { createCalendarResolver } from '@/features/planner/lib/workingCalendar';
+
+describe('working calendar', () => {
+  it('resolves moving holidays of the bundled presets', () => {
+    expect(getEasterSunday(2024)).toEqual(new Date(2024, 2, 31));
+    const us = getPresetHolidays('US', 2024);
+    expect(us.get('2024-11-28')).toEqual(['Thanksgiving Day']);
+    expect(us.get('2024-05-27')).toEqual(['Memorial Day']);
+    expect(getPresetHolidays('GB', 2024).get('2024-03-29')).toEqual(['Good Friday']);
+    expect(getPresetHolidays(null, 2024).size).toBe(0);
+  });
+
+  it('applies custom days over presets and weekly days off', () => {
+    const calendar = createCalendarResolver({
+      countryCode: 'RU',
+      weekendDays: [5, 6],
+      days: [
+        { id: '1', date: '2024-11-02', kind: 'workday', name: null },
+        { id: '2', date: '2024-11-05', kind: 'holiday', name: 'Offsite' },
+      ],
+      keepWorkingDuration: false,
+    });
+
+    expect(calendar.isWorkingDay(parseISO('2024-11-04'))).toBe(false);
+    expect(calendar.getHolidayNames(parseISO('2024-11-04'))).toEqual(['День народного единства']);
+    expect(calendar.isWorkingDay(parseISO('2024-11-05'))).toBe(false);
+    expect(calendar.getHolidayNames(parseISO('2024-11-05'))).toEqual(['Offsite']);
+    expect(calendar.isWorkingDay(parseISO('2024-11-01'))).toBe(false);
+    expect(calendar.isWorkingDay(parseISO('2024-11-02'))).toBe(true);
+    expect(calendar.isWorkingDay(parseISO('2024-11-03'))).toBe(true);
+  });
+
+  it('keeps the working-day duration when a task is moved', () => {
+    const isWorkingDay = (date: Date) => !isWeekend(date);
+    // Wed–Fri moved by two days lands on Fri and ends on Tue.
+    expect(calculateNewDates('2024-03-06', '2024-03-08', 2, isWorkingDay)).toEqual({
+      startDate: '2024-03-08',
+      endDate: '2024-03-12',
+    });
+    // A start dropped on Saturday snaps forward, or backward when dragging left.
+    expect(calculateNewDates('2024-03-07', '2024-03-07', 2, isWorkingDay).startDate).toBe('2024-03-11');
+    expect(calculateNewDates('2024-03-11', '2024-03-11', -2, isWorkingDay).startDate).toBe('2024-03-08');
+    expect(calculateResizedDates('2024-03-06', '2024-03-08', 'right', 2, isWorkingDay).endDate).toBe('2024-03-08');
+    expect(countWorkingDays('2024-03-08', '2024-03-12', isWorkingDay)).toBe(3);
+    expect(calculateNewDates('2024-03-06', '2024-03-08', 2)).toEqual({
+      startDate: '2024-03-08',
+      endDate: '2024-03-10',
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseISO } from 'date-fns';
+import { buildWorkload } from '@/features/planner/lib/workload';
+import { Assignee, Task } from '@/features/planner/types/planner';
+
+const assignee: Assignee = { id: 'a1', name: 'Anna', isActive: true, capacityHours: 8 };
+
+const createTask = (id: string, startDate: string, endDate: string, estimateHours: number | null): Task => ({
+  id,
+  title: id,
+  projectId: null,
+  assigneeIds: ['a1'],
+  startDate,
+  endDate,
+  statusId: 'status-1',
+  typeId: 'type-1',
+  priority: null,
+  tagIds: [],
+  description: null,
+  repeatId: null,
+  estimateHours,
+  milestoneId: null,
+});
+
+const days = ['2024-03-07', '2024-03-08', '2024-03-09'].map((date) => parseISO(date));
+
+describe('workload', () => {
+  it('spreads estimates over working days and skips weekends', () => {
+    const workload = buildWorkload([
+      createTask('estimated', '2024-03-07', '2024-03-09', 6),
+    ], [assignee], days).get('a1');
+
+    expect(workload?.map((day) => day.load)).toEqual([3, 3, 0]);
+    expect(workload?.map((day) => day.capacity)).toEqual([8, 8, 0]);
+  });
+
+  it('counts tasks without an estimate as a full working day', () => {
+    const workload = buildWorkload([
+      createTask('estimated', '2024-03-08', '2024-03-08', 2),
+      createTask('open', '2024-03-08', '2024-03-08', null),
+    ], [assignee], days).get('a1');
+
+    expect(workload?.[1].load).toBe(10);
+    expect(workload?.[1].tasks.map((item) => item.taskId)).toEqual(['estimated', 'open']);
+  });
+});
@@ -157,6 +157,8 @@ describe('Smoke: key user workflows', () => {
       tagIds: ['tag-1'],
       description: 'Task from smoke test',
       repeatId: null,
+      estimateHours: null,
+      milestoneId: null,
     });
 
     expect(insert).toHaveBeenCalledWith(expect.objectContaining({